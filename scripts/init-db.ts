@@ -0,0 +1,40 @@
+/**
+ * Inicializa (o pone al día) la base de datos: aplica todas las migraciones
+ *
+ *   npm run db:init
+ *
+ * Con SQLite no hace falta: storage-sqlite.ts crea las tablas al abrir el archivo.
+ */
+
+import 'dotenv/config';
+import { obtenerDriverBD, sql } from '../src/lib/db';
+import { cargarMigraciones, migrarHasta } from '../src/lib/db-migrations';
+
+async function main() {
+  const driver = obtenerDriverBD();
+  if (driver === 'sqlite') {
+    console.log('ℹ️ DB_DRIVER=sqlite: las tablas se crean solas al arrancar, no hay nada que inicializar');
+    return;
+  }
+
+  console.log(`🗄️ Inicializando base de datos (${driver})...`);
+  const migraciones = cargarMigraciones();
+  const aplicadas = await migrarHasta(undefined, migraciones);
+  console.log(`✅ Migraciones: ${aplicadas.length} aplicada(s), ${migraciones.length - aplicadas.length} ya estaban`);
+
+  const tablas = await sql`
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = current_schema() AND table_type = 'BASE TABLE'
+    ORDER BY table_name
+  ` as Array<{ table_name: string }>;
+  console.log(`📊 Tablas: ${tablas.map(t => t.table_name).join(', ')}`);
+  console.log('✨ ¡Base de datos lista para usar!');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
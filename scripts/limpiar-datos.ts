@@ -0,0 +1,31 @@
+/**
+ * Limpia datos derivados que ya no sirven (no toca análisis ni biblioteca)
+ *
+ *   npm run db:clean
+ *
+ * - Jobs completados o fallidos hace más de 24 h
+ * - Transiciones calculadas obsoletas (otra versión del algoritmo o tracks re-analizados)
+ */
+
+import 'dotenv/config';
+import { sql } from '../src/lib/db';
+import { limpiarJobsAntiguos } from '../src/lib/analysis-jobs';
+import { limpiarTransicionesObsoletas } from '../src/lib/db-transitions';
+
+async function main() {
+  const jobs = await limpiarJobsAntiguos();
+  console.log(`🧹 Jobs antiguos borrados: ${jobs}`);
+
+  // Con SQLite no hay caché de transiciones
+  if (sql) {
+    const transiciones = await limpiarTransicionesObsoletas();
+    console.log(`🧹 Transiciones obsoletas borradas: ${transiciones}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
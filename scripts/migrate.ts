@@ -0,0 +1,74 @@
+/**
+ * Migraciones del esquema (ver src/lib/db-migrations.ts)
+ *
+ *   npm run db:migrate              → Aplica todas las pendientes
+ *   npm run db:migrate -- up 3      → Aplica hasta la 003
+ *   npm run db:migrate -- down 2    → Revierte hasta dejar la 002 (down 0 = todas)
+ *   npm run db:migrate -- status    → Aplicadas, pendientes y modificadas
+ */
+
+import 'dotenv/config';
+import {
+  cargarMigraciones,
+  estadoMigraciones,
+  migrarHasta,
+  revertirHasta,
+} from '../src/lib/db-migrations';
+
+function leerVersion(valor: string | undefined): number | undefined {
+  if (valor === undefined) return undefined;
+  const version = Number(valor);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Versión inválida: ${valor}`);
+  }
+  return version;
+}
+
+async function main() {
+  const [comando = 'up', argumento] = process.argv.slice(2);
+  const migraciones = cargarMigraciones();
+
+  switch (comando) {
+    case 'up': {
+      const aplicadas = await migrarHasta(leerVersion(argumento), migraciones);
+      console.log(aplicadas.length > 0
+        ? `✅ ${aplicadas.length} migración(es) aplicada(s)`
+        : '✅ El esquema ya estaba al día');
+      break;
+    }
+
+    case 'down': {
+      const objetivo = leerVersion(argumento);
+      if (objetivo === undefined) throw new Error('Indica la versión a la que volver: db:migrate -- down <versión>');
+      const revertidas = await revertirHasta(objetivo, migraciones);
+      console.log(`✅ ${revertidas.length} migración(es) revertida(s)`);
+      break;
+    }
+
+    case 'status': {
+      const estado = await estadoMigraciones(migraciones);
+      const modificadas = new Set(estado.modificadas.map(m => m.version));
+      for (const fila of estado.aplicadas) {
+        const marca = modificadas.has(fila.version) ? '⚠️  modificada' : '✅';
+        console.log(`${marca} ${String(fila.version).padStart(3, '0')} ${fila.nombre} (${new Date(fila.fecha_aplicada).toISOString()})`);
+      }
+      for (const migracion of estado.pendientes) {
+        console.log(`⏳ ${String(migracion.version).padStart(3, '0')} ${migracion.nombre} (pendiente)`);
+      }
+      for (const fila of estado.desconocidas) {
+        console.log(`❓ ${String(fila.version).padStart(3, '0')} ${fila.nombre} (no existe en src/db/migrations)`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Comando desconocido: ${comando} (usa up, down o status)`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,54 @@
+// ============================================================================
+// CORRECCIONES MANUALES DEL ANÁLISIS
+// ============================================================================
+// PATCH /api/analysis-corrections
+//   { hash, bpm?, tonalidad?, grid?: { desplazamientoMs?, estiramiento?, desplazarTiempos? },
+//     timeline?: [{ op: 'dividir' | 'unir' | 'etiquetar', indice, ... }],
+//     bloqueos?: { bpm?, tonalidad?, grid?, timeline? } }
+//
+// Cada campo corregido queda bloqueado: los re-análisis no lo sobrescriben.
+// bloqueos: { campo: false } lo desbloquea (el próximo análisis vuelve a mandar)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { guardarCorrecciones, obtenerCancionPorHash } from '@/lib/db-persistence';
+import { aplicarCorrecciones, CorreccionInvalidaError, type CorreccionesAnalisis } from '@/lib/analysis-corrections';
+
+export async function PATCH(request: NextRequest) {
+  let body: CorreccionesAnalisis & { hash?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  const { hash, ...correcciones } = body ?? {};
+  if (typeof hash !== 'string' || !hash) {
+    return NextResponse.json({ error: 'Se requiere el hash de la canción' }, { status: 400 });
+  }
+
+  try {
+    const cancion = await obtenerCancionPorHash(hash);
+    if (!cancion) {
+      return NextResponse.json({ error: 'Canción no encontrada' }, { status: 404 });
+    }
+
+    const resultado = aplicarCorrecciones(cancion, correcciones);
+    await guardarCorrecciones(hash, resultado);
+
+    return NextResponse.json({ success: true, cancion: await obtenerCancionPorHash(hash) });
+
+  } catch (error: any) {
+    if (error instanceof CorreccionInvalidaError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ Error guardando correcciones:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error guardando correcciones' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
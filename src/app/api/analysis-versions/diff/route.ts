@@ -0,0 +1,73 @@
+// ============================================================================
+// DIFERENCIAS ENTRE VERSIONES DE ANÁLISIS
+// ============================================================================
+// GET /api/analysis-versions/diff?hash=abc&from=1&to=3
+//   from: por defecto la versión activa · to: por defecto la más reciente
+//
+// Respuesta: cambios de BPM, tonalidad, compás, grid de downbeats y
+// segmentos del timeline (ADDED / REMOVED / CHANGED con LABEL, BOUNDS, VOCALS)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PostgresRequeridoError } from '@/lib/db';
+import { diffVersiones, listarVersiones, obtenerVersionPorNumero } from '@/lib/analysis-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function leerNumeroVersion(valor: string | null): number | undefined | null {
+  if (valor === null || valor.trim() === '') return undefined;
+  const numero = Number(valor);
+  return Number.isInteger(numero) && numero > 0 ? numero : null;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const hash = searchParams.get('hash');
+  const from = leerNumeroVersion(searchParams.get('from'));
+  let to = leerNumeroVersion(searchParams.get('to'));
+
+  if (!hash) {
+    return NextResponse.json(
+      { error: 'Se requiere el parámetro hash' },
+      { status: 400 }
+    );
+  }
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: 'from y to deben ser números de versión (enteros >= 1)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (to === undefined) {
+      const [ultima] = await listarVersiones(hash);
+      to = ultima?.numero;
+    }
+
+    const [desde, hasta] = await Promise.all([
+      obtenerVersionPorNumero(hash, from),
+      to === undefined ? null : obtenerVersionPorNumero(hash, to),
+    ]);
+
+    if (!desde || !hasta) {
+      return NextResponse.json(
+        { error: 'Versión no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, diff: diffVersiones(desde, hasta) });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error comparando versiones:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error comparando versiones' },
+      { status: 500 }
+    );
+  }
+}
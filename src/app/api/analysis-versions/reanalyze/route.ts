@@ -0,0 +1,114 @@
+// ============================================================================
+// RE-ANÁLISIS CON NUEVA VERSIÓN
+// ============================================================================
+// POST /api/analysis-versions/reanalyze
+//   { hashes, stage?: 'essentia' | 'gemini', activate?: boolean, motivo?: string }
+//
+// Crea una versión nueva por canción y la encola en la cola de análisis.
+// stage 'gemini' reutiliza el análisis Essentia de la versión activa (prompt nuevo).
+// activate: la versión pasa a ser la activa al completarse (por defecto no:
+// se compara primero con /api/analysis-versions/diff y se activa a mano)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PostgresRequeridoError } from '@/lib/db';
+import { obtenerCancionPorHash } from '@/lib/db-persistence';
+import { encolarJobAnalisis, obtenerUltimoJobPorHash, resumirJob, type JobStage } from '@/lib/analysis-jobs';
+import { despertarWorkersAnalisis, iniciarWorkersAnalisis } from '@/lib/analysis-worker';
+import { asegurarVersionInicial, crearVersionAnalisis, obtenerVersionPorNumero } from '@/lib/analysis-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_HASHES = 500;
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      hashes,
+      stage = 'essentia',
+      activate = false,
+      motivo
+    }: {
+      hashes: string[];
+      stage?: JobStage;
+      activate?: boolean;
+      motivo?: string;
+    } = await request.json();
+
+    if (!Array.isArray(hashes) || hashes.length === 0 || hashes.some(h => typeof h !== 'string')) {
+      return NextResponse.json(
+        { error: 'Se requiere un array de hashes' },
+        { status: 400 }
+      );
+    }
+    if (hashes.length > MAX_HASHES) {
+      return NextResponse.json(
+        { error: `Máximo ${MAX_HASHES} canciones por petición` },
+        { status: 400 }
+      );
+    }
+    if (stage !== 'essentia' && stage !== 'gemini') {
+      return NextResponse.json(
+        { error: 'stage inválido. Usa essentia o gemini' },
+        { status: 400 }
+      );
+    }
+    if (typeof activate !== 'boolean' || (motivo !== undefined && typeof motivo !== 'string')) {
+      return NextResponse.json(
+        { error: 'activate debe ser booleano y motivo texto' },
+        { status: 400 }
+      );
+    }
+
+    iniciarWorkersAnalisis();
+
+    const resultados = [];
+    for (const hash of [...new Set(hashes)]) {
+      try {
+        const cancion = await obtenerCancionPorHash(hash);
+        if (!cancion) {
+          resultados.push({ hash, job: null, versionId: null, error: 'La canción no está analizada' });
+          continue;
+        }
+
+        const activo = await obtenerUltimoJobPorHash(hash);
+        if (activo && (activo.status === 'pending' || activo.status === 'processing')) {
+          resultados.push({ hash, job: resumirJob(activo), versionId: null, error: 'Ya hay un análisis en curso' });
+          continue;
+        }
+
+        // Lo analizado antes de existir las versiones queda como versión 1 para poder comparar
+        await asegurarVersionInicial(hash);
+        const base = stage === 'gemini' ? await obtenerVersionPorNumero(hash) : null;
+        const versionId = await crearVersionAnalisis({
+          hash,
+          motivo: motivo?.trim() || null,
+          activarAlCompletar: activate,
+          desdeVersionId: base?.id,
+        });
+
+        const job = await encolarJobAnalisis({ hash, fileName: null, mimeType: null, stage, versionId });
+        resultados.push({ hash, job: resumirJob(job), versionId });
+      } catch (error: any) {
+        if (error instanceof PostgresRequeridoError) throw error;
+        console.error(`❌ Error re-analizando ${hash}:`, error);
+        resultados.push({ hash, job: null, versionId: null, error: error.message });
+      }
+    }
+
+    despertarWorkersAnalisis();
+
+    return NextResponse.json({ success: true, resultados });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error encolando re-análisis:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error encolando re-análisis' },
+      { status: 500 }
+    );
+  }
+}
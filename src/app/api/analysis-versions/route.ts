@@ -0,0 +1,86 @@
+// ============================================================================
+// VERSIONES DE ANÁLISIS
+// ============================================================================
+// GET /api/analysis-versions?hash=abc → Versiones de la canción (la más reciente primero)
+// POST /api/analysis-versions { hash, numero } → Activa esa versión (pasa a canciones_analizadas)
+// Re-analizar: /api/analysis-versions/reanalyze · Comparar: /api/analysis-versions/diff
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PostgresRequeridoError } from '@/lib/db';
+import { activarVersion, listarVersiones, obtenerVersionPorNumero } from '@/lib/analysis-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const hash = new URL(request.url).searchParams.get('hash');
+  if (!hash) {
+    return NextResponse.json(
+      { error: 'Se requiere el parámetro hash' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const versiones = await listarVersiones(hash);
+    return NextResponse.json({ success: true, versiones });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error listando versiones:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error listando versiones' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { hash, numero }: { hash?: string; numero?: number } = await request.json();
+
+    if (!hash || !Number.isInteger(numero)) {
+      return NextResponse.json(
+        { error: 'Se requieren hash y numero (entero)' },
+        { status: 400 }
+      );
+    }
+
+    const version = await obtenerVersionPorNumero(hash, numero);
+    if (!version) {
+      return NextResponse.json(
+        { error: `La canción no tiene versión ${numero}` },
+        { status: 404 }
+      );
+    }
+    if (!version.fecha_essentia) {
+      return NextResponse.json(
+        { error: `La versión ${numero} aún no tiene análisis Essentia` },
+        { status: 409 }
+      );
+    }
+
+    const activada = await activarVersion(hash, version.id);
+    if (!activada) {
+      return NextResponse.json(
+        { error: 'La canción no está en la base de datos' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, versiones: await listarVersiones(hash) });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error activando versión:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error activando versión' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { existeCancionPorHash, obtenerCancionPorHash } from '@/lib/db-persistence';
 import { analizarAudioCompleto } from '@/lib/audio-analyzer-unified';
 import { guardarAnalisisEnDB } from '@/lib/db-persistence';
+import { extraerMetadatos } from '@/lib/audio-metadata';
+import { cacheAudioBuffer, resolveMimeType } from '@/lib/audio-cache';
 import { obtenerRateLimiter } from '@/lib/gemini-rate-limiter';
 import { createHash } from 'crypto';
 
@@ -69,6 +71,14 @@ export async function POST(request: NextRequest) {
         const fileBuffer = Buffer.from(buffer);
         const hash = calcularHashBuffer(fileBuffer);
 
+        // Guardar el audio en el servidor (/api/audio/{hash})
+        await cacheAudioBuffer({
+          hash,
+          buffer: fileBuffer,
+          fileName: file.name,
+          mimeType: resolveMimeType(file.name, file.type),
+        });
+
         // 1. Verificar si ya existe en DB
         const existente = await obtenerCancionPorHash(hash);
 
@@ -77,7 +87,7 @@ export async function POST(request: NextRequest) {
           resultados.push({
             nombre: file.name,
             titulo: existente.titulo || file.name,
-            artista: 'Desconocido',
+            artista: existente.artista || 'Desconocido',
             bpm: existente.bpm || 0,
             tonalidad_camelot: existente.tonalidad_camelot || '',
             bailabilidad: existente.bailabilidad || 0,
@@ -92,10 +102,12 @@ export async function POST(request: NextRequest) {
             disable: { vocal: true, spectral: true, loudness_detailed: true }
           });
 
-          // 3. Guardar en DB
+          // 3. Guardar en DB (con los tags del archivo)
+          const metadatos = await extraerMetadatos(fileBuffer, file.name, file.type || undefined);
           await guardarAnalisisEnDB({
             hash,
             titulo: file.name.replace(/\.[^/.]+$/, ''),
+            metadatos,
             analisis
           });
 
@@ -104,7 +116,7 @@ export async function POST(request: NextRequest) {
           resultados.push({
             nombre: file.name,
             titulo: file.name,
-            artista: 'Desconocido',
+            artista: metadatos.artista || 'Desconocido',
             bpm: analisis.bpm,
             tonalidad_camelot: analisis.tonalidad_camelot,
             bailabilidad: analisis.bailabilidad,
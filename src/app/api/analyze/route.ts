@@ -8,6 +8,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analizarAudioCompleto } from '@/lib/audio-analyzer-unified';
 import { obtenerCancionPorHash, guardarAnalisisEnDB } from '@/lib/db-persistence';
+import { extraerMetadatos, separarNombreArchivo } from '@/lib/audio-metadata';
+import { cacheAudioBuffer, resolveMimeType } from '@/lib/audio-cache';
 import {
   crearJobAnalisis,
   marcarJobEnProceso,
@@ -76,6 +78,14 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(arrayBuffer);
     const hash = calcularHashBuffer(buffer);
 
+    // Guardar el audio en el servidor (/api/audio/{hash})
+    await cacheAudioBuffer({
+      hash,
+      buffer,
+      fileName: file.name,
+      mimeType: resolveMimeType(file.name, file.type),
+    });
+
     // Crear job de análisis
     jobId = await crearJobAnalisis(hash);
     console.log(`   📝 Job creado: ${jobId}`);
@@ -139,20 +149,15 @@ export async function POST(request: NextRequest) {
     console.log(`   ✅ Essentia: ${tiempoAnalisis}s`);
     console.log(`      BPM: ${analisisEssentia.bpm.toFixed(1)} | ${analisisEssentia.tonalidad_camelot}`);
 
-    const nombreSinExt = file.name.replace(/\.[^/.]+$/, '');
-    let titulo = nombreSinExt;
-    let artista = 'Desconocido';
-
-    if (nombreSinExt.includes(' - ')) {
-      const [art, tit] = nombreSinExt.split(' - ').map(s => s.trim());
-      artista = art;
-      titulo = tit;
-    }
+    const { titulo } = separarNombreArchivo(file.name);
+    const metadatos = await extraerMetadatos(buffer, file.name, file.type || undefined);
+    const artista = metadatos.artista || 'Desconocido';
 
     await actualizarProgresoJob(jobId, 70, 'Guardando en base de datos...');
     const idDB = await guardarAnalisisEnDB({
       hash,
       titulo,
+      metadatos,
       analisis: analisisEssentia
     });
 
@@ -176,7 +181,12 @@ export async function POST(request: NextRequest) {
         id: idDB,
         hash_archivo: hash,
         titulo,
-        artista
+        artista,
+        album: metadatos.album,
+        anio: metadatos.anio,
+        genero: metadatos.genero,
+        sello: metadatos.sello,
+        isrc: metadatos.isrc
       },
       // ANÁLISIS COMPLETO DE ESSENTIA (TODOS LOS CAMPOS)
       analisis: analisisEssentia
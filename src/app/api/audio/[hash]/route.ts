@@ -0,0 +1,103 @@
+// ============================================================================
+// AUDIO POR HASH
+// ============================================================================
+// GET /api/audio/{hash}  → Audio original (almacén por hash o biblioteca local)
+// HEAD /api/audio/{hash} → Solo cabeceras (tamaño, tipo, ETag)
+//
+// Soporta Range (bytes=0-1023, bytes=1024-, bytes=-1024) → 206 / 416, e
+// If-None-Match / If-Range. El ETag es el propio hash: el contenido de un
+// hash no cambia nunca, así que el navegador puede cachearlo sin revalidar.
+// Un archivo de la biblioteca editado desde el último escaneo no se sirve
+// con el hash antiguo (404 hasta que el escaneo lo registre de nuevo).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import { esHashAudio, obtenerAudioAlmacenado, resolveMimeType } from '@/lib/audio-cache';
+import { coincideEtag, parsearRango } from '@/lib/http-range';
+import { obtenerRutaAudioDeBiblioteca } from '@/lib/library-scanner';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ hash: string }> };
+
+async function servirAudio(request: NextRequest, context: RouteContext, conCuerpo: boolean) {
+  const { hash } = await context.params;
+
+  if (!esHashAudio(hash)) {
+    return NextResponse.json(
+      { error: 'Hash inválido (se esperan 64 caracteres hexadecimales)' },
+      { status: 400 }
+    );
+  }
+
+  const almacenado = await obtenerAudioAlmacenado(hash);
+  const rutaBiblioteca = almacenado ? null : await obtenerRutaAudioDeBiblioteca(hash);
+  const ruta = almacenado?.path ?? rutaBiblioteca;
+  if (!ruta) {
+    return NextResponse.json(
+      { error: 'No hay audio en el servidor para este hash (súbelo o añádelo a la biblioteca)' },
+      { status: 404 }
+    );
+  }
+
+  const { size } = await stat(ruta);
+  const etag = `"${hash}"`;
+  const cabeceras: Record<string, string> = {
+    'Accept-Ranges': 'bytes',
+    'Content-Type': almacenado?.mimeType ?? resolveMimeType(basename(ruta)),
+    'ETag': etag,
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  };
+
+  if (coincideEtag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers: cabeceras });
+  }
+
+  // If-Range con otro ETag: el cliente tiene otra versión, se le manda entero
+  const ifRange = request.headers.get('if-range');
+  const rango = ifRange && ifRange !== etag ? null : parsearRango(request.headers.get('range'), size);
+
+  if (rango === 'invalido') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...cabeceras, 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  const inicio = rango?.inicio ?? 0;
+  const fin = rango?.fin ?? size - 1;
+  cabeceras['Content-Length'] = String(size === 0 ? 0 : fin - inicio + 1);
+  if (rango) cabeceras['Content-Range'] = `bytes ${inicio}-${fin}/${size}`;
+
+  const cuerpo = conCuerpo && size > 0
+    ? Readable.toWeb(createReadStream(ruta, { start: inicio, end: fin })) as ReadableStream
+    : null;
+
+  return new NextResponse(cuerpo, { status: rango ? 206 : 200, headers: cabeceras });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    return await servirAudio(request, context, true);
+  } catch (error: any) {
+    console.error('❌ Error sirviendo audio:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error sirviendo audio' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  try {
+    return await servirAudio(request, context, false);
+  } catch (error: any) {
+    console.error('❌ Error sirviendo audio:', error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// ============================================================================
+// IMPORTAR DESDE SOFTWARE DJ
+// ============================================================================
+// POST /api/dj-export/import?formato=rekordbox|traktor|serato[&raiz=][&nombre=]
+//   Cuerpo: el archivo tal cual (XML, NML o .crate)
+//   → { coleccion, sinReconocer } con el hash de cada pista reconocida
+//
+// Lee lo mismo que escribe GET /api/dj-export (grid, tonalidad, cues, loops,
+// listas) sin tocar la base de datos. raiz: la misma que se usó al exportar.
+// nombre: nombre de la lista de un crate (el crate no lo guarda).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExportacionDJError, FORMATOS_DJ, resolverHashesColeccion, type FormatoDJ } from '@/lib/dj-export';
+import { importarRekordbox } from '@/lib/dj-export-rekordbox';
+import { importarTraktor } from '@/lib/dj-export-traktor';
+import { importarSerato } from '@/lib/dj-export-serato';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const formato = searchParams.get('formato') as FormatoDJ | null;
+    const raiz = searchParams.get('raiz')?.trim() || undefined;
+
+    if (!formato || !FORMATOS_DJ.includes(formato)) {
+      return NextResponse.json(
+        { error: `formato debe ser uno de: ${FORMATOS_DJ.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const datos = Buffer.from(await request.arrayBuffer());
+    if (datos.length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere el archivo en el cuerpo de la petición' },
+        { status: 400 }
+      );
+    }
+    if (datos.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `Archivo demasiado grande (máximo ${MAX_IMPORT_BYTES / 1024 / 1024} MB)` },
+        { status: 413 }
+      );
+    }
+
+    const coleccion = formato === 'rekordbox'
+      ? importarRekordbox(datos.toString('utf8'))
+      : formato === 'traktor'
+        ? importarTraktor(datos.toString('utf8'))
+        : importarSerato(datos, searchParams.get('nombre')?.trim() || 'Serato');
+    const sinReconocer = await resolverHashesColeccion(coleccion, raiz);
+
+    return NextResponse.json({ success: true, coleccion, sinReconocer });
+
+  } catch (error: any) {
+    if (error instanceof ExportacionDJError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('❌ Error importando de software DJ:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error importando' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// ============================================================================
+// EXPORTAR A SOFTWARE DJ
+// ============================================================================
+// GET /api/dj-export?formato=rekordbox&sesion=<id> → XML de Rekordbox con la sesión como lista
+// GET /api/dj-export?formato=traktor&hashes=a,b,c → NML de Traktor con esas canciones
+// GET /api/dj-export?formato=serato&sesion=<id> → crate de Serato (solo la lista)
+//
+// Lleva grid, tonalidad, hot cues del planner (color por estrategia), loops
+// guardados y secciones como memory cues. raiz=/Volumes/USB/musica sustituye la
+// carpeta de la biblioteca en las rutas (la música del USB de los CDJ).
+// Las canciones sin audio en el servidor se omiten (cabecera X-Omitidas).
+// Vuelta atrás: POST /api/dj-export/import
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { construirColeccionDJ, ExportacionDJError, FORMATOS_DJ, type FormatoDJ } from '@/lib/dj-export';
+import { exportarRekordbox } from '@/lib/dj-export-rekordbox';
+import { exportarTraktor } from '@/lib/dj-export-traktor';
+import { exportarSerato } from '@/lib/dj-export-serato';
+import { obtenerSesionMix } from '@/lib/mix-sessions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const LISTA_POR_DEFECTO = 'DJ Mixer';
+
+const ARCHIVOS: Record<FormatoDJ, { extension: string; tipo: string }> = {
+  rekordbox: { extension: 'xml', tipo: 'application/xml; charset=utf-8' },
+  traktor: { extension: 'nml', tipo: 'application/xml; charset=utf-8' },
+  serato: { extension: 'crate', tipo: 'application/octet-stream' },
+};
+
+// Nombre de archivo seguro para Content-Disposition
+const nombreArchivo = (nombre: string) => nombre.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'dj-mixer';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const formato = searchParams.get('formato') as FormatoDJ | null;
+    const sesionId = searchParams.get('sesion');
+    const hashes = searchParams.get('hashes')?.split(',').map(h => h.trim()).filter(Boolean) ?? [];
+    const raiz = searchParams.get('raiz')?.trim() || undefined;
+
+    if (!formato || !FORMATOS_DJ.includes(formato)) {
+      return NextResponse.json(
+        { error: `formato debe ser uno de: ${FORMATOS_DJ.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!sesionId && hashes.length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere sesion o hashes' },
+        { status: 400 }
+      );
+    }
+
+    let lista: string | undefined;
+    if (sesionId) {
+      const sesion = await obtenerSesionMix(sesionId);
+      if (!sesion) {
+        return NextResponse.json(
+          { error: 'Sesión no encontrada' },
+          { status: 404 }
+        );
+      }
+      hashes.unshift(...sesion.pistas.map(p => p.hash));
+      lista = sesion.nombre;
+    } else if (formato === 'serato') {
+      // Un crate es siempre una lista
+      lista = LISTA_POR_DEFECTO;
+    }
+
+    const { coleccion, omitidas } = await construirColeccionDJ({ hashes, lista, raiz });
+    if (omitidas.length > 0) {
+      console.warn(`⚠️ Exportación ${formato}: ${omitidas.length} canción(es) omitida(s) sin audio en el servidor`);
+    }
+
+    const cuerpo = formato === 'rekordbox'
+      ? exportarRekordbox(coleccion)
+      : formato === 'traktor'
+        ? exportarTraktor(coleccion)
+        : new Uint8Array(exportarSerato(coleccion));
+    const { extension, tipo } = ARCHIVOS[formato];
+
+    return new NextResponse(cuerpo, {
+      headers: {
+        'Content-Type': tipo,
+        'Content-Disposition': `attachment; filename="${nombreArchivo(lista ?? LISTA_POR_DEFECTO)}.${extension}"`,
+        'X-Omitidas': String(omitidas.length),
+      },
+    });
+
+  } catch (error: any) {
+    if (error instanceof ExportacionDJError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    console.error('❌ Error exportando a software DJ:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error exportando' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,39 +4,14 @@ import { analizarConGeminiDJ } from '@/lib/gemini-optimizer';
 import type { CancionAnalizada, EstructuraMusical, BloqueVocal, LoopTransicion, TimelineSegment } from '@/lib/db';
 import { GoogleGenAI } from '@google/genai';
 import { createHash } from 'crypto';
-import { writeFile, unlink, mkdir, readFile } from 'fs/promises';
-import { join, extname } from 'path';
+import { unlink } from 'fs/promises';
 import { marcarJobCompletado, actualizarProgresoJob } from '@/lib/analysis-jobs';
+import { cacheAudioBuffer, loadCachedAudio, resolveMimeType } from '@/lib/audio-cache';
 
 // --- DEFINICIONES Y CONSTANTES ---
 
-const AUDIO_CACHE_DIR = join(process.cwd(), '.cache', 'gemini-audio');
 const MAX_INLINE_AUDIO_BYTES = 20 * 1024 * 1024; // 20MB
 
-const MIME_EXTENSION_MAP: Record<string, string> = {
-  'audio/mpeg': '.mp3',
-  'audio/mp3': '.mp3',
-  'audio/wav': '.wav',
-  'audio/x-wav': '.wav',
-  'audio/aac': '.aac',
-  'audio/m4a': '.m4a',
-  'audio/x-m4a': '.m4a',
-  'audio/flac': '.flac',
-  'audio/ogg': '.ogg',
-  'audio/aiff': '.aiff',
-  'audio/x-aiff': '.aiff',
-};
-
-const EXTENSION_MIME_MAP: Record<string, string> = {
-  '.mp3': 'audio/mpeg',
-  '.wav': 'audio/wav',
-  '.aac': 'audio/aac',
-  '.m4a': 'audio/m4a',
-  '.flac': 'audio/flac',
-  '.ogg': 'audio/ogg',
-  '.aiff': 'audio/aiff',
-};
-
 type AudioSource = 'form-data' | 'json-base64' | 'json-url' | 'json-cache';
 
 class ClientFacingError extends Error {
@@ -48,12 +23,6 @@ class ClientFacingError extends Error {
   }
 }
 
-interface CachedAudio {
-  buffer: Buffer;
-  fileName: string;
-  mimeType: string;
-}
-
 // Nueva respuesta DJ-Centric
 interface GeminiEnriquecidoResponse {
   vocales_clave: BloqueVocal[];
@@ -65,78 +34,6 @@ interface GeminiEnriquecidoResponse {
 
 // --- FUNCIONES AUXILIARES ---
 
-async function ensureCacheDir(): Promise<void> {
-  await mkdir(AUDIO_CACHE_DIR, { recursive: true });
-}
-
-function normalizeMime(mime?: string | null): string | undefined {
-  if (!mime) return undefined;
-  const normalized = mime.split(';')[0].trim().toLowerCase();
-  return normalized || undefined;
-}
-
-function resolveMimeType(fileName: string, explicitMime?: string | null): string {
-  const normalizedExplicit = normalizeMime(explicitMime);
-  if (normalizedExplicit && normalizedExplicit.startsWith('audio/')) {
-    return normalizedExplicit === 'audio/mp3' ? 'audio/mpeg' : normalizedExplicit;
-  }
-
-  const ext = extname(fileName || '').toLowerCase();
-  if (ext && EXTENSION_MIME_MAP[ext]) {
-    return EXTENSION_MIME_MAP[ext];
-  }
-
-  return normalizedExplicit || 'audio/mpeg';
-}
-
-function inferExtension(mimeType?: string | null): string {
-  if (!mimeType) return '.mp3';
-  const normalized = normalizeMime(mimeType);
-  if (normalized && MIME_EXTENSION_MAP[normalized]) {
-    return MIME_EXTENSION_MAP[normalized];
-  }
-  return '.mp3';
-}
-
-async function cacheAudioBuffer(params: { hash: string; buffer: Buffer; fileName: string; mimeType: string }): Promise<void> {
-  try {
-    await ensureCacheDir();
-    const ext = extname(params.fileName) || inferExtension(params.mimeType);
-    const normalizedExt = ext.startsWith('.') ? ext : `.${ext}`;
-    const audioPath = join(AUDIO_CACHE_DIR, `${params.hash}${normalizedExt}`);
-    await writeFile(audioPath, params.buffer);
-    const metaPath = join(AUDIO_CACHE_DIR, `${params.hash}.meta.json`);
-    const metadata = {
-      fileName: params.fileName,
-      mimeType: params.mimeType,
-      ext: normalizedExt,
-      bytes: params.buffer.length,
-      updatedAt: new Date().toISOString(),
-    };
-    await writeFile(metaPath, JSON.stringify(metadata, null, 2), 'utf8');
-  } catch (error) {
-    console.warn('⚠️  No se pudo guardar el audio en caché:', error);
-  }
-}
-
-async function loadCachedAudio(hash: string): Promise<CachedAudio | null> {
-  try {
-    const metaPath = join(AUDIO_CACHE_DIR, `${hash}.meta.json`);
-    const rawMeta = await readFile(metaPath, 'utf8');
-    const metadata = JSON.parse(rawMeta) as { fileName?: string; mimeType?: string; ext?: string };
-    const ext = metadata.ext && metadata.ext.startsWith('.') ? metadata.ext : inferExtension(metadata.mimeType);
-    const audioPath = join(AUDIO_CACHE_DIR, `${hash}${ext}`);
-    const buffer = await readFile(audioPath);
-    return {
-      buffer,
-      fileName: metadata.fileName || `${hash}${ext}`,
-      mimeType: resolveMimeType(metadata.fileName || `${hash}${ext}`, metadata.mimeType),
-    };
-  } catch (error) {
-    return null;
-  }
-}
-
 function extractString(obj: any, keys: string[]): string | undefined {
   if (!obj || typeof obj !== 'object') return undefined;
   for (const key of keys) {
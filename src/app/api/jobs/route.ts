@@ -0,0 +1,146 @@
+// ============================================================================
+// COLA DE ANÁLISIS
+// ============================================================================
+// POST /api/jobs → Sube archivos (campo "files") y los encola para análisis
+// GET /api/jobs?ids=a,b → Estado de esos jobs
+// GET /api/jobs?status=pending,processing&stage=gemini&limit=50&offset=0 → Listado
+// Progreso en vivo: /api/jobs/stream
+// ============================================================================
+// El navegador solo sube y observa: Essentia + Gemini, la concurrencia y los
+// reintentos los gestionan los workers del servidor (ver analysis-worker.ts).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import {
+  contarJobsPorEstado,
+  encolarSiFaltaAnalisis,
+  esIdJobValido,
+  listarJobs,
+  obtenerJobs,
+  resumirJob,
+  JOB_STATUSES,
+  type JobStatus
+} from '@/lib/analysis-jobs';
+import { despertarWorkersAnalisis, iniciarWorkersAnalisis } from '@/lib/analysis-worker';
+import { cacheAudioBuffer, resolveMimeType } from '@/lib/audio-cache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files') as File[];
+
+    if (!files || files.length === 0) {
+      return NextResponse.json(
+        { error: 'No se proporcionaron archivos' },
+        { status: 400 }
+      );
+    }
+
+    iniciarWorkersAnalisis();
+
+    const resultados = [];
+    for (const file of files) {
+      try {
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const hash = createHash('sha256').update(buffer).digest('hex');
+        const fileName = file.name || `${hash}.mp3`;
+        const mimeType = resolveMimeType(fileName, file.type);
+
+        // Los workers leen el audio de la caché: la UI no vuelve a subirlo
+        await cacheAudioBuffer({ hash, buffer, fileName, mimeType });
+
+        const { job, analisis } = await encolarSiFaltaAnalisis({ hash, fileName, mimeType });
+        resultados.push({ fileName, hash, job: job ? resumirJob(job) : null, analisis });
+      } catch (error: any) {
+        console.error(`❌ Error encolando ${file.name}:`, error);
+        resultados.push({ fileName: file.name, hash: null, job: null, analisis: null, error: error.message });
+      }
+    }
+
+    despertarWorkersAnalisis();
+
+    return NextResponse.json({ success: true, resultados });
+
+  } catch (error: any) {
+    console.error('❌ Error encolando análisis:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error encolando análisis' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ids = (searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (ids.length > 0) {
+      const invalidos = ids.filter(id => !esIdJobValido(id));
+      if (invalidos.length > 0) {
+        return NextResponse.json(
+          { error: `IDs de job inválidos: ${invalidos.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const jobs = await obtenerJobs(ids);
+      return NextResponse.json({ success: true, jobs: jobs.map(resumirJob) });
+    }
+
+    // Listado con filtros
+    const status = (searchParams.get('status') || '')
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean);
+    const statusInvalidos = status.filter(s => !JOB_STATUSES.includes(s as JobStatus));
+    if (statusInvalidos.length > 0) {
+      return NextResponse.json(
+        { error: `status inválido: ${statusInvalidos.join(', ')}. Usa ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const stage = searchParams.get('stage');
+    if (stage !== null && stage !== 'essentia' && stage !== 'gemini') {
+      return NextResponse.json(
+        { error: 'stage inválido. Usa essentia o gemini' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, parseInt(searchParams.get('limit') ?? '', 10) || DEFAULT_LIST_LIMIT));
+    const offset = Math.max(0, parseInt(searchParams.get('offset') ?? '', 10) || 0);
+
+    const [{ jobs, total }, counts] = await Promise.all([
+      listarJobs({ status: status as JobStatus[], stage: stage ?? undefined, limit, offset }),
+      contarJobsPorEstado(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(resumirJob),
+      total,
+      limit,
+      offset,
+      counts,
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error obteniendo jobs:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error obteniendo jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+// ============================================================================
+// PROGRESO EN VIVO DE JOBS DE ANÁLISIS (Server-Sent Events)
+// ============================================================================
+// GET /api/jobs/stream?ids=a,b → Para EventSource (pocos jobs)
+// POST /api/jobs/stream { ids } → Mismo stream para importaciones grandes
+//                                 (cientos de IDs no caben en la URL)
+//
+// Eventos:
+//   event: job   → JobResumen cada vez que cambia estado, progreso o paso
+//   event: done  → Todos los jobs han terminado (el servidor cierra el stream)
+//   event: error → Error leyendo la cola (el cliente puede reconectar)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  esIdJobValido,
+  esJobTerminado,
+  obtenerJobs,
+  resumirJob,
+  type JobResumen
+} from '@/lib/analysis-jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const MAX_STREAM_IDS = 2000;
+
+function validarIds(ids: unknown): string[] | NextResponse {
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'Se requiere una lista de ids' }, { status: 400 });
+  }
+  if (ids.length > MAX_STREAM_IDS) {
+    return NextResponse.json({ error: `Máximo ${MAX_STREAM_IDS} jobs por stream` }, { status: 400 });
+  }
+  const invalidos = ids.filter(id => !esIdJobValido(id));
+  if (invalidos.length > 0) {
+    return NextResponse.json({ error: `IDs de job inválidos: ${invalidos.join(', ')}` }, { status: 400 });
+  }
+  return [...new Set(ids as string[])];
+}
+
+function firmaJob(job: JobResumen): string {
+  return `${job.status}|${job.stage}|${job.progress}|${job.currentStep}|${job.attempts}`;
+}
+
+function crearStreamJobs(ids: string[], signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let cerrado = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const escribir = (chunk: string) => {
+        if (cerrado) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cerrado = true; // El cliente se fue
+        }
+      };
+      const enviar = (event: string, data: unknown) => escribir(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      signal.addEventListener('abort', () => { cerrado = true; });
+
+      const enviados = new Map<string, string>();
+      let ultimoLatido = Date.now();
+
+      // Reintentos de EventSource tras un corte
+      escribir('retry: 3000\n\n');
+
+      try {
+        while (!cerrado) {
+          const jobs = (await obtenerJobs(ids)).map(resumirJob);
+
+          for (const job of jobs) {
+            const firma = firmaJob(job);
+            if (enviados.get(job.id) === firma) continue;
+            enviados.set(job.id, firma);
+            enviar('job', job);
+          }
+
+          if (jobs.every(job => esJobTerminado(job.status))) {
+            enviar('done', {
+              total: jobs.length,
+              completed: jobs.filter(job => job.status === 'completed').length,
+              missing: ids.length - jobs.length,
+            });
+            break;
+          }
+
+          if (Date.now() - ultimoLatido >= HEARTBEAT_INTERVAL_MS) {
+            escribir(': ping\n\n'); // Mantiene viva la conexión en proxies
+            ultimoLatido = Date.now();
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error: any) {
+        console.error('❌ Error en stream de jobs:', error);
+        enviar('error', { error: error.message || 'Error leyendo la cola de análisis' });
+      }
+
+      if (!cerrado) {
+        cerrado = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      cerrado = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const ids = (searchParams.get('ids') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  const validados = validarIds(ids);
+  if (validados instanceof NextResponse) return validados;
+
+  return crearStreamJobs(validados, request.signal);
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  const validados = validarIds(body?.ids);
+  if (validados instanceof NextResponse) return validados;
+
+  return crearStreamJobs(validados, request.signal);
+}
@@ -0,0 +1,67 @@
+// ============================================================================
+// BIBLIOTECA: DUPLICADOS Y VERSIONES ALTERNATIVAS
+// ============================================================================
+// GET /api/library/duplicates → Grupos de toda la biblioteca
+// GET /api/library/duplicates?hashes=a,b,c → Solo entre esas canciones
+// GET /api/library/duplicates?relacion=DUPLICATE → Solo misma grabación
+//                                                  (sin radio edit / extended)
+//
+// Respuesta: { grupos: [{ tracks, pares }], sinHuella }
+// sinHuella = canciones analizadas antes de existir la huella (re-analizar)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { obtenerCancionesConHuella } from '@/lib/db-persistence';
+import { agruparVersiones, esHuellaValida, type RelacionHuella } from '@/lib/audio-fingerprint';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// Comparar toda la biblioteca es cuadrático (con prefiltro por BPM y chroma media)
+export const maxDuration = 300;
+
+const RELACIONES: RelacionHuella[] = ['DUPLICATE', 'VERSION'];
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const hashes = searchParams.get('hashes')?.split(',').map(h => h.trim()).filter(Boolean);
+  const relacion = searchParams.get('relacion');
+
+  if (relacion && !RELACIONES.includes(relacion as RelacionHuella)) {
+    return NextResponse.json(
+      { error: `relacion inválida. Usa ${RELACIONES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tracks = await obtenerCancionesConHuella(hashes?.length ? hashes : undefined);
+    const porHash = new Map(tracks.map(t => [t.hash_archivo, t]));
+    const grupos = agruparVersiones(tracks, relacion ? [relacion as RelacionHuella] : RELACIONES);
+
+    return NextResponse.json({
+      success: true,
+      grupos: grupos.map(grupo => ({
+        tracks: grupo.hashes.map(hash => {
+          const track = porHash.get(hash)!;
+          return {
+            hash: track.hash_archivo,
+            title: track.titulo,
+            artist: track.artista ?? null,
+            durationMs: track.duracion_ms,
+            bpm: track.bpm,
+            key: track.tonalidad_camelot,
+          };
+        }),
+        pares: grupo.pares,
+      })),
+      sinHuella: tracks.filter(t => !esHuellaValida(t.huella_chroma)).length,
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error buscando duplicados:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error buscando duplicados' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+// ============================================================================
+// BIBLIOTECA: LISTADO DE CANCIONES ANALIZADAS
+// ============================================================================
+// GET /api/library?bpmMin=120&bpmMax=128&key=8A&compatible=1&q=love
+//                 &artista=Bicep&sello=Ninja%20Tune&genero=House&anioMin=1995
+//                 &isrc=GBARL9300135&etiquetas=warmup,vinilo
+//                 &bailabilidadMin=0.6&duracionMin=180&duracionMax=420
+//                 &introSinVozMin=16&outroSinVozMin=16&secciones=intro,outro
+//                 &gemini=1&sort=bpm&order=asc&limit=50&cursor=...
+//
+// Duraciones en segundos. Respuesta: { tracks, nextCursor, total }
+// Para la siguiente página se repite la consulta con cursor=nextCursor.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PostgresRequeridoError } from '@/lib/db';
+import { parseCamelot } from '@/lib/mix-harmonic';
+import { normalizarEtiquetas, normalizarIsrc } from '@/lib/audio-metadata';
+import {
+  consultarBiblioteca,
+  contarBiblioteca,
+  CursorInvalidoError,
+  LIBRARY_SORTS,
+  SECCIONES_TIMELINE,
+  type LibraryQuery,
+  type LibrarySort
+} from '@/lib/library-query';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+class ParametroInvalidoError extends Error {}
+
+function leerNumero(searchParams: URLSearchParams, nombre: string): number | undefined {
+  const valor = searchParams.get(nombre);
+  if (valor === null || valor.trim() === '') return undefined;
+  const numero = Number(valor);
+  if (!Number.isFinite(numero)) {
+    throw new ParametroInvalidoError(`${nombre} debe ser un número`);
+  }
+  return numero;
+}
+
+function leerBooleano(searchParams: URLSearchParams, nombre: string): boolean | undefined {
+  const valor = searchParams.get(nombre);
+  if (valor === null) return undefined;
+  if (valor === '1' || valor === 'true') return true;
+  if (valor === '0' || valor === 'false') return false;
+  throw new ParametroInvalidoError(`${nombre} debe ser true/false`);
+}
+
+function construirConsulta(searchParams: URLSearchParams): LibraryQuery {
+  const sort = (searchParams.get('sort') || 'titulo') as LibrarySort;
+  if (!LIBRARY_SORTS.includes(sort)) {
+    throw new ParametroInvalidoError(`sort inválido. Usa ${LIBRARY_SORTS.join(', ')}`);
+  }
+
+  const order = searchParams.get('order') || 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ParametroInvalidoError('order inválido. Usa asc o desc');
+  }
+
+  const key = searchParams.get('key')?.trim() || undefined;
+  if (key && !parseCamelot(key)) {
+    throw new ParametroInvalidoError('key debe ser una tonalidad Camelot (1A-12B)');
+  }
+
+  const secciones = (searchParams.get('secciones') || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+  const seccionesInvalidas = secciones.filter(s => !SECCIONES_TIMELINE.includes(s as any));
+  if (seccionesInvalidas.length > 0) {
+    throw new ParametroInvalidoError(`secciones inválidas: ${seccionesInvalidas.join(', ')}. Usa ${SECCIONES_TIMELINE.join(', ')}`);
+  }
+
+  const isrcParam = searchParams.get('isrc')?.trim();
+  const isrc = isrcParam ? normalizarIsrc(isrcParam) : undefined;
+  if (isrc === null) {
+    throw new ParametroInvalidoError('isrc inválido (formato CC-XXX-YY-NNNNN)');
+  }
+
+  const duracionMin = leerNumero(searchParams, 'duracionMin');
+  const duracionMax = leerNumero(searchParams, 'duracionMax');
+  const limit = leerNumero(searchParams, 'limit') ?? DEFAULT_LIMIT;
+
+  return {
+    q: searchParams.get('q')?.trim() || undefined,
+    artista: searchParams.get('artista')?.trim() || undefined,
+    album: searchParams.get('album')?.trim() || undefined,
+    genero: searchParams.get('genero')?.trim() || undefined,
+    sello: searchParams.get('sello')?.trim() || undefined,
+    isrc,
+    anioMin: leerNumero(searchParams, 'anioMin'),
+    anioMax: leerNumero(searchParams, 'anioMax'),
+    etiquetas: normalizarEtiquetas((searchParams.get('etiquetas') || '').split(',')),
+    bpmMin: leerNumero(searchParams, 'bpmMin'),
+    bpmMax: leerNumero(searchParams, 'bpmMax'),
+    key,
+    compatible: leerBooleano(searchParams, 'compatible'),
+    bailabilidadMin: leerNumero(searchParams, 'bailabilidadMin'),
+    bailabilidadMax: leerNumero(searchParams, 'bailabilidadMax'),
+    duracionMinMs: duracionMin !== undefined ? duracionMin * 1000 : undefined,
+    duracionMaxMs: duracionMax !== undefined ? duracionMax * 1000 : undefined,
+    introSinVozMinS: leerNumero(searchParams, 'introSinVozMin'),
+    outroSinVozMinS: leerNumero(searchParams, 'outroSinVozMin'),
+    secciones: secciones as LibraryQuery['secciones'],
+    conTimeline: leerBooleano(searchParams, 'gemini'),
+    sort,
+    order,
+    limit: Math.min(MAX_LIMIT, Math.max(1, Math.floor(limit))),
+    cursor: searchParams.get('cursor'),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  let consulta: LibraryQuery;
+  try {
+    consulta = construirConsulta(new URL(request.url).searchParams);
+  } catch (error: any) {
+    if (error instanceof ParametroInvalidoError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const [pagina, total] = await Promise.all([
+      consultarBiblioteca(consulta),
+      contarBiblioteca(consulta),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      tracks: pagina.tracks,
+      nextCursor: pagina.nextCursor,
+      total,
+    });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    if (error instanceof CursorInvalidoError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ Error consultando la biblioteca:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error consultando la biblioteca' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// ============================================================================
+// SINCRONIZACIÓN DE LA BIBLIOTECA LOCAL (MUSIC_LIBRARY_DIR)
+// ============================================================================
+// POST /api/library/scan → Escanea el directorio, encola lo nuevo/modificado,
+//                          detecta movidos por hash y marca los borrados como ausentes
+// GET /api/library/scan → Estado: directorio, escaneo en curso, último resultado
+//                         y número de archivos presentes/ausentes
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { PostgresRequeridoError, sql } from '@/lib/db';
+import { despertarWorkersAnalisis, iniciarWorkersAnalisis } from '@/lib/analysis-worker';
+import {
+  obtenerDirectorioBiblioteca,
+  obtenerUltimaSincronizacion,
+  sincronizacionActiva,
+  sincronizarBiblioteca
+} from '@/lib/library-scanner';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// Bibliotecas grandes: el primer escaneo hashea todos los archivos
+export const maxDuration = 300;
+
+export async function POST() {
+  if (!obtenerDirectorioBiblioteca()) {
+    return NextResponse.json(
+      { error: 'MUSIC_LIBRARY_DIR no está configurado' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    iniciarWorkersAnalisis();
+    const resultado = await sincronizarBiblioteca();
+    if (resultado.encolados > 0) despertarWorkersAnalisis();
+
+    return NextResponse.json({ success: true, resultado });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error sincronizando la biblioteca:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error sincronizando la biblioteca' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    if (!sql) throw new PostgresRequeridoError('Biblioteca local');
+    const conteo = await sql`
+      SELECT estado, COUNT(*)::int AS total FROM archivos_biblioteca GROUP BY estado
+    `;
+    const archivos = { presente: 0, ausente: 0 };
+    for (const row of conteo) {
+      if (row.estado in archivos) archivos[row.estado as keyof typeof archivos] = row.total;
+    }
+
+    return NextResponse.json({
+      success: true,
+      directorio: obtenerDirectorioBiblioteca(),
+      enCurso: sincronizacionActiva(),
+      ultimaSincronizacion: obtenerUltimaSincronizacion(),
+      archivos,
+    });
+
+  } catch (error: any) {
+    if (error instanceof PostgresRequeridoError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error('❌ Error obteniendo estado de la biblioteca:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error obteniendo estado de la biblioteca' },
+      { status: 500 }
+    );
+  }
+}
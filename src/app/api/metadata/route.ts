@@ -1,7 +1,15 @@
+// ============================================================================
+// METADATOS
+// ============================================================================
+// POST /api/metadata → Metadatos rápidos de archivos (sin análisis completo)
+// PATCH /api/metadata { hash, artista?, album?, anio?, genero?, sello?, isrc?,
+//                       comentarios?, etiquetas?, titulo? } → Edita una canción
+// ============================================================================
+
 import { NextRequest, NextResponse } from 'next/server';
-import * as musicMetadata from 'music-metadata';
-import { sql } from '@/lib/db';
-import { normalizeCancionFromDB } from '@/lib/db-normalize';
+import { actualizarMetadatos, obtenerCancionPorHash } from '@/lib/db-persistence';
+import { extraerMetadatos, normalizarEtiquetas, normalizarIsrc } from '@/lib/audio-metadata';
+import type { MetadatosCancion } from '@/lib/db';
 
 // Calcular hash SHA-256
 async function calcularHashArchivo(buffer: ArrayBuffer): Promise<string> {
@@ -31,14 +39,9 @@ export async function POST(request: NextRequest) {
           const hash = await calcularHashArchivo(arrayBuffer);
 
           // 2. Verificar si ya existe en BD
-          const existente = await sql`
-            SELECT *
-            FROM canciones_analizadas 
-            WHERE hash_archivo = ${hash}
-          `;
+          const cancion = await obtenerCancionPorHash(hash);
 
-          if (existente.length > 0) {
-            const cancion = normalizeCancionFromDB(existente[0] as Record<string, unknown>);
+          if (cancion) {
 
             // Verificar si el análisis de Gemini está incompleto
             // Gemini está completo si tiene estructura_ts y vocales_clave
@@ -63,18 +66,13 @@ export async function POST(request: NextRequest) {
 
           // 3. Extraer solo metadatos básicos (rápido)
           const buffer = Buffer.from(arrayBuffer);
-          const metadata = await musicMetadata.parseBuffer(buffer);
-          const { common, format } = metadata;
-
-          const duracionMs = Math.round((format.duration || 180) * 1000);
-          const titulo = common.title || file.name.replace(/\.[^/.]+$/, '');
-          const artista = common.artist || 'Artista Desconocido';
+          const { duracion_ms, ...metadatos } = await extraerMetadatos(buffer, file.name, file.type || undefined);
 
           return {
             hash,
-            titulo,
-            artista,
-            duracion_ms: duracionMs,
+            ...metadatos,
+            artista: metadatos.artista || 'Artista Desconocido',
+            duracion_ms: duracion_ms || 180000,
             analizado: false
           };
         } catch (error: any) {
@@ -105,5 +103,91 @@ export async function POST(request: NextRequest) {
   }
 }
 
+const CAMPOS_TEXTO = ['titulo', 'artista', 'album', 'genero', 'sello', 'comentarios'] as const;
+
+type CambiosMetadatos = Partial<MetadatosCancion> & { titulo?: string };
+
+/**
+ * Valida el body del PATCH; devuelve los cambios o un mensaje de error
+ */
+function validarCambios(body: Record<string, unknown>): CambiosMetadatos | string {
+  const cambios: CambiosMetadatos = {};
+
+  for (const campo of CAMPOS_TEXTO) {
+    if (!(campo in body)) continue;
+    const valor = body[campo];
+    if (valor !== null && typeof valor !== 'string') return `${campo} debe ser texto o null`;
+    const texto = typeof valor === 'string' ? valor.trim() : '';
+    if (campo === 'titulo') {
+      if (!texto) return 'titulo no puede estar vacío';
+      cambios.titulo = texto;
+    } else {
+      cambios[campo] = texto || null;
+    }
+  }
+
+  if ('anio' in body) {
+    const anio = body.anio;
+    if (anio !== null && (typeof anio !== 'number' || !Number.isInteger(anio) || anio < 1 || anio > 9999)) {
+      return 'anio debe ser un año (entero) o null';
+    }
+    cambios.anio = anio as number | null;
+  }
+
+  if ('isrc' in body) {
+    if (body.isrc === null || body.isrc === '') {
+      cambios.isrc = null;
+    } else {
+      const isrc = typeof body.isrc === 'string' ? normalizarIsrc(body.isrc) : null;
+      if (!isrc) return 'isrc inválido (formato CC-XXX-YY-NNNNN)';
+      cambios.isrc = isrc;
+    }
+  }
+
+  if ('etiquetas' in body) {
+    if (!Array.isArray(body.etiquetas) || !body.etiquetas.every(e => typeof e === 'string')) {
+      return 'etiquetas debe ser una lista de textos';
+    }
+    cambios.etiquetas = normalizarEtiquetas(body.etiquetas);
+  }
+
+  return cambios;
+}
+
+export async function PATCH(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  const hash = body?.hash;
+  if (typeof hash !== 'string' || !hash) {
+    return NextResponse.json({ error: 'Se requiere el hash de la canción' }, { status: 400 });
+  }
+
+  const cambios = validarCambios(body);
+  if (typeof cambios === 'string') {
+    return NextResponse.json({ error: cambios }, { status: 400 });
+  }
+
+  try {
+    const actualizada = await actualizarMetadatos(hash, cambios);
+    if (!actualizada) {
+      return NextResponse.json({ error: 'Canción no encontrada' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, cancion: await obtenerCancionPorHash(hash) });
+
+  } catch (error: any) {
+    console.error('❌ Error actualizando metadatos:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error actualizando metadatos' },
+      { status: 500 }
+    );
+  }
+}
+
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { sql, type CancionAnalizada } from '@/lib/db';
+import type { CancionAnalizada } from '@/lib/db';
 import { buildMixPlan } from '@/lib/mix-planner';
-import { normalizeCancionFromDB } from '@/lib/db-normalize';
+import { obtenerCancionesPorHashes } from '@/lib/db-persistence';
 
 interface MixPlanRequestBody {
     hashes?: string[];
@@ -9,10 +9,6 @@ interface MixPlanRequestBody {
 
 export async function POST(request: Request) {
     try {
-        if (!sql) {
-            return NextResponse.json({ error: 'Base de datos no disponible' }, { status: 500 });
-        }
-
         const body = (await request.json()) as MixPlanRequestBody | null;
 
         const hashes = Array.isArray(body?.hashes)
@@ -23,20 +19,16 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'Debes proporcionar al menos un hash' }, { status: 400 });
         }
 
-        const rows = await sql`
-      SELECT * FROM canciones_analizadas
-      WHERE hash_archivo = ANY(${hashes})
-    `;
+        const canciones = await obtenerCancionesPorHashes(hashes);
 
-        if (!Array.isArray(rows) || rows.length === 0) {
+        if (canciones.length === 0) {
             return NextResponse.json({ error: 'No se encontraron canciones para los hashes proporcionados' }, { status: 404 });
         }
 
         const byHash = new Map<string, CancionAnalizada>();
 
-        for (const row of rows) {
-            const tracked = normalizeCancionFromDB(row as Record<string, unknown>);
-            byHash.set(tracked.hash_archivo, tracked);
+        for (const cancion of canciones) {
+            byHash.set(cancion.hash_archivo, cancion);
         }
 
         const missing = hashes.filter((hash) => !byHash.has(hash));
@@ -0,0 +1,175 @@
+// ============================================================================
+// ENDPOINT DE RENDER OFFLINE DE SESIONES
+// ============================================================================
+// POST /api/mix-render → Secuencia las canciones y lanza el render (devuelve jobId)
+// GET /api/mix-render?id=xxx → Estado del job
+// GET /api/mix-render?id=xxx&download=1 → Archivo final (cuando está completado)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { obtenerCancionesPorHashes } from '@/lib/db-persistence';
+import { buildMixPlan } from '@/lib/mix-planner';
+import { findOptimalSequence } from '@/lib/mix-sequencer';
+import { prepararTransiciones } from '@/lib/db-transitions';
+import {
+  iniciarRenderMix,
+  obtenerRenderJob,
+  AudioNoDisponibleError,
+  RENDER_FORMATS,
+  type RenderFormat
+} from '@/lib/mix-renderer';
+import type { CancionAnalizada } from '@/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  try {
+    const {
+      hashes,
+      sessionLength,
+      startTrackHash,
+      format = 'wav'
+    }: {
+      hashes: string[];
+      sessionLength?: number;
+      startTrackHash?: string;
+      format?: RenderFormat;
+    } = body;
+
+    if (!Array.isArray(hashes) || hashes.length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere un array de hashes' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof format !== 'string' || !Object.hasOwn(RENDER_FORMATS, format)) {
+      return NextResponse.json(
+        { error: `Formato no soportado: ${format}. Usa ${Object.keys(RENDER_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const tracks = await obtenerCancionesPorHashes(hashes);
+
+    if (tracks.length === 0) {
+      return NextResponse.json(
+        { error: 'No se encontraron canciones' },
+        { status: 404 }
+      );
+    }
+
+    const mixPlans = new Map(buildMixPlan(tracks).map(entry => [entry.trackId, entry]));
+
+    const targetLength = sessionLength && sessionLength > 0 && sessionLength <= tracks.length
+      ? sessionLength
+      : tracks.length;
+
+    const startTrackId = startTrackHash
+      ? tracks.find((t: CancionAnalizada) => t.hash_archivo === startTrackHash)?.id
+      : undefined;
+
+    // Pares A → B desde transiciones_calculadas (se calculan y guardan solo los que falten)
+    const { pairScores } = await prepararTransiciones(tracks, mixPlans);
+    const session = findOptimalSequence(tracks, mixPlans, targetLength, startTrackId, { pairScores });
+
+    if (session.tracks.length === 0) {
+      return NextResponse.json(
+        { error: 'No se pudo generar ninguna secuencia', warnings: session.warnings || [] },
+        { status: 500 }
+      );
+    }
+
+    const job = await iniciarRenderMix(session, format);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      format: job.format,
+      tracks: session.tracks.map(st => st.track.hash_archivo),
+      estimatedDurationMs: job.durationMs,
+      warnings: session.warnings || [],
+    }, { status: 202 });
+
+  } catch (error: any) {
+    if (error instanceof AudioNoDisponibleError) {
+      return NextResponse.json(
+        { error: error.message, missing: error.missing },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Error en /api/mix-render:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error al iniciar el render' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Se requiere el parámetro id' },
+      { status: 400 }
+    );
+  }
+
+  const job = obtenerRenderJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job de render no encontrado' },
+      { status: 404 }
+    );
+  }
+
+  const download = searchParams.get('download');
+  if (!download || download === '0' || download === 'false') {
+    const { outputPath: _outputPath, ...publicJob } = job;
+    return NextResponse.json({ success: true, job: publicJob });
+  }
+
+  if (job.status !== 'completed') {
+    return NextResponse.json(
+      { error: `El render aún no está listo (${job.status}, ${job.progress}%)` },
+      { status: 409 }
+    );
+  }
+
+  // El fichero puede haberse limpiado del disco aunque el job siga en memoria
+  let size: number;
+  try {
+    ({ size } = await stat(job.outputPath));
+  } catch {
+    return NextResponse.json(
+      { error: 'El fichero del render ya no está disponible' },
+      { status: 410 }
+    );
+  }
+  const stream = Readable.toWeb(createReadStream(job.outputPath)) as ReadableStream;
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': RENDER_FORMATS[job.format].mimeType,
+      'Content-Length': String(size),
+      'Content-Disposition': `attachment; filename="mix-${job.id}.${job.format}"`,
+    },
+  });
+}
+
+export const maxDuration = 60;
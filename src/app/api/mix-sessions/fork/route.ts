@@ -0,0 +1,100 @@
+// ============================================================================
+// BIFURCAR SESIÓN DE MEZCLA
+// ============================================================================
+// POST /api/mix-sessions/fork { id, nombre?, notas?, desdePosicion?, parametros? }
+//   - Sin desdePosicion: copia exacta de la sesión (nueva id, sesion_origen_id = id)
+//   - Con desdePosicion (0 = primera pista): conserva las pistas anteriores y sus
+//     transiciones y re-secuencia el resto con los parámetros de la original;
+//     parametros (parcial) cambia los que se indiquen (energyArc, variety, ...);
+//     hashes no se admite: el crate es siempre el de la original
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { bifurcarSesionMix } from '@/lib/mix-sessions';
+import { SecuenciaError, validarCambiosSecuencia, type ParametrosSecuencia } from '@/lib/mix-sequence';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  try {
+    const { id, nombre, notas, desdePosicion, parametros } = body ?? {};
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json(
+        { error: 'Se requiere el id de la sesión a bifurcar' },
+        { status: 400 }
+      );
+    }
+    if (nombre !== undefined && (typeof nombre !== 'string' || nombre.trim() === '')) {
+      return NextResponse.json(
+        { error: 'nombre no puede estar vacío' },
+        { status: 400 }
+      );
+    }
+    if (notas !== undefined && notas !== null && typeof notas !== 'string') {
+      return NextResponse.json(
+        { error: 'notas debe ser texto o null' },
+        { status: 400 }
+      );
+    }
+    if (desdePosicion !== undefined && !(Number.isInteger(desdePosicion) && desdePosicion >= 0)) {
+      return NextResponse.json(
+        { error: 'desdePosicion debe ser un entero >= 0' },
+        { status: 400 }
+      );
+    }
+    if (parametros !== undefined && desdePosicion === undefined) {
+      return NextResponse.json(
+        { error: 'parametros solo se aplica al re-secuenciar: indica desdePosicion' },
+        { status: 400 }
+      );
+    }
+    // Los parámetros nuevos se validan igual que en /api/mix-sequence, salvo hashes (el crate es el de la original)
+    if (parametros !== undefined) {
+      const errorParametros = validarCambiosSecuencia(parametros);
+      if (errorParametros) {
+        return NextResponse.json(
+          { error: `parametros: ${errorParametros}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const resultado = await bifurcarSesionMix(id, {
+      nombre: nombre?.trim(),
+      notas,
+      desdePosicion,
+      parametros: parametros as Partial<ParametrosSecuencia> | undefined,
+    });
+    if (!resultado) {
+      return NextResponse.json(
+        { error: 'Sesión no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...resultado }, { status: 201 });
+
+  } catch (error: any) {
+    if (error instanceof SecuenciaError) {
+      return NextResponse.json(
+        { error: error.message, warnings: error.warnings },
+        { status: error.status }
+      );
+    }
+    console.error('❌ Error bifurcando sesión:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error bifurcando sesión' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,199 @@
+// ============================================================================
+// SESIONES DE MEZCLA GUARDADAS
+// ============================================================================
+// GET /api/mix-sessions?limit=&offset= → Listado (sin pistas, la más reciente primero)
+// GET /api/mix-sessions?id=xxx → Sesión guardada + session (formato de /api/mix-sequence)
+// POST /api/mix-sessions { nombre, notas?, parametros } → Secuencia y guarda
+//   (parametros = body de /api/mix-sequence: hashes, sessionLength, energyArc, ...)
+// PATCH /api/mix-sessions { id, nombre?, notas? } → Renombra / edita notas
+// DELETE /api/mix-sessions?id=xxx → Borra (sus bifurcaciones se quedan sin origen)
+// Bifurcar y re-secuenciar desde una pista: POST /api/mix-sessions/fork
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  actualizarSesionMix,
+  borrarSesionMix,
+  crearSesionMix,
+  expandirSesionMix,
+  listarSesionesMix,
+  obtenerSesionMix
+} from '@/lib/mix-sessions';
+import {
+  extraerParametrosSecuencia,
+  SecuenciaError,
+  validarParametrosSecuencia,
+  type ParametrosSecuencia
+} from '@/lib/mix-sequence';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+const esTextoOpcional = (valor: unknown) => valor === undefined || valor === null || typeof valor === 'string';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const sesionMix = await obtenerSesionMix(id);
+      if (!sesionMix) {
+        return NextResponse.json(
+          { error: 'Sesión no encontrada' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, sesionMix, session: await expandirSesionMix(sesionMix) });
+    }
+
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, parseInt(searchParams.get('limit') ?? '', 10) || DEFAULT_LIST_LIMIT));
+    const offset = Math.max(0, parseInt(searchParams.get('offset') ?? '', 10) || 0);
+    const { sesiones, total } = await listarSesionesMix({ limit, offset });
+
+    return NextResponse.json({ success: true, sesiones, total, limit, offset });
+
+  } catch (error: any) {
+    console.error('❌ Error obteniendo sesiones:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error obteniendo sesiones' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  try {
+    const { nombre, notas, parametros } = body ?? {};
+
+    if (typeof nombre !== 'string' || nombre.trim() === '') {
+      return NextResponse.json(
+        { error: 'Se requiere un nombre para la sesión' },
+        { status: 400 }
+      );
+    }
+    if (!esTextoOpcional(notas)) {
+      return NextResponse.json(
+        { error: 'notas debe ser texto' },
+        { status: 400 }
+      );
+    }
+
+    const errorParametros = validarParametrosSecuencia(parametros);
+    if (errorParametros) {
+      return NextResponse.json(
+        { error: `parametros: ${errorParametros}` },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await crearSesionMix({
+      nombre: nombre.trim(),
+      notas: notas ?? null,
+      parametros: extraerParametrosSecuencia(parametros as ParametrosSecuencia),
+    });
+
+    return NextResponse.json({ success: true, ...resultado }, { status: 201 });
+
+  } catch (error: any) {
+    if (error instanceof SecuenciaError) {
+      return NextResponse.json(
+        { error: error.message, warnings: error.warnings },
+        { status: error.status }
+      );
+    }
+    console.error('❌ Error guardando sesión:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error guardando sesión' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'JSON inválido en la petición' }, { status: 400 });
+  }
+
+  try {
+    const { id, nombre, notas } = body ?? {};
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json(
+        { error: 'Se requiere el id de la sesión' },
+        { status: 400 }
+      );
+    }
+    if (nombre !== undefined && (typeof nombre !== 'string' || nombre.trim() === '')) {
+      return NextResponse.json(
+        { error: 'nombre no puede estar vacío' },
+        { status: 400 }
+      );
+    }
+    if (!esTextoOpcional(notas)) {
+      return NextResponse.json(
+        { error: 'notas debe ser texto o null' },
+        { status: 400 }
+      );
+    }
+
+    const sesionMix = await actualizarSesionMix(id, { nombre: nombre?.trim(), notas });
+    if (!sesionMix) {
+      return NextResponse.json(
+        { error: 'Sesión no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, sesionMix });
+
+  } catch (error: any) {
+    console.error('❌ Error actualizando sesión:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error actualizando sesión' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Se requiere el parámetro id' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const borrada = await borrarSesionMix(id);
+    if (!borrada) {
+      return NextResponse.json(
+        { error: 'Sesión no encontrada' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('❌ Error borrando sesión:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error borrando sesión' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// ============================================================================
+// FORMA DE ONDA
+// ============================================================================
+// GET /api/waveform?hash=abc            → Todos los niveles (20 ms ... 1280 ms por punto)
+// GET /api/waveform?hash=abc&puntos=800 → Solo el nivel más general que da al menos
+//                                          800 puntos (para pintar 800 px de ancho)
+//
+// Series en base64 (1 byte por punto): pico, rms, graves, medios, agudos.
+// Se calcula al analizar; las canciones analizadas antes no tienen (404)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { obtenerFormaOnda } from '@/lib/db-persistence';
+import { elegirNivel } from '@/lib/audio-waveform';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const hash = searchParams.get('hash');
+  const puntosParam = searchParams.get('puntos');
+
+  if (!hash) {
+    return NextResponse.json(
+      { error: 'Se requiere el parámetro hash' },
+      { status: 400 }
+    );
+  }
+
+  const puntos = puntosParam === null ? null : Number(puntosParam);
+  if (puntos !== null && (!Number.isInteger(puntos) || puntos < 1)) {
+    return NextResponse.json(
+      { error: 'puntos debe ser un entero >= 1' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const forma = await obtenerFormaOnda(hash);
+    if (!forma) {
+      return NextResponse.json(
+        { error: 'La canción no tiene forma de onda (re-analízala para calcularla)' },
+        { status: 404 }
+      );
+    }
+
+    const respuesta = puntos === null
+      ? forma
+      : { ...forma, niveles: [elegirNivel(forma, forma.duracion_ms / puntos)] };
+
+    // Depende solo del audio (el hash): se puede cachear en el navegador
+    return NextResponse.json(
+      { success: true, forma_onda: respuesta },
+      { headers: { 'Cache-Control': 'private, max-age=3600' } }
+    );
+
+  } catch (error: any) {
+    console.error('❌ Error obteniendo forma de onda:', error);
+    return NextResponse.json(
+      { error: error.message || 'Error obteniendo forma de onda' },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,9 @@ import { HealthCheckDisplay } from "@/components/health-check-display";
 import * as musicMetadata from "music-metadata-browser";
 import type { CancionAnalizada } from "@/lib/db";
 import type { MixPlanEntry } from "@/lib/mix-planner";
+import type { JobResumen } from "@/lib/analysis-jobs";
+import type { SesionSecuenciada } from "@/lib/mix-sequence";
+import { AnalysisProgress, type AnalysisProgressItem } from "@/components/music/analysis-progress";
 
 export type Track = {
   file: File;
@@ -27,13 +30,94 @@ export type Track = {
   geminiPending?: boolean;
 };
 
+// Archivos por petición al encolar
+const UPLOAD_BATCH_SIZE = 10;
+// Reconexión del stream de progreso si se corta antes de terminar
+const STREAM_RECONNECT_MS = 3000;
+const MAX_STREAM_FAILURES = 5;
+
+const esTerminado = (status: JobResumen['status']) =>
+  status === 'completed' || status === 'dead' || status === 'failed';
+
+type ResultadoEncolado = {
+  fileName: string;
+  hash: string | null;
+  job: JobResumen | null;
+  analisis: CancionAnalizada | null;
+  error?: string;
+};
+
+/**
+ * Sigue el progreso de los jobs por SSE hasta que terminen todos
+ * Usa POST + lectura del body (cientos de IDs no caben en la URL de un EventSource)
+ */
+async function seguirJobs(ids: string[], onJob: (job: JobResumen) => Promise<void>): Promise<void> {
+  const pendientes = new Set(ids);
+  let fallosSeguidos = 0;
+
+  while (pendientes.size > 0 && fallosSeguidos < MAX_STREAM_FAILURES) {
+    try {
+      const response = await fetch('/api/jobs/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [...pendientes] }),
+      });
+      if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        let corte: number;
+        while ((corte = buffer.indexOf('\n\n')) !== -1) {
+          const bloque = buffer.slice(0, corte);
+          buffer = buffer.slice(corte + 2);
+
+          const event = bloque.match(/^event: (.*)$/m)?.[1];
+          const data = bloque.match(/^data: (.*)$/m)?.[1];
+          if (event === 'job' && data) {
+            const job = JSON.parse(data) as JobResumen;
+            if (esTerminado(job.status)) pendientes.delete(job.id);
+            await onJob(job);
+          } else if (event === 'done') {
+            pendientes.clear(); // Los que falten ya no existen en la cola
+          }
+        }
+      }
+      fallosSeguidos = 0;
+    } catch (error) {
+      fallosSeguidos++;
+      console.warn(`⚠️ Stream de progreso interrumpido (${fallosSeguidos}/${MAX_STREAM_FAILURES}):`, error);
+    }
+
+    if (pendientes.size > 0) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_MS));
+    }
+  }
+}
+
+async function obtenerAnalisis(hash: string): Promise<CancionAnalizada | null> {
+  try {
+    const response = await fetch(`/api/analyze?hash=${encodeURIComponent(hash)}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return (data.cancion as CancionAnalizada) ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export default function Home() {
   const [tracks, setTracks] = useState<Track[]>([]);
   const [volume, setVolume] = useState(0.7);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [mixPlan, setMixPlan] = useState<MixPlanEntry[] | null>(null);
-  const [mixSequence, setMixSequence] = useState<any | null>(null);
+  const [mixSequence, setMixSequence] = useState<SesionSecuenciada | null>(null);
+  const [analysisJobs, setAnalysisJobs] = useState<Record<string, AnalysisProgressItem>>({});
   const { toast } = useToast();
   const mixPlanHashRef = useRef<string | null>(null);
 
@@ -146,244 +230,112 @@ export default function Home() {
 
     setTracks((prev) => [...prev, ...newTracks]);
 
-    // PASO 3: Análisis PARALELO REAL con Promise.all
+    // PASO 3: Encolar en el servidor y seguir el estado de los jobs
+    // (Essentia + Gemini, concurrencia y reintentos viven en los workers del servidor)
     const tracksParaAnalizar = newTracks.filter(track => !track.analisis || track.geminiPending);
 
     if (tracksParaAnalizar.length > 0) {
-      console.log(`🚀 Analizando ${tracksParaAnalizar.length} canciones en PARALELO...`);
-      console.log(`   ⚡ Essentia: máx 10 simultáneas`);
-      console.log(`   🤖 Gemini: máx 25 simultáneas`);
-
-      // Advertencia para lotes muy grandes
-      if (tracksParaAnalizar.length > 50) {
-        console.warn(`⚠️ ADVERTENCIA: ${tracksParaAnalizar.length} canciones es un lote grande.`);
-        console.warn(`   Considera procesar en grupos de 50 para mejor estabilidad.`);
-      }
-
-      try {
-        // 1️⃣ ANÁLISIS ESSENTIA + GEMINI - PIPELINE PARALELO REAL
-        console.log('\n📊 Lanzando análisis Essentia + Gemini en pipeline...');
-        console.log('   ⚡ Cada canción lanza Gemini inmediatamente tras Essentia');
-
-        // Obtener configuración de Gemini
-        let MAX_GEMINI_CONCURRENTES = 25;
-        try {
-          const configResp = await fetch('/api/gemini-config');
-          if (configResp.ok) {
-            const configData = await configResp.json();
-            MAX_GEMINI_CONCURRENTES = configData.maxParallelRequests || 25;
-          }
-        } catch (err) {
-          console.log('⚠️ Config Gemini no disponible, usando 25 por defecto');
-        }
-
-        // Límites de concurrencia
-        const MAX_ESSENTIA_CONCURRENTES = 10; // Limitar Essentia para no saturar servidor
-        let essentiaEnCurso = 0;
-        let geminiEnCurso = 0;
+      console.log(`🚀 Encolando ${tracksParaAnalizar.length} canciones para análisis en el servidor...`);
 
-        const ejecutarEssentiaConLimite = async (fn: () => Promise<any>) => {
-          while (essentiaEnCurso >= MAX_ESSENTIA_CONCURRENTES) {
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
-          essentiaEnCurso++;
-          try {
-            return await fn();
-          } finally {
-            essentiaEnCurso--;
-          }
-        };
+      let exitosos = 0;
+      let fallidos = 0;
+      setAnalysisJobs({});
 
-        const ejecutarGeminiConLimite = async (fn: () => Promise<void>) => {
-          while (geminiEnCurso >= MAX_GEMINI_CONCURRENTES) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-          geminiEnCurso++;
-          try {
-            await fn();
-          } finally {
-            geminiEnCurso--;
+      try {
+        // 1️⃣ Subida por lotes: el servidor guarda el audio y crea un job por archivo
+        const jobATrack = new Map<string, string>(); // jobId → file.name
+
+        for (let i = 0; i < tracksParaAnalizar.length; i += UPLOAD_BATCH_SIZE) {
+          const lote = tracksParaAnalizar.slice(i, i + UPLOAD_BATCH_SIZE);
+          const formData = new FormData();
+          lote.forEach(track => formData.append('files', track.file));
+
+          const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({ error: 'Error desconocido' }));
+            console.error(`   ❌ Lote ${i / UPLOAD_BATCH_SIZE + 1} no encolado: ${errorData.error || response.status}`);
+            fallidos += lote.length;
+            continue;
           }
-        };
 
-        const promesasPipeline = tracksParaAnalizar.map(async (track, index) => {
-          const numActual = index + 1;
-
-          // PASO 1: Essentia (con límite de concurrencia)
-          try {
-            const data = await ejecutarEssentiaConLimite(async () => {
-              const formData = new FormData();
-              formData.append('file', track.file);
-
-              const response = await fetch('/api/analyze', {
-                method: 'POST',
-                body: formData,
-              });
-
-              if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ error: 'Error desconocido' }));
-                const errorMsg = errorData.error || `HTTP ${response.status}`;
-                console.error(`   ❌ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Essentia falló: ${errorMsg}`);
-                throw new Error(errorMsg);
-              }
-
-              return await response.json();
-            });
-
-            if (!data || !data.analisis) {
-              console.error(`   ❌ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Respuesta sin análisis`);
-              return { track, essentiaData: null, geminiSuccess: false };
+          const { resultados } = await response.json() as { resultados: ResultadoEncolado[] };
+          resultados.forEach((resultado, index) => {
+            const fileName = lote[index].file.name;
+            if (resultado.job) {
+              const job = resultado.job;
+              jobATrack.set(job.id, fileName);
+              setAnalysisJobs(prev => ({ ...prev, [job.id]: { title: lote[index].title, job } }));
+            } else if (resultado.analisis) {
+              exitosos++;
+            } else {
+              console.error(`   ❌ ${fileName} - ${resultado.error || 'No se pudo encolar'}`);
+              fallidos++;
             }
 
-            console.log(`   ✅ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Essentia OK`);
-
-            // Determinar si necesita Gemini (si es nuevo o si ya estaba pendiente)
-            const needsGemini = (!data.fromCache || data.geminiPending) && data.hash;
-
-            // Actualizar track inmediatamente con datos de Essentia
             setTracks(prev => prev.map(t =>
-              t.file.name === track.file.name
+              t.file.name === fileName
                 ? {
                   ...t,
-                  hash: data.hash,
-                  duration: data.analisis.duracion_ms ? data.analisis.duracion_ms / 1000 : t.duration,
-                  analisis: data.analisis as CancionAnalizada,
-                  geminiPending: !!needsGemini // 🔒 FORZAR PENDIENTE para evitar que el mix arranque antes de tiempo
+                  hash: resultado.hash ?? t.hash,
+                  analisis: resultado.analisis ?? t.analisis,
+                  geminiPending: !!resultado.job // 🔒 Bloquea el mix hasta que el job termine
                 }
                 : t
             ));
+          });
 
-            // PASO 2: Gemini (si no viene de caché O si está pendiente)
-            if (needsGemini) {
-              const MAX_REINTENTOS_GEMINI = 3;
-              let reintentoGemini = 0;
-              let geminiExitoso = false;
-
-              while (reintentoGemini < MAX_REINTENTOS_GEMINI && !geminiExitoso) {
-                try {
-                  await ejecutarGeminiConLimite(async () => {
-                    // Enviar el archivo MP3 completo (no solo el hash)
-                    const formData = new FormData();
-                    formData.append('file', track.file); // ⚠️ Campo correcto: 'file'
-                    formData.append('hash', data.hash);
-
-                    const geminiResp = await fetch('/api/enrich-gemini', {
-                      method: 'POST',
-                      body: formData // FormData incluye el archivo
-                    });
-
-                    if (geminiResp.ok) {
-                      const geminiData = await geminiResp.json();
-
-                      // 🔒 VALIDACIÓN EXHAUSTIVA de la respuesta DJ-CÉNTRICA
-                      const camposFaltantes: string[] = [];
-
-                      if (!geminiData.gemini) {
-                        camposFaltantes.push('gemini');
-                      } else {
-                        // Validar campos DJ-céntricos (NO los antiguos tema/transcripcion)
-                        if (!geminiData.gemini.estructura || !Array.isArray(geminiData.gemini.estructura)) {
-                          camposFaltantes.push('estructura');
-                        }
-                        if (!geminiData.gemini.huecos || !Array.isArray(geminiData.gemini.huecos)) {
-                          camposFaltantes.push('huecos');
-                        }
-                        // vocales_clave y loops_transicion pueden estar vacíos (canciones instrumentales)
-                        if (!Array.isArray(geminiData.gemini.vocales_clave)) {
-                          camposFaltantes.push('vocales_clave');
-                        }
-                        if (!Array.isArray(geminiData.gemini.loops_transicion)) {
-                          camposFaltantes.push('loops_transicion');
-                        }
-                      }
-
-                      if (camposFaltantes.length > 0) {
-                        console.warn(`   ⚠️ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Respuesta Gemini incompleta (intento ${reintentoGemini + 1}/${MAX_REINTENTOS_GEMINI})`);
-                        console.warn(`      Campos faltantes: ${camposFaltantes.join(', ')}`);
-                        throw new Error(`Respuesta Gemini incompleta - faltan: ${camposFaltantes.join(', ')}`);
-                      }
-
-                      setTracks(prev => prev.map(t =>
-                        t.hash === data.hash && t.analisis
-                          ? {
-                            ...t,
-                            analisis: {
-                              ...t.analisis,
-                              genero: geminiData.gemini?.genero,
-                              subgenero: geminiData.gemini?.subgenero,
-                              emocion_principal: geminiData.gemini?.emocion_principal,
-                              intensidad_emocional: geminiData.gemini?.intensidad_emocional
-                            } as CancionAnalizada,
-                            geminiPending: false // ✅ Marcamos como completado para desbloquear el mix
-                          }
-                          : t
-                      ));
-
-                      console.log(`   🤖 [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Gemini OK`);
-                      geminiExitoso = true; // ✅ Marcar como exitoso
-                    } else {
-                      const errorText = await geminiResp.text().catch(() => 'Error desconocido');
-                      console.warn(`   ⚠️ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Gemini falló (${geminiResp.status}): ${errorText}`);
-                      throw new Error(`HTTP ${geminiResp.status}: ${errorText}`);
-                    }
-                  });
-                } catch (error) {
-                  reintentoGemini++;
-                  console.warn(`   ⚠️ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Error Gemini (intento ${reintentoGemini}/${MAX_REINTENTOS_GEMINI}):`, error instanceof Error ? error.message : error);
-
-                  // Si llegamos al máximo de reintentos, marcar como no pendiente para no bloquear
-                  if (reintentoGemini >= MAX_REINTENTOS_GEMINI) {
-                    console.error(`   ❌ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - Gemini falló tras ${MAX_REINTENTOS_GEMINI} intentos`);
-
-                    // 🔓 Desbloquear track aunque falle Gemini para permitir el mix
-                    setTracks(prev => prev.map(t =>
-                      t.hash === data.hash
-                        ? { ...t, geminiPending: false }
-                        : t
-                    ));
-                  } else {
-                    // Esperar antes de reintentar (backoff exponencial)
-                    await new Promise(resolve => setTimeout(resolve, 1000 * reintentoGemini));
-                  }
-                }
-              }
-            }
-
-            return { track, essentiaData: data, geminiSuccess: data.fromCache ? null : true };
+          setUploadProgress(50 + ((i + lote.length) / tracksParaAnalizar.length) * 10);
+        }
 
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Error de red';
-            console.error(`   ❌ [${numActual}/${tracksParaAnalizar.length}] ${track.title} - ${errorMsg}`);
-            return { track, essentiaData: null, geminiSuccess: false };
+        // 2️⃣ Seguimiento en vivo: el análisis continúa en el servidor aunque se cierre la pestaña
+        const progresoJobs = new Map<string, number>();
+
+        await seguirJobs([...jobATrack.keys()], async (job) => {
+          const fileName = jobATrack.get(job.id) ?? job.fileName ?? job.hash;
+          progresoJobs.set(job.id, esTerminado(job.status) ? 100 : job.progress);
+          setAnalysisJobs(prev => ({
+            ...prev,
+            [job.id]: { title: prev[job.id]?.title ?? fileName, job },
+          }));
+
+          const progresoMedio = [...progresoJobs.values()].reduce((total, p) => total + p, 0) / jobATrack.size;
+          setUploadProgress(60 + progresoMedio * 0.4);
+
+          if (!esTerminado(job.status)) return;
+
+          // Si solo falló Gemini, el análisis Essentia basta para mezclar
+          const conAnalisis = job.status === 'completed' || job.stage === 'gemini';
+          const analisis = conAnalisis ? await obtenerAnalisis(job.hash) : null;
+
+          if (job.status === 'completed') {
+            exitosos++;
+            console.log(`   ✅ ${fileName} - Análisis completo`);
+          } else {
+            console.error(`   ❌ ${fileName} - ${job.error || 'Análisis fallido'}`);
+            if (analisis) exitosos++;
+            else fallidos++;
           }
-        });
-
-        // Esperar a que TODAS terminen (pero ya se van procesando en paralelo)
-        const resultados = await Promise.all(promesasPipeline);
 
-        const exitosos = resultados.filter(r => r.essentiaData);
-        const geminiExitosos = resultados.filter(r => r.geminiSuccess === true);
-
-        console.log(`\n✅ Pipeline completado:`);
-        console.log(`   📊 Essentia: ${exitosos.length}/${tracksParaAnalizar.length}`);
-        console.log(`   🤖 Gemini: ${geminiExitosos.length}/${resultados.filter(r => r.essentiaData && !r.essentiaData.fromCache).length}`);
-
-        setUploadProgress(100);
+          // 🔓 Desbloquear el track (con o sin Gemini) para permitir el mix
+          setTracks(prev => prev.map(t =>
+            t.file.name === fileName
+              ? { ...t, analisis: analisis ?? t.analisis, geminiPending: false }
+              : t
+          ));
+        });
 
-        // Notificar resultado final
-        const exitososTotal = exitosos.length;
-        const falliosTotal = tracksParaAnalizar.length - exitososTotal;
+        console.log(`\n✅ Análisis completado: ${exitosos} OK, ${fallidos} fallidos`);
 
-        if (falliosTotal > 0) {
+        if (fallidos > 0) {
           toast({
             title: "Análisis completado con errores",
-            description: `${exitososTotal} canciones analizadas, ${falliosTotal} fallaron`,
+            description: `${exitosos} canciones analizadas, ${fallidos} fallaron`,
             variant: "destructive"
           });
         } else {
           toast({
             title: "Análisis completado",
-            description: `${exitososTotal} canciones analizadas exitosamente`,
+            description: `${exitosos} canciones analizadas exitosamente`,
           });
         }
 
@@ -414,6 +366,13 @@ export default function Home() {
     setVolume(newVolume[0]);
   };
 
+  // Correcciones manuales desde el análisis: la secuencia ya generada no se rehace
+  const handleAnalisisActualizado = (analisis: CancionAnalizada) => {
+    setTracks(prev => prev.map(t =>
+      t.analisis?.hash_archivo === analisis.hash_archivo ? { ...t, analisis } : t
+    ));
+  };
+
   // Mostrar importer solo si no hay tracks
   const showImporter = tracks.length === 0;
 
@@ -524,7 +483,7 @@ export default function Home() {
           <div className={cn("absolute inset-0 flex items-center justify-center transition-opacity duration-500",
             showPlayer ? 'opacity-100' : 'opacity-0 pointer-events-none'
           )}>
-            {showPlayer && <PlaybackInterface tracks={tracks} volume={volume} mixPlan={mixPlan ?? undefined} mixSequence={mixSequence} />}
+            {showPlayer && <PlaybackInterface tracks={tracks} volume={volume} mixPlan={mixPlan ?? undefined} mixSequence={mixSequence} onAnalisisActualizado={handleAnalisisActualizado} />}
           </div>
 
           <div className={cn("absolute inset-0 flex items-center justify-center transition-opacity duration-500",
@@ -537,6 +496,12 @@ export default function Home() {
             />
           </div>
 
+          {isUploading && (
+            <div className="absolute bottom-4 inset-x-0 flex justify-center px-4">
+              <AnalysisProgress items={Object.values(analysisJobs)} />
+            </div>
+          )}
+
         </div>
       </main>
     </>
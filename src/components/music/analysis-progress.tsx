@@ -0,0 +1,78 @@
+"use client";
+
+import { CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { JobResumen } from "@/lib/analysis-jobs";
+
+export type AnalysisProgressItem = {
+  title: string;
+  job: JobResumen;
+};
+
+type AnalysisProgressProps = {
+  items: AnalysisProgressItem[];
+  className?: string;
+};
+
+const STAGE_LABELS: Record<JobResumen["stage"], string> = {
+  essentia: "Essentia",
+  gemini: "Gemini",
+};
+
+function StatusIcon({ status }: { status: JobResumen["status"] }) {
+  if (status === "completed") return <CheckCircle2 className="w-4 h-4 text-primary shrink-0" />;
+  if (status === "dead" || status === "failed") return <XCircle className="w-4 h-4 text-destructive shrink-0" />;
+  if (status === "processing") return <Loader2 className="w-4 h-4 text-primary animate-spin shrink-0" />;
+  return <Clock className="w-4 h-4 text-muted-foreground shrink-0" />;
+}
+
+export function AnalysisProgress({ items, className }: AnalysisProgressProps) {
+  if (items.length === 0) return null;
+
+  const completados = items.filter(i => i.job.status === "completed").length;
+  const fallidos = items.filter(i => i.job.status === "dead" || i.job.status === "failed").length;
+  const enCurso = items.filter(i => i.job.status === "processing").length;
+  const enCola = items.length - completados - fallidos - enCurso;
+
+  // Primero lo que se está moviendo, luego la cola y al final lo terminado
+  const orden: Record<JobResumen["status"], number> = { processing: 0, pending: 1, dead: 2, failed: 2, completed: 3 };
+  const ordenados = [...items].sort((a, b) => orden[a.job.status] - orden[b.job.status]);
+
+  return (
+    <div className={cn("w-full max-w-xl rounded-lg border border-border/50 bg-card/60 backdrop-blur p-4 space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="font-semibold text-foreground">
+          Análisis: {completados + fallidos}/{items.length}
+        </span>
+        <span className="text-muted-foreground">
+          {enCurso} en curso · {enCola} en cola · {fallidos} fallidos
+        </span>
+      </div>
+
+      <ScrollArea className="h-56 pr-3">
+        <ul className="space-y-3">
+          {ordenados.map(({ title, job }) => (
+            <li key={job.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                <StatusIcon status={job.status} />
+                <span className="truncate flex-1" title={title}>{title}</span>
+                <span className="text-xs text-muted-foreground">{STAGE_LABELS[job.stage]}</span>
+              </div>
+              <Progress value={job.progress} className="h-1.5" />
+              <p className={cn(
+                "text-xs truncate",
+                job.status === "dead" || job.status === "failed" ? "text-destructive" : "text-muted-foreground"
+              )}>
+                {job.status === "dead" || job.status === "failed"
+                  ? job.error || "Análisis fallido"
+                  : job.currentStep || "En cola"}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -2,12 +2,17 @@ import { PlaceHolderImages } from "@/lib/placeholder-images";
 import Image from "next/image";
 import { useEffect, useState, useRef } from "react";
 import { Button } from "../ui/button";
-import { Play, Pause, SkipBack, SkipForward, ChevronsRight, ChevronsLeft, Info } from "lucide-react";
+import { Play, Pause, SkipBack, SkipForward, ChevronsRight, ChevronsLeft, Info, Repeat } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { Track } from "@/app/page";
 import type { MixPlanEntry } from "@/lib/mix-planner";
+import type { CancionAnalizada } from "@/lib/db";
 import { TrackAnalysis } from "./track-analysis";
+import { TrackWaveform } from "./track-waveform";
 import { useMixPlayer, MixSequence } from "@/hooks/use-mix-player";
+import type { LoopBars } from "@/lib/beatmatch";
+
+const LOOP_SIZES: LoopBars[] = [1, 4, 8];
 
 const albumArtPlaceholder = PlaceHolderImages.find(
   (img) => img.id === "album-art-placeholder"
@@ -273,6 +278,7 @@ type PlaybackInterfaceProps = {
   volume: number;
   mixPlan?: MixPlanEntry[];
   mixSequence?: any;
+  onAnalisisActualizado?: (analisis: CancionAnalizada) => void;
 };
 
 const SeekIndicator = ({ time, direction }: { time: number; direction: 'forward' | 'backward' }) => {
@@ -293,22 +299,21 @@ const SeekIndicator = ({ time, direction }: { time: number; direction: 'forward'
   );
 };
 
-export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence }: PlaybackInterfaceProps) {
+export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence, onAnalisisActualizado }: PlaybackInterfaceProps) {
   const [showAnalysis, setShowAnalysis] = useState(false);
   const mainContainerRef = useRef<HTMLDivElement>(null);
   const [ringSizes, setRingSizes] = useState({ outer: 0, inner: 0 });
 
-  // Enrich mixSequence with local track URLs (Blob URLs)
-  // The API returns track metadata but NOT the blob URL which is local state
+  // Enrich mixSequence with local track data (analisis, artwork...)
+  // The API already returns a server URL (/api/audio/{hash}); the local Blob URL is
+  // preferred when the file was loaded in this tab (no download needed)
   const enrichedMixSequence: MixSequence | null = mixSequence ? {
     ...mixSequence,
     tracks: mixSequence.tracks.map((item: any) => {
-      // Find the local track that matches this sequence item
-      // Match by ID (if available) or Hash or Title/Artist as fallback
+      // Find the local track that matches this sequence item (by hash)
       const localTrack = tracks.find(t =>
         (t.analisis?.hash_archivo && t.analisis.hash_archivo === item.track.hash) ||
-        (t.hash && t.hash === item.track.hash) ||
-        (t.title === item.track.title)
+        (t.hash && t.hash === item.track.hash)
       );
 
       return {
@@ -335,7 +340,10 @@ export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence }: Play
     seek,
     skipNext,
     skipPrev,
-    transitionStatus
+    transitionStatus,
+    activeLoopBars,
+    toggleLoop,
+    exitLoop
   } = useMixPlayer({
     mixSequence: enrichedMixSequence,
     initialVolume: volume
@@ -435,7 +443,7 @@ export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence }: Play
             >
               ← Volver
             </Button>
-            <TrackAnalysis analisis={currentTrack.analisis} />
+            <TrackAnalysis analisis={currentTrack.analisis} onAnalisisActualizado={onAnalisisActualizado} />
           </div>
         </div>
       )}
@@ -521,6 +529,22 @@ export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence }: Play
           )}
         </div>
 
+        {/* Forma de onda con grid, secciones y cues de entrada/salida del plan */}
+        {currentTrack.analisis?.hash_archivo && (
+          <TrackWaveform
+            className="max-w-md"
+            hash={currentTrack.analisis.hash_archivo}
+            duracionMs={currentTrack.analisis.duracion_ms || (currentTrack.duration * 1000)}
+            currentTimeMs={currentTimeMs}
+            downbeatsMs={currentTrack.analisis.downbeats_ts_ms}
+            frasesMs={currentTrack.analisis.frases_ts_ms}
+            timeline={currentTrack.analisis.timeline}
+            entradaMs={safeStartPointMs}
+            salidaMs={safeExitPointMs}
+            onSeek={(ms) => seek(ms / 1000)}
+          />
+        )}
+
         <div className="flex flex-col items-center gap-2 text-center opacity-80">
           <p className="text-xs tracking-widest text-muted-foreground">SIGUIENTE</p>
           <div className="flex items-center gap-4">
@@ -572,6 +596,32 @@ export function PlaybackInterface({ tracks, volume, mixPlan, mixSequence }: Play
             <SkipForward />
           </Button>
         </div>
+
+        {/* Loop roll (compases sobre el grid de downbeats) */}
+        <div className="flex items-center gap-1 p-1 rounded-full bg-black/20 backdrop-blur-md border border-white/10 z-30">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("rounded-full w-9 h-9", activeLoopBars ? "text-primary" : "text-muted-foreground")}
+            onClick={exitLoop}
+            disabled={!activeLoopBars}
+            title="Salir del loop"
+          >
+            <Repeat className="w-4 h-4" />
+          </Button>
+          {LOOP_SIZES.map(bars => (
+            <Button
+              key={bars}
+              variant={activeLoopBars === bars ? "default" : "ghost"}
+              size="sm"
+              className="rounded-full h-9 min-w-9 px-3 font-mono text-xs"
+              onClick={() => toggleLoop(bars)}
+              title={`Loop de ${bars} ${bars === 1 ? 'compás' : 'compases'}`}
+            >
+              {bars}
+            </Button>
+          ))}
+        </div>
       </div>
     </>
   );
@@ -1,40 +1,164 @@
 "use client";
 
-import { type CancionAnalizada } from "@/lib/db";
+import { useEffect, useState } from "react";
+import type { CampoBloqueable, CancionAnalizada, TimelineSegment } from "@/lib/db";
+import type { CorreccionesAnalisis } from "@/lib/analysis-corrections";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Music, Activity, Heart, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Music, Activity, Heart, Clock, Lock, Pencil, Check, Mic, MicOff, Scissors, Merge, Grid3x3 } from "lucide-react";
 
 type TrackAnalysisProps = {
   analisis: CancionAnalizada;
+  onAnalisisActualizado?: (analisis: CancionAnalizada) => void;
 };
 
-export function TrackAnalysis({ analisis }: TrackAnalysisProps) {
+// Mismo orden que SECCIONES_TIMELINE (db.ts no se importa en el cliente: arrastra el driver de BD)
+const SECCIONES: TimelineSegment['tipo_seccion'][] = [
+  'intro', 'verso', 'estribillo', 'puente', 'outro', 'solo_instrumental', 'subidon_build_up',
+];
+
+// "MM:SS.d" ↔ ms (formato del timeline de Gemini)
+const tiempoAMs = (tiempo: string) => {
+  const [minutos, segundos] = tiempo.split(':');
+  return Math.round((Number(minutos) * 60 + Number(segundos)) * 1000);
+};
+const msATiempo = (ms: number) => {
+  const decimas = Math.round(Math.max(0, ms) / 100);
+  return `${String(Math.floor(decimas / 600)).padStart(2, '0')}:${((decimas % 600) / 10).toFixed(1).padStart(4, '0')}`;
+};
+
+export function TrackAnalysis({ analisis: analisisInicial, onAnalisisActualizado }: TrackAnalysisProps) {
+  const [analisis, setAnalisis] = useState(analisisInicial);
+  const [editando, setEditando] = useState(false);
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bpmTexto, setBpmTexto] = useState('');
+  const [tonalidadTexto, setTonalidadTexto] = useState('');
+  const [corte, setCorte] = useState<{ indice: number; tiempo: string } | null>(null);
+
+  useEffect(() => {
+    setAnalisis(analisisInicial);
+    setBpmTexto(analisisInicial.bpm?.toFixed(1) ?? '');
+    setTonalidadTexto(analisisInicial.tonalidad_camelot ?? '');
+    setCorte(null);
+    setError(null);
+  }, [analisisInicial]);
+
+  const bloqueos = analisis.bloqueos ?? {};
+  const timeline = analisis.timeline ?? [];
+
+  const corregir = async (correcciones: CorreccionesAnalisis) => {
+    setGuardando(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/analysis-corrections', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hash: analisis.hash_archivo, ...correcciones }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Error guardando la corrección');
+
+      const actualizada = data.cancion as CancionAnalizada;
+      setAnalisis(actualizada);
+      setBpmTexto(actualizada.bpm?.toFixed(1) ?? '');
+      setTonalidadTexto(actualizada.tonalidad_camelot ?? '');
+      setCorte(null);
+      onAnalisisActualizado?.(actualizada);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  // Candado de un campo corregido a mano; en edición, pulsarlo lo desbloquea
+  const Candado = ({ campo }: { campo: CampoBloqueable }) => {
+    if (!bloqueos[campo]) return null;
+    return (
+      <button
+        type="button"
+        className="text-primary disabled:cursor-default"
+        title={editando ? 'Desbloquear (el próximo análisis podrá cambiarlo)' : 'Corregido a mano'}
+        disabled={!editando || guardando}
+        onClick={() => corregir({ bloqueos: { [campo]: false } })}
+      >
+        <Lock className="w-3 h-3" />
+      </button>
+    );
+  };
+
+  const etiquetarSegmento = (indice: number, cambios: Partial<Pick<TimelineSegment, 'tipo_seccion' | 'has_vocals'>>) =>
+    corregir({ timeline: [{ op: 'etiquetar', indice, ...cambios }] });
+
+  const iniciarCorte = (indice: number, segmento: TimelineSegment) => {
+    const medio = (tiempoAMs(segmento.inicio) + tiempoAMs(segmento.fin)) / 2;
+    setCorte({ indice, tiempo: msATiempo(medio) });
+  };
+
   return (
     <div className="space-y-4 p-4">
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Music className="w-5 h-5" />
-            Análisis Técnico
-          </CardTitle>
-          <CardDescription>{analisis.titulo}</CardDescription>
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Music className="w-5 h-5" />
+                Análisis Técnico
+              </CardTitle>
+              <CardDescription>{analisis.titulo}</CardDescription>
+            </div>
+            <Button
+              variant={editando ? "default" : "outline"}
+              size="sm"
+              onClick={() => { setEditando(!editando); setCorte(null); setError(null); }}
+            >
+              {editando ? <Check className="w-4 h-4 mr-1" /> : <Pencil className="w-4 h-4 mr-1" />}
+              {editando ? 'Listo' : 'Corregir'}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {error && <div className="text-sm text-destructive">{error}</div>}
+
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground flex items-center gap-1">
                 <Activity className="w-4 h-4" />
                 BPM
+                <Candado campo="bpm" />
               </div>
-              <div className="text-2xl font-bold">{analisis.bpm?.toFixed(1)}</div>
+              {editando ? (
+                <form
+                  className="flex gap-1"
+                  onSubmit={(e) => { e.preventDefault(); corregir({ bpm: Number(bpmTexto) }); }}
+                >
+                  <Input type="number" step="0.01" value={bpmTexto} onChange={(e) => setBpmTexto(e.target.value)} className="h-8 w-24" />
+                  <Button type="submit" size="sm" variant="secondary" disabled={guardando}>OK</Button>
+                </form>
+              ) : (
+                <div className="text-2xl font-bold">{analisis.bpm?.toFixed(1)}</div>
+              )}
             </div>
 
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground flex items-center gap-1">
                 <Music className="w-4 h-4" />
                 Tonalidad
+                <Candado campo="tonalidad" />
               </div>
-              <div className="text-2xl font-bold">{analisis.tonalidad_camelot}</div>
+              {editando ? (
+                <form
+                  className="flex gap-1"
+                  onSubmit={(e) => { e.preventDefault(); corregir({ tonalidad: tonalidadTexto }); }}
+                >
+                  <Input value={tonalidadTexto} onChange={(e) => setTonalidadTexto(e.target.value)} placeholder="8A" className="h-8 w-20 uppercase" />
+                  <Button type="submit" size="sm" variant="secondary" disabled={guardando}>OK</Button>
+                </form>
+              ) : (
+                <div className="text-2xl font-bold">{analisis.tonalidad_camelot}</div>
+              )}
             </div>
 
             <div className="space-y-1">
@@ -55,13 +179,104 @@ export function TrackAnalysis({ analisis }: TrackAnalysisProps) {
               {Math.floor(analisis.duracion_ms / 60000)}:{String(Math.floor((analisis.duracion_ms % 60000) / 1000)).padStart(2, '0')}
             </div>
           </div>
+
+          {editando && (analisis.beats_ts_ms?.length ?? 0) >= 2 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium flex items-center gap-1">
+                <Grid3x3 className="w-4 h-4" />
+                Beat grid
+                <Candado campo="grid" />
+                <span className="text-muted-foreground font-normal ml-1">
+                  primer tiempo {msATiempo(analisis.downbeats_ts_ms?.[0] ?? analisis.beats_ts_ms![0])}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <Button size="sm" variant="outline" disabled={guardando} onClick={() => corregir({ grid: { desplazamientoMs: -10 } })}>-10 ms</Button>
+                <Button size="sm" variant="outline" disabled={guardando} onClick={() => corregir({ grid: { desplazamientoMs: 10 } })}>+10 ms</Button>
+                <Button size="sm" variant="outline" disabled={guardando} onClick={() => corregir({ grid: { desplazarTiempos: -1 } })}>← 1 tiempo</Button>
+                <Button size="sm" variant="outline" disabled={guardando} onClick={() => corregir({ grid: { desplazarTiempos: 1 } })}>1 tiempo →</Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      {analisis.estructura_ts && analisis.estructura_ts.length > 0 && (
+      {editando && timeline.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Estructura Musical
+              <Candado campo="timeline" />
+            </CardTitle>
+            <CardDescription>Cambia la sección, marca la voz, divide o une con la siguiente</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {timeline.map((segmento, i) => (
+                <div key={i} className="p-2 bg-muted rounded text-sm space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      className="bg-background border rounded px-1 py-0.5 capitalize"
+                      value={segmento.tipo_seccion}
+                      disabled={guardando}
+                      onChange={(e) => etiquetarSegmento(i, { tipo_seccion: e.target.value as TimelineSegment['tipo_seccion'] })}
+                    >
+                      {SECCIONES.map(tipo => (
+                        <option key={tipo} value={tipo}>{tipo.replace(/_/g, ' ')}</option>
+                      ))}
+                    </select>
+                    <span className="text-muted-foreground flex-1">
+                      {segmento.inicio} - {segmento.fin}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title={segmento.has_vocals ? 'Con voz' : 'Instrumental'}
+                      disabled={guardando}
+                      onClick={() => etiquetarSegmento(i, { has_vocals: !segmento.has_vocals })}
+                    >
+                      {segmento.has_vocals ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4 text-muted-foreground" />}
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" title="Dividir" disabled={guardando} onClick={() => iniciarCorte(i, segmento)}>
+                      <Scissors className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Unir con la siguiente"
+                      disabled={guardando || i === timeline.length - 1}
+                      onClick={() => corregir({ timeline: [{ op: 'unir', indice: i }] })}
+                    >
+                      <Merge className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {corte?.indice === i && (
+                    <form
+                      className="flex items-center gap-1"
+                      onSubmit={(e) => { e.preventDefault(); corregir({ timeline: [{ op: 'dividir', indice: i, tiempo: corte.tiempo }] }); }}
+                    >
+                      <span className="text-muted-foreground">Dividir en</span>
+                      <Input value={corte.tiempo} onChange={(e) => setCorte({ indice: i, tiempo: e.target.value })} className="h-7 w-24" />
+                      <Button type="submit" size="sm" variant="secondary" disabled={guardando}>OK</Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setCorte(null)}>Cancelar</Button>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!editando && analisis.estructura_ts && analisis.estructura_ts.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Estructura Musical</CardTitle>
+            <CardTitle className="flex items-center gap-2">
+              Estructura Musical
+              <Candado campo="timeline" />
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-1">
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { TimelineSegment } from "@/lib/db";
+import { decodificarNivel, elegirNivel, type FormaOnda, type NivelFormaOndaDecodificado } from "@/lib/audio-waveform";
+import { cn } from "@/lib/utils";
+
+type TrackWaveformProps = {
+  hash: string;
+  duracionMs: number;
+  currentTimeMs: number;
+  downbeatsMs?: number[] | null;
+  frasesMs?: number[] | null;
+  timeline?: TimelineSegment[] | null;
+  entradaMs?: number;   // Cue de entrada planificado (startPoint)
+  salidaMs?: number;    // Cue de salida planificado (exitPoint)
+  onSeek?: (ms: number) => void;
+  className?: string;
+};
+
+const ALTO = 72;
+const ALTO_SECCIONES = 10;
+
+const COLORES_SECCION: Record<TimelineSegment['tipo_seccion'], string> = {
+  intro: "#64748b",
+  verso: "#0ea5e9",
+  estribillo: "#f59e0b",
+  puente: "#a855f7",
+  outro: "#64748b",
+  solo_instrumental: "#10b981",
+  subidon_build_up: "#ef4444",
+};
+
+// Una petición por canción aunque se remonte el componente
+const cacheFormasOnda = new Map<string, Promise<FormaOnda | null>>();
+
+function cargarFormaOnda(hash: string): Promise<FormaOnda | null> {
+  let promesa = cacheFormasOnda.get(hash);
+  if (!promesa) {
+    promesa = fetch(`/api/waveform?hash=${encodeURIComponent(hash)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => (data?.forma_onda as FormaOnda) ?? null)
+      .catch(() => null);
+    cacheFormasOnda.set(hash, promesa);
+  }
+  return promesa;
+}
+
+// "MM:SS.d" → ms
+const tiempoAMs = (tiempo: string) => {
+  const [minutos, segundos] = tiempo.split(':');
+  return Math.round((Number(minutos) * 60 + Number(segundos)) * 1000);
+};
+
+export function TrackWaveform({
+  hash,
+  duracionMs,
+  currentTimeMs,
+  downbeatsMs,
+  frasesMs,
+  timeline,
+  entradaMs,
+  salidaMs,
+  onSeek,
+  className
+}: TrackWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [forma, setForma] = useState<FormaOnda | null>(null);
+  const [ancho, setAncho] = useState(0);
+  const [nivel, setNivel] = useState<NivelFormaOndaDecodificado | null>(null);
+
+  useEffect(() => {
+    let cancelado = false;
+    setForma(null);
+    cargarFormaOnda(hash).then(resultado => {
+      if (!cancelado) setForma(resultado);
+    });
+    return () => { cancelado = true; };
+  }, [hash]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entrada]) => setAncho(Math.floor(entrada.contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [forma]);
+
+  // Nivel con ~1 punto por píxel (decodificar base64 solo cuando cambia el ancho)
+  useEffect(() => {
+    if (!forma || ancho === 0) {
+      setNivel(null);
+      return;
+    }
+    setNivel(decodificarNivel(elegirNivel(forma, forma.duracion_ms / ancho)));
+  }, [forma, ancho]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !nivel || ancho === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = ancho * ratio;
+    canvas.height = ALTO * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, ancho, ALTO);
+
+    const duracion = duracionMs || forma?.duracion_ms || 1;
+    const x = (ms: number) => (ms / duracion) * ancho;
+    const altoOnda = ALTO - ALTO_SECCIONES;
+    const centro = altoOnda / 2;
+
+    // Secciones del timeline (franja inferior)
+    for (const segmento of timeline ?? []) {
+      const desde = x(tiempoAMs(segmento.inicio));
+      const hasta = x(tiempoAMs(segmento.fin));
+      ctx.fillStyle = COLORES_SECCION[segmento.tipo_seccion] ?? "#64748b";
+      ctx.globalAlpha = segmento.has_vocals ? 0.9 : 0.45;
+      ctx.fillRect(desde, altoOnda + 2, Math.max(1, hasta - desde - 1), ALTO_SECCIONES - 2);
+    }
+    ctx.globalAlpha = 1;
+
+    // Onda: pico tenue detrás, RMS coloreado por bandas (rojo graves, verde medios, azul agudos)
+    const puntos = nivel.pico.length;
+    for (let px = 0; px < ancho; px++) {
+      const desde = Math.floor(((px * duracion) / ancho) / nivel.ms_por_punto);
+      const hasta = Math.min(puntos, Math.max(desde + 1, Math.floor((((px + 1) * duracion) / ancho) / nivel.ms_por_punto)));
+      if (desde >= puntos) break;
+
+      let pico = 0, rms = 0, graves = 0, medios = 0, agudos = 0;
+      for (let i = desde; i < hasta; i++) {
+        pico = Math.max(pico, nivel.pico[i]);
+        rms = Math.max(rms, nivel.rms[i]);
+        graves = Math.max(graves, nivel.graves[i]);
+        medios = Math.max(medios, nivel.medios[i]);
+        agudos = Math.max(agudos, nivel.agudos[i]);
+      }
+
+      const altoPico = (pico / 255) * centro;
+      ctx.fillStyle = "rgba(255,255,255,0.18)";
+      ctx.fillRect(px, centro - altoPico, 1, altoPico * 2);
+
+      const mayor = Math.max(graves, medios, agudos, 1);
+      const altoRms = (rms / 255) * centro;
+      ctx.fillStyle = `rgb(${Math.round((graves / mayor) * 255)},${Math.round((medios / mayor) * 200)},${Math.round((agudos / mayor) * 255)})`;
+      ctx.fillRect(px, centro - altoRms, 1, altoRms * 2);
+    }
+
+    // Grid: downbeats finos (si caben) y frases marcadas
+    const downbeats = downbeatsMs ?? [];
+    if (downbeats.length > 1 && x(downbeats[1] - downbeats[0]) >= 4) {
+      ctx.fillStyle = "rgba(255,255,255,0.15)";
+      for (const ms of downbeats) ctx.fillRect(Math.round(x(ms)), 0, 1, altoOnda);
+    }
+    ctx.fillStyle = "rgba(255,255,255,0.5)";
+    for (const ms of frasesMs ?? []) ctx.fillRect(Math.round(x(ms)), 0, 1, altoOnda);
+
+    // Cues planificados: lo que no suena en la mezcla queda sombreado
+    ctx.fillStyle = "rgba(0,0,0,0.55)";
+    if (entradaMs && entradaMs > 0) ctx.fillRect(0, 0, x(entradaMs), altoOnda);
+    if (salidaMs && salidaMs < duracion) ctx.fillRect(x(salidaMs), 0, ancho - x(salidaMs), altoOnda);
+    if (entradaMs !== undefined) {
+      ctx.fillStyle = "#22c55e";
+      ctx.fillRect(Math.round(x(entradaMs)), 0, 2, altoOnda);
+    }
+    if (salidaMs !== undefined) {
+      ctx.fillStyle = "#ef4444";
+      ctx.fillRect(Math.round(x(salidaMs)) - 2, 0, 2, altoOnda);
+    }
+
+    // Cabezal
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(Math.round(x(currentTimeMs)), 0, 2, altoOnda);
+  }, [nivel, ancho, forma, duracionMs, currentTimeMs, downbeatsMs, frasesMs, timeline, entradaMs, salidaMs]);
+
+  if (!forma) return null;
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const duracion = duracionMs || forma.duracion_ms;
+    onSeek(((e.clientX - rect.left) / rect.width) * duracion);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn("w-full rounded-md bg-black/40", onSeek && "cursor-pointer", className)}
+      style={{ height: ALTO }}
+      onClick={handleClick}
+    />
+  );
+}
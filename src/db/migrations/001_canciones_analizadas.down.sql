@@ -0,0 +1,2 @@
+-- Borra todo el análisis (transiciones_calculadas y formas_onda se revierten antes)
+DROP TABLE IF EXISTS canciones_analizadas;
@@ -1,5 +1,5 @@
 -- ===================================================================
--- SCHEMA ULTRA-OPTIMIZADO - TIMELINE UNIFICADO
+-- CANCIONES ANALIZADAS - TIMELINE UNIFICADO
 -- ===================================================================
 -- UNA SOLA FUENTE DE VERDAD: timeline
 -- Máxima velocidad y eficiencia - Sin redundancias
@@ -15,6 +15,8 @@ CREATE TABLE IF NOT EXISTS canciones_analizadas (
     -- MÉTRICAS BÁSICAS (ESENCIALES PARA MIX)
     -- ===================================================================
     bpm FLOAT NOT NULL CHECK (bpm > 0 AND bpm < 300),
+    -- Lecturas alternativas de tempo: [{bpm, confianza}] (mitad/doble/3:2)
+    bpm_candidatos JSONB NOT NULL DEFAULT '[]',
     tonalidad_camelot VARCHAR(3) NOT NULL,
     tonalidad_compatible JSONB NOT NULL DEFAULT '[]',
     bailabilidad FLOAT NOT NULL CHECK (bailabilidad >= 0 AND bailabilidad <= 1),
@@ -27,6 +29,9 @@ CREATE TABLE IF NOT EXISTS canciones_analizadas (
     downbeats_ts_ms JSONB NOT NULL DEFAULT '[]',
     frases_ts_ms JSONB NOT NULL DEFAULT '[]',
     
+    -- Huella chroma para detectar duplicados y versiones: {v, ventana_ms, frames, perfil}
+    huella_chroma JSONB,
+    
     -- ===================================================================
     -- DATOS DE GEMINI (TIMELINE UNIFICADO)
     -- ===================================================================
@@ -42,6 +47,20 @@ CREATE TABLE IF NOT EXISTS canciones_analizadas (
     -- ===================================================================
     -- METADATOS
     -- ===================================================================
+    -- Tags del archivo (ID3/Vorbis): se leen al analizar
+    artista TEXT,
+    album TEXT,
+    anio INTEGER,
+    genero TEXT,
+    sello TEXT,
+    isrc VARCHAR(15),
+    comentarios TEXT,
+    -- Etiquetas del usuario: ["warmup", "vinilo"]
+    etiquetas JSONB NOT NULL DEFAULT '[]',
+    
+    -- Campos corregidos a mano que un re-análisis no pisa: {"bpm": true, "grid": true, ...}
+    -- (bpm, tonalidad, grid = beats/downbeats/frases/compás, timeline)
+    bloqueos JSONB NOT NULL DEFAULT '{}',
     fecha_procesado TIMESTAMPTZ DEFAULT NOW(),
     
     -- ===================================================================
@@ -59,6 +78,23 @@ CREATE INDEX IF NOT EXISTS idx_tonalidad ON canciones_analizadas(tonalidad_camel
 CREATE INDEX IF NOT EXISTS idx_bailabilidad ON canciones_analizadas(bailabilidad);
 CREATE INDEX IF NOT EXISTS idx_fecha_procesado ON canciones_analizadas(fecha_procesado);
 
+-- Columnas añadidas después de la primera versión del esquema
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS bpm_candidatos JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS artista TEXT;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS album TEXT;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS anio INTEGER;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS genero TEXT;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS sello TEXT;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS isrc VARCHAR(15);
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS comentarios TEXT;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS etiquetas JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS huella_chroma JSONB;
+ALTER TABLE canciones_analizadas ADD COLUMN IF NOT EXISTS bloqueos JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_artista ON canciones_analizadas(LOWER(artista));
+CREATE INDEX IF NOT EXISTS idx_isrc ON canciones_analizadas(isrc);
+CREATE INDEX IF NOT EXISTS idx_etiquetas ON canciones_analizadas USING GIN (etiquetas);
+
 -- Índice GIN para búsquedas en JSONB (sintaxis PostgreSQL válida)
 -- El linter puede mostrar error porque espera sintaxis Oracle, pero es correcto
 CREATE INDEX IF NOT EXISTS idx_timeline ON canciones_analizadas USING GIN (timeline);
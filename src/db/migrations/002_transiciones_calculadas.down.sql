@@ -0,0 +1 @@
+DROP TABLE IF EXISTS transiciones_calculadas;
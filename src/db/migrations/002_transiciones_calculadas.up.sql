@@ -0,0 +1,20 @@
+-- ===================================================================
+-- CACHÉ DE TRANSICIONES ENTRE PARES (A → B)
+-- ===================================================================
+-- Mejor TransitionResult + score de calculateTransitionScore por par ordenado.
+-- Una fila es válida solo si fecha_procesado_a/b coinciden con las de
+-- canciones_analizadas (si un track se re-analiza, sus pares se recalculan)
+-- y si version_algoritmo es la actual del código.
+CREATE TABLE IF NOT EXISTS transiciones_calculadas (
+    hash_a VARCHAR(256) NOT NULL REFERENCES canciones_analizadas(hash_archivo) ON DELETE CASCADE,
+    hash_b VARCHAR(256) NOT NULL REFERENCES canciones_analizadas(hash_archivo) ON DELETE CASCADE,
+    version_algoritmo INTEGER NOT NULL,
+    fecha_procesado_a TIMESTAMPTZ NOT NULL,
+    fecha_procesado_b TIMESTAMPTZ NOT NULL,
+    score FLOAT NOT NULL,
+    transicion JSONB,  -- null si no hay transición posible entre A y B
+    fecha_calculo TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (hash_a, hash_b, version_algoritmo)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transiciones_hash_b ON transiciones_calculadas(hash_b);
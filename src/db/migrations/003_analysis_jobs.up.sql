@@ -0,0 +1,33 @@
+-- ===================================================================
+-- COLA DE ANÁLISIS (analysis_jobs)
+-- ===================================================================
+-- Un job por archivo (hash). Los workers del servidor lo reclaman con
+-- FOR UPDATE SKIP LOCKED y un lease que renuevan mientras trabajan; si un
+-- worker muere, el lease caduca y otro lo recoge. Cada etapa (essentia →
+-- gemini) tiene max_attempts intentos con backoff exponencial (run_after);
+-- agotados, el job pasa a 'dead' (dead-letter) con el último error.
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hash_archivo VARCHAR(256) UNIQUE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- pending | processing | completed | failed | dead
+    progress INTEGER NOT NULL DEFAULT 0,
+    current_step TEXT,
+    error_message TEXT,
+    result JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS stage VARCHAR(20) NOT NULL DEFAULT 'essentia';  -- essentia | gemini
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS file_name TEXT;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS mime_type TEXT;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS version_id UUID;  -- versiones_analisis.id que rellena el job
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_cola ON analysis_jobs(stage, status, run_after);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_lease ON analysis_jobs(lease_expires_at) WHERE status = 'processing';
@@ -0,0 +1,20 @@
+-- ===================================================================
+-- BIBLIOTECA LOCAL (archivos_biblioteca)
+-- ===================================================================
+-- Espejo de MUSIC_LIBRARY_DIR: una fila por archivo de audio en disco
+-- (ruta relativa a la raíz). El análisis sigue indexado por hash en
+-- canciones_analizadas; aquí solo se sabe dónde está cada hash.
+-- tamano_bytes + modificado_ms evitan re-hashear archivos sin cambios.
+-- Un archivo borrado no se elimina: pasa a estado 'ausente'.
+CREATE TABLE IF NOT EXISTS archivos_biblioteca (
+    ruta TEXT PRIMARY KEY,
+    hash_archivo VARCHAR(256) NOT NULL,
+    tamano_bytes BIGINT NOT NULL,
+    modificado_ms BIGINT NOT NULL,
+    estado VARCHAR(20) NOT NULL DEFAULT 'presente',  -- presente | ausente
+    fecha_alta TIMESTAMPTZ DEFAULT NOW(),
+    fecha_visto TIMESTAMPTZ DEFAULT NOW(),
+    fecha_ausente TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_archivos_biblioteca_hash ON archivos_biblioteca(hash_archivo);
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS versiones_analisis;
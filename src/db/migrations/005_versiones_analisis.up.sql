@@ -0,0 +1,38 @@
+-- ===================================================================
+-- VERSIONES DE ANÁLISIS (versiones_analisis)
+-- ===================================================================
+-- Una fila por ejecución del pipeline (Essentia → Gemini) con la versión
+-- del analizador, del prompt y el modelo. canciones_analizadas contiene
+-- la versión activa (una por hash); el resto se guardan para comparar.
+-- Sin FK a canciones_analizadas: la versión del primer análisis se crea
+-- antes que la canción.
+CREATE TABLE IF NOT EXISTS versiones_analisis (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hash_archivo VARCHAR(256) NOT NULL,
+    numero INTEGER NOT NULL,
+    version_analizador TEXT,
+    version_prompt TEXT,
+    modelo TEXT,
+    activa BOOLEAN NOT NULL DEFAULT FALSE,
+    activar_al_completar BOOLEAN NOT NULL DEFAULT TRUE,  -- Re-análisis: activarla al terminar Gemini
+    motivo TEXT,
+    fecha_creacion TIMESTAMPTZ DEFAULT NOW(),
+    fecha_essentia TIMESTAMPTZ,
+    fecha_gemini TIMESTAMPTZ,
+    -- Instantánea del análisis (mismas columnas que canciones_analizadas)
+    duracion_ms INTEGER,
+    bpm FLOAT,
+    bpm_candidatos JSONB NOT NULL DEFAULT '[]',
+    tonalidad_camelot VARCHAR(3),
+    tonalidad_compatible JSONB NOT NULL DEFAULT '[]',
+    bailabilidad FLOAT,
+    compas JSONB,
+    beats_ts_ms JSONB NOT NULL DEFAULT '[]',
+    downbeats_ts_ms JSONB NOT NULL DEFAULT '[]',
+    frases_ts_ms JSONB NOT NULL DEFAULT '[]',
+    timeline JSONB NOT NULL DEFAULT '[]',
+    loops_transicion JSONB NOT NULL DEFAULT '[]',
+    UNIQUE (hash_archivo, numero)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versiones_analisis_activa ON versiones_analisis(hash_archivo) WHERE activa;
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS formas_onda;
@@ -0,0 +1,12 @@
+-- ===================================================================
+-- FORMAS DE ONDA (formas_onda)
+-- ===================================================================
+-- Forma de onda multirresolución (pico, RMS y bandas graves/medios/agudos
+-- en base64) que calcula el analizador. Aparte de canciones_analizadas
+-- porque pesa ~100 KB por tema y las consultas de la biblioteca no la usan.
+CREATE TABLE IF NOT EXISTS formas_onda (
+    hash_archivo VARCHAR(256) PRIMARY KEY REFERENCES canciones_analizadas(hash_archivo) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    datos JSONB NOT NULL,
+    fecha_calculo TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,25 @@
+-- ===================================================================
+-- SESIONES DE MEZCLA GUARDADAS (sesiones_mix)
+-- ===================================================================
+-- Un set preparado: pistas en orden con la transición hacia la siguiente
+-- [{hash, transitionScore, transition: {type, curve, startPointMs,
+-- exitPointMs, entryPointMs, score, description, loopLengthMs, loopType}}]
+-- y los parámetros de /api/mix-sequence que lo generaron. Los datos de
+-- cada canción se leen de canciones_analizadas al cargar la sesión.
+-- Una bifurcación apunta a su original (sesion_origen_id) y, si se
+-- re-secuenció, a la pista desde la que cambió (posicion_bifurcacion).
+CREATE TABLE IF NOT EXISTS sesiones_mix (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    nombre TEXT NOT NULL,
+    notas TEXT,
+    sesion_origen_id UUID REFERENCES sesiones_mix(id) ON DELETE SET NULL,
+    posicion_bifurcacion INTEGER,
+    parametros JSONB NOT NULL DEFAULT '{}',
+    pistas JSONB NOT NULL DEFAULT '[]',
+    puntuacion_total FLOAT NOT NULL DEFAULT 0,
+    fecha_creacion TIMESTAMPTZ DEFAULT NOW(),
+    fecha_actualizacion TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sesiones_mix_actualizacion ON sesiones_mix(fecha_actualizacion DESC);
+CREATE INDEX IF NOT EXISTS idx_sesiones_mix_origen ON sesiones_mix(sesion_origen_id);
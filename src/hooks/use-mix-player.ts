@@ -1,4 +1,18 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+    getCrossfadeDurationMs,
+    getCrossfadeGains,
+    type CrossfadeCurve,
+    type MixTransitionType
+} from '@/lib/mix-types';
+import { AudioDeck, EQ_KILL_DB } from '@/lib/audio-deck';
+import {
+    calcularBeatmatch,
+    construirLoop,
+    downbeatMasCercano,
+    loopBarsFromType,
+    type LoopBars
+} from '@/lib/beatmatch';
 
 export interface MixTrack {
     id: string;
@@ -8,14 +22,19 @@ export interface MixTrack {
     artwork: string;
     duration: number;
     bpm?: number;
+    beatsMs?: number[];       // Grid de beats (tiempo de pista)
+    downbeatsMs?: number[];   // Grid de downbeats para alinear la entrada
 }
 
 export interface MixTransition {
-    type: 'LONG_MIX' | 'QUICK_MIX' | 'DOUBLE_DROP' | 'CUT' | 'LOOP_MIX';
+    type: MixTransitionType;
+    curve?: CrossfadeCurve;   // Forma del crossfade (suggestedCurve de la transición)
     exitPointMs: number;      // Punto donde ESTA canción empieza a salir
     entryPointMs: number;     // Punto donde LA SIGUIENTE canción entra
     startPointMs?: number;    // Punto donde ESTA canción EMPIEZA a sonar (si no es 0)
     durationMs?: number;      // Duración del crossfade
+    loopLengthMs?: number;    // LOOP_MIX: longitud del loop de salida
+    loopType?: '1_BAR' | '4_BAR' | '8_BAR' | 'NONE';
 }
 
 export interface MixSequenceItem {
@@ -33,6 +52,24 @@ interface UseMixPlayerProps {
     initialVolume?: number;
 }
 
+// After the mix, the new deck drifts back to its native tempo over this time
+const TEMPO_RESTORE_SEC = 8;
+
+// LOOP_MIX: the loop is armed this long before the exit point so it is set before the playhead gets there
+const LOOP_ENGAGE_LOOKAHEAD_MS = 2000;
+
+function buildTrackLoop(track: MixTrack, positionMs: number, bars: LoopBars, fallbackLengthMs?: number) {
+    const region = construirLoop(positionMs, bars, track.downbeatsMs, track.bpm);
+    if (region) return region;
+    if (!fallbackLengthMs) return null;
+    return { startMs: positionMs, endMs: positionMs + fallbackLengthMs, bars };
+}
+
+function getTransitionCurve(transition: MixTransition): CrossfadeCurve {
+    if (transition.type === 'CUT') return 'CUT';
+    return transition.curve || 'LINEAR';
+}
+
 export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerProps) {
     // State
     const [isPlaying, setIsPlaying] = useState(false);
@@ -40,65 +77,137 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
     const [currentTime, setCurrentTime] = useState(0); // Time of the MASTER output (relative to current track)
     const [activeDeck, setActiveDeck] = useState<'A' | 'B'>('A');
     const [transitionStatus, setTransitionStatus] = useState<'IDLE' | 'PREPARING' | 'MIXING'>('IDLE');
+    const [activeLoopBars, setActiveLoopBars] = useState<LoopBars | null>(null);
 
-    // Refs for Audio Elements (Decks)
-    const deckA = useRef<HTMLAudioElement | null>(null);
-    const deckB = useRef<HTMLAudioElement | null>(null);
+    // Web Audio graph: deck A / deck B -> master gain -> destination
+    const ctxRef = useRef<AudioContext | null>(null);
+    const masterRef = useRef<GainNode | null>(null);
+    const deckA = useRef<AudioDeck | null>(null);
+    const deckB = useRef<AudioDeck | null>(null);
     const rafRef = useRef<number>();
-
-    // Initialize Audio Elements once
+    const initialLoadRef = useRef(false);
+    // Context time where the incoming deck actually lands (on the outgoing downbeat).
+    // Progress is measured on the audio clock because a looping deck's position wraps.
+    const mixStartCtxRef = useRef<number | null>(null);
+    // Track index whose LOOP_MIX loop was already armed (so exiting it manually sticks)
+    const autoLoopIndexRef = useRef<number | null>(null);
+
+    // Initialize the audio graph once
     useEffect(() => {
-        deckA.current = new Audio();
-        deckB.current = new Audio();
-        deckA.current.preload = 'auto';
-        deckB.current.preload = 'auto';
+        const ctx = new AudioContext();
+        const master = ctx.createGain();
+        master.connect(ctx.destination);
+
+        ctxRef.current = ctx;
+        masterRef.current = master;
+        deckA.current = new AudioDeck(ctx, master);
+        deckB.current = new AudioDeck(ctx, master);
 
         // Cleanup
         return () => {
-            if (deckA.current) {
-                deckA.current.pause();
-                deckA.current.src = '';
-            }
-            if (deckB.current) {
-                deckB.current.pause();
-                deckB.current.src = '';
-            }
+            deckA.current?.dispose();
+            deckB.current?.dispose();
+            deckA.current = null;
+            deckB.current = null;
+            ctx.close().catch(() => { /* noop */ });
             if (rafRef.current) cancelAnimationFrame(rafRef.current);
         };
     }, []);
 
-    // Handle Volume
+    // Handle Volume (master bus; deck gains are reserved for the crossfade)
     useEffect(() => {
-        if (deckA.current) deckA.current.volume = initialVolume;
-        if (deckB.current) deckB.current.volume = initialVolume;
+        if (masterRef.current) masterRef.current.gain.value = Math.min(1, Math.max(0, initialVolume));
     }, [initialVolume]);
 
     // Load Initial Track & Auto-play
     useEffect(() => {
         if (!mixSequence || mixSequence.tracks.length === 0) return;
+        if (initialLoadRef.current || !deckA.current || !ctxRef.current) return;
+        initialLoadRef.current = true;
 
         const firstItem = mixSequence.tracks[0];
-        if (deckA.current && !deckA.current.src) {
-            deckA.current.src = firstItem.track.url;
-            deckA.current.load();
+        const deck = deckA.current;
+        const ctx = ctxRef.current;
 
+        deck.load(firstItem.track.url).then(() => {
             // CRITICAL: Start from startPointMs (where THIS track starts)
             // NOT entryPointMs (which is where the NEXT track enters on THIS track)
-            deckA.current.addEventListener('loadedmetadata', () => {
-                if (deckA.current) {
-                    // startPointMs = donde empieza a sonar esta canción (default 0)
-                    const startPointSec = (firstItem.transition?.startPointMs || 0) / 1000;
-                    deckA.current.currentTime = startPointSec;
-                    deckA.current.volume = initialVolume; // Ensure full volume
-
-                    // Auto-play
-                    deckA.current.play().then(() => {
-                        setIsPlaying(true);
-                    }).catch(e => console.warn("Auto-play blocked:", e));
-                }
-            }, { once: true });
+            const startPointSec = (firstItem.transition?.startPointMs || 0) / 1000;
+            deck.setGain(1);
+            deck.play(startPointSec);
+
+            // Auto-play
+            ctx.resume().then(() => {
+                setIsPlaying(true);
+            }).catch(e => console.warn("Auto-play blocked:", e));
+        }).catch(e => console.error("Error loading first track", e));
+    }, [mixSequence]);
+
+    // Starts the incoming deck tempo-matched and phase-aligned to the outgoing downbeat grid
+    const startIncomingDeck = useCallback((
+        outgoing: AudioDeck,
+        incoming: AudioDeck,
+        currentItem: MixSequenceItem,
+        nextItem: MixSequenceItem
+    ) => {
+        const ctx = ctxRef.current;
+        if (!ctx) return;
+
+        const outgoingPositionMs = outgoing.currentTime * 1000;
+        const match = calcularBeatmatch({
+            outgoingPositionMs,
+            outgoingBpm: currentItem.track.bpm,
+            outgoingRate: outgoing.playbackRate,
+            outgoingDownbeatsMs: currentItem.track.downbeatsMs,
+            incomingBpm: nextItem.track.bpm,
+            // Start the next track from its startPointMs
+            // (which was set from the entryPoint of this transition)
+            incomingStartMs: nextItem.transition?.startPointMs || 0,
+            incomingDownbeatsMs: nextItem.track.downbeatsMs,
+        });
+
+        console.log(
+            `Beatmatch: ${nextItem.track.bpm ?? '?'} → ${currentItem.track.bpm ?? '?'} BPM ` +
+            `(rate ${match.incomingRate.toFixed(3)}${match.tempoMatched ? '' : ', out of pitch range'}), ` +
+            `landing in ${Math.round(match.startDelayMs)}ms`
+        );
+
+        const transition = currentItem.transition!;
+        const curve = getTransitionCurve(transition);
+        const startAt = ctx.currentTime + match.startDelayMs / 1000;
+        const mixStartMs = match.outgoingDownbeatMs ?? outgoingPositionMs;
+
+        // Converts a position of the outgoing track into context time
+        const outgoingMsToCtxTime = (positionMs: number) =>
+            ctx.currentTime + (positionMs - outgoingPositionMs) / Math.max(0.01, outgoing.playbackRate) / 1000;
+
+        incoming.resetEq();
+        incoming.setGain(0);
+
+        if (curve === 'CUT') {
+            // Beat-aligned hard cut: both gains flip on the same downbeat, sample-accurate
+            incoming.setGain(1, startAt);
+            outgoing.setGain(0, startAt);
+        } else if (curve === 'BASS_SWAP') {
+            // B comes in without lows; the lows swap decks on the downbeat closest to mid-mix
+            incoming.setEq('low', EQ_KILL_DB);
+
+            const crossfadeDuration = getCrossfadeDurationMs(transition.type, transition.durationMs);
+            const midMixMs = mixStartMs + crossfadeDuration / 2;
+            const barMs = currentItem.track.bpm ? (60000 / currentItem.track.bpm) * 4 : 2000;
+            const swapMs = downbeatMasCercano(midMixMs, currentItem.track.downbeatsMs, barMs) ?? midMixMs;
+            const swapAt = outgoingMsToCtxTime(swapMs);
+
+            outgoing.setEq('low', EQ_KILL_DB, swapAt);
+            incoming.setEq('low', 0, swapAt);
         }
-    }, [mixSequence, initialVolume]);
+
+        incoming.setPlaybackRate(match.incomingRate);
+        incoming.play(match.incomingOffsetMs / 1000, startAt);
+
+        mixStartCtxRef.current = startAt;
+        setTransitionStatus('MIXING');
+    }, []);
 
     // Main Playback Loop
     const updateLoop = useCallback(() => {
@@ -107,13 +216,13 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
         const currentItem = mixSequence.tracks[currentTrackIndex];
         const nextItem = mixSequence.tracks[currentTrackIndex + 1];
 
-        // Get the active audio element
+        // Get the active deck
         const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
         const inactiveAudio = activeDeck === 'A' ? deckB.current : deckA.current;
 
         if (!activeAudio) return;
 
-        const now = activeAudio.currentTime * 1000; // ms
+        const now = activeAudio.currentTime * 1000; // ms (track time, tempo-aware)
         setCurrentTime(activeAudio.currentTime);
 
         // CRITICAL FIX: currentItem.transition contains the exit point for THIS track
@@ -122,121 +231,122 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
         const transition = currentItem?.transition;
 
         // 1. Check for Transition Trigger
-        if (nextItem && transition && transitionStatus === 'IDLE') {
+        if (nextItem && transition && inactiveAudio && (transitionStatus === 'IDLE' || transitionStatus === 'PREPARING')) {
             const timeUntilExit = transition.exitPointMs - now;
+            const isLoopMix = transition.type === 'LOOP_MIX';
+
+            // LOOP_MIX: roll a loop at the exit point; deck A keeps cycling it while B comes in
+            if (isLoopMix && !activeAudio.loop && autoLoopIndexRef.current !== currentTrackIndex &&
+                timeUntilExit <= LOOP_ENGAGE_LOOKAHEAD_MS) {
+                autoLoopIndexRef.current = currentTrackIndex;
+                const bars = loopBarsFromType(transition.loopType);
+                const region = buildTrackLoop(currentItem.track, transition.exitPointMs, bars, transition.loopLengthMs);
+                if (region) {
+                    console.log(`Loop armed: ${region.bars} bar(s) at ${Math.round(region.startMs)}ms`);
+                    activeAudio.setLoop(region.startMs / 1000, region.endMs / 1000);
+                    setActiveLoopBars(region.bars);
+                }
+            }
 
             // Pre-load next track if we are getting close (e.g. 15s before)
-            if (timeUntilExit < 15000 && timeUntilExit > 10000) {
-                if (inactiveAudio && inactiveAudio.src !== nextItem.track.url) {
-                    console.log(`Preloading next track: ${nextItem.track.title}`);
-                    inactiveAudio.src = nextItem.track.url;
-                    inactiveAudio.load();
-                }
+            if (timeUntilExit < 15000 && inactiveAudio.src !== nextItem.track.url) {
+                console.log(`Preloading next track: ${nextItem.track.title}`);
+                inactiveAudio.load(nextItem.track.url).catch(e => console.error("Error preloading next deck", e));
             }
 
             // Start Mixing
             // We start slightly before the exit point to allow for the crossfade
             // Default crossfade duration is 8s if not specified, or calculated based on type
-            let crossfadeDuration = transition.durationMs || 8000;
-            if (transition.type === 'QUICK_MIX') crossfadeDuration = 4000;
-            if (transition.type === 'LOOP_MIX') crossfadeDuration = 16000; // Loops need longer
-            if (transition.type === 'CUT') crossfadeDuration = 100;
+            const crossfadeDuration = getCrossfadeDurationMs(transition.type, transition.durationMs);
 
             // Start transition when we are at (ExitPoint - CrossfadeDuration)
-            const startMixTime = transition.exitPointMs - crossfadeDuration;
+            // (LOOP_MIX: as soon as the playhead is inside the loop, the whole fade happens over it)
+            const startMixTime = isLoopMix && activeAudio.loop
+                ? activeAudio.loop.startSec * 1000
+                : transition.exitPointMs - crossfadeDuration;
 
-            if (now >= startMixTime && now < transition.exitPointMs) {
-                console.log('Starting Transition...');
-                setTransitionStatus('MIXING');
-
-                // Prepare Deck B
-                if (inactiveAudio) {
+            if (now >= startMixTime) {
+                if (inactiveAudio.src !== nextItem.track.url) {
                     // Ensure src is set (in case we skipped preload)
-                    if (inactiveAudio.src !== nextItem.track.url) {
-                        console.log(`Late load for next track: ${nextItem.track.title}`);
-                        inactiveAudio.src = nextItem.track.url;
-                        inactiveAudio.load();
-                    }
-
-                    // Start the next track from its startPointMs
-                    // (which was set from the entryPoint of this transition)
-                    const nextStartSec = (nextItem.transition?.startPointMs || 0) / 1000;
-                    inactiveAudio.currentTime = nextStartSec;
-                    inactiveAudio.volume = 0;
-                    inactiveAudio.play().catch(e => console.error("Error playing next deck", e));
+                    console.log(`Late load for next track: ${nextItem.track.title}`);
+                    inactiveAudio.load(nextItem.track.url).catch(e => console.error("Error loading next deck", e));
+                }
+
+                if (inactiveAudio.isLoaded) {
+                    console.log('Starting Transition...');
+                    startIncomingDeck(activeAudio, inactiveAudio, currentItem, nextItem);
+                } else if (transitionStatus !== 'PREPARING') {
+                    setTransitionStatus('PREPARING');
                 }
             }
         }
 
         // 2. Handle Mixing State
-        if (transitionStatus === 'MIXING' && nextItem && transition) {
-            let crossfadeDuration = transition.durationMs || 8000;
-            if (transition.type === 'QUICK_MIX') crossfadeDuration = 4000;
-            if (transition.type === 'LOOP_MIX') crossfadeDuration = 16000;
-            if (transition.type === 'CUT') crossfadeDuration = 100;
+        if (transitionStatus === 'MIXING' && nextItem && transition && inactiveAudio) {
+            const crossfadeDuration = getCrossfadeDurationMs(transition.type, transition.durationMs);
 
-            const startMixTime = transition.exitPointMs - crossfadeDuration;
-            const progress = Math.min(1, Math.max(0, (now - startMixTime) / crossfadeDuration)); // Clamp 0-1
+            const ctx = ctxRef.current;
+            const elapsedMs = ctx && mixStartCtxRef.current !== null
+                ? (ctx.currentTime - mixStartCtxRef.current) * 1000
+                : now - (transition.exitPointMs - crossfadeDuration);
+            const progress = Math.min(1, Math.max(0, elapsedMs / crossfadeDuration)); // Clamp 0-1
 
             if (progress >= 1) {
                 // Transition Complete
                 console.log('Transition Complete. Swapping Decks.');
-                
-                // IMPORTANT: First set volume to full on the NEW active deck
-                if (inactiveAudio) {
-                    inactiveAudio.volume = Math.min(1, Math.max(0, initialVolume));
-                    console.log(`🔊 New active deck volume set to: ${inactiveAudio.volume}`);
-                    // Ensure it's playing
-                    if (inactiveAudio.paused) {
-                        inactiveAudio.play().catch(e => console.warn("Swap play error:", e));
-                    }
-                }
-                
-                // Then pause and reset the OLD deck
-                if (activeAudio) {
-                    activeAudio.pause();
-                    activeAudio.currentTime = 0;
-                    activeAudio.volume = Math.min(1, Math.max(0, initialVolume)); // Reset for next use
-                }
-                
+
+                // IMPORTANT: First set the NEW active deck to full level (and flat EQ)
+                inactiveAudio.setGain(1);
+                inactiveAudio.resetEq();
+                // Drift back to the native tempo of the new track
+                inactiveAudio.setPlaybackRate(1, TEMPO_RESTORE_SEC);
+
+                // Then stop and reset the OLD deck
+                activeAudio.clearLoop();
+                activeAudio.stop();
+                activeAudio.seek(0);
+                activeAudio.setPlaybackRate(1);
+                activeAudio.setGain(1); // Reset for next use
+                activeAudio.resetEq();
+
+                mixStartCtxRef.current = null;
+
                 // Update state AFTER audio operations
                 setTransitionStatus('IDLE');
+                setActiveLoopBars(null);
                 setActiveDeck(prev => prev === 'A' ? 'B' : 'A');
                 setCurrentTrackIndex(prev => prev + 1);
-            } else {
-                // Apply Crossfade (Equal Power or Linear)
-                // Linear for now for simplicity
-                const fadeOutVol = initialVolume * (1 - progress);
-                const fadeInVol = initialVolume * progress;
-
-                if (activeAudio) activeAudio.volume = Math.min(1, Math.max(0, fadeOutVol));
-                if (inactiveAudio) inactiveAudio.volume = Math.min(1, Math.max(0, fadeInVol));
+            } else if (getTransitionCurve(transition) !== 'CUT') {
+                // Apply Crossfade (CUT is already scheduled on the audio clock)
+                const gains = getCrossfadeGains(getTransitionCurve(transition), progress);
+                activeAudio.setGain(gains.outgoing);
+                inactiveAudio.setGain(gains.incoming);
             }
         }
 
         // 3. Handle End of Track (No Transition defined)
         if (activeAudio.ended && transitionStatus === 'IDLE') {
-            if (nextItem) {
+            activeAudio.stop();
+            if (nextItem && inactiveAudio) {
                 // Hard cut to next
                 console.log('Track ended. Hard cut to next.');
                 setActiveDeck(prev => prev === 'A' ? 'B' : 'A');
                 setCurrentTrackIndex(prev => prev + 1);
 
-                if (inactiveAudio) {
-                    inactiveAudio.src = nextItem.track.url;
+                inactiveAudio.load(nextItem.track.url).then(() => {
                     // CRITICAL: Start from startPointMs (where THIS new track starts)
                     const startPointSec = (nextItem.transition?.startPointMs || 0) / 1000;
-                    inactiveAudio.currentTime = startPointSec;
-                    inactiveAudio.volume = Math.min(1, Math.max(0, initialVolume));
-                    inactiveAudio.play().catch(e => console.warn("Auto-play blocked:", e));
-                }
+                    inactiveAudio.setPlaybackRate(1);
+                    inactiveAudio.setGain(1);
+                    inactiveAudio.play(startPointSec);
+                }).catch(e => console.warn("Hard cut load error:", e));
             } else {
                 setIsPlaying(false);
             }
         }
 
         rafRef.current = requestAnimationFrame(updateLoop);
-    }, [mixSequence, currentTrackIndex, activeDeck, transitionStatus, initialVolume]);
+    }, [mixSequence, currentTrackIndex, activeDeck, transitionStatus, startIncomingDeck]);
 
     // Start/Stop Loop
     useEffect(() => {
@@ -252,77 +362,69 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
 
     // Controls
     const togglePlay = useCallback(() => {
-        const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
-        if (!activeAudio) return;
+        const ctx = ctxRef.current;
+        if (!ctx) return;
 
+        // Suspending the context freezes BOTH decks in sync (and their clocks)
         if (isPlaying) {
-            activeAudio.pause();
-            if (transitionStatus === 'MIXING') {
-                // Pause both if mixing
-                const inactiveAudio = activeDeck === 'A' ? deckB.current : deckA.current;
-                inactiveAudio?.pause();
-            }
+            ctx.suspend().catch(e => console.warn("Pause interrupted:", e));
             setIsPlaying(false);
         } else {
-            const playPromise = activeAudio.play();
-            if (playPromise !== undefined) {
-                playPromise.catch(e => console.warn("Play interrupted:", e));
-            }
-
-            if (transitionStatus === 'MIXING') {
-                const inactiveAudio = activeDeck === 'A' ? deckB.current : deckA.current;
-                const playPromiseB = inactiveAudio?.play();
-                if (playPromiseB !== undefined) {
-                    playPromiseB.catch(e => console.warn("Play B interrupted:", e));
-                }
-            }
+            ctx.resume().catch(e => console.warn("Play interrupted:", e));
             setIsPlaying(true);
         }
-    }, [isPlaying, activeDeck, transitionStatus]);
+    }, [isPlaying]);
 
     const seek = useCallback((time: number) => {
         const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
         if (activeAudio) {
-            activeAudio.currentTime = time;
+            activeAudio.seek(time);
             setCurrentTime(time);
         }
     }, [activeDeck]);
 
-    const skipNext = useCallback(() => {
-        // Force skip to next track
-        if (!mixSequence || currentTrackIndex >= mixSequence.tracks.length - 1) return;
-
-        const nextIndex = currentTrackIndex + 1;
-        const nextItem = mixSequence.tracks[nextIndex];
+    // Manual jump to another position of the sequence (skip next / prev)
+    const jumpToTrack = useCallback((targetIndex: number) => {
+        const targetItem = mixSequence?.tracks[targetIndex];
+        if (!targetItem) return;
 
-        // Reset current deck
+        // Reset both decks (a manual skip cancels any running transition)
         const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
+        const nextAudio = activeDeck === 'A' ? deckB.current : deckA.current;
         if (activeAudio) {
-            activeAudio.pause();
-            activeAudio.currentTime = 0;
-            activeAudio.volume = Math.min(1, Math.max(0, initialVolume));
+            activeAudio.clearLoop();
+            activeAudio.stop();
+            activeAudio.seek(0);
+            activeAudio.setPlaybackRate(1);
+            activeAudio.setGain(1);
+            activeAudio.resetEq();
         }
 
-        // Prepare next deck
-        const nextDeck = activeDeck === 'A' ? 'B' : 'A'; // Swap
-        const nextAudio = activeDeck === 'A' ? deckB.current : deckA.current;
-
+        // Prepare the other deck
         if (nextAudio) {
-            nextAudio.src = nextItem.track.url;
-            nextAudio.currentTime = 0; // Start from beginning if skipping manually? Or entry point?
-            // Usually manual skip goes to start
-            nextAudio.volume = Math.min(1, Math.max(0, initialVolume));
-            if (isPlaying) {
-                const p = nextAudio.play();
-                if (p !== undefined) p.catch(e => console.warn("Skip play error:", e));
-            }
+            nextAudio.stop();
+            nextAudio.setPlaybackRate(1);
+            nextAudio.setGain(1);
+            nextAudio.resetEq();
+            nextAudio.load(targetItem.track.url).then(() => {
+                // Usually manual skip goes to start
+                nextAudio.play(0);
+            }).catch(e => console.warn("Skip load error:", e));
         }
 
-        setActiveDeck(nextDeck);
-        setCurrentTrackIndex(nextIndex);
+        mixStartCtxRef.current = null;
+        autoLoopIndexRef.current = null;
+        setActiveDeck(prev => prev === 'A' ? 'B' : 'A');
+        setCurrentTrackIndex(targetIndex);
         setTransitionStatus('IDLE');
+        setActiveLoopBars(null);
+    }, [mixSequence, activeDeck]);
 
-    }, [mixSequence, currentTrackIndex, activeDeck, initialVolume, isPlaying]);
+    const skipNext = useCallback(() => {
+        // Force skip to next track
+        if (!mixSequence || currentTrackIndex >= mixSequence.tracks.length - 1) return;
+        jumpToTrack(currentTrackIndex + 1);
+    }, [mixSequence, currentTrackIndex, jumpToTrack]);
 
     const skipPrev = useCallback(() => {
         if (currentTrackIndex <= 0) {
@@ -330,47 +432,45 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
             seek(0);
             return;
         }
+        jumpToTrack(currentTrackIndex - 1);
+    }, [currentTrackIndex, jumpToTrack, seek]);
 
-        const prevIndex = currentTrackIndex - 1;
-        const prevItem = mixSequence?.tracks[prevIndex];
-        if (!prevItem) return;
-
-        // Reset current deck
+    // Manual loop roll on the active deck (same bars again = exit loop)
+    const toggleLoop = useCallback((bars: LoopBars) => {
         const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
-        if (activeAudio) {
-            activeAudio.pause();
-            activeAudio.currentTime = 0;
-            activeAudio.volume = Math.min(1, Math.max(0, initialVolume));
+        const item = mixSequence?.tracks[currentTrackIndex];
+        if (!activeAudio || !item) return;
+
+        if (activeAudio.loop && activeLoopBars === bars) {
+            activeAudio.clearLoop();
+            setActiveLoopBars(null);
+            return;
         }
 
-        // Prepare prev deck
-        const nextDeck = activeDeck === 'A' ? 'B' : 'A'; // Swap
-        const nextAudio = activeDeck === 'A' ? deckB.current : deckA.current;
+        // Resizing keeps the current loop start; a new loop starts on the next downbeat
+        const fromMs = activeAudio.loop ? activeAudio.loop.startSec * 1000 : activeAudio.currentTime * 1000;
+        const region = buildTrackLoop(item.track, fromMs, bars);
+        if (!region) return;
 
-        if (nextAudio) {
-            nextAudio.src = prevItem.track.url;
-            nextAudio.currentTime = 0;
-            nextAudio.volume = Math.min(1, Math.max(0, initialVolume));
-            if (isPlaying) {
-                const p = nextAudio.play();
-                if (p !== undefined) p.catch(e => console.warn("Skip prev play error:", e));
-            }
-        }
+        activeAudio.setLoop(region.startMs / 1000, region.endMs / 1000);
+        setActiveLoopBars(region.bars);
+    }, [mixSequence, currentTrackIndex, activeDeck, activeLoopBars]);
 
-        setActiveDeck(nextDeck);
-        setCurrentTrackIndex(prevIndex);
-        setTransitionStatus('IDLE');
-    }, [mixSequence, currentTrackIndex, activeDeck, initialVolume, isPlaying, seek]);
+    const exitLoop = useCallback(() => {
+        const activeAudio = activeDeck === 'A' ? deckA.current : deckB.current;
+        activeAudio?.clearLoop();
+        setActiveLoopBars(null);
+    }, [activeDeck]);
 
     // Calculate effective duration for UI
     const currentItem = mixSequence?.tracks[currentTrackIndex];
-    
+
     // startPointMs: donde empieza esta canción (puede ser > 0 si saltamos intro)
     // exitPointMs: donde termina esta canción (antes de la transición)
     const startPointMs = currentItem?.transition?.startPointMs || 0;
     const trackDurationMs = (currentItem?.track.duration || 0) * 1000;
     const exitPointMs = currentItem?.transition?.exitPointMs || trackDurationMs || 0;
-    
+
     // Duración efectiva = desde startPoint hasta exitPoint
     const effectiveDurationMs = Math.max(1, exitPointMs - startPointMs);
 
@@ -388,6 +488,9 @@ export function useMixPlayer({ mixSequence, initialVolume = 1 }: UseMixPlayerPro
         seek,
         skipNext,
         skipPrev,
-        transitionStatus
+        transitionStatus,
+        activeLoopBars,
+        toggleLoop,
+        exitLoop
     };
 }
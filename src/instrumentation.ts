@@ -0,0 +1,23 @@
+/**
+ * Hook de arranque de Next.js: levanta los workers de la cola de análisis
+ * para retomar los jobs pendientes tras un reinicio del servidor, y la
+ * vigilancia de la biblioteca local si hay MUSIC_LIBRARY_DIR
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  try {
+    const { iniciarWorkersAnalisis } = await import('./lib/analysis-worker');
+    iniciarWorkersAnalisis();
+  } catch (error) {
+    // Sin BD (DATABASE_URL) la app sigue arrancando; los workers se inician al encolar
+    console.error('⚠️ No se pudieron iniciar los workers de análisis:', error);
+  }
+
+  try {
+    const { iniciarVigilanciaBiblioteca } = await import('./lib/library-scanner');
+    iniciarVigilanciaBiblioteca();
+  } catch (error) {
+    console.error('⚠️ No se pudo iniciar la vigilancia de la biblioteca:', error);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Correcciones manuales del análisis (BPM, tonalidad, beat grid y timeline)
+ *
+ * Essentia a veces se equivoca de fase de compás (inferMeterAndOffset) y Gemini
+ * etiqueta mal secciones. Las correcciones se aplican sobre la canción y el campo
+ * queda bloqueado (bloqueos): guardarAnalisisEnDB, actualizarDatosGemini y
+ * activarVersion no lo sobrescriben hasta que el usuario lo desbloquee.
+ *
+ * Grid: se transforman los beats detectados (desplazar / estirar alrededor del
+ * primer downbeat) y downbeats y frases se rehacen desde los beats, así el grid
+ * conserva las pequeñas variaciones de tempo de la grabación.
+ */
+
+import { parseCamelot, tonalidadesCompatibles } from './mix-harmonic';
+import { parseTimeStringToMs } from './gemini-optimizer';
+import { construirFrasesDesdeDownbeats } from './audio-analyzer-unified';
+import { CAMPOS_BLOQUEABLES, SECCIONES_TIMELINE } from './db';
+import type { BloqueosAnalisis, CampoBloqueable, CancionAnalizada, TimelineSegment } from './db';
+
+export type OperacionTimeline =
+  | { op: 'dividir'; indice: number; tiempo: string }   // Parte el segmento en tiempo (MM:SS.d)
+  | { op: 'unir'; indice: number }                       // Une el segmento con el siguiente
+  | {
+      op: 'etiquetar';
+      indice: number;
+      tipo_seccion?: TimelineSegment['tipo_seccion'];
+      has_vocals?: boolean;
+      descripcion?: string;
+    };
+
+export interface CorreccionesAnalisis {
+  bpm?: number;                // Sin grid.estiramiento, el grid se estira para cuadrar con el BPM nuevo
+  tonalidad?: string;          // Camelot (8A, 11B...)
+  grid?: {
+    desplazamientoMs?: number; // Mueve todo el grid (positivo = más tarde)
+    estiramiento?: number;     // Factor sobre los intervalos entre beats (>1 = más lento)
+    desplazarTiempos?: number; // Mueve el primer tiempo del compás N beats (fase de downbeat)
+  };
+  timeline?: OperacionTimeline[];
+  bloqueos?: BloqueosAnalisis; // Bloquear/desbloquear a mano (un campo corregido se bloquea solo)
+}
+
+// Columnas que cambian (mismos nombres que canciones_analizadas)
+export interface ResultadoCorreccion {
+  bpm?: number;
+  tonalidad_camelot?: string;
+  tonalidad_compatible?: string[];
+  beats_ts_ms?: number[];
+  downbeats_ts_ms?: number[];
+  frases_ts_ms?: number[];
+  timeline?: TimelineSegment[];
+  bloqueos: BloqueosAnalisis;
+}
+
+export class CorreccionInvalidaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorreccionInvalidaError';
+  }
+}
+
+const MIN_BPM = 40;
+const MAX_BPM = 250;
+const MIN_ESTIRAMIENTO = 0.5;
+const MAX_ESTIRAMIENTO = 2;
+const MAX_DESPLAZAMIENTO_MS = 10_000;
+const MIN_SEGMENTO_MS = 500;
+
+/**
+ * ms → "MM:SS.d" (formato del timeline de Gemini)
+ */
+export function formatearTiempoTimeline(ms: number): string {
+  const decimas = Math.round(Math.max(0, ms) / 100);
+  const minutos = Math.floor(decimas / 600);
+  const segundos = (decimas % 600) / 10;
+  return `${String(minutos).padStart(2, '0')}:${segundos.toFixed(1).padStart(4, '0')}`;
+}
+
+function mediana(valores: number[]): number {
+  const ordenados = [...valores].sort((a, b) => a - b);
+  const mitad = Math.floor(ordenados.length / 2);
+  return ordenados.length % 2 === 0 ? (ordenados[mitad - 1] + ordenados[mitad]) / 2 : ordenados[mitad];
+}
+
+/**
+ * Aplica desplazamiento/estiramiento/fase al grid y rehace downbeats y frases
+ */
+function corregirGrid(
+  cancion: CancionAnalizada,
+  grid: NonNullable<CorreccionesAnalisis['grid']>
+): Pick<ResultadoCorreccion, 'beats_ts_ms' | 'downbeats_ts_ms' | 'frases_ts_ms'> {
+  const beats = cancion.beats_ts_ms ?? [];
+  if (beats.length < 2) throw new CorreccionInvalidaError('La canción no tiene beat grid que corregir');
+
+  const numerador = cancion.compas?.numerador || 4;
+  const downbeats = cancion.downbeats_ts_ms ?? [];
+  const ancla = downbeats[0] ?? beats[0];
+
+  // Fase del compás: índice (mod numerador) del beat más cercano al primer downbeat
+  let indiceAncla = 0;
+  for (let i = 1; i < beats.length; i++) {
+    if (Math.abs(beats[i] - ancla) < Math.abs(beats[indiceAncla] - ancla)) indiceAncla = i;
+  }
+
+  const estiramiento = grid.estiramiento ?? 1;
+  const desplazamiento = grid.desplazamientoMs ?? 0;
+  const transformados = beats.map(b => ancla + (b - ancla) * estiramiento + desplazamiento);
+
+  // Rellenar los huecos que quedan al principio/final con el intervalo típico
+  const intervalo = mediana(transformados.slice(1).map((b, i) => b - transformados[i]));
+  const duracion = cancion.duracion_ms;
+  const anteriores: number[] = [];
+  for (let t = transformados[0] - intervalo; t >= 0; t -= intervalo) anteriores.unshift(t);
+  const posteriores: number[] = [];
+  for (let t = transformados[transformados.length - 1] + intervalo; t < duracion; t += intervalo) posteriores.push(t);
+
+  const todos = [...anteriores, ...transformados, ...posteriores];
+  const primero = todos.findIndex(b => b >= 0);
+  const nuevosBeats = todos.slice(primero).filter(b => b < duracion).map(Math.round);
+
+  const fase = indiceAncla + anteriores.length - primero + (grid.desplazarTiempos ?? 0);
+  const faseModulo = ((fase % numerador) + numerador) % numerador;
+  const nuevosDownbeats = nuevosBeats.filter((_, i) => i % numerador === faseModulo);
+
+  return {
+    beats_ts_ms: nuevosBeats,
+    downbeats_ts_ms: nuevosDownbeats,
+    frases_ts_ms: construirFrasesDesdeDownbeats(nuevosDownbeats),
+  };
+}
+
+function corregirTimeline(timeline: TimelineSegment[], operaciones: OperacionTimeline[]): TimelineSegment[] {
+  const resultado = timeline.map(s => ({ ...s }));
+
+  operaciones.forEach((operacion, n) => {
+    const segmento = resultado[operacion.indice];
+    if (!Number.isInteger(operacion.indice) || !segmento) {
+      throw new CorreccionInvalidaError(`timeline[${n}]: no existe el segmento ${operacion.indice}`);
+    }
+
+    if (operacion.op === 'dividir') {
+      const corte = parseTimeStringToMs(operacion.tiempo);
+      const inicio = parseTimeStringToMs(segmento.inicio);
+      const fin = parseTimeStringToMs(segmento.fin);
+      if (corte - inicio < MIN_SEGMENTO_MS || fin - corte < MIN_SEGMENTO_MS) {
+        throw new CorreccionInvalidaError(`timeline[${n}]: ${operacion.tiempo} no está dentro de ${segmento.inicio} - ${segmento.fin}`);
+      }
+      const tiempo = formatearTiempoTimeline(corte);
+      resultado.splice(operacion.indice, 1, { ...segmento, fin: tiempo }, { ...segmento, inicio: tiempo });
+    } else if (operacion.op === 'unir') {
+      const siguiente = resultado[operacion.indice + 1];
+      if (!siguiente) throw new CorreccionInvalidaError(`timeline[${n}]: el segmento ${operacion.indice} es el último`);
+      resultado.splice(operacion.indice, 2, {
+        ...segmento,
+        fin: siguiente.fin,
+        has_vocals: segmento.has_vocals || siguiente.has_vocals,
+      });
+    } else if (operacion.op === 'etiquetar') {
+      if (operacion.tipo_seccion !== undefined) {
+        if (!SECCIONES_TIMELINE.includes(operacion.tipo_seccion)) {
+          throw new CorreccionInvalidaError(`timeline[${n}]: tipo_seccion inválido. Usa ${SECCIONES_TIMELINE.join(', ')}`);
+        }
+        segmento.tipo_seccion = operacion.tipo_seccion;
+      }
+      if (operacion.has_vocals !== undefined) {
+        if (typeof operacion.has_vocals !== 'boolean') throw new CorreccionInvalidaError(`timeline[${n}]: has_vocals debe ser booleano`);
+        segmento.has_vocals = operacion.has_vocals;
+      }
+      if (operacion.descripcion !== undefined) {
+        if (typeof operacion.descripcion !== 'string') throw new CorreccionInvalidaError(`timeline[${n}]: descripcion debe ser texto`);
+        segmento.descripcion = operacion.descripcion.trim();
+      }
+    } else {
+      throw new CorreccionInvalidaError(`timeline[${n}]: op inválida. Usa dividir, unir o etiquetar`);
+    }
+  });
+
+  return resultado;
+}
+
+/**
+ * Calcula las columnas corregidas y los bloqueos resultantes
+ * Lanza CorreccionInvalidaError si alguna corrección no es válida
+ */
+export function aplicarCorrecciones(cancion: CancionAnalizada, correcciones: CorreccionesAnalisis): ResultadoCorreccion {
+  const bloqueos: BloqueosAnalisis = { ...(cancion.bloqueos ?? {}) };
+  const resultado: ResultadoCorreccion = { bloqueos };
+  const bloquear = (campo: CampoBloqueable) => { bloqueos[campo] = true; };
+
+  const { bpm, tonalidad, grid, timeline } = correcciones;
+
+  if (bpm !== undefined) {
+    if (typeof bpm !== 'number' || !Number.isFinite(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) {
+      throw new CorreccionInvalidaError(`bpm debe estar entre ${MIN_BPM} y ${MAX_BPM}`);
+    }
+    resultado.bpm = Math.round(bpm * 100) / 100;
+    bloquear('bpm');
+  }
+
+  if (tonalidad !== undefined) {
+    const parsed = typeof tonalidad === 'string' ? parseCamelot(tonalidad) : null;
+    if (!parsed) throw new CorreccionInvalidaError('tonalidad debe ser una clave Camelot (1A-12B)');
+    resultado.tonalidad_camelot = `${parsed.number}${parsed.letter}`;
+    resultado.tonalidad_compatible = tonalidadesCompatibles(resultado.tonalidad_camelot);
+    bloquear('tonalidad');
+  }
+
+  if (grid !== undefined || resultado.bpm !== undefined) {
+    const { desplazamientoMs, estiramiento, desplazarTiempos } = grid ?? {};
+    if (desplazamientoMs !== undefined && (typeof desplazamientoMs !== 'number' || Math.abs(desplazamientoMs) > MAX_DESPLAZAMIENTO_MS)) {
+      throw new CorreccionInvalidaError(`grid.desplazamientoMs debe estar entre -${MAX_DESPLAZAMIENTO_MS} y ${MAX_DESPLAZAMIENTO_MS}`);
+    }
+    if (estiramiento !== undefined && (typeof estiramiento !== 'number' || estiramiento < MIN_ESTIRAMIENTO || estiramiento > MAX_ESTIRAMIENTO)) {
+      throw new CorreccionInvalidaError(`grid.estiramiento debe estar entre ${MIN_ESTIRAMIENTO} y ${MAX_ESTIRAMIENTO}`);
+    }
+    if (desplazarTiempos !== undefined && !Number.isInteger(desplazarTiempos)) {
+      throw new CorreccionInvalidaError('grid.desplazarTiempos debe ser un entero');
+    }
+
+    // BPM y estiramiento van juntos: si solo llega uno, el otro se deduce
+    const bpmActual = cancion.bpm;
+    let factor = estiramiento;
+    if (factor === undefined && resultado.bpm !== undefined && bpmActual) factor = bpmActual / resultado.bpm;
+    if (resultado.bpm === undefined && estiramiento !== undefined && bpmActual) {
+      resultado.bpm = Math.round((bpmActual / estiramiento) * 100) / 100;
+      bloquear('bpm');
+    }
+
+    if ((cancion.beats_ts_ms?.length ?? 0) >= 2) {
+      Object.assign(resultado, corregirGrid(cancion, { desplazamientoMs, estiramiento: factor, desplazarTiempos }));
+      bloquear('grid');
+    } else if (grid !== undefined) {
+      throw new CorreccionInvalidaError('La canción no tiene beat grid que corregir');
+    }
+  }
+
+  if (timeline !== undefined) {
+    if (!Array.isArray(timeline)) throw new CorreccionInvalidaError('timeline debe ser una lista de operaciones');
+    resultado.timeline = corregirTimeline(cancion.timeline ?? [], timeline);
+    bloquear('timeline');
+  }
+
+  if (correcciones.bloqueos !== undefined) {
+    for (const [campo, valor] of Object.entries(correcciones.bloqueos)) {
+      if (!CAMPOS_BLOQUEABLES.includes(campo as CampoBloqueable) || typeof valor !== 'boolean') {
+        throw new CorreccionInvalidaError(`bloqueos: usa ${CAMPOS_BLOQUEABLES.join(', ')} con true/false`);
+      }
+      if (valor) bloqueos[campo as CampoBloqueable] = true;
+      else delete bloqueos[campo as CampoBloqueable];
+    }
+  }
+
+  return resultado;
+}
@@ -1,12 +1,22 @@
 /**
  * Sistema de Jobs Asíncronos para análisis de audio
  * Permite procesar canciones en segundo plano sin bloquear al usuario
+ *
+ * Cola durable (ver analysis-worker.ts): los workers reclaman jobs con un lease,
+ * lo renuevan mientras trabajan y, si fallan, el job vuelve a la cola con backoff
+ * hasta agotar max_attempts; entonces pasa a 'dead' (dead-letter).
+ * Las consultas viven en el almacén del driver configurado (storage.ts).
  */
 
-import { sql } from './db';
-import { randomUUID } from 'crypto';
+import type { CancionAnalizada } from './db';
+import { obtenerCancionPorHash } from './db-persistence';
+import { obtenerAlmacen, type ClaveJob } from './storage';
 
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+// 'failed' = fallo registrado por las rutas síncronas; 'dead' = intentos agotados en la cola
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead';
+
+// Etapas del pipeline: Essentia (técnico) → Gemini (estructura)
+export type JobStage = 'essentia' | 'gemini';
 
 export interface AnalysisJob {
   id: string;
@@ -19,65 +29,94 @@ export interface AnalysisJob {
   updated_at: Date;
   completed_at?: Date;
   result?: any;
+  // Cola
+  stage: JobStage;
+  file_name?: string | null;
+  mime_type?: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_by?: string | null;
+  lease_expires_at?: Date | null;
+  version_id?: string | null; // Versión de análisis que rellena este job (ver analysis-versions.ts)
+}
+
+export const JOB_STATUSES: JobStatus[] = ['pending', 'processing', 'completed', 'failed', 'dead'];
+
+const JOB_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function esIdJobValido(id: string): boolean {
+  return JOB_ID_REGEX.test(id);
+}
+
+export function esJobTerminado(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'dead';
+}
+
+/**
+ * Vista pública de un job (lo que ven la UI y el stream, sin columnas internas de la cola)
+ */
+export interface JobResumen {
+  id: string;
+  hash: string;
+  fileName: string | null;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  currentStep: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  updatedAt: string;
+}
+
+export function resumirJob(job: AnalysisJob): JobResumen {
+  return {
+    id: job.id,
+    hash: job.hash_archivo,
+    fileName: job.file_name ?? null,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    currentStep: job.current_step ?? null,
+    error: job.error_message ?? null,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    updatedAt: new Date(job.updated_at).toISOString(),
+  };
+}
+
+// Backoff entre reintentos: 30s, 60s, 120s... con tope de 15 min
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+export function calcularBackoffMs(attempts: number): number {
+  const base = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  // Jitter ±20% para que los fallos en lote no reintenten todos a la vez
+  return Math.round(base * (0.8 + Math.random() * 0.4));
 }
 
 /**
  * Crea un nuevo job de análisis
  */
 export async function crearJobAnalisis(hash: string): Promise<string> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const newId = randomUUID();
-
-  const resultado = await sql`
-    INSERT INTO analysis_jobs (
-      id, hash_archivo, status, progress, created_at, updated_at
-    ) VALUES (
-      ${newId},
-      ${hash},
-      'pending',
-      0,
-      NOW(),
-      NOW()
-    )
-    ON CONFLICT (hash_archivo) 
-    DO UPDATE SET
-      status = 'pending',
-      progress = 0,
-      updated_at = NOW(),
-      error_message = NULL
-    RETURNING id
-  `;
-
-  return resultado[0].id;
+  return (await obtenerAlmacen()).crearJob(hash);
 }
 
 export async function obtenerEstadoJob(jobId: string): Promise<AnalysisJob | null> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const resultado = await sql`
-    SELECT * FROM analysis_jobs 
-    WHERE id = ${jobId}
-    LIMIT 1
-  `;
-
-  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+  return (await obtenerAlmacen()).obtenerJob(jobId);
 }
 
 /**
  * Obtiene el último job registrado para un hash
  */
 export async function obtenerUltimoJobPorHash(hash: string): Promise<AnalysisJob | null> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const resultado = await sql`
-    SELECT * FROM analysis_jobs 
-    WHERE hash_archivo = ${hash}
-    ORDER BY created_at DESC
-    LIMIT 1
-  `;
+  return (await obtenerAlmacen()).obtenerUltimoJobPorHash(hash);
+}
 
-  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+// Detectar si es UUID (con guiones) o hash (64 caracteres hex)
+function claveJob(jobIdOrHash: string): ClaveJob {
+  return jobIdOrHash.includes('-') ? { id: jobIdOrHash } : { hash: jobIdOrHash };
 }
 
 /**
@@ -88,61 +127,21 @@ export async function actualizarProgresoJob(
   progress: number,
   currentStep?: string
 ): Promise<void> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  // Detectar si es UUID (con guiones) o hash (64 caracteres hex)
-  const isUUID = jobIdOrHash.includes('-');
-
-  if (isUUID) {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        progress = ${Math.min(100, Math.max(0, progress))},
-        current_step = ${currentStep || null},
-        updated_at = NOW()
-      WHERE id = ${jobIdOrHash}
-    `;
-  } else {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        progress = ${Math.min(100, Math.max(0, progress))},
-        current_step = ${currentStep || null},
-        updated_at = NOW()
-      WHERE hash_archivo = ${jobIdOrHash}
-    `;
-  }
+  await (await obtenerAlmacen()).actualizarJob(claveJob(jobIdOrHash), {
+    progress: Math.min(100, Math.max(0, progress)),
+    current_step: currentStep || null,
+  });
 }
 
 /**
  * Marca un job como en proceso (por ID o hash)
  */
 export async function marcarJobEnProceso(jobIdOrHash: string): Promise<void> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const isUUID = jobIdOrHash.includes('-');
-
-  if (isUUID) {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'processing',
-        progress = 5,
-        current_step = 'Iniciando análisis...',
-        updated_at = NOW()
-      WHERE id = ${jobIdOrHash}
-    `;
-  } else {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'processing',
-        progress = 5,
-        current_step = 'Iniciando análisis...',
-        updated_at = NOW()
-      WHERE hash_archivo = ${jobIdOrHash}
-    `;
-  }
+  await (await obtenerAlmacen()).actualizarJob(claveJob(jobIdOrHash), {
+    status: 'processing',
+    progress: 5,
+    current_step: 'Iniciando análisis...',
+  });
 }
 
 /**
@@ -152,35 +151,13 @@ export async function marcarJobCompletado(
   jobIdOrHash: string,
   result?: any
 ): Promise<void> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const isUUID = jobIdOrHash.includes('-');
-
-  if (isUUID) {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'completed',
-        progress = 100,
-        current_step = 'Completado',
-        result = ${result ? JSON.stringify(result) : null},
-        completed_at = NOW(),
-        updated_at = NOW()
-      WHERE id = ${jobIdOrHash}
-    `;
-  } else {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'completed',
-        progress = 100,
-        current_step = 'Completado',
-        result = ${result ? JSON.stringify(result) : null},
-        completed_at = NOW(),
-        updated_at = NOW()
-      WHERE hash_archivo = ${jobIdOrHash}
-    `;
-  }
+  await (await obtenerAlmacen()).actualizarJob(claveJob(jobIdOrHash), {
+    status: 'completed',
+    progress: 100,
+    current_step: 'Completado',
+    result: result ?? null,
+    completado: true,
+  });
 }
 
 /**
@@ -190,44 +167,176 @@ export async function marcarJobFallido(
   jobIdOrHash: string,
   errorMessage: string
 ): Promise<void> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const isUUID = jobIdOrHash.includes('-');
-
-  if (isUUID) {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'failed',
-        error_message = ${errorMessage},
-        updated_at = NOW()
-      WHERE id = ${jobIdOrHash}
-    `;
-  } else {
-    await sql`
-      UPDATE analysis_jobs 
-      SET 
-        status = 'failed',
-        error_message = ${errorMessage},
-        updated_at = NOW()
-      WHERE hash_archivo = ${jobIdOrHash}
-    `;
-  }
+  await (await obtenerAlmacen()).actualizarJob(claveJob(jobIdOrHash), {
+    status: 'failed',
+    error_message: errorMessage,
+  });
 }
 
 /**
  * Limpia jobs antiguos completados o fallidos (más de 24 horas)
  */
 export async function limpiarJobsAntiguos(): Promise<number> {
-  if (!sql) throw new Error('SQL client no disponible');
+  return (await obtenerAlmacen()).limpiarJobsAntiguos();
+}
+
+// ===================================================================
+// COLA DURABLE
+// ===================================================================
+
+/**
+ * Encola un archivo para análisis (idempotente por hash)
+ * Si ya hay un job activo (pending/processing) para ese hash se devuelve tal cual
+ */
+export async function encolarJobAnalisis(params: {
+  hash: string;
+  fileName: string | null;
+  mimeType: string | null;
+  stage: JobStage;
+  versionId?: string;
+}): Promise<AnalysisJob> {
+  const { hash, fileName, mimeType, stage } = params;
+  const progress = stage === 'gemini' ? 80 : 0;
+
+  const encolado = await (await obtenerAlmacen()).encolarJob({
+    hash,
+    fileName,
+    mimeType,
+    stage,
+    progress,
+    versionId: params.versionId ?? null,
+  });
+  if (encolado) return encolado;
+
+  // Ya estaba en cola o procesándose
+  const activo = await obtenerUltimoJobPorHash(hash);
+  if (!activo) throw new Error(`No se pudo encolar el análisis de ${hash}`);
+  return activo;
+}
+
+/**
+ * Encola solo la etapa que le falta al archivo: Essentia si no está en la BD,
+ * Gemini si no tiene timeline. Con el análisis completo no crea job
+ */
+export async function encolarSiFaltaAnalisis(params: {
+  hash: string;
+  fileName: string;
+  mimeType: string;
+}): Promise<{ job: AnalysisJob | null; analisis: CancionAnalizada | null }> {
+  const existente = await obtenerCancionPorHash(params.hash);
+  const geminiCompleto = !!existente?.timeline && existente.timeline.length > 0;
+  if (existente && geminiCompleto) {
+    return { job: null, analisis: existente };
+  }
+
+  const stage: JobStage = existente ? 'gemini' : 'essentia';
+  const job = await encolarJobAnalisis({ ...params, stage });
+  return { job, analisis: existente };
+}
+
+/**
+ * Obtiene varios jobs por ID (para seguimiento desde la UI)
+ */
+export async function obtenerJobs(ids: string[]): Promise<AnalysisJob[]> {
+  if (ids.length === 0) return [];
+  return (await obtenerAlmacen()).obtenerJobs(ids);
+}
+
+/**
+ * Lista jobs (más recientes primero) con filtros opcionales por estado y etapa
+ */
+export async function listarJobs(filtros: {
+  status?: JobStatus[];
+  stage?: JobStage;
+  limit: number;
+  offset: number;
+}): Promise<{ jobs: AnalysisJob[]; total: number }> {
+  return (await obtenerAlmacen()).listarJobs({
+    status: filtros.status && filtros.status.length > 0 ? filtros.status : null,
+    stage: filtros.stage ?? null,
+    limit: filtros.limit,
+    offset: filtros.offset,
+  });
+}
+
+/**
+ * Número de jobs por estado (resumen de la cola)
+ */
+export async function contarJobsPorEstado(): Promise<Record<JobStatus, number>> {
+  const resultado = await (await obtenerAlmacen()).contarJobsPorEstado();
+
+  const conteo = Object.fromEntries(JOB_STATUSES.map(status => [status, 0])) as Record<JobStatus, number>;
+  for (const row of resultado) {
+    if (row.status in conteo) conteo[row.status as JobStatus] = row.total;
+  }
+  return conteo;
+}
+
+/**
+ * Reclama el siguiente job listo de una etapa
+ * También recoge jobs cuyo lease caducó (worker caído) si les quedan intentos
+ */
+export async function reclamarJob(stage: JobStage, workerId: string, leaseMs: number): Promise<AnalysisJob | null> {
+  return (await obtenerAlmacen()).reclamarJob(stage, workerId, leaseMs);
+}
+
+/**
+ * Renueva el lease de un job reclamado
+ * Devuelve false si el worker ya no es su dueño (lease perdido)
+ */
+export async function renovarLeaseJob(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+  return (await obtenerAlmacen()).renovarLeaseJob(jobId, workerId, leaseMs);
+}
+
+/**
+ * Pasa un job reclamado a la siguiente etapa (vuelve a la cola con intentos a cero)
+ */
+export async function avanzarEtapaJob(
+  jobId: string,
+  workerId: string,
+  stage: JobStage,
+  progress: number,
+  currentStep: string,
+  versionId?: string
+): Promise<boolean> {
+  return (await obtenerAlmacen()).avanzarEtapaJob(jobId, workerId, {
+    stage,
+    progress,
+    currentStep,
+    versionId: versionId ?? null,
+  });
+}
+
+/**
+ * Completa un job reclamado (solo si el worker sigue siendo su dueño)
+ */
+export async function completarJobReclamado(jobId: string, workerId: string, result?: any): Promise<boolean> {
+  return (await obtenerAlmacen()).completarJobReclamado(jobId, workerId, result);
+}
+
+/**
+ * Registra el fallo de un intento: reprograma con backoff o manda a dead-letter
+ * permanent = el error no se arregla reintentando (p. ej. falta el audio)
+ */
+export async function fallarJobReclamado(
+  job: AnalysisJob,
+  workerId: string,
+  errorMessage: string,
+  permanent = false
+): Promise<JobStatus> {
+  const dead = permanent || job.attempts >= job.max_attempts;
+  const status: JobStatus = dead ? 'dead' : 'pending';
+  const retrySecs = dead ? 0 : calcularBackoffMs(job.attempts) / 1000;
+  const currentStep = dead
+    ? `Falló tras ${job.attempts} intento(s)`
+    : `Reintento ${job.attempts + 1}/${job.max_attempts} en ${Math.round(retrySecs)}s`;
 
-  const resultado = await sql`
-    DELETE FROM analysis_jobs 
-    WHERE 
-      status IN ('completed', 'failed')
-      AND updated_at < NOW() - INTERVAL '24 hours'
-    RETURNING id
-  `;
+  await (await obtenerAlmacen()).reprogramarJobReclamado(job.id, workerId, {
+    status,
+    errorMessage,
+    currentStep,
+    retrySecs,
+  });
 
-  return resultado.length;
+  return status;
 }
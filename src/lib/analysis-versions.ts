@@ -0,0 +1,447 @@
+/**
+ * Versiones de análisis (versiones_analisis)
+ *
+ * Cada ejecución del pipeline (Essentia → Gemini) guarda una instantánea con la
+ * versión del analizador, del prompt y el modelo. canciones_analizadas sigue
+ * siendo la fuente que lee el resto de la app: contiene la versión activa.
+ *
+ * - Primer análisis: la versión se activa en cuanto termina Essentia (como antes)
+ * - Re-análisis: la versión se guarda aparte y, si se pidió, se activa al
+ *   completarse Gemini; así la biblioteca no queda a medias mientras tanto
+ * - Canciones analizadas antes de existir las versiones: se congelan como
+ *   versión 1 (analizador 'desconocida') antes del primer re-análisis
+ */
+
+import { PostgresRequeridoError, sql } from './db';
+import { parseTimeStringToMs } from './gemini-optimizer';
+import type { AnalisisCompleto } from './audio-analyzer-unified';
+import type { BpmCandidato, LoopTransicion, TimelineSegment } from './db';
+
+export const VERSION_DESCONOCIDA = 'desconocida';
+
+export interface ResumenVersion {
+  id: string;
+  hash_archivo: string;
+  numero: number;
+  version_analizador: string | null;
+  version_prompt: string | null;
+  modelo: string | null;
+  activa: boolean;
+  activar_al_completar: boolean;
+  motivo: string | null;
+  fecha_creacion: Date;
+  fecha_essentia: Date | null;
+  fecha_gemini: Date | null;
+  bpm: number | null;
+  tonalidad_camelot: string | null;
+}
+
+export interface VersionAnalisis extends ResumenVersion {
+  duracion_ms: number | null;
+  bpm_candidatos: BpmCandidato[];
+  tonalidad_compatible: string[];
+  bailabilidad: number | null;
+  compas: { numerador: number; denominador: number } | null;
+  beats_ts_ms: number[];
+  downbeats_ts_ms: number[];
+  frases_ts_ms: number[];
+  timeline: TimelineSegment[];
+  loops_transicion: LoopTransicion[];
+}
+
+type CambioSegmento = 'LABEL' | 'BOUNDS' | 'VOCALS';
+
+export interface DiffAnalisis {
+  desde: { id: string; numero: number };
+  hasta: { id: string; numero: number };
+  bpm: { desde: number | null; hasta: number | null; diferencia: number | null; cambiado: boolean };
+  tonalidad: { desde: string | null; hasta: string | null; cambiado: boolean };
+  compas: { desde: string | null; hasta: string | null; cambiado: boolean };
+  downbeats: {
+    desde: number;
+    hasta: number;
+    coincidentes: number;           // Downbeats de "hasta" a menos de DOWNBEAT_TOLERANCE_MS de uno de "desde"
+    desplazamientoMedianoMs: number | null; // Mediana del desfase con el downbeat más cercano (grid movido)
+    cambiado: boolean;
+  };
+  timeline: {
+    desde: number;
+    hasta: number;
+    segmentos: Array<{
+      tipo: 'ADDED' | 'REMOVED' | 'CHANGED';
+      cambios?: CambioSegmento[];
+      desde?: TimelineSegment;
+      hasta?: TimelineSegment;
+    }>;
+    cambiado: boolean;
+  };
+}
+
+const BPM_TOLERANCE = 0.05;
+const DOWNBEAT_TOLERANCE_MS = 50;
+const SEGMENT_BOUNDS_TOLERANCE_MS = 1000;
+const MIN_SEGMENT_OVERLAP = 0.5;   // Intersección / unión para considerar que es el mismo segmento
+
+const COLUMNAS_RESUMEN = `
+  id, hash_archivo, numero, version_analizador, version_prompt, modelo, activa,
+  activar_al_completar, motivo, fecha_creacion, fecha_essentia, fecha_gemini,
+  bpm, tonalidad_camelot
+`;
+
+function parseJson<T>(value: any, defaultValue: T): T {
+  if (value === null || value === undefined) return defaultValue;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return defaultValue;
+    }
+  }
+  return value as T;
+}
+
+function normalizarVersion(row: any): VersionAnalisis {
+  return {
+    ...row,
+    bpm_candidatos: parseJson(row.bpm_candidatos, [] as BpmCandidato[]),
+    tonalidad_compatible: parseJson(row.tonalidad_compatible, [] as string[]),
+    compas: parseJson(row.compas, null),
+    beats_ts_ms: parseJson(row.beats_ts_ms, [] as number[]),
+    downbeats_ts_ms: parseJson(row.downbeats_ts_ms, [] as number[]),
+    frases_ts_ms: parseJson(row.frases_ts_ms, [] as number[]),
+    timeline: parseJson(row.timeline, [] as TimelineSegment[]),
+    loops_transicion: parseJson(row.loops_transicion, [] as LoopTransicion[]),
+  };
+}
+
+// Serializa la numeración de versiones de una canción hasta el fin de la transacción
+function bloquearVersionesDe(hash: string) {
+  return sql`SELECT pg_advisory_xact_lock(hashtext('versiones_analisis'), hashtext(${hash}))`;
+}
+
+/**
+ * Crea una versión vacía (la rellenan las etapas Essentia y Gemini)
+ * Con desdeVersionId copia el análisis Essentia de esa versión (re-análisis solo de Gemini)
+ */
+export async function crearVersionAnalisis(params: {
+  hash: string;
+  motivo?: string | null;
+  activarAlCompletar?: boolean;
+  desdeVersionId?: string;
+}): Promise<string> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  // Sin el bloqueo, dos re-análisis a la vez leen el mismo MAX(numero) y el segundo choca con UNIQUE
+  const [, resultado] = await sql.transaction([
+    bloquearVersionesDe(params.hash),
+    sql`
+      INSERT INTO versiones_analisis (hash_archivo, numero, motivo, activar_al_completar)
+      SELECT ${params.hash}, COALESCE(MAX(numero), 0) + 1, ${params.motivo ?? null}, ${params.activarAlCompletar ?? true}
+      FROM versiones_analisis
+      WHERE hash_archivo = ${params.hash}
+      RETURNING id
+    `,
+  ]);
+  const versionId: string = resultado[0].id;
+
+  if (params.desdeVersionId) {
+    await sql`
+      UPDATE versiones_analisis v
+      SET
+        version_analizador = o.version_analizador,
+        fecha_essentia = o.fecha_essentia,
+        duracion_ms = o.duracion_ms,
+        bpm = o.bpm,
+        bpm_candidatos = o.bpm_candidatos,
+        tonalidad_camelot = o.tonalidad_camelot,
+        tonalidad_compatible = o.tonalidad_compatible,
+        bailabilidad = o.bailabilidad,
+        compas = o.compas,
+        beats_ts_ms = o.beats_ts_ms,
+        downbeats_ts_ms = o.downbeats_ts_ms,
+        frases_ts_ms = o.frases_ts_ms
+      FROM versiones_analisis o
+      WHERE v.id = ${versionId} AND o.id = ${params.desdeVersionId}
+    `;
+  }
+
+  return versionId;
+}
+
+/**
+ * Congela el análisis actual como versión 1 si la canción no tiene versiones
+ * (analizada antes de existir esta tabla)
+ */
+export async function asegurarVersionInicial(hash: string): Promise<void> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  await sql.transaction([
+    bloquearVersionesDe(hash),
+    sql`
+      INSERT INTO versiones_analisis (
+        hash_archivo, numero, version_analizador, activa, activar_al_completar,
+        fecha_creacion, fecha_essentia, fecha_gemini,
+        duracion_ms, bpm, bpm_candidatos, tonalidad_camelot, tonalidad_compatible,
+        bailabilidad, compas, beats_ts_ms, downbeats_ts_ms, frases_ts_ms,
+        timeline, loops_transicion
+      )
+      SELECT
+        hash_archivo, 1, ${VERSION_DESCONOCIDA}, TRUE, FALSE,
+        fecha_procesado, fecha_procesado,
+        CASE WHEN jsonb_array_length(timeline) > 0 THEN fecha_procesado END,
+        duracion_ms, bpm, bpm_candidatos, tonalidad_camelot, tonalidad_compatible,
+        bailabilidad, compas, beats_ts_ms, downbeats_ts_ms, frases_ts_ms,
+        timeline, loops_transicion
+      FROM canciones_analizadas c
+      WHERE c.hash_archivo = ${hash}
+        AND NOT EXISTS (SELECT 1 FROM versiones_analisis v WHERE v.hash_archivo = c.hash_archivo)
+    `,
+  ]);
+}
+
+/**
+ * Guarda el resultado de Essentia en la versión
+ */
+export async function guardarEssentiaEnVersion(
+  versionId: string,
+  analisis: AnalisisCompleto,
+  versionAnalizador: string
+): Promise<void> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  await sql`
+    UPDATE versiones_analisis
+    SET
+      version_analizador = ${versionAnalizador},
+      fecha_essentia = NOW(),
+      duracion_ms = ${analisis.duracion_ms},
+      bpm = ${analisis.bpm},
+      bpm_candidatos = ${JSON.stringify(analisis.bpm_candidatos || [])}::jsonb,
+      tonalidad_camelot = ${analisis.tonalidad_camelot},
+      tonalidad_compatible = ${JSON.stringify(analisis.tonalidad_compatible || [])}::jsonb,
+      bailabilidad = ${analisis.bailabilidad},
+      compas = ${JSON.stringify(analisis.compas || { numerador: 4, denominador: 4 })}::jsonb,
+      beats_ts_ms = ${JSON.stringify(analisis.beats_ts_ms || [])}::jsonb,
+      downbeats_ts_ms = ${JSON.stringify(analisis.downbeats_ts_ms || [])}::jsonb,
+      frases_ts_ms = ${JSON.stringify(analisis.frases_ts_ms || [])}::jsonb
+    WHERE id = ${versionId}
+  `;
+}
+
+/**
+ * Guarda el resultado de Gemini en la versión
+ */
+export async function guardarGeminiEnVersion(params: {
+  versionId: string;
+  timeline?: TimelineSegment[];
+  loops_transicion?: LoopTransicion[];
+  versionPrompt: string;
+  modelo: string;
+}): Promise<VersionAnalisis | null> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  const timeline_json = params.timeline ? JSON.stringify(params.timeline) : null;
+  const loops_transicion_json = params.loops_transicion ? JSON.stringify(params.loops_transicion) : null;
+
+  const resultado = await sql`
+    UPDATE versiones_analisis
+    SET
+      timeline = COALESCE(${timeline_json}::jsonb, timeline),
+      loops_transicion = COALESCE(${loops_transicion_json}::jsonb, loops_transicion),
+      version_prompt = ${params.versionPrompt},
+      modelo = ${params.modelo},
+      fecha_gemini = NOW()
+    WHERE id = ${params.versionId}
+    RETURNING *
+  `;
+
+  return resultado.length > 0 ? normalizarVersion(resultado[0]) : null;
+}
+
+/**
+ * Marca la versión como activa (sin tocar canciones_analizadas)
+ */
+export async function marcarVersionActiva(hash: string, versionId: string): Promise<void> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  await sql.transaction([
+    sql`UPDATE versiones_analisis SET activa = FALSE WHERE hash_archivo = ${hash} AND activa AND id <> ${versionId}`,
+    sql`UPDATE versiones_analisis SET activa = TRUE WHERE id = ${versionId} AND hash_archivo = ${hash}`,
+  ]);
+}
+
+/**
+ * Activa una versión: copia su instantánea a canciones_analizadas
+ * (salvo los campos corregidos a mano y bloqueados por el usuario)
+ * Devuelve false si la versión no existe o no tiene análisis Essentia
+ */
+export async function activarVersion(hash: string, versionId: string): Promise<boolean> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  const [, , actualizadas] = await sql.transaction([
+    sql`UPDATE versiones_analisis SET activa = FALSE
+        WHERE hash_archivo = ${hash} AND activa AND id <> ${versionId}
+          AND EXISTS (SELECT 1 FROM versiones_analisis WHERE id = ${versionId} AND fecha_essentia IS NOT NULL)`,
+    sql`UPDATE versiones_analisis SET activa = TRUE, activar_al_completar = FALSE
+        WHERE id = ${versionId} AND hash_archivo = ${hash} AND fecha_essentia IS NOT NULL`,
+    sql`UPDATE canciones_analizadas c
+        SET
+          duracion_ms = v.duracion_ms,
+          bpm = CASE WHEN (c.bloqueos->>'bpm')::boolean THEN c.bpm ELSE v.bpm END,
+          bpm_candidatos = CASE WHEN (c.bloqueos->>'bpm')::boolean THEN c.bpm_candidatos ELSE v.bpm_candidatos END,
+          tonalidad_camelot = CASE WHEN (c.bloqueos->>'tonalidad')::boolean THEN c.tonalidad_camelot ELSE v.tonalidad_camelot END,
+          tonalidad_compatible = CASE WHEN (c.bloqueos->>'tonalidad')::boolean THEN c.tonalidad_compatible ELSE v.tonalidad_compatible END,
+          bailabilidad = v.bailabilidad,
+          compas = CASE WHEN (c.bloqueos->>'grid')::boolean THEN c.compas ELSE v.compas END,
+          beats_ts_ms = CASE WHEN (c.bloqueos->>'grid')::boolean THEN c.beats_ts_ms ELSE v.beats_ts_ms END,
+          downbeats_ts_ms = CASE WHEN (c.bloqueos->>'grid')::boolean THEN c.downbeats_ts_ms ELSE v.downbeats_ts_ms END,
+          frases_ts_ms = CASE WHEN (c.bloqueos->>'grid')::boolean THEN c.frases_ts_ms ELSE v.frases_ts_ms END,
+          timeline = CASE WHEN (c.bloqueos->>'timeline')::boolean THEN c.timeline ELSE v.timeline END,
+          loops_transicion = v.loops_transicion,
+          fecha_procesado = NOW()
+        FROM versiones_analisis v
+        WHERE v.id = ${versionId} AND v.hash_archivo = c.hash_archivo
+          AND c.hash_archivo = ${hash} AND v.fecha_essentia IS NOT NULL
+        RETURNING c.id`,
+  ]);
+
+  return actualizadas.length > 0;
+}
+
+export async function obtenerVersion(versionId: string): Promise<VersionAnalisis | null> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  const resultado = await sql`SELECT * FROM versiones_analisis WHERE id = ${versionId}`;
+  return resultado.length > 0 ? normalizarVersion(resultado[0]) : null;
+}
+
+/**
+ * Versión por número; sin número, la activa
+ */
+export async function obtenerVersionPorNumero(hash: string, numero?: number): Promise<VersionAnalisis | null> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  const resultado = numero === undefined
+    ? await sql`SELECT * FROM versiones_analisis WHERE hash_archivo = ${hash} AND activa LIMIT 1`
+    : await sql`SELECT * FROM versiones_analisis WHERE hash_archivo = ${hash} AND numero = ${numero}`;
+  return resultado.length > 0 ? normalizarVersion(resultado[0]) : null;
+}
+
+/**
+ * Versiones de una canción (sin los arrays de timing ni el timeline), la más reciente primero
+ */
+export async function listarVersiones(hash: string): Promise<ResumenVersion[]> {
+  if (!sql) throw new PostgresRequeridoError('Versiones de análisis');
+
+  const resultado = await sql.query(
+    `SELECT ${COLUMNAS_RESUMEN} FROM versiones_analisis WHERE hash_archivo = $1 ORDER BY numero DESC`,
+    [hash]
+  );
+  return resultado as ResumenVersion[];
+}
+
+function mediana(valores: number[]): number | null {
+  if (valores.length === 0) return null;
+  const ordenados = [...valores].sort((a, b) => a - b);
+  const mitad = Math.floor(ordenados.length / 2);
+  return ordenados.length % 2 === 0 ? (ordenados[mitad - 1] + ordenados[mitad]) / 2 : ordenados[mitad];
+}
+
+/**
+ * Desfase (con signo) de cada downbeat de b respecto al más cercano de a (ambos ordenados)
+ */
+function desfasesDownbeats(a: number[], b: number[]): number[] {
+  if (a.length === 0) return [];
+  const desfases: number[] = [];
+  let i = 0;
+  for (const t of b) {
+    while (i < a.length - 1 && Math.abs(a[i + 1] - t) <= Math.abs(a[i] - t)) i++;
+    desfases.push(t - a[i]);
+  }
+  return desfases;
+}
+
+function diffTimeline(desde: TimelineSegment[], hasta: TimelineSegment[]): DiffAnalisis['timeline'] {
+  const rango = (s: TimelineSegment) => ({ inicio: parseTimeStringToMs(s.inicio), fin: parseTimeStringToMs(s.fin) });
+  const rangosDesde = desde.map(rango);
+  const emparejados = new Set<number>();
+  const segmentos: DiffAnalisis['timeline']['segmentos'] = [];
+
+  for (const segmento of hasta) {
+    const r = rango(segmento);
+    let mejor = -1;
+    let mejorSolape = 0;
+    rangosDesde.forEach((d, i) => {
+      const interseccion = Math.min(r.fin, d.fin) - Math.max(r.inicio, d.inicio);
+      const union = Math.max(r.fin, d.fin) - Math.min(r.inicio, d.inicio);
+      const solape = union > 0 ? Math.max(0, interseccion) / union : 0;
+      if (solape > mejorSolape) {
+        mejorSolape = solape;
+        mejor = i;
+      }
+    });
+
+    if (mejor === -1 || mejorSolape < MIN_SEGMENT_OVERLAP) {
+      segmentos.push({ tipo: 'ADDED', hasta: segmento });
+      continue;
+    }
+
+    emparejados.add(mejor);
+    const anterior = desde[mejor];
+    const cambios: CambioSegmento[] = [];
+    if (anterior.tipo_seccion !== segmento.tipo_seccion) cambios.push('LABEL');
+    if (
+      Math.abs(rangosDesde[mejor].inicio - r.inicio) > SEGMENT_BOUNDS_TOLERANCE_MS ||
+      Math.abs(rangosDesde[mejor].fin - r.fin) > SEGMENT_BOUNDS_TOLERANCE_MS
+    ) {
+      cambios.push('BOUNDS');
+    }
+    if (!!anterior.has_vocals !== !!segmento.has_vocals) cambios.push('VOCALS');
+    if (cambios.length > 0) segmentos.push({ tipo: 'CHANGED', cambios, desde: anterior, hasta: segmento });
+  }
+
+  desde.forEach((segmento, i) => {
+    if (!emparejados.has(i)) segmentos.push({ tipo: 'REMOVED', desde: segmento });
+  });
+
+  return { desde: desde.length, hasta: hasta.length, segmentos, cambiado: segmentos.length > 0 };
+}
+
+/**
+ * Diferencias entre dos versiones: BPM, tonalidad, compás, grid de downbeats y timeline
+ */
+export function diffVersiones(desde: VersionAnalisis, hasta: VersionAnalisis): DiffAnalisis {
+  const diferenciaBpm = desde.bpm !== null && hasta.bpm !== null
+    ? Math.round((hasta.bpm - desde.bpm) * 100) / 100
+    : null;
+  const compas = (v: VersionAnalisis) => v.compas ? `${v.compas.numerador}/${v.compas.denominador}` : null;
+
+  const desfases = desfasesDownbeats(desde.downbeats_ts_ms, hasta.downbeats_ts_ms);
+  const coincidentes = desfases.filter(d => Math.abs(d) <= DOWNBEAT_TOLERANCE_MS).length;
+  const desplazamiento = mediana(desfases);
+
+  return {
+    desde: { id: desde.id, numero: desde.numero },
+    hasta: { id: hasta.id, numero: hasta.numero },
+    bpm: {
+      desde: desde.bpm,
+      hasta: hasta.bpm,
+      diferencia: diferenciaBpm,
+      cambiado: diferenciaBpm === null ? desde.bpm !== hasta.bpm : Math.abs(diferenciaBpm) >= BPM_TOLERANCE,
+    },
+    tonalidad: {
+      desde: desde.tonalidad_camelot,
+      hasta: hasta.tonalidad_camelot,
+      cambiado: desde.tonalidad_camelot !== hasta.tonalidad_camelot,
+    },
+    compas: { desde: compas(desde), hasta: compas(hasta), cambiado: compas(desde) !== compas(hasta) },
+    downbeats: {
+      desde: desde.downbeats_ts_ms.length,
+      hasta: hasta.downbeats_ts_ms.length,
+      coincidentes,
+      desplazamientoMedianoMs: desplazamiento === null ? null : Math.round(desplazamiento),
+      cambiado: desde.downbeats_ts_ms.length !== hasta.downbeats_ts_ms.length || coincidentes < hasta.downbeats_ts_ms.length,
+    },
+    timeline: diffTimeline(desde.timeline, hasta.timeline),
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Workers de la cola de análisis (analysis_jobs)
+ *
+ * Viven en el proceso del servidor (se arrancan desde instrumentation.ts y al
+ * encolar). Cada etapa tiene un despachador que consulta la cola y reparte los
+ * jobs entre sus huecos de trabajo (con la cola vacía consulta cada vez menos):
+ * - essentia: analizarAudioCompleto → guardarAnalisisEnDB (CPU, pocos a la vez)
+ * - gemini: analizarConGeminiDJ → actualizarDatosGemini (red, repartido entre API keys)
+ *
+ * Cada job rellena una versión de análisis (version_id): la crea Essentia si el
+ * job no la trae (re-análisis) y Gemini la completa.
+ *
+ * El estado está en la BD, no en memoria: si el proceso muere, los leases
+ * caducan y los jobs se retoman al arrancar de nuevo.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { analizarAudioCompleto } from './audio-analyzer-unified';
+import { loadCachedAudio } from './audio-cache';
+import { extraerMetadatos, separarNombreArchivo } from './audio-metadata';
+import { cargarAudioDeBiblioteca } from './library-scanner';
+import { actualizarDatosGemini, guardarAnalisisEnDB, obtenerCancionPorHash } from './db-persistence';
+import { crearVersionAnalisis, obtenerVersion } from './analysis-versions';
+import { obtenerAlmacen } from './storage';
+import { analizarConGeminiDJ } from './gemini-optimizer';
+import { getGeminiApiKeys, getMaxParallelCapacity } from './gemini-keys';
+import {
+  actualizarProgresoJob,
+  avanzarEtapaJob,
+  completarJobReclamado,
+  fallarJobReclamado,
+  reclamarJob,
+  renovarLeaseJob,
+  type AnalysisJob,
+  type JobStage,
+} from './analysis-jobs';
+
+// Lease holgado: el análisis Essentia bloquea el event loop a ratos y retrasa el heartbeat
+const LEASE_MS = 5 * 60_000;
+const HEARTBEAT_MS = 30_000;
+const IDLE_POLL_MS = 5_000;
+// Con la cola vacía el intervalo se duplica hasta este tope (encolar despierta al momento)
+const MAX_IDLE_POLL_MS = 60_000;
+
+// Essentia es CPU: en un mismo proceso más workers no van más rápido
+const ESSENTIA_WORKERS = Number(process.env.ANALYSIS_ESSENTIA_WORKERS) || 2;
+// Tope de llamadas simultáneas a Gemini (el navegador usaba 25)
+const MAX_GEMINI_WORKERS = 25;
+
+/**
+ * Error que no se arregla reintentando (el job va directo a dead-letter)
+ */
+class ErrorPermanente extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ErrorPermanente';
+  }
+}
+
+let iniciados = false;
+const despertadores = new Set<() => void>();
+
+// true si lo despertó despertarWorkersAnalisis (o un hueco que se libera) antes de tiempo
+function esperar(ms: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const terminar = (despertado: boolean) => {
+      clearTimeout(timer);
+      despertadores.delete(despertar);
+      resolve(despertado);
+    };
+    const despertar = () => terminar(true);
+    const timer = setTimeout(() => terminar(false), ms);
+    despertadores.add(despertar);
+  });
+}
+
+async function cargarAudioDelJob(job: AnalysisJob) {
+  // Subidas desde el navegador → caché; escaneos de carpeta → el propio archivo de la biblioteca
+  const audio = await loadCachedAudio(job.hash_archivo) ?? await cargarAudioDeBiblioteca(job.hash_archivo);
+  if (!audio) {
+    throw new ErrorPermanente('El audio ya no está en caché del servidor ni en la biblioteca: vuelve a subir el archivo');
+  }
+  return audio;
+}
+
+async function ejecutarEssentia(job: AnalysisJob, workerId: string): Promise<void> {
+  const audio = await cargarAudioDelJob(job);
+
+  await actualizarProgresoJob(job.id, 10, 'Analizando con Essentia...');
+  const analisis = await analizarAudioCompleto(audio.buffer, {
+    normalize: { targetLUFS: -14 },
+    disable: { djCues: true, vocal: false },
+    fast: true,
+  });
+
+  await actualizarProgresoJob(job.id, 70, 'Guardando en base de datos...');
+  const fileName = job.file_name || audio.fileName;
+  const metadatos = await extraerMetadatos(audio.buffer, fileName, job.mime_type || audio.mimeType);
+  // SQLite no guarda versiones: el análisis reemplaza directamente al anterior
+  const { soportaVersiones } = await obtenerAlmacen();
+  const versionId = job.version_id
+    ?? (soportaVersiones ? await crearVersionAnalisis({ hash: job.hash_archivo }) : undefined);
+  await guardarAnalisisEnDB({
+    hash: job.hash_archivo,
+    // Mismo título que /api/analyze ("Artista - Título.mp3" → Título)
+    titulo: separarNombreArchivo(fileName).titulo,
+    metadatos,
+    analisis,
+    versionId,
+  });
+
+  await avanzarEtapaJob(job.id, workerId, 'gemini', 80, 'Análisis Essentia completado. En cola: enriquecimiento Gemini', versionId);
+}
+
+async function ejecutarGemini(job: AnalysisJob, workerId: string, apiKey: string | undefined): Promise<void> {
+  const audio = await cargarAudioDelJob(job);
+  const cancion = await obtenerCancionPorHash(job.hash_archivo);
+  if (!cancion) {
+    throw new ErrorPermanente('La canción no está en la base de datos (falta el análisis Essentia)');
+  }
+
+  // Un re-análisis que aún no es la versión activa manda a Gemini su propio análisis técnico
+  const version = job.version_id ? await obtenerVersion(job.version_id) : null;
+  const tecnico = version?.fecha_essentia ? version : cancion;
+
+  const buffer = audio.buffer;
+  const analisisCompleto = await analizarConGeminiDJ({
+    hash_archivo: job.hash_archivo,
+    titulo: cancion.titulo || 'Desconocido',
+    fileBuffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+    fileMimeType: job.mime_type || audio.mimeType,
+    jobId: job.id,
+    apiKeyOverride: apiKey,
+    analisisTecnico: {
+      bpm: tecnico.bpm || 120,
+      tonalidad_camelot: tecnico.tonalidad_camelot || '1A',
+      tonalidad_compatible: tecnico.tonalidad_compatible || [],
+      bailabilidad: tecnico.bailabilidad || 0.5,
+      compas: tecnico.compas || { numerador: 4, denominador: 4 },
+      duracion_ms: tecnico.duracion_ms || 180000,
+      beats_ts_ms: tecnico.beats_ts_ms || [],
+      downbeats_ts_ms: tecnico.downbeats_ts_ms || [],
+      frases_ts_ms: tecnico.frases_ts_ms || [],
+    },
+    nombreCancion: cancion.titulo || 'Desconocido',
+  });
+
+  const timeline = analisisCompleto.timeline || [];
+  if (timeline.length === 0) {
+    throw new Error('Respuesta Gemini incompleta: timeline vacío');
+  }
+
+  await actualizarProgresoJob(job.id, 90, 'Guardando enriquecimiento Gemini en BD...');
+  await actualizarDatosGemini({
+    hash: job.hash_archivo,
+    timeline,
+    loops_transicion: analisisCompleto.loops_transicion || undefined,
+    versionId: job.version_id ?? undefined,
+  });
+
+  await completarJobReclamado(job.id, workerId, {
+    gemini_completed: true,
+    timeline_segments: timeline.length,
+    vocales: timeline.filter(t => t.has_vocals).length,
+    loops: (analisisCompleto.loops_transicion || []).length,
+  });
+}
+
+async function procesarJob(job: AnalysisJob, workerId: string, apiKey: string | undefined): Promise<void> {
+  console.log(`🧵 [${workerId}] ${job.stage} ${job.hash_archivo.substring(0, 8)}... (intento ${job.attempts}/${job.max_attempts})`);
+
+  // Heartbeat: mientras el análisis dure, el lease no caduca
+  const heartbeat = setInterval(() => {
+    renovarLeaseJob(job.id, workerId, LEASE_MS)
+      .then(vigente => {
+        if (!vigente) console.warn(`⚠️ [${workerId}] Lease perdido para el job ${job.id}`);
+      })
+      .catch(error => console.warn(`⚠️ [${workerId}] No se pudo renovar el lease:`, error));
+  }, HEARTBEAT_MS);
+
+  try {
+    if (job.stage === 'essentia') {
+      await ejecutarEssentia(job, workerId);
+    } else {
+      await ejecutarGemini(job, workerId, apiKey);
+    }
+  } catch (error: any) {
+    const message = error?.message || 'Error desconocido';
+    const status = await fallarJobReclamado(job, workerId, message, error instanceof ErrorPermanente)
+      .catch(dbError => {
+        console.error(`❌ [${workerId}] No se pudo registrar el fallo del job ${job.id}:`, dbError);
+        return null;
+      });
+    console.warn(`⚠️ [${workerId}] ${job.stage} falló (${status ?? 'lease'}): ${message}`);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+interface HuecoWorker {
+  workerId: string;
+  apiKey?: string;
+}
+
+/**
+ * Despachador de una etapa: una sola consulta a la cola por vez, y solo cuando
+ * hay un hueco libre; cada job se procesa con la identidad (lease) de su hueco
+ */
+async function bucleDespachador(stage: JobStage, huecos: HuecoWorker[]): Promise<void> {
+  const libres = [...huecos];
+  let espera = IDLE_POLL_MS;
+
+  for (;;) {
+    if (libres.length === 0) {
+      // Todos ocupados: al terminar un job se despierta
+      await esperar(MAX_IDLE_POLL_MS);
+      continue;
+    }
+
+    const hueco = libres[0];
+    let job: AnalysisJob | null = null;
+    try {
+      job = await reclamarJob(stage, hueco.workerId, LEASE_MS);
+    } catch (error) {
+      console.error(`❌ [${stage}] Error reclamando jobs:`, error);
+    }
+
+    if (!job) {
+      const despertado = await esperar(espera);
+      espera = despertado ? IDLE_POLL_MS : Math.min(espera * 2, MAX_IDLE_POLL_MS);
+      continue;
+    }
+
+    espera = IDLE_POLL_MS;
+    libres.shift();
+    procesarJob(job, hueco.workerId, hueco.apiKey).finally(() => {
+      libres.push(hueco);
+      despertarWorkersAnalisis();
+    });
+  }
+}
+
+/**
+ * Arranca los pools de workers (idempotente)
+ */
+export function iniciarWorkersAnalisis(): void {
+  if (iniciados) return;
+  // Procesos que solo sirven la web pueden dejar la cola a otros
+  if (process.env.ANALYSIS_WORKERS_DISABLED === '1') return;
+  iniciados = true;
+
+  const keys = getGeminiApiKeys();
+  // Sin keys arranca uno igualmente: los jobs fallan y acaban en dead-letter en vez de quedarse en cola
+  const geminiWorkers = Number(process.env.ANALYSIS_GEMINI_WORKERS)
+    || Math.max(1, Math.min(MAX_GEMINI_WORKERS, getMaxParallelCapacity(keys.length)));
+  const proceso = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  console.log(`🧵 Cola de análisis: ${ESSENTIA_WORKERS} workers Essentia, ${geminiWorkers} workers Gemini (${keys.length} API keys)`);
+
+  bucleDespachador('essentia', Array.from({ length: ESSENTIA_WORKERS }, (_, i) => ({
+    workerId: `${proceso}/essentia-${i}`,
+  }))).catch(error => {
+    console.error('❌ Despachador Essentia detenido:', error);
+  });
+  bucleDespachador('gemini', Array.from({ length: geminiWorkers }, (_, i) => ({
+    workerId: `${proceso}/gemini-${i}`,
+    apiKey: keys.length > 0 ? keys[i % keys.length] : undefined,
+  }))).catch(error => {
+    console.error('❌ Despachador Gemini detenido:', error);
+  });
+}
+
+/**
+ * Despierta a los workers ociosos (al encolar, para no esperar al siguiente poll)
+ */
+export function despertarWorkersAnalisis(): void {
+  for (const despertar of [...despertadores]) despertar();
+}
@@ -8,6 +8,9 @@
 
 import Pitchfinder from 'pitchfinder';
 import { Note, Key } from 'tonal';
+import type { BpmCandidato } from './db';
+import { calcularHuellaChroma, type HuellaChroma } from './audio-fingerprint';
+import { calcularFormaOnda, type FormaOnda } from './audio-waveform';
 // AudioContext se resuelve dinámicamente dentro de decodificarAudio para compatibilidad Node
 // Essentia.js se carga dinámicamente para compatibilidad con Next.js y Turbopack
 
@@ -44,6 +47,10 @@ function formatRangeContext(start: number, end: number): string {
   return `[${Math.round(start)}-${Math.round(end)}ms] (de ${msToMinSec(start)} a ${msToMinSec(end)})`;
 }
 
+// Se guarda con cada versión de análisis: subirla al cambiar algo que altere
+// los resultados (BPM, tonalidad, grid, huella...) para poder comparar
+export const ANALYZER_VERSION = '1.0.0';
+
 // ============================================================================
 // TIPOS
 // ============================================================================
@@ -52,6 +59,7 @@ export interface AnalisisCompleto {
   // Básico
   bpm: number;
   bpm_rango: { min: number; max: number };
+  bpm_candidatos: BpmCandidato[]; // Lecturas alternativas (mitad/doble/3:2), la primera es bpm
   tonalidad_camelot: string;
   tonalidad_compatible: string[];
   energia: number;
@@ -107,6 +115,12 @@ export interface AnalisisCompleto {
     fade_out_duration_ms: number;
   };
 
+  // Huella chroma para detectar duplicados y versiones (null si no se pudo calcular)
+  huella_chroma: HuellaChroma | null;
+
+  // Forma de onda multirresolución para el reproductor (se guarda en formas_onda)
+  forma_onda: FormaOnda | null;
+
   // NO HAY datos complementarios - segmentos_voz eliminado
 }
 
@@ -147,6 +161,7 @@ interface RitmoResult {
   compas: { numerador: number; denominador: number; meter?: string };
   frasesMs: number[];
   loudnessPerBeat: number[];
+  candidatos?: BPMCandidate[];
 }
 
 let essentiaInstancePromise: Promise<any> | null = null;
@@ -460,7 +475,7 @@ function parseMeterSignature(signature: unknown): { numerador: number; denominad
   return { numerador: 4, denominador: 4, meter: '4/4' };
 }
 
-function construirFrasesDesdeDownbeats(downbeatsMs: number[], barsPerPhrase = 8): number[] {
+export function construirFrasesDesdeDownbeats(downbeatsMs: number[], barsPerPhrase = 8): number[] {
   if (downbeatsMs.length === 0) {
     return [];
   }
@@ -651,6 +666,7 @@ async function analizarRitmoConEssentia(
   compas: { numerador: number; denominador: number; meter: string };
   frasesMs: number[];
   loudnessPerBeat: number[];
+  candidatos: BPMCandidate[];
 }> {
   try {
     // ============================================================================
@@ -691,10 +707,30 @@ async function analizarRitmoConEssentia(
       throw new Error('RhythmExtractor2013 no detectó BPM válido');
     }
 
+    const bpmDetectado = bpm;
+
     // Normalizar BPM al rango típico de DJ (70-180)
     while (bpm < 70) bpm *= 2;
     while (bpm > 180) bpm /= 2;
 
+    // Lecturas alternativas: intervalos entre beats agrupados igual que en RBA
+    // y la lectura original si se ha plegado (el detector la dio por buena)
+    const candidatos: BPMCandidate[] = [];
+    try {
+      const intervalosSeg = Array.from(essentia.vectorToArray(ritmo.bpmIntervals) as Float32Array);
+      const intervalos = new Map<number, number>();
+      for (const seg of intervalosSeg) {
+        const muestras = Math.round(seg * signal.sampleRate);
+        if (muestras > 0) intervalos.set(muestras, (intervalos.get(muestras) || 0) + 1);
+      }
+      candidatos.push(...agruparPorTempo(intervalos, signal.sampleRate));
+    } catch {
+      // Sin bpmIntervals solo queda la lectura original
+    }
+    if (bpmDetectado !== bpm) {
+      candidatos.push({ tempo: Math.round(bpmDetectado * 10) / 10, count: 0, confidence: 1 });
+    }
+
     // Convertir ticks a ms y AJUSTAR EL OFFSET
     const ticksArray = essentia.vectorToArray(ticksVector) as Float32Array;
     // Importante: Sumar el offsetTimeMs porque los ticks son relativos al recorte
@@ -757,7 +793,8 @@ async function analizarRitmoConEssentia(
       downbeatsMs,
       compas: { numerador, denominador, meter: meterLabel },
       frasesMs,
-      loudnessPerBeat
+      loudnessPerBeat,
+      candidatos
     };
 
   } catch (error) {
@@ -1338,7 +1375,7 @@ function agruparPorTempo(intervalos: Map<number, number>, sampleRate: number): B
   return candidatos.slice(0, 5); // Top 5 candidatos
 }
 
-async function detectarBPMConRBA(audioBuffer: AudioBuffer): Promise<number | null> {
+async function detectarBPMConRBA(audioBuffer: AudioBuffer): Promise<{ bpm: number; candidatos: BPMCandidate[] } | null> {
   try {
     console.log('   🎵 Usando algoritmo de Realtime BPM Analyzer...');
 
@@ -1440,7 +1477,7 @@ async function detectarBPMConRBA(audioBuffer: AudioBuffer): Promise<number | nul
     while (bpm > 200) bpm /= 2;
 
     console.log(`   ✅ BPM detectado: ${bpm} (confidence: ${(best.confidence * 100).toFixed(1)}%)`);
-    return Math.round(bpm * 10) / 10;
+    return { bpm: Math.round(bpm * 10) / 10, candidatos: mejorCandidatos };
 
   } catch (e) {
     console.warn('   ⚠️ Error en detección de BPM:', e);
@@ -1448,6 +1485,38 @@ async function detectarBPMConRBA(audioBuffer: AudioBuffer): Promise<number | nul
   return null;
 }
 
+// Confianza mínima (relativa al mejor candidato) para guardar una lectura alternativa
+const MIN_CONFIANZA_CANDIDATO = 0.3;
+const MAX_CANDIDATOS_TEMPO = 5;
+
+/**
+ * Lecturas de tempo que se guardan junto al BPM (bpm_candidatos)
+ * El BPM final va primero con confianza 1. Los candidatos que caen dentro de
+ * bpm_rango son la misma lectura y se descartan; el resto (típicamente mitad,
+ * doble o 3:2) se conservan para que el secuenciador elija la que encaje.
+ */
+function construirCandidatosTempo(
+  bpm: number,
+  rango: { min: number; max: number },
+  lecturas: BPMCandidate[] = []
+): BpmCandidato[] {
+  const tolerancia = (rango.max - rango.min) / 2 / bpm;
+  const candidatos: BpmCandidato[] = [{ bpm, confianza: 1 }];
+
+  for (const lectura of [...lecturas].sort((a, b) => b.confidence - a.confidence)) {
+    if (candidatos.length >= MAX_CANDIDATOS_TEMPO) break;
+    if (lectura.confidence < MIN_CONFIANZA_CANDIDATO || lectura.tempo <= 0) continue;
+    const repetida = candidatos.some(c => Math.abs(lectura.tempo - c.bpm) / c.bpm <= tolerancia);
+    if (repetida) continue;
+    candidatos.push({
+      bpm: Math.round(lectura.tempo * 10) / 10,
+      confianza: Math.round(lectura.confidence * 100) / 100,
+    });
+  }
+
+  return candidatos;
+}
+
 // ============================================================================
 // 4. DETECCIÓN DE COMPÁS
 // ============================================================================
@@ -2445,8 +2514,9 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
     const t5 = Date.now();
     // Intento con Realtime BPM Analyzer (offline)
     console.log('🥁 Analizando ritmo con Realtime BPM Analyzer...');
-    const bpmRba = await detectarBPMConRBA(audioBuffer);
-    if (bpmRba) {
+    const rba = await detectarBPMConRBA(audioBuffer);
+    if (rba) {
+      const bpmRba = rba.bpm;
       const beatDurationMs = (60 / bpmRba) * 1000;
       const beatsMs: number[] = [];
       for (let t = 0; t < duracionMs; t += beatDurationMs) beatsMs.push(Math.round(t));
@@ -2461,7 +2531,8 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
         downbeatsMs,
         compas: { numerador: inferred.numerador, denominador: inferred.denominador, meter: inferred.meter },
         frasesMs,
-        loudnessPerBeat: []
+        loudnessPerBeat: [],
+        candidatos: rba.candidatos
       };
       tiempos['Ritmo (RBA)'] = Date.now() - t5;
       console.log(`   ✓ BPM (RBA): ${ritmo.bpm}, Compás: ${ritmo.compas.meter}`);
@@ -2495,6 +2566,7 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
   }
 
   const bpmFinal = ritmo.bpm;
+  const bpmRango = { min: bpmFinal * 0.97, max: bpmFinal * 1.03 };
   const compasFinal = { numerador: ritmo.compas.numerador, denominador: ritmo.compas.denominador };
   const beatsFinal = ritmo.beatsMs;
   const downbeatsFinal = ritmo.downbeatsMs;
@@ -2693,6 +2765,30 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
     tiempos['VAD'] = 0;
   }
 
+  // ============================================================================
+  // HUELLA CHROMA (duplicados y versiones)
+  // ============================================================================
+  let huellaChroma: HuellaChroma | null = null;
+  const t11 = Date.now();
+  try {
+    huellaChroma = calcularHuellaChroma(audioData, sampleRate);
+  } catch (error) {
+    console.warn('   ⚠️ No se pudo calcular la huella chroma', error);
+  }
+  tiempos['Huella chroma'] = Date.now() - t11;
+
+  // ============================================================================
+  // FORMA DE ONDA (reproductor)
+  // ============================================================================
+  let formaOnda: FormaOnda | null = null;
+  const t12 = Date.now();
+  try {
+    formaOnda = calcularFormaOnda(audioData, sampleRate);
+  } catch (error) {
+    console.warn('   ⚠️ No se pudo calcular la forma de onda', error);
+  }
+  tiempos['Forma de onda'] = Date.now() - t12;
+
   // ============================================================================
   // RESUMEN DE TIEMPOS
   // ============================================================================
@@ -2707,7 +2803,8 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
 
   return {
     bpm: bpmFinal,
-    bpm_rango: { min: bpmFinal * 0.97, max: bpmFinal * 1.03 },
+    bpm_rango: bpmRango,
+    bpm_candidatos: construirCandidatosTempo(bpmFinal, bpmRango, ritmo.candidatos),
     tonalidad_camelot: camelot,
     tonalidad_compatible: compatibles,
     energia: metricas.energia,
@@ -2724,5 +2821,7 @@ export async function analizarAudioCompleto(buffer: Buffer, config: AnalisisConf
     tonal_avanzado: tonalAvanzado,
     loudness,
     estructura,
+    huella_chroma: huellaChroma,
+    forma_onda: formaOnda,
   };
 }
@@ -0,0 +1,204 @@
+/**
+ * Almacén de audio direccionado por contenido (clave = hash_archivo, el SHA-256 del archivo)
+ * Guarda el archivo original junto a un .meta.json para poder reutilizarlo
+ * (enriquecimiento Gemini, render offline de sesiones, reproducción desde /api/audio/[hash]...)
+ *
+ * El contenido de un hash no cambia nunca: se comprueba el SHA-256 antes de guardar,
+ * un hash ya guardado no se reescribe y los archivos se escriben con rename atómico
+ * (quien lee nunca ve un archivo a medias).
+ * Directorio: AUDIO_STORE_DIR (por defecto ./data/audio); lo guardado en la antigua
+ * caché (.cache/gemini-audio) se sigue leyendo.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { writeFile, mkdir, readFile, rename, stat, unlink } from 'fs/promises';
+import { join, extname, resolve } from 'path';
+
+export const AUDIO_STORE_DIR = process.env.AUDIO_STORE_DIR
+  ? resolve(process.env.AUDIO_STORE_DIR)
+  : join(process.cwd(), 'data', 'audio');
+
+const LEGACY_AUDIO_CACHE_DIR = join(process.cwd(), '.cache', 'gemini-audio');
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+const MIME_EXTENSION_MAP: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/aac': '.aac',
+  'audio/m4a': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/flac': '.flac',
+  'audio/ogg': '.ogg',
+  'audio/aiff': '.aiff',
+  'audio/x-aiff': '.aiff',
+};
+
+const EXTENSION_MIME_MAP: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.aac': 'audio/aac',
+  '.m4a': 'audio/m4a',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.aiff': 'audio/aiff',
+};
+
+export interface CachedAudio {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface StoredAudio {
+  path: string;
+  fileName: string;
+  mimeType: string;
+}
+
+interface CachedAudioMeta {
+  fileName?: string;
+  mimeType?: string;
+  ext?: string;
+}
+
+/**
+ * Un hash_archivo válido (64 hex en minúsculas); también evita rutas fuera del almacén
+ */
+export function esHashAudio(hash: string): boolean {
+  return HASH_PATTERN.test(hash);
+}
+
+// Escribe en un temporal y renombra: el archivo final aparece completo o no aparece
+async function writeFileAtomic(path: string, data: Buffer | string): Promise<void> {
+  const tmpPath = `${path}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tmpPath, data);
+    await rename(tmpPath, path);
+  } catch (error) {
+    await unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+}
+
+function normalizeMime(mime?: string | null): string | undefined {
+  if (!mime) return undefined;
+  const normalized = mime.split(';')[0].trim().toLowerCase();
+  return normalized || undefined;
+}
+
+export function isAudioFileName(fileName: string): boolean {
+  return extname(fileName || '').toLowerCase() in EXTENSION_MIME_MAP;
+}
+
+export function resolveMimeType(fileName: string, explicitMime?: string | null): string {
+  const normalizedExplicit = normalizeMime(explicitMime);
+  if (normalizedExplicit && normalizedExplicit.startsWith('audio/')) {
+    return normalizedExplicit === 'audio/mp3' ? 'audio/mpeg' : normalizedExplicit;
+  }
+
+  const ext = extname(fileName || '').toLowerCase();
+  if (ext && EXTENSION_MIME_MAP[ext]) {
+    return EXTENSION_MIME_MAP[ext];
+  }
+
+  return normalizedExplicit || 'audio/mpeg';
+}
+
+export function inferExtension(mimeType?: string | null): string {
+  if (!mimeType) return '.mp3';
+  const normalized = normalizeMime(mimeType);
+  if (normalized && MIME_EXTENSION_MAP[normalized]) {
+    return MIME_EXTENSION_MAP[normalized];
+  }
+  return '.mp3';
+}
+
+export async function cacheAudioBuffer(params: { hash: string; buffer: Buffer; fileName: string; mimeType: string }): Promise<void> {
+  try {
+    if (!esHashAudio(params.hash)) {
+      throw new Error(`Hash inválido: ${params.hash}`);
+    }
+    const contentHash = createHash('sha256').update(params.buffer).digest('hex');
+    if (contentHash !== params.hash) {
+      throw new Error(`El contenido no coincide con el hash (${params.hash.slice(0, 8)}… ≠ ${contentHash.slice(0, 8)}…)`);
+    }
+
+    // Mismo hash = mismo contenido: no hace falta reescribirlo
+    const existing = await findStoredAudio(params.hash);
+    if (existing?.dir === AUDIO_STORE_DIR) return;
+
+    await mkdir(AUDIO_STORE_DIR, { recursive: true });
+    const ext = extname(params.fileName) || inferExtension(params.mimeType);
+    const normalizedExt = ext.startsWith('.') ? ext.toLowerCase() : `.${ext.toLowerCase()}`;
+    await writeFileAtomic(join(AUDIO_STORE_DIR, `${params.hash}${normalizedExt}`), params.buffer);
+    const metadata = {
+      fileName: params.fileName,
+      mimeType: params.mimeType,
+      ext: normalizedExt,
+      bytes: params.buffer.length,
+      updatedAt: new Date().toISOString(),
+    };
+    // El .meta.json va después: si existe, el audio está completo
+    await writeFileAtomic(join(AUDIO_STORE_DIR, `${params.hash}.meta.json`), JSON.stringify(metadata, null, 2));
+  } catch (error) {
+    console.warn('⚠️  No se pudo guardar el audio en el almacén:', error);
+  }
+}
+
+/**
+ * Busca el audio de un hash en el almacén (y en la antigua caché)
+ */
+async function findStoredAudio(hash: string): Promise<{ dir: string; path: string; meta: CachedAudioMeta } | null> {
+  if (!esHashAudio(hash)) return null;
+
+  for (const dir of [AUDIO_STORE_DIR, LEGACY_AUDIO_CACHE_DIR]) {
+    try {
+      const meta = JSON.parse(await readFile(join(dir, `${hash}.meta.json`), 'utf8')) as CachedAudioMeta;
+      const ext = meta.ext && meta.ext.startsWith('.') ? meta.ext : inferExtension(meta.mimeType);
+      const path = join(dir, `${hash}${ext}`);
+      await stat(path);
+      return { dir, path, meta };
+    } catch {
+      // No está en este directorio
+    }
+  }
+  return null;
+}
+
+/**
+ * Ruta, nombre y tipo del audio guardado (sin leerlo), o null si no existe
+ */
+export async function obtenerAudioAlmacenado(hash: string): Promise<StoredAudio | null> {
+  const stored = await findStoredAudio(hash);
+  if (!stored) return null;
+  const fileName = stored.meta.fileName || `${hash}${extname(stored.path)}`;
+  return {
+    path: stored.path,
+    fileName,
+    mimeType: resolveMimeType(fileName, stored.meta.mimeType),
+  };
+}
+
+/**
+ * Devuelve la ruta en disco del audio cacheado (sin leerlo), o null si no existe
+ */
+export async function obtenerRutaAudioCacheado(hash: string): Promise<string | null> {
+  return (await findStoredAudio(hash))?.path ?? null;
+}
+
+export async function loadCachedAudio(hash: string): Promise<CachedAudio | null> {
+  try {
+    const stored = await obtenerAudioAlmacenado(hash);
+    if (!stored) return null;
+    return {
+      buffer: await readFile(stored.path),
+      fileName: stored.fileName,
+      mimeType: stored.mimeType,
+    };
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * AUDIO DECK - Deck de reproducción sobre Web Audio (solo cliente)
+ *
+ * Sustituye a HTMLAudioElement para poder:
+ * - Programar arranques sample-accurate (AudioBufferSourceNode.start(when, offset))
+ * - Cambiar el tempo con rampas de playbackRate (como el pitch fader de un CDJ)
+ * - Saber la posición exacta en la pista aunque el tempo cambie
+ *
+ * La posición se integra desde un "ancla" (instante del contexto + posición en pista)
+ * teniendo en cuenta la rampa de playbackRate activa.
+ *
+ * Con un loop activo la posición se "enrolla" dentro de [loopStart, loopEnd),
+ * igual que hace AudioBufferSourceNode con loop = true.
+ *
+ * Cadena de cada deck: source → EQ (low/mid/high) → output (gain de crossfade)
+ */
+
+export type EqBand = 'low' | 'mid' | 'high';
+
+// Ganancia de "kill" de una banda (como el botón de kill de un mixer DJ)
+export const EQ_KILL_DB = -40;
+
+// EQ de 3 bandas típica de mixer: shelving en graves/agudos y campana en medios
+const EQ_LOW_HZ = 200;
+const EQ_MID_HZ = 1000;
+const EQ_HIGH_HZ = 4000;
+
+interface RateRamp {
+  from: number;
+  to: number;
+  durationSec: number;
+}
+
+export interface DeckLoop {
+  startSec: number;
+  endSec: number;
+}
+
+export class AudioDeck {
+  readonly output: GainNode;
+  readonly eq: Record<EqBand, BiquadFilterNode>;
+
+  private buffer: AudioBuffer | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private url: string | null = null;
+  private loading: Promise<void> | null = null;
+
+  private playing = false;
+  private anchorCtxTime = 0;
+  private anchorPositionSec = 0;
+  private rate = 1;
+  private ramp: RateRamp | null = null;
+  private loopRegion: DeckLoop | null = null;
+
+  constructor(private readonly ctx: AudioContext, destination: AudioNode) {
+    this.output = ctx.createGain();
+    this.output.connect(destination);
+
+    const low = ctx.createBiquadFilter();
+    low.type = 'lowshelf';
+    low.frequency.value = EQ_LOW_HZ;
+
+    const mid = ctx.createBiquadFilter();
+    mid.type = 'peaking';
+    mid.frequency.value = EQ_MID_HZ;
+    mid.Q.value = 0.7;
+
+    const high = ctx.createBiquadFilter();
+    high.type = 'highshelf';
+    high.frequency.value = EQ_HIGH_HZ;
+
+    low.connect(mid);
+    mid.connect(high);
+    high.connect(this.output);
+    this.eq = { low, mid, high };
+  }
+
+  /** URL cargada (o en carga) en el deck */
+  get src(): string | null {
+    return this.url;
+  }
+
+  get isLoaded(): boolean {
+    return this.buffer !== null && this.loading === null;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get duration(): number {
+    return this.buffer?.duration ?? 0;
+  }
+
+  /** Loop activo (null si el deck avanza linealmente) */
+  get loop(): DeckLoop | null {
+    return this.loopRegion;
+  }
+
+  /** Posición actual en la pista (segundos) */
+  get currentTime(): number {
+    const position = this.linearPosition();
+    const loop = this.loopRegion;
+    if (!loop || position < loop.endSec) return position;
+    return loop.startSec + ((position - loop.startSec) % (loop.endSec - loop.startSec));
+  }
+
+  /** Posición integrada desde el ancla, sin aplicar el loop */
+  private linearPosition(): number {
+    if (!this.playing) return this.anchorPositionSec;
+
+    const dt = this.ctx.currentTime - this.anchorCtxTime;
+    if (dt <= 0) return this.anchorPositionSec; // Arranque programado en el futuro
+
+    const ramp = this.ramp;
+    if (!ramp || ramp.durationSec <= 0) {
+      return this.anchorPositionSec + dt * this.rate;
+    }
+
+    // Integral de una rampa lineal de playbackRate
+    if (dt <= ramp.durationSec) {
+      return this.anchorPositionSec + ramp.from * dt + ((ramp.to - ramp.from) * dt * dt) / (2 * ramp.durationSec);
+    }
+    return this.anchorPositionSec
+      + ((ramp.from + ramp.to) / 2) * ramp.durationSec
+      + ramp.to * (dt - ramp.durationSec);
+  }
+
+  /** playbackRate instantáneo */
+  get playbackRate(): number {
+    const ramp = this.ramp;
+    if (!this.playing || !ramp) return this.rate;
+    const dt = this.ctx.currentTime - this.anchorCtxTime;
+    if (dt <= 0) return ramp.from;
+    if (dt >= ramp.durationSec) return ramp.to;
+    return ramp.from + (ramp.to - ramp.from) * (dt / ramp.durationSec);
+  }
+
+  get ended(): boolean {
+    return this.buffer !== null && this.currentTime >= this.buffer.duration - 0.05;
+  }
+
+  /**
+   * Descarga y decodifica el audio (idempotente para la misma URL)
+   */
+  load(url: string): Promise<void> {
+    if (this.url === url && (this.buffer || this.loading)) {
+      return this.loading ?? Promise.resolve();
+    }
+
+    this.stop();
+    this.url = url;
+    this.buffer = null;
+    this.loopRegion = null;
+    this.anchorPositionSec = 0;
+
+    const loading = fetch(url)
+      .then(response => {
+        // Sin esto un 404/500 acaba en decodeAudioData con un error de formato poco claro
+        if (!response.ok) {
+          throw new Error(`No se pudo cargar el audio (${response.status} ${response.statusText}): ${url}`);
+        }
+        return response.arrayBuffer();
+      })
+      .then(data => this.ctx.decodeAudioData(data))
+      .then(buffer => {
+        // Si entretanto se cargó otra URL, descartamos este buffer
+        if (this.url === url) this.buffer = buffer;
+      })
+      .finally(() => {
+        if (this.loading === loading) this.loading = null;
+      });
+
+    this.loading = loading;
+    return loading;
+  }
+
+  /**
+   * Arranca la reproducción en offsetSec, opcionalmente programada en el reloj del contexto
+   */
+  play(offsetSec: number, when = this.ctx.currentTime): void {
+    if (!this.buffer) return;
+    const rate = this.playbackRate;
+    this.stop();
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = this.buffer;
+    source.playbackRate.value = rate;
+    if (this.loopRegion) {
+      source.loop = true;
+      source.loopStart = this.loopRegion.startSec;
+      source.loopEnd = this.loopRegion.endSec;
+    }
+    source.connect(this.eq.low);
+
+    const offset = Math.max(0, Math.min(offsetSec, this.buffer.duration));
+    const startAt = Math.max(when, this.ctx.currentTime);
+    source.start(startAt, offset);
+
+    this.source = source;
+    this.playing = true;
+    this.rate = rate;
+    this.ramp = null;
+    this.anchorCtxTime = startAt;
+    this.anchorPositionSec = offset;
+  }
+
+  stop(): void {
+    if (!this.source) {
+      this.playing = false;
+      return;
+    }
+
+    const position = this.currentTime;
+    this.rate = this.playbackRate;
+    this.ramp = null;
+
+    try { this.source.stop(); } catch { /* ya parado */ }
+    this.source.disconnect();
+    this.source = null;
+    this.playing = false;
+    this.anchorPositionSec = position;
+  }
+
+  seek(positionSec: number): void {
+    if (this.playing) {
+      this.play(positionSec);
+    } else {
+      this.anchorPositionSec = Math.max(0, positionSec);
+    }
+  }
+
+  /**
+   * Cambia el tempo (playbackRate) con una rampa lineal opcional
+   */
+  setPlaybackRate(rate: number, rampSec = 0): void {
+    if (!this.playing || !this.source) {
+      this.rate = rate;
+      this.ramp = null;
+      return;
+    }
+
+    // Re-anclar en el instante actual para integrar la nueva rampa desde aquí
+    const now = Math.max(this.ctx.currentTime, this.anchorCtxTime);
+    const from = this.playbackRate;
+    this.anchorPositionSec = this.currentTime;
+    this.anchorCtxTime = now;
+
+    const param = this.source.playbackRate;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(from, now);
+
+    if (rampSec > 0) {
+      param.linearRampToValueAtTime(rate, now + rampSec);
+      this.rate = from;
+      this.ramp = { from, to: rate, durationSec: rampSec };
+    } else {
+      param.setValueAtTime(rate, now);
+      this.rate = rate;
+      this.ramp = null;
+    }
+  }
+
+  /**
+   * Activa un loop sample-accurate. Si el playhead aún no ha llegado a loopEnd
+   * sigue avanzando hasta ahí y vuelve a loopStart sin cortes.
+   */
+  setLoop(startSec: number, endSec: number): void {
+    if (endSec <= startSec) return;
+
+    // Re-anclar para que la posición integrada siga siendo válida con el nuevo loop
+    this.reanchor();
+    this.loopRegion = { startSec, endSec };
+
+    if (this.source) {
+      this.source.loopStart = startSec;
+      this.source.loopEnd = endSec;
+      this.source.loop = true;
+    }
+  }
+
+  /**
+   * Sale del loop: la reproducción continúa desde donde esté el playhead
+   */
+  clearLoop(): void {
+    if (!this.loopRegion) return;
+    this.reanchor();
+    this.loopRegion = null;
+    if (this.source) this.source.loop = false;
+  }
+
+  private reanchor(): void {
+    if (!this.playing) return;
+    const now = Math.max(this.ctx.currentTime, this.anchorCtxTime);
+    const rate = this.playbackRate;
+    const ramp = this.ramp;
+    const position = this.currentTime;
+
+    if (ramp) {
+      // La rampa sigue en curso: se reescala para el tramo que queda
+      const elapsed = now - this.anchorCtxTime;
+      const remaining = ramp.durationSec - elapsed;
+      this.ramp = remaining > 0 ? { from: rate, to: ramp.to, durationSec: remaining } : null;
+      this.rate = remaining > 0 ? rate : ramp.to;
+    }
+
+    this.anchorCtxTime = now;
+    this.anchorPositionSec = position;
+  }
+
+  /**
+   * Volumen del deck (0-1), inmediato o programado en el reloj del contexto
+   */
+  setGain(value: number, when = this.ctx.currentTime): void {
+    const param = this.output.gain;
+    param.cancelScheduledValues(when);
+    param.setValueAtTime(Math.min(1, Math.max(0, value)), when);
+  }
+
+  /**
+   * Ganancia de una banda de EQ en dB (0 = plano, EQ_KILL_DB = kill)
+   */
+  setEq(band: EqBand, gainDb: number, when = this.ctx.currentTime): void {
+    const param = this.eq[band].gain;
+    param.cancelScheduledValues(when);
+    param.setValueAtTime(gainDb, when);
+  }
+
+  resetEq(): void {
+    (Object.keys(this.eq) as EqBand[]).forEach(band => this.setEq(band, 0));
+  }
+
+  dispose(): void {
+    this.stop();
+    Object.values(this.eq).forEach(node => node.disconnect());
+    this.output.disconnect();
+    this.buffer = null;
+    this.url = null;
+  }
+}
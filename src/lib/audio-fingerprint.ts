@@ -0,0 +1,317 @@
+/**
+ * Huella de audio (chroma + envolvente de volumen) para detectar duplicados y versiones
+ *
+ * El hash SHA-256 solo reconoce el mismo archivo byte a byte: el mismo tema en MP3
+ * 320 y en FLAC son dos canciones para la BD. La huella resume el audio en
+ * ventanas de 500 ms (12 bandas chroma + volumen, 4 bits cada una) y permite:
+ * - DUPLICATE: misma grabación (otra codificación, clean/explicit, remaster suave)
+ * - VERSION: buena parte del contenido compartido (radio edit vs extended, dub...)
+ *
+ * La comparación trocea la huella más corta en bloques de ~8 s y busca cada bloque
+ * en la otra, así un radio edit con la intro recortada sigue casando con el extended.
+ */
+
+import Meyda from 'meyda';
+import { relacionTempo } from './beatmatch';
+
+export const FINGERPRINT_VERSION = 1;
+
+export interface HuellaChroma {
+  v: number;          // FINGERPRINT_VERSION con la que se calculó
+  ventana_ms: number;
+  // 13 dígitos hex por ventana: 12 bandas chroma (C..B, máx = f) + volumen relativo
+  frames: string;
+  perfil: number[];   // Chroma medio del tema (12 valores 0-1), para prefiltrar
+}
+
+export type RelacionHuella = 'DUPLICATE' | 'VERSION';
+
+export interface ComparacionHuellas {
+  relacion: RelacionHuella | null;
+  similitud: number;   // Similitud media de los bloques que casan (0-1)
+  cobertura: number;   // Fracción del tema más corto encontrada en el otro (0-1)
+}
+
+export interface TrackConHuella {
+  hash_archivo: string;
+  duracion_ms: number;
+  bpm: number | null;
+  huella_chroma?: HuellaChroma | null;
+}
+
+export interface GrupoVersiones {
+  hashes: string[];
+  pares: Array<{ a: string; b: string } & ComparacionHuellas>;
+}
+
+// Extracción
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;        // ~0.37 s a 11025 Hz (potencia de 2 para Meyda)
+const VENTANA_MS = 500;
+const FRAMES_POR_VENTANA = 2;
+const VALORES_POR_VENTANA = 13;
+
+// Comparación
+const BLOQUE_VENTANAS = 16;           // ~8 s
+const MIN_SIMILITUD_BLOQUE = 0.9;     // Coseno chroma medio del bloque
+const MIN_CORRELACION_VOLUMEN = 0.6;  // Pearson de la envolvente del bloque
+const MIN_VOLUMEN_BLOQUE = 2;         // Bloques casi en silencio no cuentan
+const MIN_COBERTURA_VERSION = 0.6;
+const MIN_COBERTURA_DUPLICADO = 0.95;
+const MAX_DIFERENCIA_DURACION_DUPLICADO_MS = 3000;
+const MIN_SIMILITUD_PERFIL = 0.8;     // Prefiltro: chroma medio de ambos temas
+
+/**
+ * Calcula la huella de un audio mono
+ */
+export function calcularHuellaChroma(audioData: Float32Array, sampleRate: number): HuellaChroma {
+  // Diezmado simple (media de bloques): la chroma no necesita más de 5.5 kHz
+  const factor = Math.max(1, Math.round(sampleRate / TARGET_SAMPLE_RATE));
+  const rate = sampleRate / factor;
+  const signal = new Float32Array(Math.floor(audioData.length / factor));
+  for (let i = 0; i < signal.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < factor; k++) sum += audioData[i * factor + k];
+    signal[i] = sum / factor;
+  }
+
+  // Meyda es un singleton: se fija la configuración y se fuerza a rehacer el banco chroma
+  const meyda = Meyda as any;
+  meyda.bufferSize = FRAME_SIZE;
+  meyda.sampleRate = rate;
+  meyda.chromaBands = 12;
+  meyda.chromaFilterBank = undefined;
+
+  const muestrasVentana = Math.round(rate * VENTANA_MS / 1000);
+  const salto = Math.floor(muestrasVentana / FRAMES_POR_VENTANA);
+  const numVentanas = Math.max(0, Math.floor((signal.length - FRAME_SIZE) / muestrasVentana) + 1);
+
+  const chromas: number[][] = [];
+  const volumenes: number[] = [];
+  const perfil = new Array(12).fill(0);
+
+  for (let w = 0; w < numVentanas; w++) {
+    const chroma = new Array(12).fill(0);
+    let energia = 0;
+    for (let f = 0; f < FRAMES_POR_VENTANA; f++) {
+      const inicio = w * muestrasVentana + f * salto;
+      if (inicio + FRAME_SIZE > signal.length) break;
+      const frame = signal.subarray(inicio, inicio + FRAME_SIZE);
+      const c = Meyda.extract('chroma', frame) as unknown as number[] | null;
+      if (c) for (let b = 0; b < 12; b++) chroma[b] += c[b] || 0;
+      for (let i = 0; i < FRAME_SIZE; i += 4) energia += frame[i] * frame[i];
+    }
+    chromas.push(chroma);
+    volumenes.push(Math.sqrt(energia));
+  }
+
+  const maxVolumen = Math.max(1e-9, ...volumenes);
+  let frames = '';
+  for (let w = 0; w < chromas.length; w++) {
+    const chroma = chromas[w];
+    const maxChroma = Math.max(...chroma);
+    for (let b = 0; b < 12; b++) {
+      const valor = maxChroma > 0 ? chroma[b] / maxChroma : 0;
+      perfil[b] += valor;
+      frames += Math.round(valor * 15).toString(16);
+    }
+    frames += Math.round((volumenes[w] / maxVolumen) * 15).toString(16);
+  }
+
+  const maxPerfil = Math.max(1e-9, ...perfil);
+  return {
+    v: FINGERPRINT_VERSION,
+    ventana_ms: VENTANA_MS,
+    frames,
+    perfil: perfil.map(p => Math.round((p / maxPerfil) * 1000) / 1000),
+  };
+}
+
+export function esHuellaValida(huella: unknown): huella is HuellaChroma {
+  if (typeof huella !== 'object' || huella === null) return false;
+  const h = huella as HuellaChroma;
+  return h.v === FINGERPRINT_VERSION && typeof h.frames === 'string' &&
+    h.frames.length % VALORES_POR_VENTANA === 0 && Array.isArray(h.perfil) && h.perfil.length === 12;
+}
+
+interface HuellaDecodificada {
+  chroma: Float32Array[];   // Normalizados (norma 1) para que el coseno sea un producto escalar
+  volumen: Float32Array;
+}
+
+function decodificar(huella: HuellaChroma): HuellaDecodificada {
+  const numVentanas = huella.frames.length / VALORES_POR_VENTANA;
+  const chroma: Float32Array[] = [];
+  const volumen = new Float32Array(numVentanas);
+
+  for (let w = 0; w < numVentanas; w++) {
+    const base = w * VALORES_POR_VENTANA;
+    const vector = new Float32Array(12);
+    let norma = 0;
+    for (let b = 0; b < 12; b++) {
+      vector[b] = parseInt(huella.frames[base + b], 16);
+      norma += vector[b] * vector[b];
+    }
+    norma = Math.sqrt(norma);
+    if (norma > 0) for (let b = 0; b < 12; b++) vector[b] /= norma;
+    chroma.push(vector);
+    volumen[w] = parseInt(huella.frames[base + 12], 16);
+  }
+  return { chroma, volumen };
+}
+
+function coseno(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+function pearson(a: Float32Array, offsetA: number, b: Float32Array, offsetB: number, length: number): number {
+  let sumA = 0, sumB = 0;
+  for (let k = 0; k < length; k++) {
+    sumA += a[offsetA + k];
+    sumB += b[offsetB + k];
+  }
+  const meanA = sumA / length;
+  const meanB = sumB / length;
+  let cov = 0, varA = 0, varB = 0;
+  for (let k = 0; k < length; k++) {
+    const da = a[offsetA + k] - meanA;
+    const db = b[offsetB + k] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  // Envolvente plana en ambos (pad sostenido): no discrimina, se da por buena
+  if (varA < 1e-6 && varB < 1e-6) return 1;
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+/**
+ * Compara dos huellas (simétrico respecto al más corto)
+ */
+export function compararHuellas(
+  a: HuellaChroma,
+  b: HuellaChroma,
+  duracionA?: number,
+  duracionB?: number
+): ComparacionHuellas {
+  const sinRelacion: ComparacionHuellas = { relacion: null, similitud: 0, cobertura: 0 };
+  if (!esHuellaValida(a) || !esHuellaValida(b)) return sinRelacion;
+
+  const da = decodificar(a);
+  const db = decodificar(b);
+  const [corta, larga] = da.chroma.length <= db.chroma.length ? [da, db] : [db, da];
+  const nCorta = corta.chroma.length;
+  const nLarga = larga.chroma.length;
+  if (nCorta < BLOQUE_VENTANAS || nLarga < BLOQUE_VENTANAS) return sinRelacion;
+
+  // Matriz de similitud por ventanas: S[i][j] = coseno(corta[i], larga[j])
+  const S = new Float32Array(nCorta * nLarga);
+  for (let i = 0; i < nCorta; i++) {
+    const ci = corta.chroma[i];
+    for (let j = 0; j < nLarga; j++) {
+      const cj = larga.chroma[j];
+      let dot = 0;
+      for (let k = 0; k < 12; k++) dot += ci[k] * cj[k];
+      S[i * nLarga + j] = dot;
+    }
+  }
+
+  let bloquesValidos = 0;
+  let bloquesCasados = 0;
+  let sumaSimilitud = 0;
+
+  for (let inicio = 0; inicio + BLOQUE_VENTANAS <= nCorta; inicio += BLOQUE_VENTANAS) {
+    let volumenMedio = 0;
+    for (let k = 0; k < BLOQUE_VENTANAS; k++) volumenMedio += corta.volumen[inicio + k];
+    if (volumenMedio / BLOQUE_VENTANAS < MIN_VOLUMEN_BLOQUE) continue;
+    bloquesValidos++;
+
+    let mejor = 0;
+    for (let j = 0; j + BLOQUE_VENTANAS <= nLarga; j++) {
+      let suma = 0;
+      for (let k = 0; k < BLOQUE_VENTANAS; k++) suma += S[(inicio + k) * nLarga + j + k];
+      const similitud = suma / BLOQUE_VENTANAS;
+      if (similitud <= mejor || similitud < MIN_SIMILITUD_BLOQUE) continue;
+      if (pearson(corta.volumen, inicio, larga.volumen, j, BLOQUE_VENTANAS) < MIN_CORRELACION_VOLUMEN) continue;
+      mejor = similitud;
+    }
+
+    if (mejor > 0) {
+      bloquesCasados++;
+      sumaSimilitud += mejor;
+    }
+  }
+
+  if (bloquesValidos === 0) return sinRelacion;
+
+  const cobertura = bloquesCasados / bloquesValidos;
+  const similitud = bloquesCasados > 0 ? sumaSimilitud / bloquesCasados : 0;
+  const duracionParecida = duracionA === undefined || duracionB === undefined ||
+    Math.abs(duracionA - duracionB) <= MAX_DIFERENCIA_DURACION_DUPLICADO_MS;
+
+  let relacion: RelacionHuella | null = null;
+  if (cobertura >= MIN_COBERTURA_DUPLICADO && duracionParecida) relacion = 'DUPLICATE';
+  else if (cobertura >= MIN_COBERTURA_VERSION) relacion = 'VERSION';
+
+  return {
+    relacion,
+    similitud: Math.round(similitud * 1000) / 1000,
+    cobertura: Math.round(cobertura * 1000) / 1000,
+  };
+}
+
+/**
+ * Prefiltro barato: solo se comparan a fondo pares con tempo compatible y chroma media parecida
+ */
+function candidatosAVersion(a: TrackConHuella, b: TrackConHuella): boolean {
+  if (a.bpm && b.bpm && !relacionTempo(a.bpm, b.bpm, 0.03)) return false;
+  return coseno(a.huella_chroma!.perfil, b.huella_chroma!.perfil) >= MIN_SIMILITUD_PERFIL;
+}
+
+/**
+ * Agrupa duplicados y versiones (componentes conexas de los pares relacionados)
+ * Tracks sin huella (analizados antes de existir) se ignoran
+ * @param relaciones Relaciones que unen grupo (solo DUPLICATE = misma grabación)
+ */
+export function agruparVersiones(
+  tracks: TrackConHuella[],
+  relaciones: RelacionHuella[] = ['DUPLICATE', 'VERSION']
+): GrupoVersiones[] {
+  const conHuella = tracks.filter(t => esHuellaValida(t.huella_chroma));
+  const padre = conHuella.map((_, i) => i);
+  const raiz = (i: number): number => (padre[i] === i ? i : (padre[i] = raiz(padre[i])));
+  const pares: Array<{ i: number; j: number; comparacion: ComparacionHuellas }> = [];
+
+  for (let i = 0; i < conHuella.length; i++) {
+    for (let j = i + 1; j < conHuella.length; j++) {
+      const a = conHuella[i];
+      const b = conHuella[j];
+      if (!candidatosAVersion(a, b)) continue;
+      const comparacion = compararHuellas(a.huella_chroma!, b.huella_chroma!, a.duracion_ms, b.duracion_ms);
+      if (!comparacion.relacion || !relaciones.includes(comparacion.relacion)) continue;
+      pares.push({ i, j, comparacion });
+      padre[raiz(i)] = raiz(j);
+    }
+  }
+
+  const grupos = new Map<number, GrupoVersiones>();
+  for (const { i, j, comparacion } of pares) {
+    const r = raiz(i);
+    const grupo = grupos.get(r) ?? { hashes: [], pares: [] };
+    grupo.pares.push({ a: conHuella[i].hash_archivo, b: conHuella[j].hash_archivo, ...comparacion });
+    grupos.set(r, grupo);
+  }
+  for (let i = 0; i < conHuella.length; i++) {
+    grupos.get(raiz(i))?.hashes.push(conHuella[i].hash_archivo);
+  }
+
+  return [...grupos.values()];
+}
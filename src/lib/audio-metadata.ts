@@ -0,0 +1,89 @@
+/**
+ * Lectura de metadatos del archivo (tags ID3, Vorbis, MP4...) en el servidor
+ * Se guardan junto al análisis para buscar y secuenciar por artista, sello, etc.
+ */
+
+import * as musicMetadata from 'music-metadata';
+import type { MetadatosCancion } from './db';
+
+export interface MetadatosArchivo extends MetadatosCancion {
+  titulo: string;
+  duracion_ms: number | null;
+}
+
+// Longitudes de las columnas (isrc es VARCHAR(15))
+const MAX_ISRC = 15;
+const MAX_ETIQUETAS = 50;
+const MAX_ETIQUETA = 64;
+
+function limpiar(valor: string | null | undefined): string | null {
+  const texto = valor?.replace(/\u0000/g, '').trim();
+  return texto ? texto : null;
+}
+
+/**
+ * "Artista - Título.mp3" → { artista, titulo }
+ */
+export function separarNombreArchivo(fileName: string): { artista: string | null; titulo: string } {
+  const nombreSinExt = fileName.replace(/\.[^/.]+$/, '');
+  if (!nombreSinExt.includes(' - ')) return { artista: null, titulo: nombreSinExt };
+
+  const [artista, titulo] = nombreSinExt.split(' - ').map(s => s.trim());
+  return { artista: artista || null, titulo: titulo || nombreSinExt };
+}
+
+/**
+ * ISRC normalizado (CC-XXX-YY-NNNNN → CCXXXYYNNNNN) o null si no es válido
+ */
+export function normalizarIsrc(isrc: string | null | undefined): string | null {
+  const limpio = isrc?.replace(/[-\s]/g, '').toUpperCase();
+  if (!limpio || !/^[A-Z]{2}[A-Z0-9]{3}\d{7}$/.test(limpio)) return null;
+  return limpio.slice(0, MAX_ISRC);
+}
+
+/**
+ * Etiquetas de usuario: recortadas, en minúsculas y sin duplicados
+ */
+export function normalizarEtiquetas(etiquetas: unknown): string[] {
+  if (!Array.isArray(etiquetas)) return [];
+  const unicas = new Set<string>();
+  for (const etiqueta of etiquetas) {
+    if (typeof etiqueta !== 'string') continue;
+    const limpia = etiqueta.trim().toLowerCase().slice(0, MAX_ETIQUETA);
+    if (limpia) unicas.add(limpia);
+  }
+  return [...unicas].slice(0, MAX_ETIQUETAS);
+}
+
+/**
+ * Extrae los metadatos del audio; si el archivo no tiene tags, artista y título
+ * salen del nombre ("Artista - Título")
+ */
+export async function extraerMetadatos(buffer: Buffer, fileName: string, mimeType?: string): Promise<MetadatosArchivo> {
+  const desdeNombre = separarNombreArchivo(fileName);
+
+  let common: musicMetadata.ICommonTagsResult | null = null;
+  let duracionS: number | undefined;
+  try {
+    const metadata = await musicMetadata.parseBuffer(buffer, mimeType ? { mimeType } : undefined, { duration: false, skipCovers: true });
+    common = metadata.common;
+    duracionS = metadata.format.duration;
+  } catch (error) {
+    console.warn(`⚠️ No se pudieron leer los tags de ${fileName}:`, error);
+  }
+
+  const anio = common?.year ?? null;
+
+  return {
+    titulo: limpiar(common?.title) ?? desdeNombre.titulo,
+    duracion_ms: duracionS ? Math.round(duracionS * 1000) : null,
+    artista: limpiar(common?.artist) ?? limpiar(common?.albumartist) ?? desdeNombre.artista,
+    album: limpiar(common?.album),
+    anio: anio && anio > 0 && anio < 10000 ? anio : null,
+    genero: limpiar(common?.genre?.[0]),
+    sello: limpiar(common?.label?.[0]),
+    isrc: normalizarIsrc(common?.isrc?.[0]),
+    comentarios: limpiar(common?.comment?.join('\n')),
+    etiquetas: [],
+  };
+}
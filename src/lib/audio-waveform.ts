@@ -0,0 +1,197 @@
+/**
+ * Forma de onda multirresolución para el reproductor
+ *
+ * Se calcula una vez al analizar (analizarAudioCompleto) y se guarda aparte
+ * (formas_onda) porque pesa más que el resto del análisis. Cada nivel tiene un
+ * punto cada ms_por_punto ms con pico, RMS y RMS por banda (graves < 250 Hz,
+ * medios, agudos > 2.5 kHz) para colorear como los reproductores de DJ.
+ *
+ * Formato compacto: cada serie son bytes 0-255 en base64. El pico se escala al
+ * máximo del tema y los RMS al RMS máximo, así las bandas son comparables entre sí.
+ * decodificarNivel funciona en navegador y servidor (atob).
+ */
+
+export const WAVEFORM_VERSION = 1;
+
+export interface NivelFormaOnda {
+  ms_por_punto: number;
+  puntos: number;
+  pico: string;    // base64, 1 byte por punto
+  rms: string;
+  graves: string;
+  medios: string;
+  agudos: string;
+}
+
+export interface FormaOnda {
+  v: number;               // WAVEFORM_VERSION con la que se calculó
+  duracion_ms: number;
+  niveles: NivelFormaOnda[]; // Del más detallado al más general
+}
+
+export interface NivelFormaOndaDecodificado {
+  ms_por_punto: number;
+  pico: Uint8Array;
+  rms: Uint8Array;
+  graves: Uint8Array;
+  medios: Uint8Array;
+  agudos: Uint8Array;
+}
+
+const MS_POR_PUNTO_BASE = 20;
+const FACTOR_NIVEL = 4;          // 20 ms → 80 ms → 320 ms → 1280 ms
+const NIVELES = 4;
+const CORTE_GRAVES_HZ = 250;
+const CORTE_AGUDOS_HZ = 2500;
+
+// Coeficiente de un paso bajo de un polo para la frecuencia de corte
+function coeficientePasoBajo(corteHz: number, sampleRate: number): number {
+  return 1 - Math.exp((-2 * Math.PI * corteHz) / sampleRate);
+}
+
+function cuantizar(valores: Float64Array, escala: number): Uint8Array {
+  const bytes = new Uint8Array(valores.length);
+  if (escala <= 0) return bytes;
+  for (let i = 0; i < valores.length; i++) {
+    bytes[i] = Math.min(255, Math.round((valores[i] / escala) * 255));
+  }
+  return bytes;
+}
+
+function aBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+}
+
+function desdeBase64(texto: string): Uint8Array {
+  const binario = atob(texto);
+  const bytes = new Uint8Array(binario.length);
+  for (let i = 0; i < binario.length; i++) bytes[i] = binario.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Calcula la forma de onda de un audio mono
+ */
+export function calcularFormaOnda(audioData: Float32Array, sampleRate: number): FormaOnda {
+  const muestrasPorPunto = Math.max(1, Math.round((sampleRate * MS_POR_PUNTO_BASE) / 1000));
+  const puntos = Math.ceil(audioData.length / muestrasPorPunto);
+
+  // Por punto base: pico y sumas de cuadrados (total y por banda) para poder agregar niveles
+  const pico = new Float64Array(puntos);
+  const cuadrados = new Float64Array(puntos);
+  const cuadradosGraves = new Float64Array(puntos);
+  const cuadradosMedios = new Float64Array(puntos);
+  const cuadradosAgudos = new Float64Array(puntos);
+  const muestras = new Float64Array(puntos);
+
+  // Dos pasos bajo de un polo en cascada por corte (12 dB/oct): graves = LP(250),
+  // medios = LP(2500) - LP(250), agudos = señal - LP(2500)
+  const aGraves = coeficientePasoBajo(CORTE_GRAVES_HZ, sampleRate);
+  const aAgudos = coeficientePasoBajo(CORTE_AGUDOS_HZ, sampleRate);
+  let g1 = 0, g2 = 0, m1 = 0, m2 = 0;
+
+  for (let i = 0; i < audioData.length; i++) {
+    const x = audioData[i];
+    g1 += aGraves * (x - g1);
+    g2 += aGraves * (g1 - g2);
+    m1 += aAgudos * (x - m1);
+    m2 += aAgudos * (m1 - m2);
+
+    const p = Math.floor(i / muestrasPorPunto);
+    const abs = Math.abs(x);
+    if (abs > pico[p]) pico[p] = abs;
+    cuadrados[p] += x * x;
+    cuadradosGraves[p] += g2 * g2;
+    cuadradosMedios[p] += (m2 - g2) * (m2 - g2);
+    cuadradosAgudos[p] += (x - m2) * (x - m2);
+    muestras[p]++;
+  }
+
+  const niveles: NivelFormaOnda[] = [];
+  let escalaPico = 0;
+  let escalaRms = 0;
+  const calculados: Array<{ ms: number; pico: Float64Array; rms: Float64Array[] }> = [];
+
+  for (let nivel = 0; nivel < NIVELES; nivel++) {
+    const agrupar = FACTOR_NIVEL ** nivel;
+    const n = Math.ceil(puntos / agrupar);
+    const picoNivel = new Float64Array(n);
+    const rmsNivel = [new Float64Array(n), new Float64Array(n), new Float64Array(n), new Float64Array(n)];
+    const fuentes = [cuadrados, cuadradosGraves, cuadradosMedios, cuadradosAgudos];
+
+    for (let j = 0; j < n; j++) {
+      const desde = j * agrupar;
+      const hasta = Math.min(puntos, desde + agrupar);
+      let total = 0;
+      for (let k = desde; k < hasta; k++) {
+        if (pico[k] > picoNivel[j]) picoNivel[j] = pico[k];
+        total += muestras[k];
+      }
+      fuentes.forEach((fuente, b) => {
+        let suma = 0;
+        for (let k = desde; k < hasta; k++) suma += fuente[k];
+        rmsNivel[b][j] = total > 0 ? Math.sqrt(suma / total) : 0;
+      });
+    }
+
+    if (nivel === 0) {
+      for (let j = 0; j < n; j++) {
+        if (picoNivel[j] > escalaPico) escalaPico = picoNivel[j];
+        if (rmsNivel[0][j] > escalaRms) escalaRms = rmsNivel[0][j];
+      }
+    }
+    calculados.push({ ms: MS_POR_PUNTO_BASE * agrupar, pico: picoNivel, rms: rmsNivel });
+  }
+
+  for (const { ms, pico: picoNivel, rms } of calculados) {
+    const [total, graves, medios, agudos] = rms.map(serie => aBase64(cuantizar(serie, escalaRms)));
+    niveles.push({
+      ms_por_punto: ms,
+      puntos: picoNivel.length,
+      pico: aBase64(cuantizar(picoNivel, escalaPico)),
+      rms: total,
+      graves,
+      medios,
+      agudos,
+    });
+  }
+
+  return {
+    v: WAVEFORM_VERSION,
+    duracion_ms: Math.round((audioData.length / sampleRate) * 1000),
+    niveles,
+  };
+}
+
+/**
+ * Nivel más general con al menos un punto cada msPorPuntoMax ms
+ * (para pintar N píxeles: duracion_ms / N)
+ */
+export function elegirNivel(forma: FormaOnda, msPorPuntoMax: number): NivelFormaOnda {
+  const candidatos = forma.niveles.filter(n => n.ms_por_punto <= msPorPuntoMax);
+  return candidatos.length > 0
+    ? candidatos[candidatos.length - 1]
+    : forma.niveles[0];
+}
+
+export function decodificarNivel(nivel: NivelFormaOnda): NivelFormaOndaDecodificado {
+  return {
+    ms_por_punto: nivel.ms_por_punto,
+    pico: desdeBase64(nivel.pico),
+    rms: desdeBase64(nivel.rms),
+    graves: desdeBase64(nivel.graves),
+    medios: desdeBase64(nivel.medios),
+    agudos: desdeBase64(nivel.agudos),
+  };
+}
+
+export function esFormaOndaValida(valor: unknown): valor is FormaOnda {
+  const forma = valor as FormaOnda | null;
+  return Boolean(
+    forma &&
+    forma.v === WAVEFORM_VERSION &&
+    Array.isArray(forma.niveles) &&
+    forma.niveles.length > 0 &&
+    forma.niveles.every(n => typeof n.pico === 'string' && typeof n.ms_por_punto === 'number')
+  );
+}
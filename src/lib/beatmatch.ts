@@ -0,0 +1,195 @@
+/**
+ * BEATMATCH - Cálculo de tempo y fase para entrar un deck sobre otro
+ *
+ * Dado el estado del deck saliente (posición, BPM efectivo y grid de downbeats)
+ * calcula:
+ * - playbackRate del deck entrante para igualar el BPM del saliente
+ * - cuánto esperar (tiempo real) hasta el próximo downbeat del saliente
+ * - offset del entrante ajustado a uno de sus downbeats
+ * Así el primer downbeat de B cae exactamente sobre un downbeat de A.
+ */
+
+// Rango máximo de pitch permitido (igual que un fader de ±8%)
+export const MAX_PITCH_RANGE = 0.08;
+
+// Tolerancia para buscar el downbeat de B más cercano al punto de entrada planificado
+const ENTRY_SNAP_TOLERANCE_BARS = 1;
+
+export interface BeatmatchInput {
+  outgoingPositionMs: number;
+  outgoingBpm: number | null | undefined;
+  outgoingRate: number;
+  outgoingDownbeatsMs: number[] | null | undefined;
+  incomingBpm: number | null | undefined;
+  incomingStartMs: number;
+  incomingDownbeatsMs: number[] | null | undefined;
+}
+
+export interface BeatmatchResult {
+  incomingRate: number;       // playbackRate a aplicar a B durante la mezcla
+  incomingOffsetMs: number;   // Posición (tiempo de pista de B) desde la que arrancar
+  startDelayMs: number;       // Tiempo real a esperar antes de arrancar B
+  outgoingDownbeatMs: number | null; // Downbeat de A sobre el que cae la entrada
+  tempoMatched: boolean;
+}
+
+// ============================================================================
+// OCTAVAS DE TEMPO (½×, 2×, 3:2)
+// ============================================================================
+
+/**
+ * Cómo se cuentan los beats de B contra los de A
+ * B a 70 BPM entrando sobre A a 140 BPM es DOUBLE: cada beat de B cae sobre uno de cada dos de A
+ */
+export type TempoRelation = 'SAME' | 'DOUBLE' | 'HALF' | 'THREE_TWO' | 'TWO_THREE';
+
+// BPM de B × multiplicador ≈ BPM de A
+export const TEMPO_MULTIPLES: Record<TempoRelation, number> = {
+  SAME: 1,
+  DOUBLE: 2,
+  HALF: 0.5,
+  THREE_TWO: 1.5,
+  TWO_THREE: 2 / 3,
+};
+
+export interface TempoMatch {
+  relation: TempoRelation;
+  multiple: number;
+  ratio: number;       // playbackRate de B para que (BPM de B × multiple) suene al BPM de A
+  diffPercent: number; // (BPM de B × multiple − BPM de A) / BPM de A, positivo si sube
+}
+
+/**
+ * Relación de tempo A → B que menos ajuste de pitch necesita
+ * Devuelve null si ninguna cabe en el rango indicado
+ */
+export function relacionTempo(
+  outgoingBpm: number | null | undefined,
+  incomingBpm: number | null | undefined,
+  maxRange = MAX_PITCH_RANGE
+): TempoMatch | null {
+  if (!outgoingBpm || !incomingBpm) return null;
+
+  let best: TempoMatch | null = null;
+  for (const [relation, multiple] of Object.entries(TEMPO_MULTIPLES) as Array<[TempoRelation, number]>) {
+    const diffPercent = (incomingBpm * multiple - outgoingBpm) / outgoingBpm;
+    if (Math.abs(diffPercent) > maxRange) continue;
+    if (!best || Math.abs(diffPercent) < Math.abs(best.diffPercent)) {
+      best = { relation, multiple, ratio: outgoingBpm / (incomingBpm * multiple), diffPercent };
+    }
+  }
+  return best;
+}
+
+/**
+ * Calcula el ratio de tempo para que B suene al BPM efectivo de A
+ * Tiene en cuenta mitad/doble tempo y 3:2 (70 → 140 BPM no necesita ajuste)
+ * Devuelve 1 si no hay BPM o si el ajuste supera el rango de pitch
+ */
+export function calcularRatioTempo(
+  outgoingBpm: number | null | undefined,
+  outgoingRate: number,
+  incomingBpm: number | null | undefined
+): number {
+  if (!outgoingBpm || !incomingBpm) return 1;
+  return relacionTempo(outgoingBpm * outgoingRate, incomingBpm)?.ratio ?? 1;
+}
+
+/**
+ * Primer downbeat en o después de la posición dada
+ */
+export function siguienteDownbeat(positionMs: number, downbeatsMs: number[] | null | undefined): number | null {
+  if (!downbeatsMs || downbeatsMs.length === 0) return null;
+  for (const db of downbeatsMs) {
+    if (db >= positionMs) return db;
+  }
+  return null;
+}
+
+/**
+ * Downbeat más cercano a un punto (dentro de una tolerancia en ms)
+ */
+export function downbeatMasCercano(targetMs: number, downbeatsMs: number[] | null | undefined, toleranceMs: number): number | null {
+  if (!downbeatsMs || downbeatsMs.length === 0) return null;
+  let closest = downbeatsMs[0];
+  for (const db of downbeatsMs) {
+    if (Math.abs(db - targetMs) < Math.abs(closest - targetMs)) closest = db;
+  }
+  return Math.abs(closest - targetMs) <= toleranceMs ? closest : null;
+}
+
+export function calcularBeatmatch(input: BeatmatchInput): BeatmatchResult {
+  const incomingRate = calcularRatioTempo(input.outgoingBpm, input.outgoingRate, input.incomingBpm);
+  const tempoMatched = !!input.outgoingBpm &&
+    relacionTempo(input.outgoingBpm * input.outgoingRate, input.incomingBpm) !== null;
+
+  // Fase: esperar al próximo downbeat de A
+  const outgoingDownbeatMs = siguienteDownbeat(input.outgoingPositionMs, input.outgoingDownbeatsMs);
+  const startDelayMs = outgoingDownbeatMs !== null
+    ? (outgoingDownbeatMs - input.outgoingPositionMs) / Math.max(0.01, input.outgoingRate)
+    : 0;
+
+  // Entrada de B sobre su propio downbeat
+  const barMs = input.incomingBpm ? (60000 / input.incomingBpm) * 4 : 2000;
+  const snapped = downbeatMasCercano(input.incomingStartMs, input.incomingDownbeatsMs, barMs * ENTRY_SNAP_TOLERANCE_BARS);
+
+  return {
+    incomingRate,
+    incomingOffsetMs: snapped ?? input.incomingStartMs,
+    startDelayMs,
+    outgoingDownbeatMs,
+    tempoMatched,
+  };
+}
+
+// ============================================================================
+// LOOPS SOBRE EL GRID DE DOWNBEATS
+// ============================================================================
+
+export type LoopBars = 1 | 4 | 8;
+
+export interface LoopRegion {
+  startMs: number;
+  endMs: number;
+  bars: LoopBars;
+}
+
+// Un downbeat que acaba de pasar (menos de esto) todavía cuenta como "el siguiente"
+const LOOP_START_TOLERANCE_MS = 30;
+
+export function loopBarsFromType(loopType: '1_BAR' | '4_BAR' | '8_BAR' | 'NONE' | undefined): LoopBars {
+  if (loopType === '1_BAR') return 1;
+  if (loopType === '8_BAR') return 8;
+  return 4;
+}
+
+/**
+ * Construye un loop de N compases que empieza en el siguiente downbeat
+ * El final sale del propio grid (no de bpm * compases) para no acumular deriva;
+ * solo se extrapola con el BPM si el grid se acaba antes.
+ */
+export function construirLoop(
+  positionMs: number,
+  bars: LoopBars,
+  downbeatsMs: number[] | null | undefined,
+  bpm: number | null | undefined
+): LoopRegion | null {
+  const barMs = bpm ? (60000 / bpm) * 4 : null;
+
+  if (!downbeatsMs || downbeatsMs.length === 0) {
+    if (!barMs) return null;
+    return { startMs: positionMs, endMs: positionMs + barMs * bars, bars };
+  }
+
+  const startIndex = downbeatsMs.findIndex(db => db >= positionMs - LOOP_START_TOLERANCE_MS);
+  if (startIndex === -1) return null;
+
+  const startMs = downbeatsMs[startIndex];
+  const endIndex = startIndex + bars;
+  if (endIndex < downbeatsMs.length) {
+    return { startMs, endMs: downbeatsMs[endIndex], bars };
+  }
+
+  if (!barMs) return null;
+  return { startMs, endMs: startMs + barMs * bars, bars };
+}
@@ -0,0 +1,375 @@
+/**
+ * Migraciones del esquema Postgres (src/db/migrations)
+ *
+ * Cada migración es un par NNN_nombre.up.sql / NNN_nombre.down.sql numerado
+ * sin huecos. Las aplicadas se registran en schema_migrations con el checksum
+ * (SHA-256) de su .up.sql: si alguien edita una migración ya aplicada, el
+ * runner se niega a continuar (los cambios van en una migración nueva).
+ *
+ * Cada migración se aplica (o revierte) en una transacción junto con su fila
+ * de schema_migrations: si falla una sentencia no queda a medias, y si dos
+ * procesos migran a la vez el segundo choca con la clave primaria.
+ *
+ * Las migraciones usan IF NOT EXISTS: una base creada con el antiguo
+ * schema.sql se registra al migrar sin perder datos.
+ *
+ * El runner es solo para Postgres (neon / pg). Con SQLite, storage-sqlite.ts
+ * crea al abrir el archivo el esquema que traducirMigracionesSqlite saca de
+ * estas mismas migraciones.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { sql } from './db';
+
+export const DIRECTORIO_MIGRACIONES = join(process.cwd(), 'src', 'db', 'migrations');
+
+const PATRON_ARCHIVO = /^(\d{3})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migracion {
+  version: number;
+  nombre: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface MigracionAplicada {
+  version: number;
+  nombre: string;
+  checksum: string;
+  fecha_aplicada: Date;
+}
+
+export interface EstadoMigraciones {
+  aplicadas: MigracionAplicada[];
+  pendientes: Migracion[];
+  modificadas: Migracion[];     // Aplicadas cuyo .up.sql ya no coincide
+  desconocidas: MigracionAplicada[]; // En schema_migrations pero sin archivo
+}
+
+export class MigracionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigracionError';
+  }
+}
+
+function calcularChecksum(texto: string): string {
+  return createHash('sha256').update(texto).digest('hex');
+}
+
+/**
+ * Lee y valida las migraciones del directorio (ordenadas por versión)
+ */
+export function cargarMigraciones(directorio = DIRECTORIO_MIGRACIONES): Migracion[] {
+  const porVersion = new Map<number, { nombre: string; up?: string; down?: string }>();
+
+  for (const archivo of readdirSync(directorio).sort()) {
+    const partes = PATRON_ARCHIVO.exec(archivo);
+    if (!partes) {
+      if (archivo.endsWith('.sql')) {
+        throw new MigracionError(`Nombre de migración inválido: ${archivo} (usa NNN_nombre.up.sql / .down.sql)`);
+      }
+      continue;
+    }
+
+    const [, numero, nombre, sentido] = partes;
+    const version = Number(numero);
+    const entrada = porVersion.get(version) ?? { nombre };
+    if (entrada.nombre !== nombre) {
+      throw new MigracionError(`Versión ${numero} repetida: ${entrada.nombre} y ${nombre}`);
+    }
+    entrada[sentido as 'up' | 'down'] = readFileSync(join(directorio, archivo), 'utf8');
+    porVersion.set(version, entrada);
+  }
+
+  const migraciones = [...porVersion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { nombre, up, down }]) => {
+      if (up === undefined || down === undefined) {
+        throw new MigracionError(`A la migración ${version} (${nombre}) le falta el archivo .${up === undefined ? 'up' : 'down'}.sql`);
+      }
+      return { version, nombre, up, down, checksum: calcularChecksum(up) };
+    });
+
+  migraciones.forEach((migracion, i) => {
+    if (migracion.version !== i + 1) {
+      throw new MigracionError(`Las migraciones deben ir numeradas sin huecos: se esperaba ${i + 1} y hay ${migracion.version}`);
+    }
+  });
+
+  return migraciones;
+}
+
+/**
+ * Divide un archivo SQL en sentencias (el driver HTTP de Neon ejecuta una por consulta)
+ * Respeta comentarios, cadenas '...', identificadores "..." y bloques $$...$$
+ */
+export function dividirSentencias(texto: string): string[] {
+  const sentencias: string[] = [];
+  let actual = '';
+  let i = 0;
+
+  while (i < texto.length) {
+    const c = texto[i];
+
+    if (c === '-' && texto[i + 1] === '-') {
+      const fin = texto.indexOf('\n', i);
+      i = fin === -1 ? texto.length : fin;
+      continue;
+    }
+    if (c === '/' && texto[i + 1] === '*') {
+      const fin = texto.indexOf('*/', i + 2);
+      i = fin === -1 ? texto.length : fin + 2;
+      continue;
+    }
+    if (c === "'" || c === '"') {
+      let fin = i + 1;
+      // '' dentro de una cadena es una comilla escapada
+      while (fin < texto.length && !(texto[fin] === c && texto[fin + 1] !== c)) fin += texto[fin] === c ? 2 : 1;
+      actual += texto.slice(i, fin + 1);
+      i = fin + 1;
+      continue;
+    }
+    if (c === '$') {
+      const etiqueta = /^\$[A-Za-z_]*\$/.exec(texto.slice(i))?.[0];
+      if (etiqueta) {
+        const fin = texto.indexOf(etiqueta, i + etiqueta.length);
+        const hasta = fin === -1 ? texto.length : fin + etiqueta.length;
+        actual += texto.slice(i, hasta);
+        i = hasta;
+        continue;
+      }
+    }
+    if (c === ';') {
+      if (actual.trim()) sentencias.push(actual.trim());
+      actual = '';
+      i++;
+      continue;
+    }
+
+    actual += c;
+    i++;
+  }
+
+  if (actual.trim()) sentencias.push(actual.trim());
+  return sentencias;
+}
+
+// ===================================================================
+// ESQUEMA SQLITE
+// ===================================================================
+
+export interface TablaSqlite {
+  nombre: string;
+  columnas: Map<string, string>; // Nombre → definición (tipo, DEFAULT, CHECK, REFERENCES...)
+  restricciones: string[];       // PRIMARY KEY (...), UNIQUE (...), CONSTRAINT ...
+}
+
+export interface EsquemaSqlite {
+  tablas: TablaSqlite[];
+  indices: string[];
+}
+
+// Tipos de Postgres → SQLite: JSONB es TEXT con JSON y las fechas TEXT ISO-8601
+const TIPOS_SQLITE: Array<[RegExp, string]> = [
+  [/\s+DEFAULT gen_random_uuid\(\)/gi, ''], // El id lo genera el almacén
+  [/\bDEFAULT NOW\(\)/gi, "DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))"],
+  [/\bUUID\b/g, 'TEXT'],
+  [/\bVARCHAR\(\d+\)/gi, 'TEXT'],
+  [/\bJSONB\b/gi, 'TEXT'],
+  [/\bTIMESTAMPTZ\b/gi, 'TEXT'],
+  [/\bFLOAT\b/gi, 'REAL'],
+  [/\bBIGINT\b/gi, 'INTEGER'],
+  [/\bBOOLEAN\b/gi, 'INTEGER'],
+];
+
+const traducirTipos = (definicion: string) =>
+  TIPOS_SQLITE.reduce((texto, [patron, reemplazo]) => texto.replace(patron, reemplazo), definicion);
+
+// Separa por comas de primer nivel (fuera de paréntesis y cadenas)
+function dividirDefiniciones(cuerpo: string): string[] {
+  const partes: string[] = [];
+  let profundidad = 0;
+  let cadena = false;
+  let actual = '';
+  for (const c of cuerpo) {
+    if (c === "'") cadena = !cadena;
+    if (!cadena && c === '(') profundidad++;
+    if (!cadena && c === ')') profundidad--;
+    if (!cadena && profundidad === 0 && c === ',') {
+      partes.push(actual.trim());
+      actual = '';
+      continue;
+    }
+    actual += c;
+  }
+  if (actual.trim()) partes.push(actual.trim());
+  return partes;
+}
+
+/**
+ * Esquema SQLite equivalente al de las migraciones
+ * Los ADD COLUMN se pliegan en su CREATE TABLE y los índices GIN se omiten;
+ * una sentencia sin equivalente es un error (hay que enseñar a traducirla aquí)
+ */
+export function traducirMigracionesSqlite(migraciones = cargarMigraciones()): EsquemaSqlite {
+  const tablas = new Map<string, TablaSqlite>();
+  const indices: string[] = [];
+
+  for (const migracion of migraciones) {
+    for (const sentencia of dividirSentencias(migracion.up)) {
+      const texto = sentencia.replace(/\s+/g, ' ');
+
+      const tabla = /^CREATE TABLE IF NOT EXISTS (\w+) \((.*)\)$/i.exec(texto);
+      if (tabla) {
+        const nueva: TablaSqlite = { nombre: tabla[1], columnas: new Map(), restricciones: [] };
+        for (const definicion of dividirDefiniciones(tabla[2])) {
+          if (/^(CONSTRAINT|PRIMARY KEY|UNIQUE|CHECK|FOREIGN KEY)\b/i.test(definicion)) {
+            nueva.restricciones.push(traducirTipos(definicion));
+          } else {
+            const [, columna, resto] = /^(\w+)\s+(.*)$/.exec(definicion)!;
+            nueva.columnas.set(columna, traducirTipos(resto));
+          }
+        }
+        tablas.set(nueva.nombre, nueva);
+        continue;
+      }
+
+      const columna = /^ALTER TABLE (\w+) ADD COLUMN IF NOT EXISTS (\w+) (.*)$/i.exec(texto);
+      if (columna && tablas.has(columna[1])) {
+        const { columnas } = tablas.get(columna[1])!;
+        if (!columnas.has(columna[2])) columnas.set(columna[2], traducirTipos(columna[3]));
+        continue;
+      }
+
+      if (/^CREATE (UNIQUE )?INDEX IF NOT EXISTS /i.test(texto)) {
+        if (!/\bUSING GIN\b/i.test(texto)) indices.push(texto);
+        continue;
+      }
+
+      throw new MigracionError(
+        `La migración ${migracion.version} (${migracion.nombre}) no tiene traducción a SQLite: ${texto.slice(0, 80)}`
+      );
+    }
+  }
+
+  return { tablas: [...tablas.values()], indices };
+}
+
+export function crearTablaSqlite(tabla: TablaSqlite): string {
+  const definiciones = [
+    ...[...tabla.columnas].map(([columna, definicion]) => `${columna} ${definicion}`),
+    ...tabla.restricciones,
+  ];
+  return `CREATE TABLE IF NOT EXISTS ${tabla.nombre} (\n  ${definiciones.join(',\n  ')}\n)`;
+}
+
+async function asegurarTablaMigraciones(): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      nombre TEXT NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      fecha_aplicada TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+}
+
+/**
+ * Compara las migraciones del directorio con las registradas en schema_migrations
+ */
+export async function estadoMigraciones(migraciones = cargarMigraciones()): Promise<EstadoMigraciones> {
+  if (!sql) throw new Error('SQL client no disponible (las migraciones son solo para Postgres)');
+
+  await asegurarTablaMigraciones();
+  const aplicadas = await sql`
+    SELECT version, nombre, checksum, fecha_aplicada
+    FROM schema_migrations
+    ORDER BY version
+  ` as MigracionAplicada[];
+
+  const porVersion = new Map(aplicadas.map(fila => [fila.version, fila]));
+  const enDirectorio = new Set(migraciones.map(m => m.version));
+
+  return {
+    aplicadas,
+    pendientes: migraciones.filter(m => !porVersion.has(m.version)),
+    modificadas: migraciones.filter(m => {
+      const aplicada = porVersion.get(m.version);
+      return aplicada !== undefined && aplicada.checksum !== m.checksum;
+    }),
+    desconocidas: aplicadas.filter(fila => !enDirectorio.has(fila.version)),
+  };
+}
+
+function comprobarIntegridad(estado: EstadoMigraciones): void {
+  if (estado.modificadas.length > 0) {
+    const lista = estado.modificadas.map(m => `${m.version} (${m.nombre})`).join(', ');
+    throw new MigracionError(`Migraciones ya aplicadas modificadas después: ${lista}. Crea una migración nueva en vez de editar las antiguas`);
+  }
+  if (estado.desconocidas.length > 0) {
+    const lista = estado.desconocidas.map(m => `${m.version} (${m.nombre})`).join(', ');
+    throw new MigracionError(`La base de datos tiene migraciones que no existen en el código: ${lista}`);
+  }
+}
+
+/**
+ * Aplica las migraciones pendientes hasta `objetivo` (por defecto, la última)
+ * Devuelve las aplicadas en esta llamada
+ */
+export async function migrarHasta(objetivo?: number, migraciones = cargarMigraciones()): Promise<Migracion[]> {
+  const estado = await estadoMigraciones(migraciones);
+  comprobarIntegridad(estado);
+
+  const ultima = migraciones.length > 0 ? migraciones[migraciones.length - 1].version : 0;
+  const hasta = objetivo ?? ultima;
+  if (!Number.isInteger(hasta) || hasta < 0 || hasta > ultima) {
+    throw new MigracionError(`Versión objetivo inválida: ${objetivo} (la última es ${ultima})`);
+  }
+
+  const aplicadas: Migracion[] = [];
+  for (const migracion of estado.pendientes.filter(m => m.version <= hasta)) {
+    console.log(`⬆️  ${String(migracion.version).padStart(3, '0')} ${migracion.nombre}`);
+    await sql.transaction([
+      ...dividirSentencias(migracion.up).map(sentencia => sql.query(sentencia)),
+      sql`
+        INSERT INTO schema_migrations (version, nombre, checksum)
+        VALUES (${migracion.version}, ${migracion.nombre}, ${migracion.checksum})
+      `,
+    ]);
+    aplicadas.push(migracion);
+  }
+
+  return aplicadas;
+}
+
+/**
+ * Revierte las migraciones aplicadas por encima de `objetivo` (0 = todas), de la última a la primera
+ * Devuelve las revertidas en esta llamada
+ */
+export async function revertirHasta(objetivo: number, migraciones = cargarMigraciones()): Promise<Migracion[]> {
+  if (!Number.isInteger(objetivo) || objetivo < 0) {
+    throw new MigracionError(`Versión objetivo inválida: ${objetivo}`);
+  }
+
+  const estado = await estadoMigraciones(migraciones);
+  comprobarIntegridad(estado);
+
+  const aplicadas = new Set(estado.aplicadas.map(fila => fila.version));
+  const aRevertir = migraciones
+    .filter(m => m.version > objetivo && aplicadas.has(m.version))
+    .reverse();
+
+  for (const migracion of aRevertir) {
+    console.log(`⬇️  ${String(migracion.version).padStart(3, '0')} ${migracion.nombre}`);
+    await sql.transaction([
+      ...dividirSentencias(migracion.down).map(sentencia => sql.query(sentencia)),
+      sql`DELETE FROM schema_migrations WHERE version = ${migracion.version}`,
+    ]);
+  }
+
+  return aRevertir;
+}
@@ -1,4 +1,4 @@
-import type { CancionAnalizada, TimelineSegment } from './db';
+import type { BloqueosAnalisis, BpmCandidato, CancionAnalizada, TimelineSegment } from './db';
 import { derivarVocalesDeTimeline, derivarEstructuraDeTimeline, derivarHuecosDeTimeline } from './db';
 
 function parseJson<T>(value: any, defaultValue: T): T {
@@ -24,11 +24,15 @@ export function normalizeCancionFromDB(row: any): CancionAnalizada {
   
   return {
     ...row,
+    bpm_candidatos: parseJson(row.bpm_candidatos, [] as BpmCandidato[]),
+    etiquetas: parseJson(row.etiquetas, [] as string[]),
+    bloqueos: parseJson(row.bloqueos, {} as BloqueosAnalisis),
     tonalidad_compatible: parseJson(row.tonalidad_compatible, [] as string[]),
     compas: parseJson(row.compas, { numerador: 4, denominador: 4 }),
     beats_ts_ms: parseJson(row.beats_ts_ms, [] as number[]),
     downbeats_ts_ms: parseJson(row.downbeats_ts_ms, [] as number[]),
     frases_ts_ms: parseJson(row.frases_ts_ms, [] as number[]),
+    huella_chroma: parseJson(row.huella_chroma, null),
     // Datos Gemini (solo 2 campos en BD)
     timeline: timeline,
     loops_transicion: parseJson(row.loops_transicion, []),
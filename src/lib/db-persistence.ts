@@ -1,20 +1,18 @@
-import { sql, enriquecerCancionConDatosDerivados } from './db';
-import { AnalisisCompleto } from './audio-analyzer-unified';
-import type { CancionAnalizada, LoopTransicion, TimelineSegment } from './db';
+import {
+  obtenerAlmacen,
+  type CambiosMetadatos,
+  type ParamsDatosGemini,
+  type ParamsGuardarAnalisis
+} from './storage';
+import type { CancionAnalizada } from './db';
+import type { ResultadoCorreccion } from './analysis-corrections';
+import { esFormaOndaValida, WAVEFORM_VERSION, type FormaOnda } from './audio-waveform';
 
 /**
  * Verifica si una canción ya existe en la base de datos por su hash
  */
 export async function existeCancionPorHash(hash: string): Promise<boolean> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const resultado = await sql`
-    SELECT 1 FROM canciones_analizadas 
-    WHERE hash_archivo = ${hash} 
-    LIMIT 1
-  `;
-
-  return resultado.length > 0;
+  return (await obtenerAlmacen()).existeCancionPorHash(hash);
 }
 
 /**
@@ -22,111 +20,80 @@ export async function existeCancionPorHash(hash: string): Promise<boolean> {
  * NOTA: Enriquece automáticamente con datos derivados del timeline
  */
 export async function obtenerCancionPorHash(hash: string): Promise<CancionAnalizada | null> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const resultado = await sql`
-    SELECT * FROM canciones_analizadas 
-    WHERE hash_archivo = ${hash} 
-    LIMIT 1
-  `;
+  return (await obtenerAlmacen()).obtenerCancionPorHash(hash);
+}
 
-  if (resultado.length === 0) return null;
-  
-  // Enriquecer con datos derivados del timeline para compatibilidad
-  return enriquecerCancionConDatosDerivados(resultado[0] as CancionAnalizada);
+/**
+ * Canciones de una lista de hashes (los que no existen se omiten, sin orden)
+ */
+export async function obtenerCancionesPorHashes(hashes: string[]): Promise<CancionAnalizada[]> {
+  return (await obtenerAlmacen()).obtenerCancionesPorHashes(hashes);
 }
 
 /**
  * Guarda el análisis completo en la base de datos
  * SIMPLIFICADO: Solo guarda timeline y loops_transicion de Gemini
+ *
+ * El análisis queda también como versión (versiones_analisis). Sin versionId se
+ * crea una y se activa; con versionId (job de la cola) solo se activa si la
+ * canción aún no existe: un re-análisis no pisa la versión activa
+ * (con SQLite no hay versiones: cada análisis reemplaza al anterior)
+ *
+ * Los campos corregidos a mano (bloqueos) conservan el valor del usuario
+ * La forma de onda se guarda siempre (depende del audio, no de la versión)
  */
-export async function guardarAnalisisEnDB(params: {
-  hash: string;
-  titulo: string;
-  artista?: string; // Opcional, ya no se usa en el esquema optimizado
-  analisis: AnalisisCompleto;
-  gemini?: {
-    timeline?: TimelineSegment[];
-    loops_transicion?: LoopTransicion[];
-  };
-}): Promise<string> {
-  if (!sql) throw new Error('SQL client no disponible');
-
-  const { hash, titulo, analisis, gemini } = params;
-
-  // ===================================================================
-  // SERIALIZAR CAMPOS BÁSICOS - ESQUEMA OPTIMIZADO
-  // ===================================================================
-  const tonalidad_compatible = JSON.stringify(analisis.tonalidad_compatible || []);
-  const compas = JSON.stringify(analisis.compas || { numerador: 4, denominador: 4 });
-  const beats_ts_ms = JSON.stringify(analisis.beats_ts_ms || []);
-  const downbeats_ts_ms = JSON.stringify(analisis.downbeats_ts_ms || []);
-  const frases_ts_ms = JSON.stringify(analisis.frases_ts_ms || []);
-
-  // ===================================================================
-  // SERIALIZAR GEMINI (SIMPLIFICADO - SOLO TIMELINE Y LOOPS)
-  // ===================================================================
-  const timeline = gemini?.timeline ? JSON.stringify(gemini.timeline) : JSON.stringify([]);
-  const loops_transicion = gemini?.loops_transicion ? JSON.stringify(gemini.loops_transicion) : JSON.stringify([]);
+export async function guardarAnalisisEnDB(params: ParamsGuardarAnalisis): Promise<string> {
+  return (await obtenerAlmacen()).guardarAnalisis(params);
+}
 
-  const resultado = await sql`
-    INSERT INTO canciones_analizadas (
-      hash_archivo, titulo, duracion_ms,
-      bpm, tonalidad_camelot, tonalidad_compatible,
-      bailabilidad, compas,
-      beats_ts_ms, downbeats_ts_ms, frases_ts_ms,
-      timeline, loops_transicion,
-      fecha_procesado
-    ) VALUES (
-      ${hash}, ${titulo}, ${analisis.duracion_ms},
-      ${analisis.bpm}, ${analisis.tonalidad_camelot}, ${tonalidad_compatible}::jsonb,
-      ${analisis.bailabilidad}, ${compas}::jsonb,
-      ${beats_ts_ms}::jsonb, ${downbeats_ts_ms}::jsonb, ${frases_ts_ms}::jsonb,
-      ${timeline}::jsonb, ${loops_transicion}::jsonb,
-      NOW()
-    )
-    ON CONFLICT (hash_archivo) 
-    DO UPDATE SET
-      titulo = EXCLUDED.titulo,
-      duracion_ms = EXCLUDED.duracion_ms,
-      bpm = EXCLUDED.bpm,
-      tonalidad_camelot = EXCLUDED.tonalidad_camelot,
-      tonalidad_compatible = EXCLUDED.tonalidad_compatible,
-      bailabilidad = EXCLUDED.bailabilidad,
-      compas = EXCLUDED.compas,
-      beats_ts_ms = EXCLUDED.beats_ts_ms,
-      downbeats_ts_ms = EXCLUDED.downbeats_ts_ms,
-      frases_ts_ms = EXCLUDED.frases_ts_ms,
-      timeline = COALESCE(EXCLUDED.timeline, canciones_analizadas.timeline),
-      loops_transicion = COALESCE(EXCLUDED.loops_transicion, canciones_analizadas.loops_transicion),
-      fecha_procesado = NOW()
-    RETURNING id
-  `;
+/**
+ * Guarda la forma de onda de una canción (formas_onda); null no borra la anterior
+ */
+export async function guardarFormaOnda(hash: string, forma: FormaOnda | null): Promise<void> {
+  if (!forma) return;
+  await (await obtenerAlmacen()).guardarFormaOnda(hash, forma);
+}
 
-  return resultado[0].id;
+/**
+ * Forma de onda de una canción, o null si no hay o es de una versión anterior
+ */
+export async function obtenerFormaOnda(hash: string): Promise<FormaOnda | null> {
+  const datos = await (await obtenerAlmacen()).obtenerFormaOnda(hash, WAVEFORM_VERSION);
+  return esFormaOndaValida(datos) ? datos : null;
 }
 
 /**
  * Actualiza datos de Gemini para una canción existente
  * SIMPLIFICADO: Solo actualiza timeline y loops_transicion
+ *
+ * Con versionId se completa esa versión; si no es la activa, canciones_analizadas
+ * no cambia salvo que la versión se pidiera activar al completarse
+ * Un timeline bloqueado (corregido a mano) no se sobrescribe
  */
-export async function actualizarDatosGemini(params: {
-  hash: string;
-  timeline?: TimelineSegment[];
-  loops_transicion?: LoopTransicion[];
-}): Promise<void> {
-  if (!sql) throw new Error('SQL client no disponible');
+export async function actualizarDatosGemini(params: ParamsDatosGemini): Promise<void> {
+  await (await obtenerAlmacen()).actualizarDatosGemini(params);
+}
 
-  const { hash, timeline, loops_transicion } = params;
+/**
+ * Guarda una corrección manual (ver analysis-corrections.ts): solo las columnas
+ * presentes en el resultado, más los bloqueos
+ */
+export async function guardarCorrecciones(hash: string, correccion: ResultadoCorreccion): Promise<boolean> {
+  return (await obtenerAlmacen()).guardarCorrecciones(hash, correccion);
+}
 
-  const timeline_json = timeline ? JSON.stringify(timeline) : null;
-  const loops_transicion_json = loops_transicion ? JSON.stringify(loops_transicion) : null;
+/**
+ * Edita metadatos y etiquetas de una canción (solo los campos presentes en cambios;
+ * null borra el valor). Devuelve false si el hash no existe
+ */
+export async function actualizarMetadatos(hash: string, cambios: CambiosMetadatos): Promise<boolean> {
+  return (await obtenerAlmacen()).actualizarMetadatos(hash, cambios);
+}
 
-  await sql`
-    UPDATE canciones_analizadas 
-    SET 
-      timeline = COALESCE(${timeline_json}::jsonb, timeline),
-      loops_transicion = COALESCE(${loops_transicion_json}::jsonb, loops_transicion)
-    WHERE hash_archivo = ${hash}
-  `;
+/**
+ * Canciones con lo necesario para agrupar versiones por huella chroma
+ * (sin hashes: toda la biblioteca)
+ */
+export async function obtenerCancionesConHuella(hashes?: string[]): Promise<CancionAnalizada[]> {
+  return (await obtenerAlmacen()).obtenerCancionesConHuella(hashes ?? null);
 }
@@ -0,0 +1,65 @@
+/**
+ * Cliente node-postgres con la misma forma que neon(): sql`...`, sql.query(texto, params)
+ * y sql.transaction([sql`...`, ...])
+ *
+ * Para un Postgres local (portátil sin internet, Docker...): el driver HTTP de Neon
+ * solo habla con Neon. Las consultas son perezosas como en Neon: sql`...` y
+ * sql.query() no se ejecutan hasta el await, así transaction() puede
+ * ejecutarlas en su conexión.
+ */
+
+import { Pool, type PoolClient } from 'pg';
+
+type Fila = Record<string, any>;
+
+class ConsultaPg implements PromiseLike<Fila[]> {
+  constructor(
+    private readonly pool: Pool,
+    readonly texto: string,
+    readonly params: unknown[]
+  ) {}
+
+  async ejecutar(cliente: Pool | PoolClient = this.pool): Promise<Fila[]> {
+    const resultado = await cliente.query(this.texto, this.params);
+    return resultado.rows;
+  }
+
+  then<A = Fila[], B = never>(
+    onfulfilled?: ((filas: Fila[]) => A | PromiseLike<A>) | null,
+    onrejected?: ((error: any) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.ejecutar().then(onfulfilled, onrejected);
+  }
+}
+
+export function crearClientePg(connectionString: string) {
+  const pool = new Pool({
+    connectionString,
+    max: Number(process.env.PG_POOL_MAX) || 10,
+  });
+  pool.on('error', error => console.error('⚠️ Error en una conexión inactiva de Postgres:', error));
+
+  // Los ${} del template pasan a $1, $2... (parámetros, nunca texto interpolado)
+  const sql = (strings: TemplateStringsArray, ...valores: unknown[]) =>
+    new ConsultaPg(pool, strings.reduce((texto, parte, i) => `${texto}$${i}${parte}`), valores);
+
+  sql.query = (texto: string, params: unknown[] = []) => new ConsultaPg(pool, texto, params);
+
+  sql.transaction = async (consultas: ConsultaPg[]): Promise<Fila[][]> => {
+    const cliente = await pool.connect();
+    try {
+      await cliente.query('BEGIN');
+      const resultados: Fila[][] = [];
+      for (const consulta of consultas) resultados.push(await consulta.ejecutar(cliente));
+      await cliente.query('COMMIT');
+      return resultados;
+    } catch (error) {
+      await cliente.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      cliente.release();
+    }
+  };
+
+  return sql;
+}
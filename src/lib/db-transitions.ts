@@ -0,0 +1,177 @@
+/**
+ * Persistencia de transiciones calculadas (tabla transiciones_calculadas)
+ *
+ * calculateTransitionScore se ejecuta una vez por par (A → B) y versión de
+ * algoritmo; el resultado se reutiliza mientras ninguno de los dos tracks
+ * se re-analice (fecha_procesado distinta = fila obsoleta).
+ */
+
+import { PostgresRequeridoError, sql } from './db';
+import type { CancionAnalizada } from './db';
+import type { MixPlanEntry } from './mix-planner';
+import { calculateTransitionScore } from './mix-sequencer';
+import { clavePar, type PairScore } from './mix-transition-matrix';
+import type { TransitionResult } from './mix-transitions';
+
+// Subir cuando cambie la lógica de buildMixPlan / findBestTransition / calculateTransitionScore
+export const TRANSITION_ALGORITHM_VERSION = 2;
+
+// Filas por INSERT (los pares crecen con N², 300 tracks ≈ 90k pares)
+const INSERT_BATCH_SIZE = 1000;
+
+function mismoInstante(a: unknown, b: unknown): boolean {
+  if (!a || !b) return false;
+  return new Date(a as string | Date).getTime() === new Date(b as string | Date).getTime();
+}
+
+/**
+ * Carga los pares válidos entre los tracks dados (indexados por clavePar)
+ */
+export async function cargarTransicionesCacheadas(tracks: CancionAnalizada[]): Promise<Map<string, PairScore>> {
+  if (!sql) throw new PostgresRequeridoError('Caché de transiciones');
+
+  const byHash = new Map(tracks.map(t => [t.hash_archivo, t]));
+  const hashes = [...byHash.keys()];
+  const pairs = new Map<string, PairScore>();
+  if (hashes.length < 2) return pairs;
+
+  const rows = await sql`
+    SELECT hash_a, hash_b, fecha_procesado_a, fecha_procesado_b, score, transicion
+    FROM transiciones_calculadas
+    WHERE version_algoritmo = ${TRANSITION_ALGORITHM_VERSION}
+      AND hash_a = ANY(${hashes})
+      AND hash_b = ANY(${hashes})
+  `;
+
+  for (const row of rows) {
+    const trackA = byHash.get(row.hash_a);
+    const trackB = byHash.get(row.hash_b);
+    if (!trackA || !trackB) continue;
+
+    // Invalidación: algún track se re-analizó después de calcular el par
+    if (!mismoInstante(row.fecha_procesado_a, trackA.fecha_procesado)) continue;
+    if (!mismoInstante(row.fecha_procesado_b, trackB.fecha_procesado)) continue;
+
+    const transition = typeof row.transicion === 'string'
+      ? JSON.parse(row.transicion) as TransitionResult
+      : row.transicion as TransitionResult | null;
+
+    pairs.set(clavePar(trackA, trackB), { score: Number(row.score), transition });
+  }
+
+  return pairs;
+}
+
+/**
+ * Guarda (o reemplaza) pares calculados
+ *
+ * fecha_procesado_a/b se copian de canciones_analizadas (con microsegundos), no de
+ * la fecha JS (solo milisegundos), para que limpiarTransicionesObsoletas las pueda
+ * comparar tal cual. Un track re-analizado mientras se calculaba no se guarda
+ */
+export async function guardarTransicionesCacheadas(
+  entries: Array<{ trackA: CancionAnalizada; trackB: CancionAnalizada; pair: PairScore }>
+): Promise<void> {
+  if (!sql) throw new PostgresRequeridoError('Caché de transiciones');
+
+  for (let offset = 0; offset < entries.length; offset += INSERT_BATCH_SIZE) {
+    const batch = entries.slice(offset, offset + INSERT_BATCH_SIZE);
+
+    await sql`
+      INSERT INTO transiciones_calculadas (
+        hash_a, hash_b, version_algoritmo, fecha_procesado_a, fecha_procesado_b, score, transicion
+      )
+      SELECT a, b, ${TRANSITION_ALGORITHM_VERSION}, ca.fecha_procesado, cb.fecha_procesado, s, t
+      FROM UNNEST(
+        ${batch.map(e => e.trackA.hash_archivo)}::text[],
+        ${batch.map(e => e.trackB.hash_archivo)}::text[],
+        ${batch.map(e => new Date(e.trackA.fecha_procesado).toISOString())}::timestamptz[],
+        ${batch.map(e => new Date(e.trackB.fecha_procesado).toISOString())}::timestamptz[],
+        ${batch.map(e => e.pair.score)}::float8[],
+        ${batch.map(e => e.pair.transition ? JSON.stringify(e.pair.transition) : null)}::jsonb[]
+      ) AS nuevos(a, b, fa, fb, s, t)
+      JOIN canciones_analizadas ca
+        ON ca.hash_archivo = nuevos.a AND date_trunc('milliseconds', ca.fecha_procesado) = nuevos.fa
+      JOIN canciones_analizadas cb
+        ON cb.hash_archivo = nuevos.b AND date_trunc('milliseconds', cb.fecha_procesado) = nuevos.fb
+      ON CONFLICT (hash_a, hash_b, version_algoritmo) DO UPDATE SET
+        fecha_procesado_a = EXCLUDED.fecha_procesado_a,
+        fecha_procesado_b = EXCLUDED.fecha_procesado_b,
+        score = EXCLUDED.score,
+        transicion = EXCLUDED.transicion,
+        fecha_calculo = NOW()
+    `;
+  }
+}
+
+/**
+ * Devuelve todos los pares del crate: lee los persistidos, calcula y persiste los que faltan
+ * El resultado se pasa a findOptimalSequence (options.pairScores)
+ */
+export async function prepararTransiciones(
+  tracks: CancionAnalizada[],
+  mixPlans: Map<string, MixPlanEntry>
+): Promise<{ pairScores: Map<string, PairScore>; fromDb: number; computed: number }> {
+  // Sin Postgres (DB_DRIVER=sqlite) no hay caché: se calcula todo en cada petición
+  const pairScores = sql ? await cargarTransicionesCacheadas(tracks) : new Map<string, PairScore>();
+  const fromDb = pairScores.size;
+  const nuevos: Array<{ trackA: CancionAnalizada; trackB: CancionAnalizada; pair: PairScore }> = [];
+
+  for (const trackA of tracks) {
+    const planA = mixPlans.get(trackA.id);
+    if (!planA) continue;
+
+    for (const trackB of tracks) {
+      if (trackA.id === trackB.id) continue;
+      const planB = mixPlans.get(trackB.id);
+      if (!planB) continue;
+
+      const key = clavePar(trackA, trackB);
+      if (pairScores.has(key)) continue;
+
+      const pair = calculateTransitionScore(trackA, trackB, planA, planB);
+      pairScores.set(key, pair);
+      nuevos.push({ trackA, trackB, pair });
+    }
+  }
+
+  if (sql && nuevos.length > 0) {
+    try {
+      await guardarTransicionesCacheadas(nuevos);
+    } catch (error) {
+      // La caché es una optimización: si falla la escritura seguimos con lo calculado
+      console.error('⚠️ No se pudieron guardar las transiciones calculadas:', error);
+    }
+  }
+
+  console.log(`🔁 Transiciones: ${fromDb} desde BD, ${nuevos.length} calculadas`);
+  return { pairScores, fromDb, computed: nuevos.length };
+}
+
+/**
+ * Borra los pares que ya no se pueden reutilizar: de otra versión del algoritmo
+ * o con algún track re-analizado después de calcularlos
+ * Se compara al milisegundo, como cargarTransicionesCacheadas (las filas antiguas
+ * se guardaron con la precisión de la fecha JS)
+ */
+export async function limpiarTransicionesObsoletas(): Promise<number> {
+  if (!sql) throw new PostgresRequeridoError('Caché de transiciones');
+
+  const borradas = await sql`
+    DELETE FROM transiciones_calculadas t
+    WHERE t.version_algoritmo <> ${TRANSITION_ALGORITHM_VERSION}
+      OR NOT EXISTS (
+        SELECT 1 FROM canciones_analizadas a
+        WHERE a.hash_archivo = t.hash_a
+          AND date_trunc('milliseconds', a.fecha_procesado) = date_trunc('milliseconds', t.fecha_procesado_a)
+      )
+      OR NOT EXISTS (
+        SELECT 1 FROM canciones_analizadas b
+        WHERE b.hash_archivo = t.hash_b
+          AND date_trunc('milliseconds', b.fecha_procesado) = date_trunc('milliseconds', t.fecha_procesado_b)
+      )
+    RETURNING 1
+  `;
+
+  return borradas.length;
+}
@@ -1,4 +1,32 @@
 import { neon } from '@neondatabase/serverless';
+import type { HuellaChroma } from './audio-fingerprint';
+
+// ===================================================================
+// DRIVER DE BASE DE DATOS
+// ===================================================================
+// DB_DRIVER=neon | pg | sqlite. Sin DB_DRIVER: Neon si DATABASE_URL apunta a
+// neon.tech, node-postgres para cualquier otro Postgres y SQLite (SQLITE_PATH)
+// si no hay DATABASE_URL, para poder trabajar sin internet.
+// Con SQLite solo existe el almacén (storage.ts): sql queda a null y las
+// funciones que consultan Postgres directamente lanzan PostgresRequeridoError
+// (las rutas responden 501).
+export type DriverBD = 'neon' | 'pg' | 'sqlite';
+
+const DRIVERS_BD: DriverBD[] = ['neon', 'pg', 'sqlite'];
+
+export function obtenerDriverBD(): DriverBD {
+  const configurado = process.env.DB_DRIVER?.trim().toLowerCase();
+  if (configurado) {
+    if (!DRIVERS_BD.includes(configurado as DriverBD)) {
+      throw new Error(`DB_DRIVER inválido: ${configurado}. Usa ${DRIVERS_BD.join(', ')}`);
+    }
+    return configurado as DriverBD;
+  }
+
+  const url = process.env.DATABASE_URL;
+  if (!url) return 'sqlite';
+  return /neon\.tech/i.test(url) ? 'neon' : 'pg';
+}
 
 // Función para obtener el cliente SQL (solo en servidor)
 function getSqlClient() {
@@ -6,8 +34,17 @@ function getSqlClient() {
     throw new Error('La base de datos solo puede ser accedida desde el servidor');
   }
 
+  const driver = obtenerDriverBD();
+  if (driver === 'sqlite') return null;
+
   if (!process.env.DATABASE_URL) {
-    throw new Error('DATABASE_URL no está definida en las variables de entorno');
+    throw new Error(`DATABASE_URL no está definida en las variables de entorno (DB_DRIVER=${driver})`);
+  }
+
+  if (driver === 'pg') {
+    // require: el bundle del cliente no debe arrastrar pg
+    const { crearClientePg } = require('./db-pg') as typeof import('./db-pg');
+    return crearClientePg(process.env.DATABASE_URL);
   }
 
   return neon(process.env.DATABASE_URL);
@@ -15,6 +52,16 @@ function getSqlClient() {
 
 export const sql = typeof window === 'undefined' ? getSqlClient() : null as any;
 
+/**
+ * Funcionalidad que solo existe sobre Postgres (versiones, biblioteca, duplicados...)
+ */
+export class PostgresRequeridoError extends Error {
+  constructor(funcionalidad: string) {
+    super(`${funcionalidad}: necesita Postgres (DB_DRIVER=neon o pg), no está disponible con SQLite`);
+    this.name = 'PostgresRequeridoError';
+  }
+}
+
 // ===================================================================
 // TIPOS SIMPLIFICADOS - TIMELINE UNIFICADO
 // ===================================================================
@@ -28,6 +75,10 @@ export type TimelineSegment = {
   descripcion?: string;  // Lyrics snippet or instrument description
 };
 
+export const SECCIONES_TIMELINE: TimelineSegment['tipo_seccion'][] = [
+  'intro', 'verso', 'estribillo', 'puente', 'outro', 'solo_instrumental', 'subidon_build_up',
+];
+
 // Loop para DJ (se mantiene separado)
 export type LoopTransicion = {
   texto: string;
@@ -35,6 +86,24 @@ export type LoopTransicion = {
   fin: string;
 };
 
+// Lectura alternativa de tempo (mitad/doble/3:2) detectada por el analizador
+export type BpmCandidato = {
+  bpm: number;
+  confianza: number;  // 0-1 (el BPM principal siempre es 1)
+};
+
+// Metadatos del archivo (tags ID3/Vorbis) + etiquetas propias del usuario
+export type MetadatosCancion = {
+  artista: string | null;
+  album: string | null;
+  anio: number | null;
+  genero: string | null;
+  sello: string | null;
+  isrc: string | null;
+  comentarios: string | null;
+  etiquetas: string[];  // Solo las pone el usuario (no se leen del archivo)
+};
+
 // ===================================================================
 // TIPOS DERIVADOS (Se calculan en código desde timeline)
 // ===================================================================
@@ -57,6 +126,13 @@ export type EstructuraMusical = {
   fin: string;
 };
 
+// Campos corregidos a mano por el usuario: un re-análisis no los pisa
+// grid = beats, downbeats, frases y compás
+export type CampoBloqueable = 'bpm' | 'tonalidad' | 'grid' | 'timeline';
+export type BloqueosAnalisis = Partial<Record<CampoBloqueable, boolean>>;
+
+export const CAMPOS_BLOQUEABLES: CampoBloqueable[] = ['bpm', 'tonalidad', 'grid', 'timeline'];
+
 // ===================================================================
 // TIPO PRINCIPAL - CANCIÓN ANALIZADA
 // ===================================================================
@@ -69,6 +145,7 @@ export type CancionAnalizada = {
   
   // Métricas DJ
   bpm: number | null;
+  bpm_candidatos?: BpmCandidato[] | null;
   tonalidad_camelot: string | null;
   tonalidad_compatible: string[] | null;
   bailabilidad: number | null;
@@ -79,6 +156,9 @@ export type CancionAnalizada = {
   beats_ts_ms: number[] | null;
   frases_ts_ms: number[] | null;
   
+  // Huella chroma (duplicados y versiones, ver audio-fingerprint.ts)
+  huella_chroma?: HuellaChroma | null;
+  
   // Datos Gemini (SIMPLIFICADO)
   timeline: TimelineSegment[] | null;       // FUENTE ÚNICA DE VERDAD
   loops_transicion: LoopTransicion[] | null;
@@ -89,6 +169,17 @@ export type CancionAnalizada = {
   huecos_analizados?: HuecoInstrumental[] | null;
   
   // Metadatos
+  artista?: string | null;
+  album?: string | null;
+  anio?: number | null;
+  genero?: string | null;
+  sello?: string | null;
+  isrc?: string | null;
+  comentarios?: string | null;
+  etiquetas?: string[] | null;
+  
+  // Correcciones manuales
+  bloqueos?: BloqueosAnalisis | null;
   fecha_procesado: Date;
 };
 
@@ -0,0 +1,192 @@
+/**
+ * Rekordbox XML (DJ_PLAYLISTS 1.0.0): File → Import → Collection en Rekordbox
+ *
+ * - TEMPO: marcadores del grid (Inizio en segundos, Battito 1 = downbeat)
+ * - POSITION_MARK Num 0-7: hot cues con color; Num -1: memory cues y loops (Type 4)
+ * - PLAYLISTS: las listas referencian las pistas por TrackID (KeyType 0)
+ */
+
+import { extname } from 'path';
+import {
+  camelotANota,
+  ordenarMarcas,
+  tonalidadACamelot,
+  elementoXml,
+  hijoXml,
+  hijosXml,
+  numeroXml,
+  parsearXml,
+  textoXml,
+  ExportacionDJError,
+  type ColeccionDJ,
+  type ListaDJ,
+  type MarcaDJ,
+  type NodoXml,
+  type PistaDJ
+} from './dj-export';
+
+const TIPO_MARCA_CUE = '0';
+const TIPO_MARCA_LOOP = '4';
+
+const TIPOS_ARCHIVO: Record<string, string> = {
+  '.mp3': 'MP3 File',
+  '.wav': 'WAV File',
+  '.aiff': 'AIFF File',
+  '.aif': 'AIFF File',
+  '.m4a': 'M4A File',
+  '.aac': 'M4A File',
+  '.flac': 'FLAC File',
+  '.ogg': 'OGG File',
+};
+
+const segundos = (ms: number) => (ms / 1000).toFixed(3);
+const milisegundos = (s: number | null) => (s === null ? null : Math.round(s * 1000));
+
+/**
+ * Ruta → URL file://localhost/ que usa Rekordbox (C:/... en Windows)
+ */
+function ubicacionAUrl(ruta: string): string {
+  const partes = ruta.split(/[\\/]/).filter((parte, i) => parte !== '' || i === 0);
+  const conUnidad = /^[A-Za-z]:$/.test(partes[0]);
+  const codificada = partes.map((parte, i) => (conUnidad && i === 0 ? parte : encodeURIComponent(parte))).join('/');
+  return `file://localhost${conUnidad ? '/' : ''}${codificada}`;
+}
+
+function urlAUbicacion(url: string): string {
+  const ruta = decodeURIComponent(url.replace(/^file:\/\/(localhost)?/i, ''));
+  return /^\/[A-Za-z]:\//.test(ruta) ? ruta.slice(1) : ruta;
+}
+
+function marcaAXml(marca: MarcaDJ): string {
+  return elementoXml('POSITION_MARK', {
+    Name: marca.nombre,
+    Type: marca.tipo === 'loop' ? TIPO_MARCA_LOOP : TIPO_MARCA_CUE,
+    Start: segundos(marca.inicioMs),
+    End: marca.finMs !== null ? segundos(marca.finMs) : null,
+    Num: marca.hotCue ?? -1,
+    Red: marca.color?.r,
+    Green: marca.color?.g,
+    Blue: marca.color?.b,
+  }, [], '      ');
+}
+
+function pistaAXml(pista: PistaDJ, trackId: number): string {
+  const tempos = pista.grid.map(marcador => elementoXml('TEMPO', {
+    Inizio: segundos(marcador.inicioMs),
+    Bpm: marcador.bpm.toFixed(2),
+    Metro: `${marcador.beatsPorCompas}/4`,
+    Battito: 1,
+  }, [], '      '));
+
+  return elementoXml('TRACK', {
+    TrackID: trackId,
+    Name: pista.titulo,
+    Artist: pista.artista ?? '',
+    Album: pista.album ?? '',
+    Genre: pista.genero ?? '',
+    Kind: TIPOS_ARCHIVO[extname(pista.ubicacion).toLowerCase()] ?? 'MP3 File',
+    TotalTime: pista.duracionS,
+    AverageBpm: pista.bpm !== null ? pista.bpm.toFixed(2) : '0.00',
+    Tonality: camelotANota(pista.tonalidad) ?? '',
+    Location: ubicacionAUrl(pista.ubicacion),
+  }, [...tempos, ...pista.marcas.map(marcaAXml)], '    ');
+}
+
+export function exportarRekordbox(coleccion: ColeccionDJ): string {
+  const trackIds = new Map(coleccion.pistas.map((pista, i) => [pista.ubicacion, i + 1]));
+
+  const listas = coleccion.listas.map(lista => {
+    const ids = lista.ubicaciones.flatMap(u => trackIds.get(u) ?? []);
+    return elementoXml('NODE', { Name: lista.nombre, Type: 1, KeyType: 0, Entries: ids.length },
+      ids.map(id => elementoXml('TRACK', { Key: id }, [], '        ')), '      ');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    elementoXml('DJ_PLAYLISTS', { Version: '1.0.0' }, [
+      elementoXml('PRODUCT', { Name: 'DJ Mixer', Version: '1.0', Company: '' }, [], '  '),
+      elementoXml('COLLECTION', { Entries: coleccion.pistas.length },
+        coleccion.pistas.map((pista, i) => pistaAXml(pista, i + 1)), '  '),
+      elementoXml('PLAYLISTS', {}, [
+        elementoXml('NODE', { Type: 0, Name: 'ROOT', Count: listas.length }, listas, '    '),
+      ], '  '),
+    ]),
+    '',
+  ].join('\n');
+}
+
+function marcaDesdeXml(nodo: NodoXml): MarcaDJ | null {
+  const inicioMs = milisegundos(numeroXml(nodo, 'Start'));
+  if (inicioMs === null) return null;
+
+  const num = numeroXml(nodo, 'Num') ?? -1;
+  const r = numeroXml(nodo, 'Red');
+  const g = numeroXml(nodo, 'Green');
+  const b = numeroXml(nodo, 'Blue');
+  const esLoop = nodo.atributos.Type === TIPO_MARCA_LOOP;
+
+  return {
+    tipo: esLoop ? 'loop' : 'cue',
+    hotCue: num >= 0 ? num : null,
+    nombre: nodo.atributos.Name ?? '',
+    inicioMs,
+    finMs: esLoop ? milisegundos(numeroXml(nodo, 'End')) : null,
+    color: r !== null && g !== null && b !== null ? { r, g, b } : null,
+  };
+}
+
+function pistaDesdeXml(nodo: NodoXml): PistaDJ {
+  const bpm = numeroXml(nodo, 'AverageBpm');
+  return {
+    hash: null,
+    ubicacion: urlAUbicacion(nodo.atributos.Location ?? ''),
+    titulo: nodo.atributos.Name ?? '',
+    artista: textoXml(nodo, 'Artist'),
+    album: textoXml(nodo, 'Album'),
+    genero: textoXml(nodo, 'Genre'),
+    duracionS: numeroXml(nodo, 'TotalTime') ?? 0,
+    bpm: bpm ? bpm : null,
+    tonalidad: tonalidadACamelot(nodo.atributos.Tonality),
+    grid: hijosXml(nodo, 'TEMPO').flatMap(tempo => {
+      const inicioMs = milisegundos(numeroXml(tempo, 'Inizio'));
+      const bpmTempo = numeroXml(tempo, 'Bpm');
+      if (inicioMs === null || !bpmTempo) return [];
+      const beatsPorCompas = parseInt(tempo.atributos.Metro ?? '', 10) || 4;
+      return [{ inicioMs, bpm: bpmTempo, beatsPorCompas }];
+    }),
+    marcas: ordenarMarcas(hijosXml(nodo, 'POSITION_MARK').flatMap(m => marcaDesdeXml(m) ?? [])),
+  };
+}
+
+// Las listas pueden estar dentro de carpetas (NODE Type 0)
+function recogerListas(nodo: NodoXml, porTrackId: Map<string, string>, listas: ListaDJ[]): void {
+  for (const hijo of hijosXml(nodo, 'NODE')) {
+    if (hijo.atributos.Type === '0') {
+      recogerListas(hijo, porTrackId, listas);
+      continue;
+    }
+    const porUbicacion = hijo.atributos.KeyType === '1';
+    listas.push({
+      nombre: hijo.atributos.Name ?? '',
+      ubicaciones: hijosXml(hijo, 'TRACK').flatMap(t => {
+        const clave = t.atributos.Key ?? '';
+        return (porUbicacion ? urlAUbicacion(clave) : porTrackId.get(clave)) ?? [];
+      }),
+    });
+  }
+}
+
+export function importarRekordbox(xml: string): ColeccionDJ {
+  const raiz = hijoXml(parsearXml(xml), 'DJ_PLAYLISTS');
+  if (!raiz) throw new ExportacionDJError('No es un XML de Rekordbox (falta DJ_PLAYLISTS)');
+
+  const tracks = hijosXml(hijoXml(raiz, 'COLLECTION'), 'TRACK').filter(t => t.atributos.Location);
+  const pistas = tracks.map(pistaDesdeXml);
+  const porTrackId = new Map(tracks.map((t, i) => [t.atributos.TrackID ?? '', pistas[i].ubicacion]));
+
+  const listas: ListaDJ[] = [];
+  const root = hijoXml(hijoXml(raiz, 'PLAYLISTS'), 'NODE');
+  if (root) recogerListas(root, porTrackId, listas);
+
+  return { pistas, listas };
+}
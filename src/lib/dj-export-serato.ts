@@ -0,0 +1,109 @@
+/**
+ * Crates de Serato (.crate): copiar a _Serato_/Subcrates/ de la unidad de la música
+ *
+ * Formato binario de campos etiqueta (4 ASCII) + longitud (uint32 BE) + datos;
+ * los textos van en UTF-16 BE:
+ * - vrsn: versión del crate
+ * - ovct: columnas visibles (tvcn nombre, tvcw ancho)
+ * - otrk → ptrk: ruta de cada pista relativa a la raíz de su unidad
+ *
+ * Un crate solo lleva la lista: Serato guarda cues, loops y grid dentro del
+ * propio archivo de audio. Para llevarlos, Serato DJ Pro puede importar el XML
+ * de Rekordbox.
+ */
+
+import {
+  ExportacionDJError,
+  type ColeccionDJ,
+  type ListaDJ,
+  type PistaDJ
+} from './dj-export';
+
+const VERSION_CRATE = '1.0/Serato ScratchLive Crate';
+const COLUMNAS = ['song', 'artist', 'bpm', 'key'];
+
+function textoUtf16(texto: string): Buffer {
+  return Buffer.from(texto, 'utf16le').swap16();
+}
+
+function leerUtf16(datos: Buffer): string {
+  if (datos.length % 2 !== 0) {
+    throw new ExportacionDJError('Crate de Serato corrupto: texto UTF-16 con longitud impar');
+  }
+  return Buffer.from(datos).swap16().toString('utf16le');
+}
+
+function campo(etiqueta: string, datos: Buffer): Buffer {
+  const cabecera = Buffer.alloc(8);
+  cabecera.write(etiqueta, 0, 'ascii');
+  cabecera.writeUInt32BE(datos.length, 4);
+  return Buffer.concat([cabecera, datos]);
+}
+
+function* leerCampos(datos: Buffer): Generator<{ etiqueta: string; datos: Buffer }> {
+  let offset = 0;
+  while (offset + 8 <= datos.length) {
+    const etiqueta = datos.toString('ascii', offset, offset + 4);
+    const longitud = datos.readUInt32BE(offset + 4);
+    if (offset + 8 + longitud > datos.length) {
+      throw new ExportacionDJError(`Crate de Serato truncado en el campo ${etiqueta}`);
+    }
+    yield { etiqueta, datos: datos.subarray(offset + 8, offset + 8 + longitud) };
+    offset += 8 + longitud;
+  }
+}
+
+// Serato guarda las rutas sin la raíz: /Users/x/a.mp3 → Users/x/a.mp3, C:\Music\a.mp3 → Music/a.mp3
+function rutaSerato(ubicacion: string): string {
+  return ubicacion.split(/[\\/]/).filter(Boolean).filter((parte, i) => i > 0 || !/^[A-Za-z]:$/.test(parte)).join('/');
+}
+
+/**
+ * Crate de una lista (la primera de la colección, o todas las pistas si no hay)
+ */
+export function exportarSerato(coleccion: ColeccionDJ): Buffer {
+  const ubicaciones = coleccion.listas[0]?.ubicaciones ?? coleccion.pistas.map(p => p.ubicacion);
+
+  return Buffer.concat([
+    campo('vrsn', textoUtf16(VERSION_CRATE)),
+    ...COLUMNAS.map(columna => campo('ovct', Buffer.concat([
+      campo('tvcn', textoUtf16(columna)),
+      campo('tvcw', textoUtf16('0')),
+    ]))),
+    ...ubicaciones.map(ubicacion => campo('otrk', campo('ptrk', textoUtf16(rutaSerato(ubicacion))))),
+  ]);
+}
+
+/**
+ * Lee un crate: una lista con sus pistas (solo la ubicación; el resto no viaja en el crate)
+ * Las rutas vuelven absolutas desde la raíz (/Users/x/a.mp3)
+ */
+export function importarSerato(crate: Buffer, nombre: string): ColeccionDJ {
+  const campos = [...leerCampos(crate)];
+  const version = campos.find(c => c.etiqueta === 'vrsn');
+  if (!version || !leerUtf16(version.datos).includes('Crate')) {
+    throw new ExportacionDJError('No es un crate de Serato (falta vrsn)');
+  }
+
+  const ubicaciones = campos
+    .filter(c => c.etiqueta === 'otrk')
+    .flatMap(c => [...leerCampos(c.datos)].filter(s => s.etiqueta === 'ptrk'))
+    .map(ptrk => `/${leerUtf16(ptrk.datos)}`);
+
+  const pistas: PistaDJ[] = [...new Set(ubicaciones)].map(ubicacion => ({
+    hash: null,
+    ubicacion,
+    titulo: '',
+    artista: null,
+    album: null,
+    genero: null,
+    duracionS: 0,
+    bpm: null,
+    tonalidad: null,
+    grid: [],
+    marcas: [],
+  }));
+  const lista: ListaDJ = { nombre, ubicaciones };
+
+  return { pistas, listas: [lista] };
+}
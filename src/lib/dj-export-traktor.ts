@@ -0,0 +1,241 @@
+/**
+ * Traktor NML (VERSION 19): arrastrar el .nml a la colección o Import Collection
+ *
+ * - LOCATION: VOLUME + DIR con separador "/:" (C: en Windows, /Volumes/X → X en macOS)
+ * - CUE_V2 TYPE 4: marcadores del grid; 1/2: entradas (Fade-In) y salidas
+ *   (Fade-Out); 0: memory cues; 5: loops. HOTCUE -1 = sin hot cue
+ * - MUSICAL_KEY: 0-11 mayores (C...B), 12-23 menores
+ * - Traktor no guarda colores de cue (al importar salen de la estrategia del nombre)
+ *   ni compases distintos de 4/4
+ */
+
+import {
+  camelotATono,
+  colorDeNombreCue,
+  ordenarMarcas,
+  tonalidadACamelot,
+  tonoACamelot,
+  elementoXml,
+  hijoXml,
+  hijosXml,
+  numeroXml,
+  parsearXml,
+  textoXml,
+  ExportacionDJError,
+  type ColeccionDJ,
+  type ListaDJ,
+  type MarcaDJ,
+  type MarcadorGrid,
+  type NodoXml,
+  type PistaDJ
+} from './dj-export';
+
+const CUE_NORMAL = 0;
+const CUE_FADE_IN = 1;
+const CUE_FADE_OUT = 2;
+const CUE_GRID = 4;
+const CUE_LOOP = 5;
+
+// El grid de Traktor es siempre 4/4
+const COMPAS_TRAKTOR = 4;
+
+interface UbicacionTraktor {
+  volumen: string;
+  dir: string;
+  archivo: string;
+}
+
+function dividirUbicacion(ruta: string): UbicacionTraktor {
+  const partes = ruta.split(/[\\/]/).filter(Boolean);
+  const archivo = partes.pop() ?? '';
+  let volumen = '';
+
+  if (/^[A-Za-z]:$/.test(partes[0] ?? '')) {
+    volumen = partes.shift()!;
+  } else if (partes[0] === 'Volumes' && partes.length >= 2) {
+    partes.shift();
+    volumen = partes.shift()!;
+  }
+
+  return { volumen, dir: `/:${partes.map(p => `${p}/:`).join('')}`, archivo };
+}
+
+function unirUbicacion({ volumen, dir, archivo }: UbicacionTraktor): string {
+  const carpetas = dir.split('/:').filter(Boolean);
+  const prefijo = /^[A-Za-z]:$/.test(volumen) ? volumen : volumen ? `/Volumes/${volumen}` : '';
+  return [prefijo, ...carpetas, archivo].join('/');
+}
+
+// PRIMARYKEY de las listas: VOLUME + DIR + FILE
+const clavePrimaria = (u: UbicacionTraktor) => `${u.volumen}${u.dir}${u.archivo}`;
+
+function tipoCue(marca: MarcaDJ): number {
+  if (marca.tipo === 'loop') return CUE_LOOP;
+  if (marca.hotCue === null) return CUE_NORMAL;
+  if (marca.nombre.startsWith('IN ')) return CUE_FADE_IN;
+  if (marca.nombre.startsWith('OUT ')) return CUE_FADE_OUT;
+  return CUE_NORMAL;
+}
+
+function cueAXml(nombre: string, tipo: number, inicioMs: number, duracionMs: number, hotCue: number, hijos: string[] = []): string {
+  return elementoXml('CUE_V2', {
+    NAME: nombre,
+    DISPL_ORDER: 0,
+    TYPE: tipo,
+    START: inicioMs.toFixed(6),
+    LEN: duracionMs.toFixed(6),
+    REPEATS: -1,
+    HOTCUE: hotCue,
+  }, hijos, '      ');
+}
+
+function pistaAXml(pista: PistaDJ): string {
+  const ubicacion = dividirUbicacion(pista.ubicacion);
+  const tono = camelotATono(pista.tonalidad);
+
+  const grid = pista.grid.map((marcador, i) => cueAXml(
+    i === 0 ? 'AutoGrid' : `Grid ${i + 1}`, CUE_GRID, marcador.inicioMs, 0, -1,
+    [elementoXml('GRID', { BPM: marcador.bpm.toFixed(6) }, [], '        ')]
+  ));
+  const marcas = pista.marcas.map(marca => cueAXml(
+    marca.nombre, tipoCue(marca), marca.inicioMs,
+    marca.finMs !== null ? marca.finMs - marca.inicioMs : 0, marca.hotCue ?? -1
+  ));
+
+  return elementoXml('ENTRY', { TITLE: pista.titulo, ARTIST: pista.artista ?? undefined }, [
+    elementoXml('LOCATION', { DIR: ubicacion.dir, FILE: ubicacion.archivo, VOLUME: ubicacion.volumen, VOLUMEID: '' }, [], '      '),
+    elementoXml('ALBUM', { TITLE: pista.album ?? undefined }, [], '      '),
+    elementoXml('INFO', {
+      GENRE: pista.genero ?? undefined,
+      KEY: pista.tonalidad ?? undefined,
+      PLAYTIME: pista.duracionS,
+    }, [], '      '),
+    ...(pista.bpm !== null ? [elementoXml('TEMPO', { BPM: pista.bpm.toFixed(6), BPM_QUALITY: '100.000000' }, [], '      ')] : []),
+    ...(tono ? [elementoXml('MUSICAL_KEY', { VALUE: tono.tono + (tono.menor ? 12 : 0) }, [], '      ')] : []),
+    ...grid,
+    ...marcas,
+  ], '    ');
+}
+
+export function exportarTraktor(coleccion: ColeccionDJ): string {
+  const claves = new Map(coleccion.pistas.map(p => [p.ubicacion, clavePrimaria(dividirUbicacion(p.ubicacion))]));
+
+  const listas = coleccion.listas.map(lista => {
+    const entradas = lista.ubicaciones.flatMap(u => claves.get(u) ?? []);
+    return elementoXml('NODE', { TYPE: 'PLAYLIST', NAME: lista.nombre }, [
+      elementoXml('PLAYLIST', { ENTRIES: entradas.length, TYPE: 'LIST', UUID: '' },
+        entradas.map(clave => elementoXml('ENTRY', {}, [
+          elementoXml('PRIMARYKEY', { TYPE: 'TRACK', KEY: clave }, [], '              '),
+        ], '            ')), '          '),
+    ], '        ');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    elementoXml('NML', { VERSION: 19 }, [
+      elementoXml('HEAD', { COMPANY: 'www.native-instruments.com', PROGRAM: 'Traktor' }, [], '  '),
+      elementoXml('COLLECTION', { ENTRIES: coleccion.pistas.length }, coleccion.pistas.map(pistaAXml), '  '),
+      elementoXml('PLAYLISTS', {}, [
+        elementoXml('NODE', { TYPE: 'FOLDER', NAME: '$ROOT' }, [
+          elementoXml('SUBNODES', { COUNT: listas.length }, listas, '      '),
+        ], '    '),
+      ], '  '),
+    ]),
+    '',
+  ].join('\n');
+}
+
+function pistaDesdeXml(nodo: NodoXml): PistaDJ {
+  const location = hijoXml(nodo, 'LOCATION');
+  const info = hijoXml(nodo, 'INFO');
+  const claveMusical = numeroXml(hijoXml(nodo, 'MUSICAL_KEY'), 'VALUE');
+  const bpm = numeroXml(hijoXml(nodo, 'TEMPO'), 'BPM');
+
+  const grid: MarcadorGrid[] = [];
+  const marcas: MarcaDJ[] = [];
+  for (const cue of hijosXml(nodo, 'CUE_V2')) {
+    const tipo = numeroXml(cue, 'TYPE');
+    const inicioMs = numeroXml(cue, 'START');
+    if (tipo === null || inicioMs === null) continue;
+
+    if (tipo === CUE_GRID) {
+      const bpmGrid = numeroXml(hijoXml(cue, 'GRID'), 'BPM') ?? bpm;
+      if (bpmGrid) grid.push({ inicioMs: Math.round(inicioMs), bpm: Math.round(bpmGrid * 100) / 100, beatsPorCompas: COMPAS_TRAKTOR });
+      continue;
+    }
+
+    const hotCue = numeroXml(cue, 'HOTCUE') ?? -1;
+    const nombre = cue.atributos.NAME ?? '';
+    const duracion = numeroXml(cue, 'LEN') ?? 0;
+    marcas.push({
+      tipo: tipo === CUE_LOOP ? 'loop' : 'cue',
+      hotCue: hotCue >= 0 ? hotCue : null,
+      nombre,
+      inicioMs: Math.round(inicioMs),
+      finMs: tipo === CUE_LOOP ? Math.round(inicioMs + duracion) : null,
+      color: hotCue >= 0 ? colorDeNombreCue(nombre) : null,
+    });
+  }
+
+  return {
+    hash: null,
+    ubicacion: unirUbicacion({
+      volumen: location?.atributos.VOLUME ?? '',
+      dir: location?.atributos.DIR ?? '',
+      archivo: location?.atributos.FILE ?? '',
+    }),
+    titulo: nodo.atributos.TITLE ?? '',
+    artista: textoXml(nodo, 'ARTIST'),
+    album: textoXml(hijoXml(nodo, 'ALBUM'), 'TITLE'),
+    genero: textoXml(info, 'GENRE'),
+    duracionS: numeroXml(info, 'PLAYTIME') ?? 0,
+    bpm: bpm ? Math.round(bpm * 100) / 100 : null,
+    tonalidad: claveMusical !== null && claveMusical >= 0 && claveMusical < 24
+      ? tonoACamelot(claveMusical % 12, claveMusical >= 12)
+      : tonalidadACamelot(info?.atributos.KEY),
+    grid: grid.sort((a, b) => a.inicioMs - b.inicioMs),
+    marcas: ordenarMarcas(marcas),
+  };
+}
+
+// Las listas pueden estar dentro de carpetas (NODE TYPE FOLDER → SUBNODES)
+function recogerListas(nodo: NodoXml, porClave: Map<string, string>, listas: ListaDJ[]): void {
+  if (nodo.atributos.TYPE === 'PLAYLIST') {
+    listas.push({
+      nombre: nodo.atributos.NAME ?? '',
+      ubicaciones: hijosXml(hijoXml(nodo, 'PLAYLIST'), 'ENTRY').flatMap(entrada => {
+        const clave = hijoXml(entrada, 'PRIMARYKEY')?.atributos.KEY ?? '';
+        return porClave.get(clave) ?? [];
+      }),
+    });
+    return;
+  }
+  for (const hijo of hijosXml(hijoXml(nodo, 'SUBNODES'), 'NODE')) {
+    recogerListas(hijo, porClave, listas);
+  }
+}
+
+export function importarTraktor(nml: string): ColeccionDJ {
+  const raiz = hijoXml(parsearXml(nml), 'NML');
+  if (!raiz) throw new ExportacionDJError('No es un NML de Traktor (falta NML)');
+
+  const entradas = hijosXml(hijoXml(raiz, 'COLLECTION'), 'ENTRY').filter(e => hijoXml(e, 'LOCATION'));
+  const pistas = entradas.map(pistaDesdeXml);
+  const porClave = new Map(entradas.map((entrada, i) => {
+    const location = hijoXml(entrada, 'LOCATION')!;
+    return [
+      clavePrimaria({
+        volumen: location.atributos.VOLUME ?? '',
+        dir: location.atributos.DIR ?? '',
+        archivo: location.atributos.FILE ?? '',
+      }),
+      pistas[i].ubicacion,
+    ];
+  }));
+
+  const listas: ListaDJ[] = [];
+  const root = hijoXml(hijoXml(raiz, 'PLAYLISTS'), 'NODE');
+  if (root) recogerListas(root, porClave, listas);
+
+  return { pistas, listas };
+}
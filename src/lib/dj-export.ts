@@ -0,0 +1,506 @@
+/**
+ * Exportación a software DJ (Rekordbox XML, Traktor NML, crates de Serato)
+ *
+ * Las canciones analizadas se convierten a un modelo común (ColeccionDJ) que
+ * cada formato escribe y vuelve a leer (dj-export-rekordbox/traktor/serato.ts):
+ * - Grid: marcadores de tempo en downbeats (uno solo si el tempo es constante)
+ * - Hot cues: mejores entradas (A-D) y salidas (E-H) del planner, con color
+ *   según la estrategia (INTRO_SIMPLE, DROP_SWAP...)
+ * - Loops guardados: loops_transicion
+ * - Memory cues: inicio de cada sección del timeline
+ * - Listas: una sesión guardada (mix-sessions.ts) en su orden
+ *
+ * El importador identifica cada pista por su ubicación: archivo del almacén
+ * (nombre = hash), archivo de la biblioteca (archivos_biblioteca) o, si existe
+ * en este equipo, su SHA-256.
+ */
+
+import { stat } from 'fs/promises';
+import { basename, extname, join, relative, resolve } from 'path';
+import { obtenerCancionesPorHashes } from './db-persistence';
+import { buildMixPlan } from './mix-planner';
+import { parseCamelot } from './mix-harmonic';
+import { parseTimeStringToMs } from './gemini-optimizer';
+import { esHashAudio, obtenerRutaAudioCacheado } from './audio-cache';
+import {
+  calcularHashArchivo,
+  obtenerDirectorioBiblioteca,
+  obtenerHashDeRutaBiblioteca,
+  obtenerRutaAudioDeBiblioteca
+} from './library-scanner';
+import type { CancionAnalizada, TimelineSegment } from './db';
+import type { CuePoint, CueStrategy } from './mix-types';
+
+export type FormatoDJ = 'rekordbox' | 'traktor' | 'serato';
+
+export const FORMATOS_DJ: FormatoDJ[] = ['rekordbox', 'traktor', 'serato'];
+
+export interface ColorDJ {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Cue (hotCue = slot 0-7, null = memory cue) o loop guardado (con finMs)
+export interface MarcaDJ {
+  tipo: 'cue' | 'loop';
+  hotCue: number | null;
+  nombre: string;
+  inicioMs: number;
+  finMs: number | null;
+  color: ColorDJ | null;
+}
+
+// Marcador del beat grid: cae en un downbeat y vale hasta el siguiente
+export interface MarcadorGrid {
+  inicioMs: number;
+  bpm: number;
+  beatsPorCompas: number;
+}
+
+export interface PistaDJ {
+  hash: string | null;       // null = el importador no la ha reconocido
+  ubicacion: string;         // Ruta absoluta del archivo
+  titulo: string;
+  artista: string | null;
+  album: string | null;
+  genero: string | null;
+  duracionS: number;         // Los tres formatos guardan segundos enteros
+  bpm: number | null;
+  tonalidad: string | null;  // Camelot
+  grid: MarcadorGrid[];
+  marcas: MarcaDJ[];
+}
+
+export interface ListaDJ {
+  nombre: string;
+  ubicaciones: string[];     // Pistas de la colección, en orden
+}
+
+export interface ColeccionDJ {
+  pistas: PistaDJ[];
+  listas: ListaDJ[];
+}
+
+export class ExportacionDJError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportacionDJError';
+  }
+}
+
+const MAX_HOT_CUES_ENTRADA = 4;  // A-D
+const MAX_HOT_CUES_SALIDA = 4;   // E-H
+const PRIMER_HOT_CUE_SALIDA = 4;
+
+// Un downbeat que se separa más de esto del grid constante abre un marcador nuevo
+const DERIVA_MAX_MS = 20;
+
+const COLORES_ESTRATEGIA: Record<CueStrategy, ColorDJ> = {
+  INTRO_SIMPLE: { r: 40, g: 226, b: 20 },     // Verde
+  DROP_SWAP: { r: 230, g: 40, b: 40 },        // Rojo
+  IMPACT_ENTRY: { r: 224, g: 100, b: 27 },    // Naranja
+  OUTRO_FADE: { r: 48, g: 90, b: 255 },       // Azul
+  BREAKDOWN_ENTRY: { r: 180, g: 50, b: 255 }, // Violeta
+  LOOP_ANCHOR: { r: 0, g: 224, b: 255 },      // Cian
+  EVENT_SYNC: { r: 195, g: 175, b: 4 },       // Amarillo
+};
+
+const ESTRATEGIAS = Object.keys(COLORES_ESTRATEGIA) as CueStrategy[];
+
+const NOMBRES_SECCION: Record<TimelineSegment['tipo_seccion'], string> = {
+  intro: 'Intro',
+  verso: 'Verso',
+  estribillo: 'Estribillo',
+  puente: 'Puente',
+  outro: 'Outro',
+  solo_instrumental: 'Instrumental',
+  subidon_build_up: 'Build-up',
+};
+
+// ===================================================================
+// TONALIDAD Y COLORES
+// ===================================================================
+
+const NOTAS_MAYOR = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const NOTAS_MENOR = ['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'];
+const SEMITONO_NOTA: Record<string, number> = {
+  C: 0, 'C#': 1, Db: 1, D: 2, 'D#': 3, Eb: 3, E: 4, F: 5, 'F#': 6, Gb: 6,
+  G: 7, 'G#': 8, Ab: 8, A: 9, 'A#': 10, Bb: 10, B: 11,
+};
+
+/**
+ * Camelot → clase de tono (0 = C ... 11 = B) y modo
+ * 8B = C mayor, 8A = A menor; cada paso en la rueda es una quinta (7 semitonos)
+ */
+export function camelotATono(camelot: string | null | undefined): { tono: number; menor: boolean } | null {
+  const clave = parseCamelot(camelot);
+  if (!clave) return null;
+  const menor = clave.letter === 'A';
+  const tono = ((menor ? 9 : 0) + 7 * (clave.number - 8)) % 12;
+  return { tono: (tono + 12) % 12, menor };
+}
+
+export function tonoACamelot(tono: number, menor: boolean): string {
+  // 7 es su propio inverso módulo 12: pasos = 7 * (tono - tono de la casilla 8)
+  const pasos = (7 * (tono - (menor ? 9 : 0))) % 12;
+  return `${((pasos + 12) % 12 + 7) % 12 + 1}${menor ? 'A' : 'B'}`;
+}
+
+/**
+ * Nombre musical (Am, F#m, Db...) como lo escribe Rekordbox
+ */
+export function camelotANota(camelot: string | null | undefined): string | null {
+  const tono = camelotATono(camelot);
+  if (!tono) return null;
+  return (tono.menor ? NOTAS_MENOR : NOTAS_MAYOR)[tono.tono];
+}
+
+/**
+ * Camelot desde cualquier notación que escriban los programas (8A, Am, F#m, Dbmaj...)
+ */
+export function tonalidadACamelot(valor: string | null | undefined): string | null {
+  const texto = valor?.trim();
+  if (!texto) return null;
+  const camelot = parseCamelot(texto);
+  if (camelot) return `${camelot.number}${camelot.letter}`;
+
+  const match = texto.match(/^([A-G])([#b]?)\s*(m|min|minor|maj|major)?$/i);
+  if (!match) return null;
+  const nota = match[1].toUpperCase() + match[2];
+  const tono = SEMITONO_NOTA[nota];
+  if (tono === undefined) return null;
+  return tonoACamelot(tono, /^m(in(or)?)?$/i.test(match[3] ?? ''));
+}
+
+/**
+ * Color de un hot cue según la estrategia que aparece en su nombre ("IN DROP_SWAP 87")
+ * Traktor no guarda colores: al importar se recuperan así
+ */
+export function colorDeNombreCue(nombre: string): ColorDJ | null {
+  const estrategia = ESTRATEGIAS.find(e => nombre.split(/\s+/).includes(e));
+  return estrategia ? { ...COLORES_ESTRATEGIA[estrategia] } : null;
+}
+
+/**
+ * Orden estable de las marcas (los formatos no garantizan el orden al leer)
+ */
+export function ordenarMarcas(marcas: MarcaDJ[]): MarcaDJ[] {
+  return [...marcas].sort((a, b) =>
+    a.inicioMs - b.inicioMs ||
+    a.tipo.localeCompare(b.tipo) ||
+    (a.hotCue ?? -1) - (b.hotCue ?? -1) ||
+    a.nombre.localeCompare(b.nombre)
+  );
+}
+
+// ===================================================================
+// CONSTRUCCIÓN DESDE canciones_analizadas
+// ===================================================================
+
+const redondearBpm = (bpm: number) => Math.round(bpm * 100) / 100;
+
+/**
+ * Beat grid: un marcador en el primer downbeat con el BPM de la canción y uno
+ * nuevo en cada downbeat que se aleja del grid anterior (tempo variable)
+ */
+export function construirGrid(cancion: CancionAnalizada): MarcadorGrid[] {
+  const beatsPorCompas = cancion.compas?.numerador || 4;
+  const downbeats = (cancion.downbeats_ts_ms?.length ? cancion.downbeats_ts_ms : cancion.beats_ts_ms?.slice(0, 1)) ?? [];
+  const primerDownbeat = downbeats.length > 0 ? Math.round(downbeats[0]) : 0;
+
+  let bpm = cancion.bpm;
+  if (!bpm && downbeats.length >= 2) {
+    bpm = beatsPorCompas * 60000 * (downbeats.length - 1) / (downbeats[downbeats.length - 1] - downbeats[0]);
+  }
+  if (!bpm || !Number.isFinite(bpm)) return [];
+
+  const grid: MarcadorGrid[] = [{ inicioMs: primerDownbeat, bpm: redondearBpm(bpm), beatsPorCompas }];
+  let ancla = 0;
+
+  for (let i = 1; i < downbeats.length; i++) {
+    const actual = grid[grid.length - 1];
+    const compasMs = beatsPorCompas * 60000 / actual.bpm;
+    const esperado = downbeats[ancla] + (i - ancla) * compasMs;
+    if (Math.abs(downbeats[i] - esperado) <= DERIVA_MAX_MS) continue;
+
+    // El tempo del tramo nuevo se mide con el compás que empieza aquí
+    const siguiente = downbeats[i + 1];
+    const bpmTramo = siguiente !== undefined ? beatsPorCompas * 60000 / (siguiente - downbeats[i]) : actual.bpm;
+    ancla = i;
+    grid.push({ inicioMs: Math.round(downbeats[i]), bpm: redondearBpm(bpmTramo), beatsPorCompas });
+  }
+
+  return grid;
+}
+
+const nombreCue = (tipo: 'IN' | 'OUT', cue: CuePoint) => `${tipo} ${cue.strategy} ${Math.round(cue.score)}`;
+
+// Un hot cue por posición (el planner da varias estrategias para el mismo punto)
+function hotCues(cues: CuePoint[], tipo: 'IN' | 'OUT', primerSlot: number, max: number): MarcaDJ[] {
+  const posiciones = new Set<number>();
+  return [...cues]
+    .sort((a, b) => b.score - a.score)
+    .filter(cue => {
+      const posicion = Math.round(cue.pointMs);
+      if (posiciones.has(posicion)) return false;
+      posiciones.add(posicion);
+      return true;
+    })
+    .slice(0, max)
+    .map((cue, i) => ({
+      tipo: 'cue' as const,
+      hotCue: primerSlot + i,
+      nombre: nombreCue(tipo, cue),
+      inicioMs: Math.round(cue.pointMs),
+      finMs: null,
+      color: { ...COLORES_ESTRATEGIA[cue.strategy] },
+    }));
+}
+
+/**
+ * Pista exportable (sin ubicación) con grid, hot cues del planner, loops y secciones
+ */
+export function construirPistaDJ(
+  cancion: CancionAnalizada,
+  plan: { bestEntryPoints: CuePoint[]; bestExitPoints: CuePoint[] } | undefined,
+  ubicacion: string
+): PistaDJ {
+  const loops: MarcaDJ[] = (cancion.loops_transicion ?? [])
+    .map(loop => ({
+      tipo: 'loop' as const,
+      hotCue: null,
+      nombre: loop.texto || 'Loop',
+      inicioMs: parseTimeStringToMs(loop.inicio),
+      finMs: parseTimeStringToMs(loop.fin),
+      color: null,
+    }))
+    .filter(loop => loop.finMs > loop.inicioMs);
+
+  const secciones: MarcaDJ[] = (cancion.timeline ?? []).map(seg => ({
+    tipo: 'cue' as const,
+    hotCue: null,
+    nombre: `${NOMBRES_SECCION[seg.tipo_seccion] ?? seg.tipo_seccion}${seg.has_vocals ? ' · voz' : ''}`,
+    inicioMs: parseTimeStringToMs(seg.inicio),
+    finMs: null,
+    color: null,
+  }));
+
+  return {
+    hash: cancion.hash_archivo,
+    ubicacion,
+    titulo: cancion.titulo,
+    artista: cancion.artista || null,
+    album: cancion.album || null,
+    genero: cancion.genero || null,
+    duracionS: Math.round(cancion.duracion_ms / 1000),
+    bpm: cancion.bpm ? redondearBpm(cancion.bpm) : null,
+    tonalidad: tonalidadACamelot(cancion.tonalidad_camelot),
+    grid: construirGrid(cancion),
+    marcas: ordenarMarcas([
+      ...hotCues(plan?.bestEntryPoints ?? [], 'IN', 0, MAX_HOT_CUES_ENTRADA),
+      ...hotCues(plan?.bestExitPoints ?? [], 'OUT', PRIMER_HOT_CUE_SALIDA, MAX_HOT_CUES_SALIDA),
+      ...loops,
+      ...secciones,
+    ]),
+  };
+}
+
+/**
+ * Ruta del audio de un hash: la copia de la biblioteca (la que usa el DJ) o la del almacén
+ * Con raiz, la carpeta de la biblioteca se sustituye por esa (p. ej. el USB de los CDJ)
+ */
+async function ubicacionDeHash(hash: string, raiz?: string): Promise<string | null> {
+  const rutaBiblioteca = await obtenerRutaAudioDeBiblioteca(hash);
+  const directorio = obtenerDirectorioBiblioteca();
+  if (rutaBiblioteca && directorio && raiz) {
+    return join(raiz, relative(directorio, rutaBiblioteca)).split('\\').join('/');
+  }
+  return rutaBiblioteca ?? await obtenerRutaAudioCacheado(hash);
+}
+
+/**
+ * Colección con las canciones pedidas (en orden) y, si se indica, una lista con ellas
+ * Las canciones sin audio en el servidor se omiten (el software DJ no podría cargarlas)
+ */
+export async function construirColeccionDJ(params: {
+  hashes: string[];
+  lista?: string;
+  raiz?: string;
+}): Promise<{ coleccion: ColeccionDJ; omitidas: string[] }> {
+  const canciones = await obtenerCancionesPorHashes(params.hashes);
+  if (canciones.length === 0) {
+    throw new ExportacionDJError('No se encontraron canciones analizadas para exportar');
+  }
+
+  const porHash = new Map(canciones.map(c => [c.hash_archivo, c]));
+  const planes = new Map(buildMixPlan(canciones).map(p => [p.hash, p]));
+  const pistas: PistaDJ[] = [];
+  const omitidas: string[] = [];
+
+  for (const hash of new Set(params.hashes)) {
+    const cancion = porHash.get(hash);
+    const ubicacion = cancion ? await ubicacionDeHash(hash, params.raiz) : null;
+    if (!cancion || !ubicacion) {
+      omitidas.push(hash);
+      continue;
+    }
+    pistas.push(construirPistaDJ(cancion, planes.get(hash), ubicacion));
+  }
+
+  if (pistas.length === 0) {
+    throw new ExportacionDJError('Ninguna canción tiene el audio en el servidor (súbelo o añádelo a la biblioteca)');
+  }
+
+  const ubicaciones = new Map(pistas.map(p => [p.hash, p.ubicacion]));
+  const listas: ListaDJ[] = params.lista
+    ? [{ nombre: params.lista, ubicaciones: params.hashes.flatMap(h => ubicaciones.get(h) ?? []) }]
+    : [];
+
+  return { coleccion: { pistas, listas }, omitidas };
+}
+
+// ===================================================================
+// IMPORTACIÓN: DE UBICACIÓN A HASH
+// ===================================================================
+
+async function hashDeUbicacion(ubicacion: string, raiz?: string): Promise<string | null> {
+  // Archivo del almacén: el nombre es el hash
+  const nombre = basename(ubicacion, extname(ubicacion)).toLowerCase();
+  if (esHashAudio(nombre)) return nombre;
+
+  // Exportado con raiz: se vuelve a la carpeta de la biblioteca
+  const directorio = obtenerDirectorioBiblioteca();
+  let ruta = ubicacion;
+  if (raiz && directorio) {
+    const dentro = relative(resolve(raiz), resolve(ubicacion));
+    if (!dentro.startsWith('..')) ruta = join(directorio, dentro);
+  }
+
+  const enBiblioteca = await obtenerHashDeRutaBiblioteca(ruta);
+  if (enBiblioteca) return enBiblioteca;
+
+  try {
+    if ((await stat(ruta)).isFile()) return await calcularHashArchivo(ruta);
+  } catch {
+    // No existe en este equipo
+  }
+  return null;
+}
+
+/**
+ * Rellena el hash de cada pista importada; devuelve las ubicaciones no reconocidas
+ */
+export async function resolverHashesColeccion(coleccion: ColeccionDJ, raiz?: string): Promise<string[]> {
+  const sinReconocer: string[] = [];
+  for (const pista of coleccion.pistas) {
+    pista.hash = await hashDeUbicacion(pista.ubicacion, raiz);
+    if (!pista.hash) sinReconocer.push(pista.ubicacion);
+  }
+  return sinReconocer;
+}
+
+// ===================================================================
+// XML (Rekordbox y Traktor: elementos con atributos, sin texto)
+// ===================================================================
+
+export interface NodoXml {
+  nombre: string;
+  atributos: Record<string, string>;
+  hijos: NodoXml[];
+}
+
+export function escaparXml(valor: string | number): string {
+  return String(valor)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#10;');
+}
+
+function desescaparXml(valor: string): string {
+  return valor.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entidad: string) => {
+    if (entidad[0] === '#') {
+      const codigo = entidad[1].toLowerCase() === 'x' ? parseInt(entidad.slice(2), 16) : parseInt(entidad.slice(1), 10);
+      return String.fromCodePoint(codigo);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entidad.toLowerCase()]!;
+  });
+}
+
+/**
+ * Elemento con atributos (los undefined/null se omiten) e hijos ya serializados
+ */
+export function elementoXml(
+  nombre: string,
+  atributos: Record<string, string | number | null | undefined>,
+  hijos: string[] = [],
+  sangria = ''
+): string {
+  const attrs = Object.entries(atributos)
+    .filter(([, valor]) => valor !== undefined && valor !== null)
+    .map(([clave, valor]) => ` ${clave}="${escaparXml(valor!)}"`)
+    .join('');
+  if (hijos.length === 0) return `${sangria}<${nombre}${attrs}/>`;
+  return `${sangria}<${nombre}${attrs}>\n${hijos.join('\n')}\n${sangria}</${nombre}>`;
+}
+
+/**
+ * Parser mínimo: elementos y atributos; ignora texto, comentarios y declaraciones
+ */
+export function parsearXml(texto: string): NodoXml {
+  const raiz: NodoXml = { nombre: '#documento', atributos: {}, hijos: [] };
+  const pila: NodoXml[] = [raiz];
+  const etiqueta = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>/g;
+  const atributo = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = etiqueta.exec(texto))) {
+    const [, cierre, nombre, attrs, autocierre] = match;
+    if (!nombre) continue;
+
+    if (cierre) {
+      if (pila.length === 1 || pila[pila.length - 1].nombre !== nombre) {
+        throw new ExportacionDJError(`XML mal formado: cierre inesperado </${nombre}>`);
+      }
+      pila.pop();
+      continue;
+    }
+
+    const nodo: NodoXml = { nombre, atributos: {}, hijos: [] };
+    for (const [, clave, comillasDobles, comillasSimples] of attrs.matchAll(atributo)) {
+      nodo.atributos[clave] = desescaparXml(comillasDobles ?? comillasSimples);
+    }
+    pila[pila.length - 1].hijos.push(nodo);
+    if (!autocierre) pila.push(nodo);
+  }
+
+  if (pila.length > 1) {
+    throw new ExportacionDJError(`XML mal formado: falta cerrar <${pila[pila.length - 1].nombre}>`);
+  }
+  return raiz;
+}
+
+export function hijosXml(nodo: NodoXml | undefined, nombre: string): NodoXml[] {
+  return nodo?.hijos.filter(h => h.nombre === nombre) ?? [];
+}
+
+export function hijoXml(nodo: NodoXml | undefined, nombre: string): NodoXml | undefined {
+  return nodo?.hijos.find(h => h.nombre === nombre);
+}
+
+/**
+ * Número de un atributo (null si falta o no es numérico)
+ */
+export function numeroXml(nodo: NodoXml | undefined, atributo: string): number | null {
+  const valor = nodo?.atributos[atributo];
+  if (valor === undefined || valor.trim() === '') return null;
+  const numero = Number(valor);
+  return Number.isFinite(numero) ? numero : null;
+}
+
+export function textoXml(nodo: NodoXml | undefined, atributo: string): string | null {
+  const valor = nodo?.atributos[atributo]?.trim();
+  return valor ? valor : null;
+}
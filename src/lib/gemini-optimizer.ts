@@ -23,6 +23,10 @@ import * as path from 'path';
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
+// Se guardan con cada versión de análisis: subir GEMINI_PROMPT_VERSION al cambiar el prompt o el schema
+export const GEMINI_MODEL = 'models/gemini-flash-latest';
+export const GEMINI_PROMPT_VERSION = '1.0.0';
+
 const ENABLE_DEBUG_LOGGING = false; // Deshabilitado para producción
 const DEBUG_LOG_DIR = path.join(process.cwd(), '.gemini', 'debug');
 
@@ -371,7 +375,7 @@ USA FORMATO "MM:SS.d" (Ej: "01:30.5", "02:45.2").`;
 
       // Usamos gemini-flash-latest por ser más estable y tener mejores cuotas que el experimental
       response = await ai.models.generateContent({
-        model: 'models/gemini-flash-latest',
+        model: GEMINI_MODEL,
         contents: [{ role: 'user', parts }],
         config: {
           temperature: 1.0,
@@ -0,0 +1,43 @@
+/**
+ * Cabeceras condicionales y de rango de HTTP (Range, If-None-Match)
+ * Las usa /api/audio/[hash] para servir audio por trozos al reproductor
+ */
+
+export type Rango = { inicio: number; fin: number };
+
+/**
+ * Interpreta una cabecera Range de un solo rango
+ * null = sin Range (o no soportado: se sirve entero), 'invalido' = 416
+ */
+export function parsearRango(cabecera: string | null, tamano: number): Rango | 'invalido' | null {
+  if (!cabecera) return null;
+  const partes = /^bytes=(\d*)-(\d*)$/.exec(cabecera.trim());
+  // Varios rangos o unidades distintas de bytes: se ignora la cabecera (RFC 9110)
+  if (!partes) return null;
+
+  const [, desde, hasta] = partes;
+  if (desde === '' && hasta === '') return 'invalido';
+
+  if (desde === '') {
+    // Sufijo: los últimos N bytes
+    const sufijo = Number(hasta);
+    if (sufijo === 0 || tamano === 0) return 'invalido';
+    return { inicio: Math.max(0, tamano - sufijo), fin: tamano - 1 };
+  }
+
+  const inicio = Number(desde);
+  const fin = hasta === '' ? tamano - 1 : Math.min(Number(hasta), tamano - 1);
+  if (inicio >= tamano || fin < inicio) return 'invalido';
+  return { inicio, fin };
+}
+
+/**
+ * If-None-Match: lista de ETags (débiles o fuertes) o *
+ */
+export function coincideEtag(cabecera: string | null, etag: string): boolean {
+  if (!cabecera) return false;
+  return cabecera.split(',').some(valor => {
+    const limpio = valor.trim().replace(/^W\//, '');
+    return limpio === '*' || limpio === etag;
+  });
+}
@@ -0,0 +1,290 @@
+/**
+ * Consulta de la biblioteca (canciones_analizadas) con filtros y paginación por cursor
+ *
+ * Los filtros se combinan con AND. El cursor es keyset (valor de la columna de
+ * orden + id), así las páginas no se desplazan aunque se analicen canciones nuevas
+ * mientras se navega. Se devuelven solo las columnas útiles para listar: los
+ * arrays de beats/downbeats se piden por hash a /api/analyze.
+ */
+
+import { PostgresRequeridoError, sql } from './db';
+import type { BpmCandidato, TimelineSegment } from './db';
+import { tonalidadesCompatibles } from './mix-harmonic';
+
+export const LIBRARY_SORTS = ['titulo', 'artista', 'anio', 'bpm', 'bailabilidad', 'duracion', 'fecha'] as const;
+export type LibrarySort = typeof LIBRARY_SORTS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export { SECCIONES_TIMELINE } from './db';
+
+export interface LibraryFilters {
+  q?: string;                     // Texto en título, artista, álbum, sello, género, ISRC o comentarios
+  artista?: string;               // Exacto (sin distinguir mayúsculas)
+  album?: string;
+  genero?: string;
+  sello?: string;
+  isrc?: string;
+  anioMin?: number;
+  anioMax?: number;
+  etiquetas?: string[];           // Debe tener todas
+  bpmMin?: number;
+  bpmMax?: number;
+  key?: string;                   // Camelot (8A)
+  compatible?: boolean;           // key + sus compatibles (misma, ±1, relativa)
+  bailabilidadMin?: number;
+  bailabilidadMax?: number;
+  duracionMinMs?: number;
+  duracionMaxMs?: number;
+  introSinVozMinS?: number;       // Segundos sin voz desde el principio
+  outroSinVozMinS?: number;       // Segundos sin voz hasta el final
+  secciones?: TimelineSegment['tipo_seccion'][]; // Debe contener todas
+  conTimeline?: boolean;          // Enriquecida (o no) por Gemini
+}
+
+export interface LibraryQuery extends LibraryFilters {
+  sort: LibrarySort;
+  order: SortOrder;
+  limit: number;
+  cursor?: string | null;
+}
+
+export interface LibraryTrack {
+  id: string;
+  hash_archivo: string;
+  titulo: string;
+  duracion_ms: number;
+  bpm: number | null;
+  bpm_candidatos: BpmCandidato[];
+  tonalidad_camelot: string | null;
+  tonalidad_compatible: string[];
+  bailabilidad: number | null;
+  compas: { numerador: number; denominador: number } | null;
+  artista: string | null;
+  album: string | null;
+  anio: number | null;
+  genero: string | null;
+  sello: string | null;
+  isrc: string | null;
+  comentarios: string | null;
+  etiquetas: string[];
+  timeline: TimelineSegment[];
+  intro_sin_voz_s: number | null; // null sin timeline
+  outro_sin_voz_s: number | null;
+  fecha_procesado: Date;
+}
+
+export interface LibraryPage {
+  tracks: LibraryTrack[];
+  nextCursor: string | null;
+}
+
+interface CursorData {
+  s: LibrarySort;
+  o: SortOrder;
+  v: string | number;
+  id: string;
+}
+
+export class CursorInvalidoError extends Error {
+  constructor(message = 'Cursor inválido') {
+    super(message);
+    this.name = 'CursorInvalidoError';
+  }
+}
+
+// Expresión y tipo SQL de cada orden (el tipo sirve para castear el valor del cursor)
+// La fecha se trunca a milisegundos: el cursor la lleva como Date de JS y con los
+// microsegundos de NOW() se repetirían o saltarían filas del mismo milisegundo
+const SORT_COLUMNS: Record<LibrarySort, { expr: string; tipo: string; campo: keyof LibraryTrack }> = {
+  titulo: { expr: 'titulo', tipo: 'text', campo: 'titulo' },
+  artista: { expr: "COALESCE(artista, '')", tipo: 'text', campo: 'artista' },
+  anio: { expr: 'COALESCE(anio, 0)', tipo: 'int4', campo: 'anio' },
+  bpm: { expr: 'COALESCE(bpm, 0)', tipo: 'float8', campo: 'bpm' },
+  bailabilidad: { expr: 'COALESCE(bailabilidad, 0)', tipo: 'float8', campo: 'bailabilidad' },
+  duracion: { expr: 'duracion_ms', tipo: 'int4', campo: 'duracion_ms' },
+  fecha: {
+    expr: "date_trunc('milliseconds', COALESCE(fecha_procesado, 'epoch'::timestamptz))",
+    tipo: 'timestamptz',
+    campo: 'fecha_procesado',
+  },
+};
+
+/**
+ * "MM:SS.d" (o segundos sueltos) de un segmento del timeline → segundos en SQL
+ * Formatos inesperados dan NULL en vez de romper la consulta
+ */
+function segundosSQL(expr: string): string {
+  return `(CASE
+    WHEN ${expr} ~ '^\\d+:\\d+(\\.\\d+)?$' THEN split_part(${expr}, ':', 1)::float8 * 60 + split_part(${expr}, ':', 2)::float8
+    WHEN ${expr} ~ '^\\d+(\\.\\d+)?$' THEN (${expr})::float8
+  END)`;
+}
+
+// Segundos hasta la primera voz / desde la última voz (sin voz en todo el tema = duración)
+const INTRO_SIN_VOZ_SQL = `(CASE WHEN jsonb_array_length(timeline) = 0 THEN NULL ELSE COALESCE(
+  (SELECT MIN(${segundosSQL("seg->>'inicio'")}) FROM jsonb_array_elements(timeline) seg WHERE (seg->>'has_vocals')::boolean),
+  duracion_ms / 1000.0
+) END)`;
+const OUTRO_SIN_VOZ_SQL = `(CASE WHEN jsonb_array_length(timeline) = 0 THEN NULL ELSE duracion_ms / 1000.0 - COALESCE(
+  (SELECT MAX(${segundosSQL("seg->>'fin'")}) FROM jsonb_array_elements(timeline) seg WHERE (seg->>'has_vocals')::boolean),
+  0
+) END)`;
+
+// Mismo valor que la expresión de orden (los COALESCE de las columnas opcionales)
+function valorCursor(sort: LibrarySort, valor: unknown): string | number {
+  if (valor instanceof Date) return valor.toISOString();
+  if (valor === null || valor === undefined) {
+    if (sort === 'fecha') return new Date(0).toISOString();
+    return sort === 'artista' ? '' : 0;
+  }
+  return valor as string | number;
+}
+
+function codificarCursor(data: CursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+function decodificarCursor(cursor: string, sort: LibrarySort, order: SortOrder): CursorData {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new CursorInvalidoError();
+  }
+  if (!data || typeof data.id !== 'string' || (typeof data.v !== 'string' && typeof data.v !== 'number')) {
+    throw new CursorInvalidoError();
+  }
+  if (data.s !== sort || data.o !== order) {
+    throw new CursorInvalidoError('El cursor es de otra ordenación: repite la consulta desde la primera página');
+  }
+  return data;
+}
+
+const CAMPOS_BUSQUEDA = ['titulo', 'artista', 'album', 'sello', 'genero', 'isrc', 'comentarios'];
+
+function escaparLike(texto: string): string {
+  return texto.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+/**
+ * Condiciones WHERE (y sus parámetros) de los filtros
+ */
+export function construirFiltrosBiblioteca(filtros: LibraryFilters, params: unknown[]): string[] {
+  const p = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const where: string[] = [];
+
+  if (filtros.q) {
+    const patron = p(`%${escaparLike(filtros.q)}%`);
+    where.push(`(${CAMPOS_BUSQUEDA.map(campo => `${campo} ILIKE ${patron}`).join(' OR ')})`);
+  }
+  if (filtros.artista) where.push(`LOWER(artista) = LOWER(${p(filtros.artista)})`);
+  if (filtros.album) where.push(`LOWER(album) = LOWER(${p(filtros.album)})`);
+  if (filtros.genero) where.push(`LOWER(genero) = LOWER(${p(filtros.genero)})`);
+  if (filtros.sello) where.push(`LOWER(sello) = LOWER(${p(filtros.sello)})`);
+  if (filtros.isrc) where.push(`isrc = ${p(filtros.isrc)}`);
+  if (filtros.anioMin !== undefined) where.push(`anio >= ${p(filtros.anioMin)}`);
+  if (filtros.anioMax !== undefined) where.push(`anio <= ${p(filtros.anioMax)}`);
+  // @> usa el índice GIN idx_etiquetas
+  if (filtros.etiquetas && filtros.etiquetas.length > 0) {
+    where.push(`etiquetas @> ${p(JSON.stringify(filtros.etiquetas))}::jsonb`);
+  }
+  if (filtros.bpmMin !== undefined) where.push(`bpm >= ${p(filtros.bpmMin)}`);
+  if (filtros.bpmMax !== undefined) where.push(`bpm <= ${p(filtros.bpmMax)}`);
+
+  if (filtros.key) {
+    const keys = filtros.compatible ? tonalidadesCompatibles(filtros.key) : [filtros.key.trim().toUpperCase()];
+    where.push(`tonalidad_camelot = ANY(${p(keys)}::text[])`);
+  }
+
+  if (filtros.bailabilidadMin !== undefined) where.push(`bailabilidad >= ${p(filtros.bailabilidadMin)}`);
+  if (filtros.bailabilidadMax !== undefined) where.push(`bailabilidad <= ${p(filtros.bailabilidadMax)}`);
+  if (filtros.duracionMinMs !== undefined) where.push(`duracion_ms >= ${p(filtros.duracionMinMs)}`);
+  if (filtros.duracionMaxMs !== undefined) where.push(`duracion_ms <= ${p(filtros.duracionMaxMs)}`);
+
+  if (filtros.introSinVozMinS !== undefined) where.push(`${INTRO_SIN_VOZ_SQL} >= ${p(filtros.introSinVozMinS)}`);
+  if (filtros.outroSinVozMinS !== undefined) where.push(`${OUTRO_SIN_VOZ_SQL} >= ${p(filtros.outroSinVozMinS)}`);
+
+  // @> usa el índice GIN idx_timeline
+  for (const seccion of filtros.secciones ?? []) {
+    where.push(`timeline @> ${p(JSON.stringify([{ tipo_seccion: seccion }]))}::jsonb`);
+  }
+
+  if (filtros.conTimeline === true) where.push(`jsonb_array_length(timeline) > 0`);
+  if (filtros.conTimeline === false) where.push(`jsonb_array_length(timeline) = 0`);
+
+  return where;
+}
+
+/**
+ * Una página de la biblioteca
+ */
+export async function consultarBiblioteca(query: LibraryQuery): Promise<LibraryPage> {
+  if (!sql) throw new PostgresRequeridoError('Consulta de la biblioteca');
+
+  const params: unknown[] = [];
+  const where = construirFiltrosBiblioteca(query, params);
+  const { expr, tipo, campo } = SORT_COLUMNS[query.sort];
+  const direccion = query.order === 'asc' ? 'ASC' : 'DESC';
+
+  if (query.cursor) {
+    const cursor = decodificarCursor(query.cursor, query.sort, query.order);
+    params.push(cursor.v, cursor.id);
+    const comparador = query.order === 'asc' ? '>' : '<';
+    where.push(`(${expr}, id) ${comparador} ($${params.length - 1}::${tipo}, $${params.length}::uuid)`);
+  }
+
+  // Una fila de más para saber si hay página siguiente
+  params.push(query.limit + 1);
+  const texto = `
+    SELECT
+      id, hash_archivo, titulo, duracion_ms, bpm, bpm_candidatos, tonalidad_camelot,
+      tonalidad_compatible, bailabilidad, compas, timeline, fecha_procesado,
+      artista, album, anio, genero, sello, isrc, comentarios, etiquetas,
+      ${INTRO_SIN_VOZ_SQL} AS intro_sin_voz_s,
+      ${OUTRO_SIN_VOZ_SQL} AS outro_sin_voz_s
+    FROM canciones_analizadas
+    ${where.length > 0 ? `WHERE ${where.join('\n      AND ')}` : ''}
+    ORDER BY ${expr} ${direccion}, id ${direccion}
+    LIMIT $${params.length}
+  `;
+
+  const filas = await sql.query(texto, params) as LibraryTrack[];
+  const hayMas = filas.length > query.limit;
+  const tracks = filas.slice(0, query.limit).map(fila => ({
+    ...fila,
+    intro_sin_voz_s: fila.intro_sin_voz_s === null ? null : Math.round(Number(fila.intro_sin_voz_s) * 10) / 10,
+    outro_sin_voz_s: fila.outro_sin_voz_s === null ? null : Math.round(Number(fila.outro_sin_voz_s) * 10) / 10,
+  }));
+
+  let nextCursor: string | null = null;
+  if (hayMas) {
+    const ultimo = tracks[tracks.length - 1];
+    const valor = ultimo[campo];
+    nextCursor = codificarCursor({
+      s: query.sort,
+      o: query.order,
+      v: valorCursor(query.sort, valor),
+      id: ultimo.id,
+    });
+  }
+
+  return { tracks, nextCursor };
+}
+
+/**
+ * Total de canciones que cumplen los filtros (sin paginar)
+ */
+export async function contarBiblioteca(filtros: LibraryFilters): Promise<number> {
+  if (!sql) throw new PostgresRequeridoError('Consulta de la biblioteca');
+
+  const params: unknown[] = [];
+  const where = construirFiltrosBiblioteca(filtros, params);
+  const filas = await sql.query(
+    `SELECT COUNT(*)::int AS total FROM canciones_analizadas ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}`,
+    params
+  );
+  return filas[0]?.total ?? 0;
+}
@@ -0,0 +1,393 @@
+/**
+ * Sincronización de la biblioteca local (tabla archivos_biblioteca)
+ *
+ * Recorre MUSIC_LIBRARY_DIR y deja la BD como espejo del disco:
+ * - Archivos nuevos o modificados → hash SHA-256 (el mismo que /api/analyze) y a la cola
+ * - Mismo hash en otra ruta → movido/renombrado (se conserva el análisis, no se re-encola)
+ * - Rutas que ya no existen → estado 'ausente'
+ *
+ * Solo se re-hashea cuando cambian tamaño o mtime; un re-escaneo sin cambios
+ * no lee el audio. Las rutas se guardan relativas a la raíz de la biblioteca.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, watch, type FSWatcher } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, join, relative, resolve, sep } from 'path';
+import { PostgresRequeridoError, sql } from './db';
+import { encolarSiFaltaAnalisis } from './analysis-jobs';
+import { isAudioFileName, resolveMimeType, type CachedAudio } from './audio-cache';
+
+export type EstadoArchivo = 'presente' | 'ausente';
+
+export interface ArchivoBiblioteca {
+  ruta: string;
+  hash_archivo: string;
+  tamano_bytes: number;
+  modificado_ms: number;
+  estado: EstadoArchivo;
+  fecha_alta: Date;
+  fecha_visto: Date;
+  fecha_ausente?: Date | null;
+}
+
+export interface ResultadoSincronizacion {
+  directorio: string;
+  archivos: number;
+  sinCambios: number;
+  nuevos: number;
+  modificados: number;
+  movidos: { de: string; a: string }[];
+  ausentes: number;
+  encolados: number;
+  errores: { ruta: string; error: string }[];
+  duracionMs: number;
+}
+
+interface ArchivoEnDisco {
+  ruta: string;
+  rutaAbsoluta: string;
+  tamano: number;
+  modificadoMs: number;
+}
+
+// Espera tras el último evento del watcher antes de re-escanear (copias de carpetas enteras)
+const WATCH_DEBOUNCE_MS = 5_000;
+
+let sincronizacionEnCurso: Promise<ResultadoSincronizacion> | null = null;
+// Se pidió otra sincronización durante la actual: lo cambiado a mitad de escaneo puede no estar
+let resincronizarPendiente = false;
+let ultimaSincronizacion: ResultadoSincronizacion | null = null;
+let watcher: FSWatcher | null = null;
+
+/**
+ * Raíz de la biblioteca configurada (MUSIC_LIBRARY_DIR), o null si no hay
+ */
+export function obtenerDirectorioBiblioteca(): string | null {
+  const dir = process.env.MUSIC_LIBRARY_DIR?.trim();
+  return dir ? resolve(dir) : null;
+}
+
+export function obtenerUltimaSincronizacion(): ResultadoSincronizacion | null {
+  return ultimaSincronizacion;
+}
+
+export function sincronizacionActiva(): boolean {
+  return sincronizacionEnCurso !== null;
+}
+
+/**
+ * SHA-256 del archivo por streaming (mismo resultado que calcularHashBuffer sin cargarlo entero)
+ */
+export function calcularHashArchivo(rutaAbsoluta: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(rutaAbsoluta)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolvePromise(hash.digest('hex')));
+  });
+}
+
+async function recorrerDirectorio(raiz: string, dir: string, archivos: ArchivoEnDisco[]): Promise<void> {
+  const entradas = await readdir(dir, { withFileTypes: true });
+
+  for (const entrada of entradas) {
+    // Ocultos: .DS_Store, ._AppleDouble, papeleras, etc.
+    if (entrada.name.startsWith('.')) continue;
+    const rutaAbsoluta = join(dir, entrada.name);
+
+    if (entrada.isDirectory()) {
+      await recorrerDirectorio(raiz, rutaAbsoluta, archivos);
+    } else if (entrada.isFile() && isAudioFileName(entrada.name)) {
+      const info = await stat(rutaAbsoluta);
+      archivos.push({
+        // Separador POSIX en la BD para que la misma biblioteca sirva desde cualquier SO
+        ruta: relative(raiz, rutaAbsoluta).split(sep).join('/'),
+        rutaAbsoluta,
+        tamano: info.size,
+        modificadoMs: Math.floor(info.mtimeMs),
+      });
+    }
+  }
+}
+
+async function encolarArchivo(archivo: ArchivoEnDisco, hash: string): Promise<boolean> {
+  const fileName = basename(archivo.ruta);
+  const { job } = await encolarSiFaltaAnalisis({
+    hash,
+    fileName,
+    mimeType: resolveMimeType(fileName),
+  });
+  return job !== null;
+}
+
+async function ejecutarSincronizacion(raiz: string): Promise<ResultadoSincronizacion> {
+  if (!sql) throw new PostgresRequeridoError('Biblioteca local');
+
+  const inicio = Date.now();
+  const resultado: ResultadoSincronizacion = {
+    directorio: raiz,
+    archivos: 0,
+    sinCambios: 0,
+    nuevos: 0,
+    modificados: 0,
+    movidos: [],
+    ausentes: 0,
+    encolados: 0,
+    errores: [],
+    duracionMs: 0,
+  };
+
+  const enDisco: ArchivoEnDisco[] = [];
+  await recorrerDirectorio(raiz, raiz, enDisco);
+  resultado.archivos = enDisco.length;
+
+  const filas = await sql`SELECT * FROM archivos_biblioteca` as ArchivoBiblioteca[];
+  const porRuta = new Map(filas.map(fila => [fila.ruta, fila]));
+  const rutasEnDisco = new Set(enDisco.map(archivo => archivo.ruta));
+
+  // Filas cuya ruta desapareció, por hash: candidatas a ser el origen de un movimiento
+  const desaparecidasPorHash = new Map<string, ArchivoBiblioteca[]>();
+  for (const fila of filas) {
+    if (rutasEnDisco.has(fila.ruta)) continue;
+    const lista = desaparecidasPorHash.get(fila.hash_archivo) ?? [];
+    lista.push(fila);
+    desaparecidasPorHash.set(fila.hash_archivo, lista);
+  }
+
+  const sinCambios: string[] = [];
+
+  for (const archivo of enDisco) {
+    try {
+      const fila = porRuta.get(archivo.ruta);
+
+      if (
+        fila &&
+        fila.estado === 'presente' &&
+        Number(fila.tamano_bytes) === archivo.tamano &&
+        Number(fila.modificado_ms) === archivo.modificadoMs
+      ) {
+        sinCambios.push(archivo.ruta);
+        continue;
+      }
+
+      const hash = await calcularHashArchivo(archivo.rutaAbsoluta);
+
+      if (fila) {
+        // Ruta conocida: mtime tocado (mismo hash) o contenido nuevo
+        const cambiado = fila.hash_archivo !== hash;
+        await sql`
+          UPDATE archivos_biblioteca SET
+            hash_archivo = ${hash},
+            tamano_bytes = ${archivo.tamano},
+            modificado_ms = ${archivo.modificadoMs},
+            estado = 'presente',
+            fecha_visto = NOW(),
+            fecha_ausente = NULL
+          WHERE ruta = ${archivo.ruta}
+        `;
+        if (cambiado) {
+          resultado.modificados++;
+          if (await encolarArchivo(archivo, hash)) resultado.encolados++;
+        } else {
+          resultado.sinCambios++;
+        }
+        continue;
+      }
+
+      const origen = desaparecidasPorHash.get(hash)?.shift();
+      if (origen) {
+        // Movido o renombrado: la fila (y su análisis por hash) sigue siendo válida
+        await sql`
+          UPDATE archivos_biblioteca SET
+            ruta = ${archivo.ruta},
+            tamano_bytes = ${archivo.tamano},
+            modificado_ms = ${archivo.modificadoMs},
+            estado = 'presente',
+            fecha_visto = NOW(),
+            fecha_ausente = NULL
+          WHERE ruta = ${origen.ruta}
+        `;
+        resultado.movidos.push({ de: origen.ruta, a: archivo.ruta });
+        // Si el análisis quedó a medias antes de moverlo, se retoma
+        if (await encolarArchivo(archivo, hash)) resultado.encolados++;
+        continue;
+      }
+
+      await sql`
+        INSERT INTO archivos_biblioteca (
+          ruta, hash_archivo, tamano_bytes, modificado_ms, estado, fecha_alta, fecha_visto
+        ) VALUES (
+          ${archivo.ruta}, ${hash}, ${archivo.tamano}, ${archivo.modificadoMs}, 'presente', NOW(), NOW()
+        )
+      `;
+      resultado.nuevos++;
+      if (await encolarArchivo(archivo, hash)) resultado.encolados++;
+    } catch (error: any) {
+      console.warn(`⚠️ Biblioteca: no se pudo sincronizar ${archivo.ruta}:`, error);
+      resultado.errores.push({ ruta: archivo.ruta, error: error?.message || 'Error desconocido' });
+    }
+  }
+
+  if (sinCambios.length > 0) {
+    await sql`
+      UPDATE archivos_biblioteca SET fecha_visto = NOW()
+      WHERE ruta = ANY(${sinCambios}::text[])
+    `;
+    resultado.sinCambios += sinCambios.length;
+  }
+
+  // Lo que sigue sin aparecer en disco (y no se ha movido) queda marcado como ausente
+  const ausentes = [...desaparecidasPorHash.values()]
+    .flat()
+    .filter(fila => fila.estado === 'presente')
+    .map(fila => fila.ruta);
+  if (ausentes.length > 0) {
+    await sql`
+      UPDATE archivos_biblioteca SET estado = 'ausente', fecha_ausente = NOW()
+      WHERE ruta = ANY(${ausentes}::text[])
+    `;
+  }
+  resultado.ausentes = ausentes.length;
+
+  resultado.duracionMs = Date.now() - inicio;
+  return resultado;
+}
+
+/**
+ * Sincroniza la biblioteca con el disco
+ * Si ya hay una sincronización en curso devuelve esa misma (no se solapan) y
+ * deja otra pendiente para cuando termine
+ */
+export async function sincronizarBiblioteca(): Promise<ResultadoSincronizacion> {
+  const raiz = obtenerDirectorioBiblioteca();
+  if (!raiz) throw new Error('MUSIC_LIBRARY_DIR no está configurado');
+
+  if (sincronizacionEnCurso) {
+    resincronizarPendiente = true;
+    return sincronizacionEnCurso;
+  }
+
+  sincronizacionEnCurso = ejecutarSincronizacion(raiz)
+    .then(resultado => {
+      ultimaSincronizacion = resultado;
+      console.log(
+        `📚 Biblioteca sincronizada: ${resultado.archivos} archivos, ${resultado.nuevos} nuevos, ` +
+        `${resultado.modificados} modificados, ${resultado.movidos.length} movidos, ` +
+        `${resultado.ausentes} ausentes, ${resultado.encolados} encolados (${resultado.duracionMs} ms)`
+      );
+      return resultado;
+    })
+    .finally(() => {
+      sincronizacionEnCurso = null;
+      if (resincronizarPendiente) {
+        resincronizarPendiente = false;
+        sincronizarBiblioteca().catch(error => {
+          console.error('❌ Error sincronizando la biblioteca:', error);
+        });
+      }
+    });
+
+  return sincronizacionEnCurso;
+}
+
+/**
+ * Ruta en disco de una copia presente de un hash en la biblioteca (null si no hay)
+ * Solo vale una copia con el tamaño y la fecha de modificación del último escaneo:
+ * si el archivo se ha editado desde entonces ya no es ese hash
+ */
+export async function obtenerRutaAudioDeBiblioteca(hash: string): Promise<string | null> {
+  const raiz = obtenerDirectorioBiblioteca();
+  if (!raiz || !sql) return null;
+
+  const filas = await sql`
+    SELECT ruta, tamano_bytes, modificado_ms FROM archivos_biblioteca
+    WHERE hash_archivo = ${hash} AND estado = 'presente'
+    ORDER BY fecha_visto DESC
+  ` as Pick<ArchivoBiblioteca, 'ruta' | 'tamano_bytes' | 'modificado_ms'>[];
+
+  for (const fila of filas) {
+    const rutaAbsoluta = join(raiz, ...fila.ruta.split('/'));
+    try {
+      const info = await stat(rutaAbsoluta);
+      if (info.size === Number(fila.tamano_bytes) && Math.floor(info.mtimeMs) === Number(fila.modificado_ms)) {
+        return rutaAbsoluta;
+      }
+      // Modificado desde el último escaneo: el siguiente lo vuelve a hashear
+    } catch {
+      // Borrado desde el último escaneo: probar con otra copia
+    }
+  }
+  return null;
+}
+
+/**
+ * Hash de un archivo de la biblioteca por su ruta absoluta (null si está fuera o sin escanear)
+ */
+export async function obtenerHashDeRutaBiblioteca(rutaAbsoluta: string): Promise<string | null> {
+  const raiz = obtenerDirectorioBiblioteca();
+  if (!raiz || !sql) return null;
+
+  const ruta = relative(raiz, resolve(rutaAbsoluta));
+  if (!ruta || ruta.startsWith('..')) return null;
+
+  const filas = await sql`
+    SELECT hash_archivo FROM archivos_biblioteca
+    WHERE ruta = ${ruta.split(sep).join('/')} AND estado = 'presente'
+  ` as { hash_archivo: string }[];
+  return filas[0]?.hash_archivo ?? null;
+}
+
+/**
+ * Audio de un hash leído directamente de la biblioteca (los workers lo usan si no está en caché)
+ */
+export async function cargarAudioDeBiblioteca(hash: string): Promise<CachedAudio | null> {
+  const ruta = await obtenerRutaAudioDeBiblioteca(hash);
+  if (!ruta) return null;
+
+  try {
+    const buffer = await readFile(ruta);
+    const fileName = basename(ruta);
+    return { buffer, fileName, mimeType: resolveMimeType(fileName) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sincroniza al arrancar y vuelve a hacerlo cuando cambia algo en el directorio
+ * (idempotente; sin MUSIC_LIBRARY_DIR, con LIBRARY_WATCH=0 o con SQLite no hace nada)
+ */
+export function iniciarVigilanciaBiblioteca(): void {
+  const raiz = obtenerDirectorioBiblioteca();
+  if (!raiz || watcher || process.env.LIBRARY_WATCH === '0') return;
+  if (!sql) {
+    console.warn('⚠️ MUSIC_LIBRARY_DIR se ignora con SQLite: la biblioteca local necesita Postgres');
+    return;
+  }
+
+  const sincronizar = () => {
+    sincronizarBiblioteca().catch(error => {
+      console.error('❌ Error sincronizando la biblioteca:', error);
+    });
+  };
+
+  let temporizador: ReturnType<typeof setTimeout> | null = null;
+  try {
+    watcher = watch(raiz, { recursive: true }, () => {
+      if (temporizador) clearTimeout(temporizador);
+      temporizador = setTimeout(sincronizar, WATCH_DEBOUNCE_MS);
+    });
+    watcher.on('error', error => {
+      console.error('❌ Vigilancia de la biblioteca detenida:', error);
+      watcher?.close();
+      watcher = null;
+    });
+    console.log(`📚 Vigilando la biblioteca en ${raiz}`);
+  } catch (error) {
+    console.error('⚠️ No se pudo vigilar la biblioteca (se puede sincronizar con POST /api/library/scan):', error);
+  }
+
+  sincronizar();
+}
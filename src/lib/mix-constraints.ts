@@ -0,0 +1,215 @@
+/**
+ * MIX CONSTRAINTS - Restricciones duras para el secuenciador
+ *
+ * - pinned: tracks fijados en una posición concreta (0 = apertura)
+ * - closingTrackHash: track obligatorio de cierre
+ * - mustInclude: tracks que tienen que aparecer en el set
+ * - neverAdjacent: pares que nunca pueden ir seguidos (en ningún orden)
+ * - maxSameKeyRun: máximo de tracks consecutivos en la misma tonalidad Camelot
+ *
+ * El secuenciador las aplica al expandir (podando ramas). Lo que no se pueda
+ * cumplir se reporta en warnings en lugar de fallar la petición.
+ */
+
+import type { CancionAnalizada } from './db';
+
+export interface SequenceConstraints {
+  pinned?: Array<{ hash: string; position: number }>;
+  closingTrackHash?: string;
+  mustInclude?: string[];
+  neverAdjacent?: Array<[string, string]>;
+  maxSameKeyRun?: number;
+}
+
+// Restricciones resueltas a índices del array de tracks
+export interface CompiledConstraints {
+  pinnedByPosition: Map<number, number>;  // posición → track
+  pinnedPositionOf: Map<number, number>;  // track → posición
+  required: number[];                     // Tracks que deben aparecer (incluye fijados)
+  forbiddenPairs: Set<string>;            // "i:j" en ambos órdenes
+  maxSameKeyRun: number | null;
+  warnings: string[];                     // Restricciones descartadas por imposibles
+}
+
+export function isSequenceConstraints(value: unknown): value is SequenceConstraints {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const c = value as Record<string, unknown>;
+  const isHash = (v: unknown) => typeof v === 'string' && v.length > 0;
+
+  if (c.pinned !== undefined && !(Array.isArray(c.pinned) && c.pinned.every(p =>
+    typeof p === 'object' && p !== null && isHash(p.hash) && Number.isInteger(p.position) && p.position >= 0
+  ))) return false;
+  if (c.closingTrackHash !== undefined && !isHash(c.closingTrackHash)) return false;
+  if (c.mustInclude !== undefined && !(Array.isArray(c.mustInclude) && c.mustInclude.every(isHash))) return false;
+  if (c.neverAdjacent !== undefined && !(Array.isArray(c.neverAdjacent) && c.neverAdjacent.every(pair =>
+    Array.isArray(pair) && pair.length === 2 && isHash(pair[0]) && isHash(pair[1])
+  ))) return false;
+  if (c.maxSameKeyRun !== undefined && !(Number.isInteger(c.maxSameKeyRun) && (c.maxSameKeyRun as number) >= 1)) return false;
+
+  return true;
+}
+
+/**
+ * Resuelve las restricciones contra el crate y la longitud objetivo
+ */
+export function compilarRestricciones(
+  constraints: SequenceConstraints,
+  tracks: CancionAnalizada[],
+  targetLength: number
+): CompiledConstraints {
+  const indexByHash = new Map(tracks.map((t, i) => [t.hash_archivo, i]));
+  const compiled: CompiledConstraints = {
+    pinnedByPosition: new Map(),
+    pinnedPositionOf: new Map(),
+    required: [],
+    forbiddenPairs: new Set(),
+    maxSameKeyRun: constraints.maxSameKeyRun ?? null,
+    warnings: [],
+  };
+
+  const fijar = (hash: string, position: number, label: string) => {
+    const index = indexByHash.get(hash);
+    if (index === undefined) {
+      compiled.warnings.push(`${label}: el track ${hash} no está en el crate`);
+      return;
+    }
+    if (position >= targetLength) {
+      compiled.warnings.push(`${label}: la posición ${position} está fuera del set (${targetLength} tracks)`);
+      return;
+    }
+    const ocupante = compiled.pinnedByPosition.get(position);
+    if (ocupante !== undefined && ocupante !== index) {
+      compiled.warnings.push(`${label}: la posición ${position} ya está fijada para "${tracks[ocupante].titulo}"`);
+      return;
+    }
+    const previa = compiled.pinnedPositionOf.get(index);
+    if (previa !== undefined && previa !== position) {
+      compiled.warnings.push(`${label}: "${tracks[index].titulo}" ya está fijado en la posición ${previa}`);
+      return;
+    }
+    compiled.pinnedByPosition.set(position, index);
+    compiled.pinnedPositionOf.set(index, position);
+  };
+
+  // El cierre es un fijado en la última posición
+  if (constraints.closingTrackHash) {
+    fijar(constraints.closingTrackHash, targetLength - 1, 'Cierre');
+  }
+  for (const pin of constraints.pinned ?? []) {
+    fijar(pin.hash, pin.position, 'Posición fija');
+  }
+
+  const required = new Set(compiled.pinnedPositionOf.keys());
+  for (const hash of constraints.mustInclude ?? []) {
+    const index = indexByHash.get(hash);
+    if (index === undefined) {
+      compiled.warnings.push(`Obligatorio: el track ${hash} no está en el crate`);
+      continue;
+    }
+    required.add(index);
+  }
+  compiled.required = [...required];
+  if (compiled.required.length > targetLength) {
+    // Los fijados van primero en el Set, así que son los que se conservan
+    compiled.warnings.push(`Obligatorios: ${compiled.required.length} tracks no caben en un set de ${targetLength}`);
+    compiled.required = compiled.required.slice(0, targetLength);
+  }
+
+  for (const [hashA, hashB] of constraints.neverAdjacent ?? []) {
+    const a = indexByHash.get(hashA);
+    const b = indexByHash.get(hashB);
+    if (a === undefined || b === undefined) continue; // Si uno no está, el par nunca puede darse
+    compiled.forbiddenPairs.add(`${a}:${b}`);
+    compiled.forbiddenPairs.add(`${b}:${a}`);
+  }
+
+  return compiled;
+}
+
+/**
+ * ¿Se puede colocar trackIndex en position a continuación de prevIndex?
+ * sameKeyRun = nº de tracks consecutivos con la tonalidad de prevIndex (incluido él)
+ */
+export function puedeColocar(
+  c: CompiledConstraints,
+  tracks: CancionAnalizada[],
+  trackIndex: number,
+  position: number,
+  prevIndex: number | null,
+  sameKeyRun: number,
+  used: Uint8Array,
+  targetLength: number
+): boolean {
+  const pinnedHere = c.pinnedByPosition.get(position);
+  if (pinnedHere !== undefined && pinnedHere !== trackIndex) return false;
+
+  const pinnedPosition = c.pinnedPositionOf.get(trackIndex);
+  if (pinnedPosition !== undefined && pinnedPosition !== position) return false;
+
+  if (prevIndex !== null) {
+    if (c.forbiddenPairs.has(`${prevIndex}:${trackIndex}`)) return false;
+
+    if (c.maxSameKeyRun !== null) {
+      const key = tracks[trackIndex].tonalidad_camelot;
+      if (key && key === tracks[prevIndex].tonalidad_camelot && sameKeyRun + 1 > c.maxSameKeyRun) return false;
+    }
+  }
+
+  // Tienen que quedar huecos para todos los obligatorios que faltan
+  let pendientes = 0;
+  for (const index of c.required) {
+    if (index !== trackIndex && !used[index]) pendientes++;
+  }
+  return pendientes <= targetLength - (position + 1);
+}
+
+/**
+ * Lista las restricciones que el set final NO cumple
+ */
+export function evaluarRestricciones(
+  constraints: SequenceConstraints,
+  path: CancionAnalizada[]
+): string[] {
+  const warnings: string[] = [];
+  const hashes = path.map(t => t.hash_archivo);
+  const titulo = (hash: string) => path.find(t => t.hash_archivo === hash)?.titulo ?? hash;
+
+  for (const pin of constraints.pinned ?? []) {
+    if (hashes[pin.position] !== pin.hash) {
+      warnings.push(`Restricción no cumplida: ${titulo(pin.hash)} debía ir en la posición ${pin.position}`);
+    }
+  }
+
+  if (constraints.closingTrackHash && hashes[hashes.length - 1] !== constraints.closingTrackHash) {
+    warnings.push(`Restricción no cumplida: ${titulo(constraints.closingTrackHash)} debía cerrar el set`);
+  }
+
+  for (const hash of constraints.mustInclude ?? []) {
+    if (!hashes.includes(hash)) {
+      warnings.push(`Restricción no cumplida: ${hash} debía aparecer en el set`);
+    }
+  }
+
+  for (const [a, b] of constraints.neverAdjacent ?? []) {
+    for (let i = 1; i < hashes.length; i++) {
+      if ((hashes[i - 1] === a && hashes[i] === b) || (hashes[i - 1] === b && hashes[i] === a)) {
+        warnings.push(`Restricción no cumplida: ${titulo(a)} y ${titulo(b)} van seguidos`);
+        break;
+      }
+    }
+  }
+
+  if (constraints.maxSameKeyRun) {
+    let run = 1;
+    for (let i = 1; i < path.length; i++) {
+      const key = path[i].tonalidad_camelot;
+      run = key && key === path[i - 1].tonalidad_camelot ? run + 1 : 1;
+      if (run > constraints.maxSameKeyRun) {
+        warnings.push(`Restricción no cumplida: más de ${constraints.maxSameKeyRun} tracks seguidos en ${key}`);
+        break;
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,105 @@
+/**
+ * MIX ENERGY - Arco de energía del set
+ *
+ * Permite pedir una "forma" al secuenciador (warm-up → peak → cool-down, etc.)
+ * en lugar de solo transiciones suaves entre pares:
+ * - Estima la energía de cada track (0-1) a partir de bailabilidad y BPM
+ * - Resuelve el objetivo por posición (preset o lista explícita)
+ * - Mide la desviación de un camino respecto al objetivo
+ */
+
+import type { CancionAnalizada } from './db';
+
+export type EnergyArcPreset =
+  | 'WARMUP_PEAK_COOLDOWN'  // Sube hasta el pico (~70% del set) y baja al final
+  | 'RAMP_UP'               // Subida continua
+  | 'PEAK_TIME'             // Arriba todo el set
+  | 'COOL_DOWN'             // Bajada continua (cierre / after)
+  | 'WAVES';                // Subidas y respiros alternados
+
+// Preset o lista de objetivos por posición (0-1). Si la lista no tiene la misma
+// longitud que el set se re-muestrea linealmente.
+export type EnergyArcTarget = EnergyArcPreset | number[];
+
+// Puntos de control [posición relativa 0-1, energía 0-1]
+const ARC_PRESETS: Record<EnergyArcPreset, Array<[number, number]>> = {
+  WARMUP_PEAK_COOLDOWN: [[0, 0.35], [0.7, 0.95], [1, 0.6]],
+  RAMP_UP: [[0, 0.3], [1, 0.95]],
+  PEAK_TIME: [[0, 0.85], [1, 0.9]],
+  COOL_DOWN: [[0, 0.85], [1, 0.3]],
+  WAVES: [[0, 0.4], [0.25, 0.8], [0.4, 0.55], [0.65, 0.95], [0.8, 0.65], [1, 0.85]],
+};
+
+export const ENERGY_ARC_PRESETS = Object.keys(ARC_PRESETS) as EnergyArcPreset[];
+
+// Peso de cada componente en la energía estimada
+const W_BAILABILIDAD = 0.6;
+const W_BPM = 0.4;
+
+export interface EnergyArcReport {
+  target: number[];
+  actual: number[];
+  avgDeviation: number;
+}
+
+export function isEnergyArcTarget(value: unknown): value is EnergyArcTarget {
+  if (typeof value === 'string') return (ENERGY_ARC_PRESETS as string[]).includes(value);
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1);
+}
+
+function interpolar(points: Array<[number, number]>, x: number): number {
+  if (x <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      const [x0, y0] = points[i - 1];
+      return y0 + (y1 - y0) * ((x - x0) / Math.max(1e-9, x1 - x0));
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/**
+ * Objetivo de energía para cada posición del set
+ */
+export function resolverArcoEnergia(arc: EnergyArcTarget, length: number): number[] {
+  const points: Array<[number, number]> = typeof arc === 'string'
+    ? ARC_PRESETS[arc]
+    : arc.map((v, i) => [arc.length === 1 ? 0 : i / (arc.length - 1), v]);
+
+  return Array.from({ length }, (_, i) => interpolar(points, length <= 1 ? 0 : i / (length - 1)));
+}
+
+/**
+ * Energía estimada (0-1) de cada track del crate
+ * El BPM se normaliza dentro del rango del propio crate: lo que importa es
+ * si un track es "de los rápidos" de esta sesión, no su valor absoluto.
+ */
+export function estimarEnergias(tracks: CancionAnalizada[]): Map<string, number> {
+  const bpms = tracks.map(t => t.bpm).filter((b): b is number => !!b);
+  const minBpm = bpms.length ? Math.min(...bpms) : 0;
+  const maxBpm = bpms.length ? Math.max(...bpms) : 0;
+
+  const energies = new Map<string, number>();
+  for (const track of tracks) {
+    const bail = track.bailabilidad ?? 0.5;
+    const bpmNorm = track.bpm && maxBpm > minBpm
+      ? (track.bpm - minBpm) / (maxBpm - minBpm)
+      : 0.5;
+    energies.set(track.id, Math.min(1, Math.max(0, bail * W_BAILABILIDAD + bpmNorm * W_BPM)));
+  }
+  return energies;
+}
+
+export function calcularInformeArco(target: number[], actual: number[]): EnergyArcReport {
+  const n = Math.min(target.length, actual.length);
+  let total = 0;
+  for (let i = 0; i < n; i++) total += Math.abs(actual[i] - target[i]);
+
+  return {
+    target: target.map(v => Math.round(v * 100) / 100),
+    actual: actual.map(v => Math.round(v * 100) / 100),
+    avgDeviation: n > 0 ? Math.round((total / n) * 100) / 100 : 0,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * MIX HARMONIC - Modelo armónico (rueda Camelot) con desplazamiento de tono por tempo
+ *
+ * El reproductor no tiene key lock: igualar BPMs cambia también el tono (como el pitch fader de un CDJ):
+ * un +6% de tempo sube ~1 semitono, y en Camelot +1 semitono = +7 posiciones.
+ * Por eso la compatibilidad se evalúa entre la tonalidad de A y la tonalidad
+ * EFECTIVA de B tras el ajuste de tempo que hará el reproductor.
+ */
+
+import type { CancionAnalizada } from './db';
+import { calcularRatioTempo } from './beatmatch';
+
+export type HarmonicRelation =
+  | 'SAME'           // Misma tonalidad (8A → 8A)
+  | 'ADJACENT'       // ±1 en la rueda (8A → 9A / 7A)
+  | 'RELATIVE'       // Relativa mayor/menor (8A → 8B)
+  | 'DIAGONAL'       // Cruce en diagonal (8A → 9B, 8B → 7A)
+  | 'ENERGY_BOOST'   // +2 (8A → 10A): subidón de energía
+  | 'SEMITONE_JUMP'  // ±7 (8A → 3A / 1A): salto de un semitono
+  | 'CLASH'          // Choque armónico
+  | 'UNKNOWN';       // Falta la tonalidad de algún track
+
+export type HarmonicWeights = Record<HarmonicRelation, number>;
+
+export const DEFAULT_HARMONIC_WEIGHTS: HarmonicWeights = {
+  SAME: 100,
+  ADJACENT: 90,
+  RELATIVE: 80,
+  DIAGONAL: 70,
+  ENERGY_BOOST: 70,
+  SEMITONE_JUMP: 55,
+  CLASH: 10,
+  UNKNOWN: 50,
+};
+
+export interface HarmonicOptions {
+  weights?: Partial<HarmonicWeights>;
+}
+
+export interface HarmonicEvaluation {
+  relation: HarmonicRelation;
+  score: number;
+  keyA: string | null;
+  keyB: string | null;
+  effectiveKeyB: string | null; // Tonalidad de B tal y como sonará junto a A
+  semitoneShift: number;        // Desplazamiento de B por el ajuste de tempo
+  detuneCents: number;          // Desafinación residual (0 = cae justo en un semitono)
+}
+
+// Penalización por cada cent de desafinación residual (50 cents = un cuarto de tono → -20)
+const DETUNE_PENALTY_PER_CENT = 0.4;
+
+interface CamelotKey {
+  number: number; // 1-12
+  letter: 'A' | 'B';
+}
+
+export function parseCamelot(key: string | null | undefined): CamelotKey | null {
+  const match = key?.trim().toUpperCase().match(/^(\d{1,2})([AB])$/);
+  if (!match) return null;
+  const number = parseInt(match[1], 10);
+  if (number < 1 || number > 12) return null;
+  return { number, letter: match[2] as 'A' | 'B' };
+}
+
+function formatCamelot(key: CamelotKey): string {
+  return `${key.number}${key.letter}`;
+}
+
+/**
+ * Semitonos que se desplaza el tono al reproducir a un playbackRate dado
+ */
+export function semitonosPorRatio(rate: number): number {
+  return 12 * Math.log2(rate);
+}
+
+/**
+ * Tonalidad efectiva tras desplazar N semitonos (redondeado al semitono más cercano)
+ */
+export function desplazarTonalidad(key: string | null | undefined, semitones: number): string | null {
+  const parsed = parseCamelot(key);
+  if (!parsed) return key ?? null;
+  const steps = Math.round(semitones);
+  const number = ((parsed.number - 1 + steps * 7) % 12 + 12) % 12 + 1;
+  return formatCamelot({ number, letter: parsed.letter });
+}
+
+/**
+ * Relación Camelot de A hacia B
+ */
+export function relacionCamelot(keyA: string | null | undefined, keyB: string | null | undefined): HarmonicRelation {
+  const a = parseCamelot(keyA);
+  const b = parseCamelot(keyB);
+  if (!a || !b) return 'UNKNOWN';
+
+  const d = (b.number - a.number + 12) % 12;
+
+  if (a.letter === b.letter) {
+    if (d === 0) return 'SAME';
+    if (d === 1 || d === 11) return 'ADJACENT';
+    if (d === 2) return 'ENERGY_BOOST';
+    if (d === 7 || d === 5) return 'SEMITONE_JUMP';
+    return 'CLASH';
+  }
+
+  if (d === 0) return 'RELATIVE';
+  // Diagonales clásicas: menor → mayor subiendo uno, mayor → menor bajando uno
+  if (a.letter === 'A' && d === 1) return 'DIAGONAL';
+  if (a.letter === 'B' && d === 11) return 'DIAGONAL';
+  return 'CLASH';
+}
+
+/**
+ * Tonalidades a las que se puede pasar desde una dada (por defecto: misma, ±1 y relativa)
+ */
+export function tonalidadesCompatibles(
+  key: string | null | undefined,
+  relations: HarmonicRelation[] = ['SAME', 'ADJACENT', 'RELATIVE']
+): string[] {
+  const parsed = parseCamelot(key);
+  if (!parsed) return [];
+
+  const keys: string[] = [];
+  for (const letter of ['A', 'B'] as const) {
+    for (let number = 1; number <= 12; number++) {
+      const candidate = formatCamelot({ number, letter });
+      if (relations.includes(relacionCamelot(formatCamelot(parsed), candidate))) keys.push(candidate);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Evalúa la compatibilidad armónica de A → B teniendo en cuenta el ajuste de tempo de B
+ * @param rateB playbackRate de B durante la mezcla (por defecto el que iguala su BPM al de A)
+ */
+export function evaluarArmonia(
+  trackA: Pick<CancionAnalizada, 'bpm' | 'tonalidad_camelot'>,
+  trackB: Pick<CancionAnalizada, 'bpm' | 'tonalidad_camelot'>,
+  options: HarmonicOptions = {},
+  rateB = calcularRatioTempo(trackA.bpm, 1, trackB.bpm)
+): HarmonicEvaluation {
+  const weights = { ...DEFAULT_HARMONIC_WEIGHTS, ...options.weights };
+  const shift = semitonosPorRatio(rateB);
+  const detuneCents = Math.round(Math.abs(shift - Math.round(shift)) * 100);
+  const effectiveKeyB = desplazarTonalidad(trackB.tonalidad_camelot, shift);
+  const relation = relacionCamelot(trackA.tonalidad_camelot, effectiveKeyB);
+
+  const score = relation === 'UNKNOWN'
+    ? weights.UNKNOWN
+    : Math.max(0, weights[relation] - detuneCents * DETUNE_PENALTY_PER_CENT);
+
+  return {
+    relation,
+    score: Math.round(score),
+    keyA: trackA.tonalidad_camelot,
+    keyB: trackB.tonalidad_camelot,
+    effectiveKeyB,
+    semitoneShift: Math.round(shift * 100) / 100,
+    detuneCents,
+  };
+}
+
+export function isHarmonicOptions(value: unknown): value is HarmonicOptions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const o = value as Record<string, unknown>;
+  if (Object.keys(o).some(key => key !== 'weights')) return false;
+  if (o.weights !== undefined) {
+    if (typeof o.weights !== 'object' || o.weights === null) return false;
+    for (const [relation, weight] of Object.entries(o.weights)) {
+      if (!Object.hasOwn(DEFAULT_HARMONIC_WEIGHTS, relation)) return false;
+      if (typeof weight !== 'number' || weight < 0 || weight > 100) return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,278 @@
+/**
+ * MIX RENDERER - Render offline de una sesión a un único archivo
+ *
+ * Toma la MixSession de findOptimalSequence y la "rebota" con ffmpeg:
+ * - Cada track se recorta entre su entryPoint y el exitPoint hacia el siguiente
+ * - Las transiciones se encadenan con acrossfade usando la misma duración que el reproductor
+ * - suggestedCurve decide la forma del fade (BASS_SWAP corta los graves a mitad del solape)
+ *
+ * Los jobs de render viven en memoria del proceso (igual que el rate limiter de Gemini).
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { randomUUID } from 'crypto';
+import { access, mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { JobStatus } from './analysis-jobs';
+import { obtenerRutaAudioCacheado } from './audio-cache';
+import type { MixSession } from './mix-sequencer';
+import { getCrossfadeDurationMs, type CrossfadeCurve } from './mix-types';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export type RenderFormat = 'wav' | 'flac' | 'mp3';
+
+export const RENDER_FORMATS: Record<RenderFormat, { codec: string; container: string; mimeType: string; bitrate?: string }> = {
+  wav: { codec: 'pcm_s16le', container: 'wav', mimeType: 'audio/wav' },
+  flac: { codec: 'flac', container: 'flac', mimeType: 'audio/flac' },
+  mp3: { codec: 'libmp3lame', container: 'mp3', mimeType: 'audio/mpeg', bitrate: '320k' },
+};
+
+const RENDER_OUTPUT_DIR = join(process.cwd(), '.cache', 'mix-renders');
+const SAMPLE_RATE = 44100;
+const BASS_SWAP_CUTOFF_HZ = 180;
+const MIN_CROSSFADE_MS = 10;
+
+// Curvas de afade para acrossfade (c1 = salida de A, c2 = entrada de B)
+const ACROSSFADE_CURVES: Record<CrossfadeCurve, { c1: string; c2: string }> = {
+  LINEAR: { c1: 'tri', c2: 'tri' },
+  BASS_SWAP: { c1: 'qsin', c2: 'qsin' },
+  CUT: { c1: 'tri', c2: 'tri' },
+  POWER_MIX: { c1: 'ipar', c2: 'ipar' }, // Ambos tracks se mantienen arriba más tiempo
+};
+
+export interface RenderSegment {
+  hash: string;
+  title: string;
+  inMs: number;          // Donde empieza a sonar este track
+  outMs: number;         // Donde sale (exitPoint hacia el siguiente)
+  crossfadeInMs: number; // Solape con el track anterior (0 para el primero)
+  curveIn: CrossfadeCurve;
+}
+
+export interface RenderJob {
+  id: string;
+  status: JobStatus;
+  progress: number; // 0-100
+  format: RenderFormat;
+  tracks: number;
+  durationMs: number;
+  outputPath: string;
+  error_message?: string;
+  created_at: Date;
+  completed_at?: Date;
+}
+
+export class AudioNoDisponibleError extends Error {
+  missing: string[];
+  constructor(missing: string[]) {
+    super(`No hay audio en el servidor para ${missing.length} track(s)`);
+    this.name = 'AudioNoDisponibleError';
+    this.missing = missing;
+  }
+}
+
+const renderJobs = new Map<string, RenderJob>();
+
+/**
+ * Convierte la sesión en segmentos de render (puro, sin I/O)
+ */
+export function construirPlanRender(session: MixSession): RenderSegment[] {
+  const segments: RenderSegment[] = session.tracks.map((st, index) => {
+    const next = session.tracks[index + 1];
+    const inMs = st.transition?.entryPoint.pointMs ?? 0;
+    let outMs = next?.transition?.exitPoint.pointMs ?? st.track.duracion_ms;
+    if (outMs <= inMs) outMs = st.track.duracion_ms;
+
+    return {
+      hash: st.track.hash_archivo,
+      title: st.track.titulo,
+      inMs,
+      outMs,
+      crossfadeInMs: st.transition ? getCrossfadeDurationMs(st.transition.type) : 0,
+      curveIn: st.transition?.suggestedCurve || 'LINEAR',
+    };
+  });
+
+  // El solape nunca puede superar la longitud de ninguno de los dos segmentos
+  for (let i = 1; i < segments.length; i++) {
+    const prevLen = segments[i - 1].outMs - segments[i - 1].inMs;
+    const curLen = segments[i].outMs - segments[i].inMs;
+    const maxOverlap = Math.min(prevLen, curLen) / 2;
+    segments[i].crossfadeInMs = Math.max(MIN_CROSSFADE_MS, Math.min(segments[i].crossfadeInMs, maxOverlap));
+  }
+
+  return segments;
+}
+
+/**
+ * Duración total del set una vez aplicados los solapes
+ */
+export function calcularDuracionRender(segments: RenderSegment[]): number {
+  return segments.reduce((total, seg) => total + (seg.outMs - seg.inMs) - seg.crossfadeInMs, 0);
+}
+
+/**
+ * Construye el filtergraph de ffmpeg: un atrim por input + cadena de acrossfade
+ */
+export function construirFiltroRender(segments: RenderSegment[]): { filters: string[]; output: string } {
+  const filters: string[] = [];
+  const sec = (ms: number) => (ms / 1000).toFixed(3);
+
+  segments.forEach((seg, i) => {
+    const lengthMs = seg.outMs - seg.inMs;
+    const chain = [
+      `atrim=start=${sec(seg.inMs)}:end=${sec(seg.outMs)}`,
+      'asetpts=PTS-STARTPTS',
+      `aformat=sample_fmts=fltp:sample_rates=${SAMPLE_RATE}:channel_layouts=stereo`,
+    ];
+
+    // BASS_SWAP: B entra sin graves y los recupera a mitad del solape,
+    // justo cuando A los pierde
+    const muteConditions: string[] = [];
+    if (seg.curveIn === 'BASS_SWAP' && i > 0) {
+      muteConditions.push(`lt(t,${sec(seg.crossfadeInMs / 2)})`);
+    }
+    const next = segments[i + 1];
+    if (next && next.curveIn === 'BASS_SWAP') {
+      muteConditions.push(`gte(t,${sec(lengthMs - next.crossfadeInMs / 2)})`);
+    }
+
+    if (muteConditions.length === 0) {
+      filters.push(`[${i}:a]${chain.join(',')}[s${i}]`);
+      return;
+    }
+
+    // El ffmpeg empaquetado no soporta 'enable' en highpass: separamos bandas
+    // y silenciamos la de graves con una expresión de volumen evaluada por frame
+    filters.push(`[${i}:a]${chain.join(',')},asplit=2[lo${i}][hi${i}]`);
+    filters.push(`[lo${i}]lowpass=f=${BASS_SWAP_CUTOFF_HZ},volume=volume='if(${muteConditions.join('+')},0,1)':eval=frame[lom${i}]`);
+    filters.push(`[hi${i}]highpass=f=${BASS_SWAP_CUTOFF_HZ}[him${i}]`);
+    filters.push(`[lom${i}][him${i}]amerge=inputs=2,pan=stereo|c0=c0+c2|c1=c1+c3[s${i}]`);
+  });
+
+  let previous = 's0';
+  for (let i = 1; i < segments.length; i++) {
+    const { c1, c2 } = ACROSSFADE_CURVES[segments[i].curveIn];
+    const label = `x${i}`;
+    filters.push(`[${previous}][s${i}]acrossfade=d=${sec(segments[i].crossfadeInMs)}:c1=${c1}:c2=${c2}[${label}]`);
+    previous = label;
+  }
+
+  return { filters, output: previous };
+}
+
+function parseTimemarkMs(timemark: string): number {
+  const [h, m, s] = timemark.split(':').map(parseFloat);
+  if ([h, m, s].some(v => Number.isNaN(v))) return 0;
+  return ((h * 60 + m) * 60 + s) * 1000;
+}
+
+async function resolverRutasAudio(segments: RenderSegment[]): Promise<string[]> {
+  const paths: string[] = [];
+  const missing: string[] = [];
+
+  for (const seg of segments) {
+    const path = await obtenerRutaAudioCacheado(seg.hash);
+    if (!path) {
+      missing.push(seg.hash);
+      continue;
+    }
+    try {
+      await access(path);
+      paths.push(path);
+    } catch {
+      missing.push(seg.hash);
+    }
+  }
+
+  if (missing.length > 0) throw new AudioNoDisponibleError(missing);
+  return paths;
+}
+
+function ejecutarFfmpeg(
+  inputs: string[],
+  segments: RenderSegment[],
+  format: RenderFormat,
+  outputPath: string,
+  onProgress: (progress: number) => void
+): Promise<void> {
+  const { filters, output } = construirFiltroRender(segments);
+  const totalMs = Math.max(1, calcularDuracionRender(segments));
+  const spec = RENDER_FORMATS[format];
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg();
+    inputs.forEach(input => command.input(input));
+
+    command
+      .complexFilter(filters, output)
+      .audioCodec(spec.codec)
+      .audioFrequency(SAMPLE_RATE)
+      .audioChannels(2)
+      .format(spec.container);
+
+    if (spec.bitrate) command.audioBitrate(spec.bitrate);
+
+    command
+      .output(outputPath)
+      .on('progress', (p) => onProgress(Math.min(99, (parseTimemarkMs(p.timemark) / totalMs) * 100)))
+      .on('error', (error, _stdout, stderr) => {
+        console.error('❌ ffmpeg falló renderizando la sesión:', stderr || error.message);
+        reject(error);
+      })
+      .on('end', () => resolve())
+      .run();
+  });
+}
+
+/**
+ * Crea un job de render y lo lanza en segundo plano
+ * Lanza AudioNoDisponibleError si falta el audio de algún track
+ */
+export async function iniciarRenderMix(session: MixSession, format: RenderFormat = 'wav'): Promise<RenderJob> {
+  const segments = construirPlanRender(session);
+  if (segments.length === 0) {
+    throw new Error('La sesión no tiene tracks para renderizar');
+  }
+
+  const inputs = await resolverRutasAudio(segments);
+  await mkdir(RENDER_OUTPUT_DIR, { recursive: true });
+
+  const id = randomUUID();
+  const job: RenderJob = {
+    id,
+    status: 'pending',
+    progress: 0,
+    format,
+    tracks: segments.length,
+    durationMs: Math.round(calcularDuracionRender(segments)),
+    outputPath: join(RENDER_OUTPUT_DIR, `${id}.${format}`),
+    created_at: new Date(),
+  };
+  renderJobs.set(id, job);
+
+  console.log(`🎚️ Render ${id}: ${segments.length} tracks → ${format.toUpperCase()} (~${Math.round(job.durationMs / 1000)}s)`);
+
+  job.status = 'processing';
+  ejecutarFfmpeg(inputs, segments, format, job.outputPath, progress => {
+    job.progress = Math.round(progress);
+  })
+    .then(() => {
+      job.status = 'completed';
+      job.progress = 100;
+      job.completed_at = new Date();
+      console.log(`✅ Render ${id} completado: ${job.outputPath}`);
+    })
+    .catch((error: Error) => {
+      job.status = 'failed';
+      job.error_message = error.message;
+    });
+
+  return job;
+}
+
+export function obtenerRenderJob(id: string): RenderJob | null {
+  return renderJobs.get(id) ?? null;
+}
@@ -0,0 +1,415 @@
+/**
+ * Secuenciación de un set: de hashes + parámetros a la sesión que consume el player
+ *
+ * Lo usan POST /api/mix-sequence y las sesiones guardadas (mix-sessions.ts).
+ * Una sesión se reduce a sus pistas (PistaSesion: hash + transición hacia la
+ * siguiente); expandirPistas la vuelve a convertir en la respuesta del player
+ * con los datos actuales de cada canción (título, grid, URL del audio...).
+ */
+
+import { obtenerCancionesPorHashes } from './db-persistence';
+import { buildMixPlan } from './mix-planner';
+import { findOptimalSequence, type MixSession, type SequencerStats } from './mix-sequencer';
+import { prepararTransiciones } from './db-transitions';
+import { isSequenceConstraints, type SequenceConstraints } from './mix-constraints';
+import { evaluarArmonia, isHarmonicOptions, type HarmonicEvaluation, type HarmonicOptions } from './mix-harmonic';
+import { evaluarTempo, type TempoEvaluation } from './mix-tempo';
+import { isVarietyOptions, type VarietyOptions, type VarietyReport } from './mix-variety';
+import { agruparVersiones } from './audio-fingerprint';
+import { isEnergyArcTarget, ENERGY_ARC_PRESETS, type EnergyArcReport, type EnergyArcTarget } from './mix-energy';
+import type { CancionAnalizada } from './db';
+import type { CrossfadeCurve, CuePoint } from './mix-types';
+
+// Parámetros de POST /api/mix-sequence (se guardan con cada sesión)
+export interface ParametrosSecuencia {
+  hashes: string[];
+  sessionLength?: number;
+  startTrackHash?: string;
+  energyArc?: EnergyArcTarget;
+  constraints?: SequenceConstraints;
+  harmonic?: HarmonicOptions;
+  variety?: VarietyOptions;
+  collapseVersions?: boolean | 'DUPLICATE';
+}
+
+// Transición de una pista a la siguiente (en la última: CUT al final de la canción)
+export interface TransicionPista {
+  type: string;
+  curve: CrossfadeCurve;     // Forma del crossfade que aplicará el player
+  startPointMs: number;      // Donde ESTA canción empieza
+  exitPointMs: number;       // Donde ESTA canción sale
+  entryPointMs: number;      // Donde la SIGUIENTE canción entra
+  score: number;
+  description: string;
+  loopLengthMs?: number;
+  loopType?: CuePoint['loopType'];
+}
+
+export interface PistaSesion {
+  hash: string;
+  transitionScore?: number;  // Score de la transición que trae a esta pista
+  transition: TransicionPista;
+}
+
+export interface ItemSecuencia {
+  position: number;
+  track: {
+    id: string;
+    hash: string;
+    url: string;
+    title: string;
+    artist: string | null;
+    bpm: CancionAnalizada['bpm'];
+    key: CancionAnalizada['tonalidad_camelot'];
+    durationMs: number;
+    beatsMs: CancionAnalizada['beats_ts_ms'];
+    downbeatsMs: CancionAnalizada['downbeats_ts_ms'];
+  };
+  transition: TransicionPista & {
+    harmonic: HarmonicEvaluation | null;
+    tempo: TempoEvaluation | null;
+  };
+  transitionScore?: number;
+}
+
+// Respuesta de /api/mix-sequence (mixSequence en page.tsx)
+export interface SesionSecuenciada {
+  tracks: ItemSecuencia[];
+  totalScore: number;
+  avgTransitionScore: number;
+  warnings: string[];
+  energyArc?: EnergyArcReport;
+  variety?: VarietyReport;
+  versionGroups?: string[][];
+  stats?: SequencerStats;
+}
+
+export class SecuenciaError extends Error {
+  status: number;
+  warnings: string[];
+  constructor(message: string, status: number, warnings: string[] = []) {
+    super(message);
+    this.name = 'SecuenciaError';
+    this.status = status;
+    this.warnings = warnings;
+  }
+}
+
+/**
+ * Valida los parámetros; devuelve el mensaje de error o null si son válidos
+ */
+export function validarParametrosSecuencia(valor: unknown): string | null {
+  if (typeof valor !== 'object' || valor === null || Array.isArray(valor)) {
+    return 'Se requiere un objeto con los parámetros de la secuencia';
+  }
+  const { hashes } = valor as Record<string, unknown>;
+
+  if (!Array.isArray(hashes) || hashes.length === 0 || !hashes.every(h => typeof h === 'string' && h.length > 0)) {
+    return 'Se requiere un array de hashes';
+  }
+
+  return validarOpcionesSecuencia(valor);
+}
+
+/**
+ * Valida un cambio parcial de parámetros al re-secuenciar una sesión guardada:
+ * el crate (hashes) es siempre el de la sesión original y no se puede cambiar
+ */
+export function validarCambiosSecuencia(valor: unknown): string | null {
+  if (typeof valor !== 'object' || valor === null || Array.isArray(valor)) {
+    return 'Se requiere un objeto con los parámetros de la secuencia';
+  }
+  if ('hashes' in valor) {
+    return 'hashes no se puede cambiar: la sesión re-secuencia siempre su propio crate';
+  }
+
+  return validarOpcionesSecuencia(valor);
+}
+
+// Todo salvo hashes, común a una secuencia nueva y a un cambio parcial
+function validarOpcionesSecuencia(valor: object): string | null {
+  const { sessionLength, startTrackHash, energyArc, constraints, harmonic, variety, collapseVersions } =
+    valor as Record<string, unknown>;
+
+  if (sessionLength !== undefined && sessionLength !== null && typeof sessionLength !== 'number') {
+    return 'sessionLength debe ser un número';
+  }
+
+  if (startTrackHash !== undefined && startTrackHash !== null && typeof startTrackHash !== 'string') {
+    return 'startTrackHash debe ser un hash';
+  }
+
+  // energyArc: preset o lista de energías objetivo por posición (0-1)
+  if (energyArc !== undefined && !isEnergyArcTarget(energyArc)) {
+    return `energyArc inválido. Usa ${ENERGY_ARC_PRESETS.join(', ')} o un array de valores entre 0 y 1`;
+  }
+
+  // constraints: { pinned, closingTrackHash, mustInclude, neverAdjacent, maxSameKeyRun }
+  if (constraints !== undefined && !isSequenceConstraints(constraints)) {
+    return 'constraints inválido: revisa pinned [{hash, position}], closingTrackHash, mustInclude, neverAdjacent [[hashA, hashB]] y maxSameKeyRun (entero >= 1)';
+  }
+
+  // harmonic: { weights: { SAME, ADJACENT, ... } }
+  if (harmonic !== undefined && !isHarmonicOptions(harmonic)) {
+    return 'harmonic inválido: weights debe usar relaciones Camelot conocidas (0-100)';
+  }
+
+  // variety: { minArtistGap, artistPenalty, remixPenalty, remixWindow, sectionRepeatPenalty }
+  if (variety !== undefined && !isVarietyOptions(variety)) {
+    return 'variety inválido: minArtistGap y remixWindow enteros >= 0; artistPenalty, remixPenalty y sectionRepeatPenalty números >= 0';
+  }
+
+  // collapseVersions: true (duplicados y versiones) o 'DUPLICATE' (solo misma grabación)
+  if (collapseVersions !== undefined && typeof collapseVersions !== 'boolean' && collapseVersions !== 'DUPLICATE') {
+    return "collapseVersions inválido: usa true/false o 'DUPLICATE'";
+  }
+
+  return null;
+}
+
+/**
+ * Solo los parámetros conocidos (ya validados), sin claves vacías: es lo que se guarda con la sesión
+ */
+export function extraerParametrosSecuencia(valor: ParametrosSecuencia): ParametrosSecuencia {
+  const { hashes, sessionLength, startTrackHash, energyArc, constraints, harmonic, variety, collapseVersions } = valor;
+  const parametros: ParametrosSecuencia = { hashes };
+  if (sessionLength != null) parametros.sessionLength = sessionLength;
+  if (startTrackHash != null) parametros.startTrackHash = startTrackHash;
+  if (energyArc !== undefined) parametros.energyArc = energyArc;
+  if (constraints !== undefined) parametros.constraints = constraints;
+  if (harmonic !== undefined) parametros.harmonic = harmonic;
+  if (variety !== undefined) parametros.variety = variety;
+  if (collapseVersions !== undefined) parametros.collapseVersions = collapseVersions;
+  return parametros;
+}
+
+/**
+ * Pistas de una sesión del secuenciador
+ * IMPORTANTE: cada pista necesita saber:
+ * - startPointMs: donde ESTA canción empieza a sonar (entry point de la transición anterior)
+ * - exitPointMs: donde ESTA canción termina (exit point de la transición a la siguiente)
+ * - entryPointMs: donde la SIGUIENTE canción empezará (para el crossfade)
+ */
+export function pistasDesdeSesion(session: MixSession): PistaSesion[] {
+  return session.tracks.map((st, index) => {
+    const nextTrack = session.tracks[index + 1];
+
+    // startPointMs: donde empieza ESTA canción
+    // - Para la primera: 0
+    // - Para las demás: el entryPoint de la transición que nos trajo aquí
+    const startPointMs = st.transition ? st.transition.entryPoint.pointMs : 0;
+
+    // Sin transición a la siguiente: corte al final de la canción
+    if (!nextTrack?.transition) {
+      return {
+        hash: st.track.hash_archivo,
+        transitionScore: st.transitionScore,
+        transition: {
+          type: 'CUT',
+          curve: 'CUT',
+          startPointMs,
+          exitPointMs: st.track.duracion_ms,
+          entryPointMs: 0,
+          score: 0,
+          description: '',
+        },
+      };
+    }
+
+    // La transición del SIGUIENTE track contiene:
+    // - exitPoint: donde ESTA canción sale
+    // - entryPoint: donde la SIGUIENTE canción entra
+    const { exitPoint, entryPoint } = nextTrack.transition;
+    return {
+      hash: st.track.hash_archivo,
+      transitionScore: st.transitionScore,
+      transition: {
+        type: nextTrack.transition.type,
+        curve: nextTrack.transition.suggestedCurve || 'LINEAR',
+        startPointMs,
+        exitPointMs: exitPoint.pointMs,
+        entryPointMs: entryPoint.pointMs,
+        score: nextTrack.transition.score,
+        description: nextTrack.transition.description,
+        // Si la salida es un LOOP_ANCHOR, el player necesita el tamaño del loop
+        loopLengthMs: exitPoint.loopLengthMs,
+        loopType: exitPoint.loopType,
+      },
+    };
+  });
+}
+
+/**
+ * Pistas → items del player con los datos actuales de cada canción
+ * Las canciones que ya no están en la BD se omiten (con un warning)
+ */
+export function expandirPistas(
+  pistas: PistaSesion[],
+  canciones: CancionAnalizada[],
+  harmonic?: HarmonicOptions
+): { tracks: ItemSecuencia[]; warnings: string[] } {
+  const porHash = new Map(canciones.map(c => [c.hash_archivo, c]));
+  const warnings: string[] = [];
+  const tracks: ItemSecuencia[] = [];
+
+  pistas.forEach((pista, index) => {
+    const track = porHash.get(pista.hash);
+    if (!track) {
+      warnings.push(`La pista ${index + 1} (${pista.hash}) ya no está en la base de datos`);
+      return;
+    }
+    const siguiente = index + 1 < pistas.length ? porHash.get(pistas[index + 1].hash) : undefined;
+
+    tracks.push({
+      position: tracks.length,
+      track: {
+        id: track.id,
+        hash: track.hash_archivo,
+        url: `/api/audio/${track.hash_archivo}`, // Audio guardado en el servidor
+        title: track.titulo,
+        artist: track.artista ?? null,
+        bpm: track.bpm,
+        key: track.tonalidad_camelot,
+        durationMs: track.duracion_ms,
+        beatsMs: track.beats_ts_ms,         // Grid para beatmatching en el player
+        downbeatsMs: track.downbeats_ts_ms,
+      },
+      transition: {
+        ...pista.transition,
+        // Tonalidad efectiva de la siguiente tras igualar tempo
+        harmonic: siguiente ? evaluarArmonia(track, siguiente, harmonic) : null,
+        // Relación de tempo elegida (1:1, mitad/doble, 3:2)
+        tempo: siguiente ? evaluarTempo(track, siguiente) : null,
+      },
+      transitionScore: pista.transitionScore,
+    });
+  });
+
+  return { tracks, warnings };
+}
+
+/**
+ * Ejecuta el secuenciador con los parámetros dados
+ * Lanza SecuenciaError si no hay canciones (404) o no sale ninguna secuencia (500)
+ */
+export async function secuenciarCanciones(
+  parametros: ParametrosSecuencia
+): Promise<{ sesion: SesionSecuenciada; pistas: PistaSesion[] }> {
+  const { hashes, sessionLength, startTrackHash, energyArc, constraints, harmonic, variety, collapseVersions } = parametros;
+
+  // Obtener canciones de la base de datos
+  const tracks = await obtenerCancionesPorHashes(hashes);
+  if (tracks.length === 0) {
+    throw new SecuenciaError('No se encontraron canciones', 404);
+  }
+
+  // 1. Generar plan de mix (puntos de entrada/salida para cada canción)
+  console.log('📊 Generando plan de mix...');
+  const mixPlans = new Map(buildMixPlan(tracks).map(entry => [entry.trackId, entry]));
+
+  // 2. Determinar longitud de sesión
+  const targetLength = sessionLength && sessionLength > 0 && sessionLength <= tracks.length
+    ? sessionLength
+    : Math.min(tracks.length, 10); // Por defecto, máximo 10 canciones
+
+  // 3. Determinar track inicial
+  const startTrackId = startTrackHash
+    ? tracks.find((t: CancionAnalizada) => t.hash_archivo === startTrackHash)?.id
+    : undefined;
+
+  // 4. Ejecutar algoritmo A* para encontrar la mejor secuencia
+  console.log(`🎯 Buscando secuencia óptima de ${targetLength} canciones...`);
+  // Pares A → B desde transiciones_calculadas (se calculan y guardan solo los que falten)
+  const { pairScores } = await prepararTransiciones(tracks, mixPlans);
+  // Duplicados/versiones por huella chroma: solo una versión de cada canción en el set
+  const versionGroups = collapseVersions
+    ? agruparVersiones(tracks, collapseVersions === 'DUPLICATE' ? ['DUPLICATE'] : undefined).map(g => g.hashes)
+    : undefined;
+  const session = findOptimalSequence(tracks, mixPlans, targetLength, startTrackId, { energyArc, pairScores, constraints, harmonic, variety, versionGroups });
+
+  if (session.tracks.length === 0) {
+    throw new SecuenciaError('No se pudo generar ninguna secuencia', 500, session.warnings || []);
+  }
+
+  console.log(`✅ Secuencia generada con ${session.tracks.length} tracks, score: ${session.totalScore.toFixed(2)}`);
+  if (session.warnings && session.warnings.length > 0) {
+    console.warn('⚠️ Warnings:', session.warnings);
+  }
+
+  const pistas = pistasDesdeSesion(session);
+  return {
+    pistas,
+    sesion: {
+      tracks: expandirPistas(pistas, tracks, harmonic).tracks,
+      totalScore: session.totalScore,
+      avgTransitionScore: session.avgTransitionScore,
+      warnings: session.warnings || [],
+      energyArc: session.energyArc,
+      variety: session.variety,
+      versionGroups,
+      stats: session.stats,
+    },
+  };
+}
+
+/**
+ * Re-secuencia solo desde `desde` (0 = todo): las pistas anteriores se fijan
+ * en su posición y conservan sus transiciones; la que hace de enlace
+ * (desde - 1) conserva su entrada y recibe la nueva salida
+ */
+export async function resecuenciarDesde(
+  parametros: ParametrosSecuencia,
+  pistasOriginales: PistaSesion[],
+  desde: number
+): Promise<{ sesion: SesionSecuenciada; pistas: PistaSesion[] }> {
+  if (!Number.isInteger(desde) || desde < 0 || desde > pistasOriginales.length) {
+    throw new SecuenciaError(`desdePosicion debe estar entre 0 y ${pistasOriginales.length}`, 400);
+  }
+
+  const prefijo = pistasOriginales.slice(0, desde).map(p => p.hash);
+  const fijados = new Set(prefijo);
+  const constraints: SequenceConstraints = {
+    ...parametros.constraints,
+    pinned: [
+      ...prefijo.map((hash, position) => ({ hash, position })),
+      // Los fijados del usuario en la parte que se re-secuencia se mantienen
+      ...(parametros.constraints?.pinned ?? []).filter(p => p.position >= desde && !fijados.has(p.hash)),
+    ],
+  };
+
+  const resultado = await secuenciarCanciones({
+    ...parametros,
+    hashes: [...new Set([...prefijo, ...parametros.hashes])],
+    sessionLength: parametros.sessionLength ?? pistasOriginales.length,
+    // Con la apertura fijada, el track inicial ya no se elige
+    startTrackHash: desde > 0 ? undefined : parametros.startTrackHash,
+    constraints,
+  });
+
+  const conservado = resultado.pistas.slice(0, desde).every((pista, i) => pista.hash === prefijo[i]);
+  if (!conservado) {
+    throw new SecuenciaError(
+      'No se pudo conservar el principio de la sesión (¿alguna canción ya no está en la base de datos?)',
+      409,
+      resultado.sesion.warnings
+    );
+  }
+
+  const pistas = resultado.pistas.map((pista, i) => {
+    if (i < desde - 1) return pistasOriginales[i];
+    if (i === desde - 1) {
+      return {
+        ...pista,
+        transitionScore: pistasOriginales[i].transitionScore,
+        transition: { ...pista.transition, startPointMs: pistasOriginales[i].transition.startPointMs },
+      };
+    }
+    return pista;
+  });
+
+  const canciones = await obtenerCancionesPorHashes(pistas.map(p => p.hash));
+  return {
+    pistas,
+    sesion: { ...resultado.sesion, tracks: expandirPistas(pistas, canciones, parametros.harmonic).tracks },
+  };
+}
@@ -4,13 +4,39 @@
  * 
  * Encuentra la secuencia óptima de canciones usando:
  * - Compatibilidad armónica (Camelot Wheel)
- * - Compatibilidad de BPM
+ * - Compatibilidad de BPM (con mitad/doble tempo y 3:2)
  * - Puntuación de transición (calculada desde timeline)
+ * - Arco de energía objetivo del set (opcional)
+ * - Restricciones duras: posiciones fijas, cierre, obligatorios, pares vetados (opcional)
+ * - Variedad: hueco entre tracks del mismo artista, remixes del mismo original, secciones de entrada repetidas
  */
 
 import type { CancionAnalizada } from './db';
 import type { MixPlanEntry } from './mix-planner';
 import { findBestTransition, type TransitionResult } from './mix-transitions';
+import { construirMatrizTransiciones, type PairScore } from './mix-transition-matrix';
+import { evaluarArmonia, type HarmonicOptions } from './mix-harmonic';
+import { evaluarTempo } from './mix-tempo';
+import {
+  compilarRestricciones,
+  evaluarRestricciones,
+  puedeColocar,
+  type SequenceConstraints
+} from './mix-constraints';
+import {
+  calcularInformeArco,
+  estimarEnergias,
+  resolverArcoEnergia,
+  type EnergyArcReport,
+  type EnergyArcTarget
+} from './mix-energy';
+import {
+  calcularInformeVariedad,
+  compilarVariedad,
+  penalizacionVariedad,
+  type VarietyOptions,
+  type VarietyReport
+} from './mix-variety';
 
 // Pesos para scoring
 const W_BPM = 0.25;
@@ -23,6 +49,18 @@ const VARIETY_PENALTY_STRATEGY = 15;
 const DROP_SWAP_HARMONIC_THRESHOLD = 80;
 const DROP_SWAP_HARMONIC_PENALIZED_SCORE = 10;
 
+// Arco de energía: coste por desviación respecto al objetivo (1.0 = desviación máxima)
+// y peso del flujo de energía entre tracks consecutivos (calculateEnergyScore)
+const W_ENERGY_ARC = 80;
+const W_ENERGY_FLOW = 0.2;
+
+// Búsqueda: A* exacto para crates pequeños, beam search para el resto
+const ASTAR_MAX_TRACKS = 40;
+const ASTAR_MAX_ITERATIONS = 20000;
+const BEAM_WIDTH = 128;
+const BEAM_BRANCHING = 16;   // Mejores sucesores que cada nodo aporta al beam
+const MIN_TRANSITION_SCORE = 5;
+
 export interface SequencedTrack {
   track: CancionAnalizada;
   position: number;
@@ -35,64 +73,89 @@ export interface MixSession {
   totalScore: number;
   avgTransitionScore: number;
   warnings?: string[];
+  energyArc?: EnergyArcReport;
+  variety?: VarietyReport;
+  stats?: SequencerStats;
 }
 
-interface AStarState {
-  currentTrackId: string;
-  usedTrackIds: Set<string>;
-  path: SequencedTrack[];
-  gScore: number; // Coste acumulado (menor es mejor)
+export interface TransitionScoreOptions {
+  harmonic?: HarmonicOptions; // Pesos Camelot
 }
 
-/**
- * Calcula la puntuación de compatibilidad armónica usando Camelot Wheel
- */
-function calculateHarmonicScore(trackA: CancionAnalizada, trackB: CancionAnalizada): number {
-  const kA = trackA.tonalidad_camelot;
-  const kB = trackB.tonalidad_camelot;
-
-  if (!kA || !kB) return 50;
-  if (kA === kB) return 100;
-
-  // Lógica simplificada de Camelot
-  const numA = parseInt(kA);
-  const numB = parseInt(kB);
-  const letterA = kA.slice(-1);
-  const letterB = kB.slice(-1);
-
-  if (isNaN(numA) || isNaN(numB)) return 40;
-
-  // Adyacentes (+/- 1) o cambio de modo (misma letra o mismo numero diff letra)
-  const diffNum = Math.abs(numA - numB);
-  const isAdjacent = diffNum === 1 || diffNum === 11; // 12 vs 1
-
-  if (isAdjacent && letterA === letterB) return 90;
-  if (numA === numB && letterA !== letterB) return 80;
+export interface SequencerOptions extends TransitionScoreOptions {
+  energyArc?: EnergyArcTarget; // Forma de energía deseada para el set
+  pairScores?: Map<string, PairScore>; // Pares ya calculados (transiciones_calculadas), por clavePar
+  constraints?: SequenceConstraints;   // Restricciones duras (ver mix-constraints.ts)
+  variety?: VarietyOptions;            // Reglas de variedad (ver mix-variety.ts)
+  versionGroups?: string[][];          // Hashes que cuentan como la misma canción (ver audio-fingerprint.ts)
+}
 
-  // Energy boost (+2 semitonos, ej 1A -> 3A)
-  if ((numB - numA === 2 || numB - numA === -10) && letterA === letterB) return 70;
+export interface SequencerStats {
+  algorithm: 'ASTAR' | 'BEAM';
+  iterations: number;      // Nodos expandidos
+  prunedBranches: number;  // Sucesores descartados (score bajo, dominados, fuera del beam)
+  complete: boolean;       // Si se alcanzó la longitud objetivo
+  pairsComputed: number;   // Pares de la matriz calculados en esta llamada
+  pairsFromCache: number;  // Pares reutilizados de la caché
+}
 
-  return 10; // Choque armónico
+// Nodo de búsqueda: el camino se reconstruye siguiendo parent
+interface SearchNode {
+  trackIndex: number;
+  parent: SearchNode | null;
+  depth: number;            // Nº de tracks en el camino
+  used: Uint8Array;         // Tracks ya usados (por índice)
+  keyRun: number;           // Tracks seguidos en la tonalidad del actual (incluido él)
+  zobrist: number;          // Hash del conjunto usado (para detectar estados repetidos)
+  gScore: number;           // Coste acumulado (menor es mejor)
+  fScore: number;
+  transition?: TransitionResult; // Transición DESDE el track anterior
+  transitionScore?: number;
 }
 
 /**
- * Calcula la puntuación de compatibilidad de BPM (Tolerante)
+ * Min-heap por fScore para el open set de A*
  */
-function calculateBPMScore(bpmA: number | null, bpmB: number | null): number {
-  if (!bpmA || !bpmB) return 50;
-  const diffPercent = (bpmB - bpmA) / bpmA; // % de cambio (positivo si sube)
+class NodeHeap {
+  private items: SearchNode[] = [];
 
-  // Rango perfecto: +0% a +4% (Subir energía ligeramente es mejor)
-  if (diffPercent >= 0 && diffPercent <= 0.04) return 100;
-  // Rango bueno: -2% a 0% (Mantener o bajar muy poco)
-  if (diffPercent >= -0.02 && diffPercent < 0) return 90;
+  get size(): number {
+    return this.items.length;
+  }
 
-  // Rango aceptable (valor absoluto)
-  const absDiff = Math.abs(diffPercent);
-  if (absDiff <= 0.08) return 60;
+  push(node: SearchNode): void {
+    const items = this.items;
+    items.push(node);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].fScore <= items[i].fScore) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
 
-  // Cambio drástico (>8%)
-  return 20;
+  pop(): SearchNode | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < items.length && items[l].fScore < items[smallest].fScore) smallest = l;
+        if (r < items.length && items[r].fScore < items[smallest].fScore) smallest = r;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
 }
 
 /**
@@ -112,24 +175,23 @@ function calculateEnergyScore(eA?: number | null, eB?: number | null): number {
 }
 
 /**
- * Calcula la puntuación total de una transición entre dos tracks
- * Usa los mix plans generados desde el timeline unificado
+ * Puntúa una transición ya simulada (barato: BPM + armonía + score de mezcla)
+ * Separado de findBestTransition para poder re-puntuar pares cacheados con otras opciones
  */
-export function calculateTransitionScore(
+export function scoreTransition(
   trackA: CancionAnalizada,
   trackB: CancionAnalizada,
-  mixPlanA: MixPlanEntry,
-  mixPlanB: MixPlanEntry
-): { score: number; transition: TransitionResult | null } {
+  mixResult: TransitionResult | null,
+  options: TransitionScoreOptions = {}
+): number {
 
-  // 1. BPM Score
-  const bpmScore = calculateBPMScore(trackA.bpm, trackB.bpm);
+  // 1. BPM Score (con mitad/doble tempo y 3:2)
+  const bpmScore = evaluarTempo(trackA, trackB).score;
 
-  // 2. Harmonic Score
-  const harmonicScore = calculateHarmonicScore(trackA, trackB);
+  // 2. Harmonic Score (tonalidad efectiva de B tras igualar tempo)
+  const harmonicScore = evaluarArmonia(trackA, trackB, options.harmonic).score;
 
   // 3. Mix Transition Score (desde timeline unificado)
-  const mixResult = findBestTransition(trackA, mixPlanA.bestExitPoints, trackB, mixPlanB.bestEntryPoints);
   const mixScore = mixResult ? mixResult.score : 0;
 
   // Penalizar DROP_SWAP doble con mala armonía
@@ -139,7 +201,7 @@ export function calculateTransitionScore(
     mixResult.entryPoint.strategy === 'DROP_SWAP' &&
     harmonicScore < DROP_SWAP_HARMONIC_THRESHOLD
   ) {
-    return { score: DROP_SWAP_HARMONIC_PENALIZED_SCORE, transition: mixResult };
+    return DROP_SWAP_HARMONIC_PENALIZED_SCORE;
   }
 
   // Ponderación Final
@@ -148,131 +210,428 @@ export function calculateTransitionScore(
     (harmonicScore * W_HARMONIC) +
     (mixScore * W_MIX);
 
-  return { score: Math.round(total), transition: mixResult };
+  return Math.round(total);
 }
 
 /**
- * Algoritmo A* para encontrar la mejor secuencia de canciones (Con fallback tolerante)
+ * Calcula la puntuación total de una transición entre dos tracks
+ * Usa los mix plans generados desde el timeline unificado
+ */
+export function calculateTransitionScore(
+  trackA: CancionAnalizada,
+  trackB: CancionAnalizada,
+  mixPlanA: MixPlanEntry,
+  mixPlanB: MixPlanEntry,
+  options: TransitionScoreOptions = {}
+): { score: number; transition: TransitionResult | null } {
+  const mixResult = findBestTransition(trackA, mixPlanA.bestExitPoints, trackB, mixPlanB.bestEntryPoints);
+  return { score: scoreTransition(trackA, trackB, mixResult, options), transition: mixResult };
+}
+
+
+/**
+ * PRNG determinista para las claves Zobrist (mismo crate → mismos hashes)
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+/**
+ * Para cada track, los índices de los demás tracks de su grupo de versiones
+ * (hashes que no están en el crate se ignoran)
+ */
+function resolverGruposVersiones(tracks: CancionAnalizada[], groups: string[][] | undefined): number[][] {
+  const siblings: number[][] = tracks.map(() => []);
+  if (!groups) return siblings;
+
+  const indexByHash = new Map(tracks.map((t, i) => [t.hash_archivo, i]));
+  for (const group of groups) {
+    const indices = [...new Set(group.map(hash => indexByHash.get(hash)).filter((i): i is number => i !== undefined))];
+    for (const i of indices) {
+      siblings[i].push(...indices.filter(j => j !== i));
+    }
+  }
+  return siblings;
+}
+
+/**
+ * Secuenciador sobre la matriz de transiciones precalculada
+ * - A* con heap y heurística admisible para crates pequeños (óptimo)
+ * - Beam search para crates grandes (o si A* agota iteraciones): siempre intenta completar la longitud
  */
 export function findOptimalSequence(
   tracks: CancionAnalizada[],
   mixPlans: Map<string, MixPlanEntry>,
   sessionLength: number,
-  startTrackId?: string
+  startTrackId?: string,
+  options: SequencerOptions = {}
 ): MixSession {
-  console.log(`🎯 Iniciando A* con ${tracks.length} canciones, longitud objetivo: ${sessionLength}`);
+  console.log(`🎯 Iniciando secuenciador con ${tracks.length} canciones, longitud objetivo: ${sessionLength}`);
 
   // Validación básica
   if (tracks.length === 0) {
     return { tracks: [], totalScore: 0, avgTransitionScore: 0, warnings: ['No hay tracks'] };
   }
 
-  // Asegurar que sessionLength no sea mayor que los tracks disponibles
-  const targetLength = Math.min(sessionLength, tracks.length);
+  const n = tracks.length;
+
+  // Duplicados/versiones: al usar un track se marcan como usados todos los de su grupo
+  const siblings = resolverGruposVersiones(tracks, options.versionGroups);
+  const distinctSongs = n - siblings.reduce((sum, group, i) =>
+    sum + (group.length > 0 && group.every(j => j > i) ? group.length : 0), 0);
+
+  // Asegurar que sessionLength no sea mayor que las canciones distintas disponibles
+  const targetLength = Math.max(1, Math.min(sessionLength, distinctSongs));
+
+  // Arco de energía (si se pidió): objetivo por posición + energía estimada por track
+  const energyTargets = options.energyArc ? resolverArcoEnergia(options.energyArc, targetLength) : null;
+  const energies = energyTargets ? estimarEnergias(tracks) : null;
+
+  // Coste extra de colocar un track en una posición del arco
+  const energyCost = (trackId: string, position: number, prevTrackId?: string): number => {
+    if (!energyTargets || !energies) return 0;
+    const energy = energies.get(trackId)!;
+    let cost = Math.abs(energy - energyTargets[position]) * W_ENERGY_ARC;
+    if (prevTrackId) {
+      cost += (100 - calculateEnergyScore(energies.get(prevTrackId), energy)) * W_ENERGY_FLOW;
+    }
+    return cost;
+  };
+
+  // Restricciones duras resueltas a índices
+  const compiled = options.constraints ? compilarRestricciones(options.constraints, tracks, targetLength) : null;
+  const emptyUsed = new Uint8Array(n);
+
+  // Reglas de variedad (artistas, versiones del mismo original, secciones de entrada)
+  const variety = compilarVariedad(tracks, options.variety);
+  const varietyDepth = variety.options.remixWindow > 0
+    ? Math.max(variety.options.minArtistGap, variety.options.remixWindow)
+    : Infinity;
+  const previousTracks = (node: SearchNode): number[] => {
+    const previous: number[] = [];
+    for (let p: SearchNode | null = node; p && previous.length < varietyDepth; p = p.parent) {
+      previous.push(p.trackIndex);
+    }
+    return previous;
+  };
+  const allowedAt = (index: number, position: number, prev: SearchNode | null, used: Uint8Array) =>
+    !compiled || puedeColocar(compiled, tracks, index, position, prev?.trackIndex ?? null, prev?.keyRun ?? 0, used, targetLength);
 
   // Seleccionar track inicial
-  const startTrack = startTrackId
-    ? tracks.find(t => t.id === startTrackId)
-    : tracks[0];
+  // - Una posición 0 fijada manda sobre startTrackId
+  // - Sin track fijado y con arco: el que más se acerque a la energía objetivo de apertura
+  const openers = tracks.filter((_, i) => allowedAt(i, 0, null, emptyUsed));
+  const pinnedOpener = compiled?.pinnedByPosition.get(0);
+  const startTrack = pinnedOpener !== undefined
+    ? tracks[pinnedOpener]
+    : startTrackId
+      ? tracks.find(t => t.id === startTrackId)
+      : openers.length === 0
+        ? undefined
+        : energyTargets
+          ? openers.reduce((best, t) => energyCost(t.id, 0) < energyCost(best.id, 0) ? t : best)
+          : openers[0];
 
   if (!startTrack) {
-    return { tracks: [], totalScore: 0, avgTransitionScore: 0, warnings: ['Track inicial no encontrado'] };
+    return {
+      tracks: [],
+      totalScore: 0,
+      avgTransitionScore: 0,
+      warnings: [...(compiled?.warnings ?? []), 'Track inicial no encontrado']
+    };
   }
 
   console.log(`🎵 Canción inicial: ${startTrack.titulo}`);
 
-  // Cola de prioridad (Open Set)
-  const openSet: Array<{ state: AStarState; fScore: number }> = [];
-
-  // Estado inicial
-  const initialState: AStarState = {
-    currentTrackId: startTrack.id,
-    usedTrackIds: new Set([startTrack.id]),
-    path: [{ track: startTrack, position: 0 }],
-    gScore: 0,
+  // 1. Matriz de transiciones (una vez por par, cacheada por hashes)
+  const matrix = construirMatrizTransiciones(tracks, mixPlans, {
+    transition: (a, b, planA, planB) => findBestTransition(a, planA.bestExitPoints, b, planB.bestEntryPoints),
+    score: (a, b, transition) => scoreTransition(a, b, transition, options),
+  }, options.pairScores);
+
+  const stats: SequencerStats = {
+    algorithm: n <= ASTAR_MAX_TRACKS ? 'ASTAR' : 'BEAM',
+    iterations: 0,
+    prunedBranches: 0,
+    complete: false,
+    pairsComputed: matrix.pairsComputed,
+    pairsFromCache: matrix.pairsFromCache,
   };
 
-  openSet.push({ state: initialState, fScore: 0 });
+  // 2. Heurística admisible: para cada track, el coste mínimo con el que se puede entrar en él.
+  // Las penalizaciones de variedad y energía solo suben el coste, así que nunca sobreestima.
+  const bestIncomingCost = new Float64Array(n).fill(Infinity);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const pair = i !== j ? matrix.get(i, j) : null;
+      if (!pair || pair.score < MIN_TRANSITION_SCORE) continue;
+      bestIncomingCost[j] = Math.min(bestIncomingCost[j], 100 - pair.score);
+    }
+  }
+  const incomingOrder = Array.from({ length: n }, (_, i) => i)
+    .filter(i => Number.isFinite(bestIncomingCost[i]))
+    .sort((a, b) => bestIncomingCost[a] - bestIncomingCost[b]);
+
+  const heuristic = (used: Uint8Array, depth: number): number => {
+    let remaining = targetLength - depth;
+    let h = 0;
+    for (const idx of incomingOrder) {
+      if (remaining === 0) break;
+      if (used[idx]) continue;
+      h += bestIncomingCost[idx];
+      remaining--;
+    }
+    return remaining > 0 ? Infinity : h; // No quedan tracks alcanzables suficientes
+  };
 
-  let bestPartialSession: MixSession | null = null;
-  let iterations = 0;
-  const MAX_ITERATIONS = 5000;
+  const random = mulberry32(n * 2654435761);
+  const zobristKeys = Uint32Array.from({ length: n }, () => random());
+
+  const startIndex = tracks.indexOf(startTrack);
+  const rootUsed = new Uint8Array(n);
+  rootUsed[startIndex] = 1;
+  for (const sibling of siblings[startIndex]) rootUsed[sibling] = 1;
+  const root: SearchNode = {
+    trackIndex: startIndex,
+    parent: null,
+    depth: 1,
+    used: rootUsed,
+    keyRun: 1,
+    zobrist: zobristKeys[startIndex],
+    gScore: energyCost(startTrack.id, 0),
+    fScore: 0,
+  };
+  root.fScore = root.gScore + heuristic(rootUsed, 1);
+
+  type Candidate = Pick<SearchNode, 'trackIndex' | 'parent' | 'gScore' | 'transition' | 'transitionScore'>;
+
+  // Sucesores de un nodo (sin materializar el conjunto usado todavía)
+  const expand = (node: SearchNode): Candidate[] => {
+    const candidates: Candidate[] = [];
+    const previous = previousTracks(node);
+    for (let j = 0; j < n; j++) {
+      if (node.used[j]) continue;
+      const pair = matrix.get(node.trackIndex, j);
+      if (!pair) continue;
+
+      if (!allowedAt(j, node.depth, node, node.used)) {
+        stats.prunedBranches++;
+        continue;
+      }
 
-  while (openSet.length > 0 && iterations < MAX_ITERATIONS) {
-    iterations++;
+      let score = pair.score;
+      // --- VARIETY PENALTY: penalizar repeticiones de tipo de transición/estrategia ---
+      if (node.transition && pair.transition) {
+        // Penalty: mismo tipo de transición (ej QUICK_MIX → QUICK_MIX)
+        if (node.transition.type === pair.transition.type) {
+          score -= VARIETY_PENALTY_TYPE;
+        }
+        // Penalty: misma estrategia de salida repetida (ej DROP_SWAP repetido)
+        if (node.transition.exitPoint.strategy === pair.transition.exitPoint.strategy) {
+          score -= VARIETY_PENALTY_STRATEGY;
+        }
+      }
+      score -= penalizacionVariedad(
+        variety,
+        previous,
+        j,
+        node.transition?.entryPoint.sectionType,
+        pair.transition?.entryPoint.sectionType
+      );
 
-    // Ordenar para sacar el mejor candidato (menor costo fScore)
-    openSet.sort((a, b) => a.fScore - b.fScore);
-    const { state: currentState } = openSet.shift()!;
+      // FILTRO RELAJADO: Solo descartar si el score es extremadamente bajo (< 5)
+      if (score < MIN_TRANSITION_SCORE) {
+        stats.prunedBranches++;
+        continue;
+      }
 
-    // Guardar la mejor sesión parcial encontrada hasta ahora (Fallback)
-    const currentSessionScore = 100 - (currentState.gScore / Math.max(1, currentState.path.length - 1));
-    if (!bestPartialSession || currentState.path.length > bestPartialSession.tracks.length) {
-      bestPartialSession = {
-        tracks: currentState.path,
-        totalScore: currentSessionScore,
-        avgTransitionScore: currentSessionScore
-      };
+      const cost = 100 - score + energyCost(tracks[j].id, node.depth, tracks[node.trackIndex].id);
+      candidates.push({
+        trackIndex: j,
+        parent: node,
+        gScore: node.gScore + cost,
+        transition: pair.transition || undefined,
+        transitionScore: score,
+      });
     }
+    return candidates;
+  };
 
-    // CONDICIÓN DE ÉXITO: Longitud alcanzada
-    if (currentState.path.length === targetLength) {
-      console.log(`✅ Secuencia encontrada en ${iterations} iteraciones`);
-      return bestPartialSession!;
-    }
+  const materialize = (candidate: Candidate): SearchNode => {
+    const parent = candidate.parent!;
+    const used = parent.used.slice();
+    used[candidate.trackIndex] = 1;
+    for (const sibling of siblings[candidate.trackIndex]) used[sibling] = 1;
+    const depth = parent.depth + 1;
+    const key = tracks[candidate.trackIndex].tonalidad_camelot;
+    return {
+      ...candidate,
+      depth,
+      used,
+      keyRun: key && key === tracks[parent.trackIndex].tonalidad_camelot ? parent.keyRun + 1 : 1,
+      zobrist: parent.zobrist ^ zobristKeys[candidate.trackIndex],
+      fScore: candidate.gScore + heuristic(used, depth),
+    };
+  };
 
-    const currentTrack = tracks.find(t => t.id === currentState.currentTrackId)!;
-    const currentPlan = mixPlans.get(currentState.currentTrackId);
+  // Dos caminos son el mismo estado (y se queda el de menos coste) solo si todo lo que
+  // condiciona el resto del set coincide: usados, con maxSameKeyRun la racha de tonalidad
+  // (una racha más larga puede dejar sin salida al camino barato) y los últimos tracks
+  // en los que miran las penalizaciones de variedad: el anterior (tipo de transición y
+  // sección de entrada), el hueco de artista y la ventana de remixes si no es todo el set
+  const stateDepth = Math.max(2, variety.options.minArtistGap, variety.options.remixWindow);
+  const stateKey = (node: SearchNode) => {
+    const tail: number[] = [];
+    for (let p: SearchNode | null = node; p && tail.length < stateDepth; p = p.parent) {
+      tail.push(p.trackIndex);
+    }
+    const key = `${tail.join(',')}:${node.zobrist}`;
+    return compiled?.maxSameKeyRun != null ? `${key}:${node.keyRun}` : key;
+  };
+  const isBetter = (a: SearchNode, b: SearchNode) =>
+    a.depth > b.depth || (a.depth === b.depth && a.gScore < b.gScore);
+
+  // 3a. A*: el primer nodo completo que sale del heap es óptimo (heurística admisible)
+  const runAStar = (): SearchNode => {
+    const open = new NodeHeap();
+    const bestG = new Map<string, number>();
+    let best = root;
+    open.push(root);
+
+    while (open.size > 0 && stats.iterations < ASTAR_MAX_ITERATIONS) {
+      const node = open.pop()!;
+      stats.iterations++;
+      if (isBetter(node, best)) best = node;
+      if (node.depth === targetLength) return node;
+
+      for (const candidate of expand(node)) {
+        const child = materialize(candidate);
+        if (!Number.isFinite(child.fScore)) {
+          stats.prunedBranches++;
+          continue;
+        }
+        const key = stateKey(child);
+        const known = bestG.get(key);
+        if (known !== undefined && known <= child.gScore) {
+          stats.prunedBranches++; // Mismo estado alcanzado con menos coste
+          continue;
+        }
+        bestG.set(key, child.gScore);
+        open.push(child);
+      }
+    }
+    return best;
+  };
 
-    // Expandir vecinos
-    for (const nextTrack of tracks) {
-      if (currentState.usedTrackIds.has(nextTrack.id)) continue;
+  // 3b. Beam search: por capas, quedándonos con los BEAM_WIDTH mejores por fScore
+  const runBeam = (): SearchNode => {
+    let beam: SearchNode[] = [root];
+    let best = root;
 
-      const nextPlan = mixPlans.get(nextTrack.id);
-      if (!currentPlan || !nextPlan) continue;
+    while (beam.length > 0 && beam[0].depth < targetLength) {
+      const layer = new Map<string, SearchNode>();
 
-      // Calcular Score
-      const transitionData = calculateTransitionScore(currentTrack, nextTrack, currentPlan, nextPlan);
-      // --- VARIETY PENALTY: penalizar repeticiones de tipo de transición/estrategia ---
-      const lastStep = currentState.path[currentState.path.length - 1];
-      if (lastStep && lastStep.transition && transitionData.transition) {
-        // Penalty: mismo tipo de transición (ej QUICK_MIX → QUICK_MIX)
-        if (lastStep.transition.type === transitionData.transition.type) {
-          transitionData.score -= VARIETY_PENALTY_TYPE;
+      for (const node of beam) {
+        stats.iterations++;
+        const candidates = expand(node).sort((a, b) => a.gScore - b.gScore);
+        if (candidates.length > BEAM_BRANCHING) {
+          stats.prunedBranches += candidates.length - BEAM_BRANCHING;
         }
-        // Penalty: misma estrategia de salida repetida (ej DROP_SWAP repetido)
-        if (lastStep.transition.exitPoint.strategy === transitionData.transition.exitPoint.strategy) {
-          transitionData.score -= VARIETY_PENALTY_STRATEGY;
+
+        for (const candidate of candidates.slice(0, BEAM_BRANCHING)) {
+          const child = materialize(candidate);
+          if (!Number.isFinite(child.fScore)) {
+            stats.prunedBranches++;
+            continue;
+          }
+          const key = stateKey(child);
+          const existing = layer.get(key);
+          if (existing) {
+            stats.prunedBranches++;
+            if (existing.gScore <= child.gScore) continue;
+          }
+          layer.set(key, child);
         }
       }
 
-      // FILTRO RELAJADO: Solo descartar si el score es extremadamente bajo (< 5)
-      // Antes devolvía -1 y mataba la rama. Ahora permitimos transiciones "malas" pero costosas.
-      if (transitionData.score < 5) continue;
-
-      const cost = 100 - transitionData.score;
-      const newGScore = currentState.gScore + cost;
-
-      // Heurística simple: Cuantos más tracks falten, más "costo base" estimamos
-      const remaining = targetLength - (currentState.path.length + 1);
-      const heuristic = remaining * 10; // Asumimos un costo mínimo de 10 por transición futura
-
-      const newState: AStarState = {
-        currentTrackId: nextTrack.id,
-        usedTrackIds: new Set(currentState.usedTrackIds).add(nextTrack.id),
-        path: [...currentState.path, {
-          track: nextTrack,
-          position: currentState.path.length,
-          transition: transitionData.transition || undefined,
-          transitionScore: transitionData.score
-        }],
-        gScore: newGScore
-      };
-
-      openSet.push({ state: newState, fScore: newGScore + heuristic });
+      const next = [...layer.values()].sort((a, b) => a.fScore - b.fScore);
+      if (next.length > BEAM_WIDTH) stats.prunedBranches += next.length - BEAM_WIDTH;
+      beam = next.slice(0, BEAM_WIDTH);
+      if (beam.length > 0 && isBetter(beam[0], best)) best = beam[0];
     }
+    return best;
+  };
+
+  let result = stats.algorithm === 'ASTAR' ? runAStar() : runBeam();
+  if (result.depth < targetLength && stats.algorithm === 'ASTAR') {
+    console.warn(`⚠️ A* sin solución completa tras ${stats.iterations} iteraciones. Probando beam search...`);
+    stats.algorithm = 'BEAM';
+    const beamResult = runBeam();
+    if (isBetter(beamResult, result)) result = beamResult;
+  }
+  stats.complete = result.depth === targetLength;
+
+  // 4. Reconstruir el camino
+  const path: SequencedTrack[] = [];
+  for (let node: SearchNode | null = result; node; node = node.parent) {
+    path.push({
+      track: tracks[node.trackIndex],
+      position: node.depth - 1,
+      transition: node.transition,
+      transitionScore: node.transitionScore,
+    });
+  }
+  path.reverse();
+
+  // totalScore incluye la penalización del arco de energía; avgTransitionScore solo las transiciones
+  const sessionScore = 100 - (result.gScore / Math.max(1, path.length - 1));
+  const transitionCost = path.slice(1).reduce((sum, st) => sum + (100 - (st.transitionScore ?? 0)), 0);
+  const avgTransitionScore = path.length > 1 ? 100 - (transitionCost / (path.length - 1)) : 0;
+  const warnings: string[] = [...(compiled?.warnings ?? [])];
+  if (options.constraints) {
+    warnings.push(...evaluarRestricciones(options.constraints, path.map(st => st.track)));
+  }
+  if (stats.complete) {
+    console.log(`✅ Secuencia encontrada (${stats.algorithm}) en ${stats.iterations} iteraciones, ${stats.prunedBranches} ramas podadas`);
+  } else {
+    console.warn('⚠️ No se encontró solución completa. Devolviendo mejor parcial.');
+    warnings.push(`Secuencia incompleta: ${path.length} de ${targetLength} tracks (no hay transiciones válidas suficientes)`);
+  }
+
+  const session: MixSession = {
+    tracks: path,
+    totalScore: sessionScore,
+    avgTransitionScore,
+    warnings,
+    stats,
+  };
+
+  session.variety = calcularInformeVariedad(
+    variety,
+    path.map(st => tracks.indexOf(st.track)),
+    path.map(st => st.transition?.entryPoint.sectionType)
+  );
+  const { artistRepeats, remixRepeats } = session.variety;
+  if (artistRepeats.length > 0) {
+    warnings.push(`Variedad: ${artistRepeats.length} artista(s) repetidos con menos de ${variety.options.minArtistGap} tracks de separación`);
+  }
+  if (remixRepeats.length > 0) {
+    warnings.push(`Variedad: ${remixRepeats.length} versión(es) repetidas del mismo original`);
+  }
+
+  if (energyTargets && energies) {
+    session.energyArc = calcularInformeArco(
+      energyTargets.slice(0, path.length),
+      path.map(st => energies.get(st.track.id)!)
+    );
   }
 
-  console.warn('⚠️ No se encontró solución óptima completa. Devolviendo mejor parcial.');
-  return bestPartialSession || { tracks: [], totalScore: 0, avgTransitionScore: 0, warnings: ['Fallo crítico en A*'] };
+  return session;
 }
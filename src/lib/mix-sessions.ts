@@ -0,0 +1,152 @@
+/**
+ * Sesiones de mezcla guardadas (sesiones_mix)
+ *
+ * Una sesión guarda el orden de las pistas con la transición de cada una
+ * (entrada/salida, curva, score), los parámetros que la generaron, nombre y
+ * notas. Al cargarla se expande con los datos actuales de las canciones, así
+ * que se puede preparar un set días antes y reproducirlo en otro equipo
+ * (el audio sale de /api/audio/{hash}).
+ *
+ * Bifurcar copia una sesión; con desdePosicion re-secuencia solo a partir de
+ * esa pista (las anteriores y sus transiciones se conservan).
+ */
+
+import { obtenerAlmacen } from './storage';
+import { obtenerCancionesPorHashes } from './db-persistence';
+import {
+  expandirPistas,
+  resecuenciarDesde,
+  secuenciarCanciones,
+  type ParametrosSecuencia,
+  type PistaSesion,
+  type SesionSecuenciada
+} from './mix-sequence';
+
+export interface SesionMix {
+  id: string;
+  nombre: string;
+  notas: string | null;
+  sesion_origen_id: string | null;      // Sesión de la que se bifurcó
+  posicion_bifurcacion: number | null;  // Desde qué pista se re-secuenció
+  parametros: ParametrosSecuencia;
+  pistas: PistaSesion[];
+  puntuacion_total: number;
+  fecha_creacion: Date;
+  fecha_actualizacion: Date;
+}
+
+export type ResumenSesionMix = Omit<SesionMix, 'parametros' | 'pistas'> & { num_pistas: number };
+
+export type NuevaSesionMix = Omit<SesionMix, 'id' | 'fecha_creacion' | 'fecha_actualizacion'>;
+
+export interface CambiosSesionMix {
+  nombre?: string;
+  notas?: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Un id que no es UUID no existe (y Postgres fallaría al convertirlo)
+const esIdSesion = (id: string) => UUID_PATTERN.test(id);
+
+/**
+ * Sesión con sus pistas expandidas para el player (mismo formato que /api/mix-sequence)
+ */
+export async function expandirSesionMix(sesion: SesionMix): Promise<SesionSecuenciada> {
+  const canciones = await obtenerCancionesPorHashes(sesion.pistas.map(p => p.hash));
+  const { tracks, warnings } = expandirPistas(sesion.pistas, canciones, sesion.parametros.harmonic);
+  const scores = tracks.slice(1).map(t => t.transitionScore ?? 0);
+
+  return {
+    tracks,
+    totalScore: sesion.puntuacion_total,
+    avgTransitionScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0,
+    warnings,
+  };
+}
+
+/**
+ * Secuencia con los parámetros y guarda el resultado como sesión nueva
+ */
+export async function crearSesionMix(params: {
+  nombre: string;
+  notas?: string | null;
+  parametros: ParametrosSecuencia;
+}): Promise<{ sesionMix: SesionMix; session: SesionSecuenciada }> {
+  const { sesion, pistas } = await secuenciarCanciones(params.parametros);
+
+  const sesionMix = await (await obtenerAlmacen()).crearSesionMix({
+    nombre: params.nombre,
+    notas: params.notas ?? null,
+    sesion_origen_id: null,
+    posicion_bifurcacion: null,
+    parametros: params.parametros,
+    pistas,
+    puntuacion_total: sesion.totalScore,
+  });
+
+  return { sesionMix, session: sesion };
+}
+
+export async function obtenerSesionMix(id: string): Promise<SesionMix | null> {
+  if (!esIdSesion(id)) return null;
+  return (await obtenerAlmacen()).obtenerSesionMix(id);
+}
+
+/**
+ * Lista sesiones (más recientes primero), sin pistas ni parámetros
+ */
+export async function listarSesionesMix(filtros: {
+  limit: number;
+  offset: number;
+}): Promise<{ sesiones: ResumenSesionMix[]; total: number }> {
+  return (await obtenerAlmacen()).listarSesionesMix(filtros);
+}
+
+export async function actualizarSesionMix(id: string, cambios: CambiosSesionMix): Promise<SesionMix | null> {
+  if (!esIdSesion(id)) return null;
+  return (await obtenerAlmacen()).actualizarSesionMix(id, cambios);
+}
+
+export async function borrarSesionMix(id: string): Promise<boolean> {
+  if (!esIdSesion(id)) return false;
+  return (await obtenerAlmacen()).borrarSesionMix(id);
+}
+
+/**
+ * Copia una sesión como sesión nueva
+ * - Sin desdePosicion: copia exacta (para variarla a mano sin tocar la original)
+ * - Con desdePosicion: conserva las pistas anteriores y re-secuencia el resto con
+ *   los parámetros de la original, cambiados por `parametros` si se indican
+ * Devuelve null si la sesión original no existe
+ */
+export async function bifurcarSesionMix(id: string, opciones: {
+  nombre?: string;
+  notas?: string | null;
+  desdePosicion?: number;
+  parametros?: Partial<ParametrosSecuencia>;
+} = {}): Promise<{ sesionMix: SesionMix; session: SesionSecuenciada } | null> {
+  const original = await obtenerSesionMix(id);
+  if (!original) return null;
+
+  const parametros: ParametrosSecuencia = { ...original.parametros, ...opciones.parametros };
+  const resecuenciar = opciones.desdePosicion !== undefined;
+  const resultado = resecuenciar
+    ? await resecuenciarDesde(parametros, original.pistas, opciones.desdePosicion!)
+    : null;
+
+  const sesionMix = await (await obtenerAlmacen()).crearSesionMix({
+    nombre: opciones.nombre ?? `${original.nombre} (copia)`,
+    notas: opciones.notas !== undefined ? opciones.notas : original.notas,
+    sesion_origen_id: original.id,
+    posicion_bifurcacion: resecuenciar ? opciones.desdePosicion! : null,
+    parametros,
+    pistas: resultado?.pistas ?? original.pistas,
+    puntuacion_total: resultado?.sesion.totalScore ?? original.puntuacion_total,
+  });
+
+  return {
+    sesionMix,
+    session: resultado?.sesion ?? await expandirSesionMix(sesionMix),
+  };
+}
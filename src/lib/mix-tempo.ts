@@ -0,0 +1,100 @@
+/**
+ * MIX TEMPO - Compatibilidad de tempo con octavas (½×, 2×) y 3:2
+ *
+ * Un track de dembow a 70 BPM y otro a 140 BPM mezclan perfectamente, y el
+ * analizador a veces reporta un track a mitad o doble tempo. La relación se
+ * calcula siempre sobre los BPM principales (es lo que usa el reproductor para
+ * el playbackRate); las lecturas alternativas del analizador (bpm_candidatos)
+ * deciden si esa relación es un cambio real de tempo o la misma lectura:
+ * 70 → 140 con un candidato a 140 en B se puntúa como SAME.
+ */
+
+import type { BpmCandidato, CancionAnalizada } from './db';
+import { relacionTempo, type TempoRelation } from './beatmatch';
+
+// Puntos (sobre 100) que se restan al mezclar sin relación 1:1
+const TEMPO_RELATION_PENALTY: Record<TempoRelation, number> = {
+  SAME: 0,
+  DOUBLE: 10,
+  HALF: 10,
+  THREE_TWO: 30,
+  TWO_THREE: 30,
+};
+
+// Tolerancia para considerar que un candidato es la lectura buscada
+const CANDIDATE_TOLERANCE = 0.03;
+
+// Fuera del rango de pitch se sigue buscando relación para puntuar (20 si tampoco cabe)
+const SCORING_RANGE = 0.08;
+
+type TempoTrack = Pick<CancionAnalizada, 'bpm' | 'bpm_candidatos'>;
+
+export interface TempoEvaluation {
+  relation: TempoRelation | null; // null = ninguna relación cabe en el rango
+  bpmA: number | null;
+  bpmB: number | null;
+  interpretedBpmB: number | null; // BPM de B contado como lo oirá A (bpmB × multiple)
+  diffPercent: number | null;     // Positivo si sube
+  candidateConfidence: number;    // Confianza del analizador en esa lectura (0 = no respaldada)
+  penalty: number;
+  score: number;
+}
+
+function confianzaLectura(candidatos: BpmCandidato[] | null | undefined, bpm: number): number {
+  let best = 0;
+  for (const c of candidatos ?? []) {
+    if (Math.abs(c.bpm - bpm) / bpm <= CANDIDATE_TOLERANCE) best = Math.max(best, c.confianza);
+  }
+  return best;
+}
+
+/**
+ * Puntuación base por diferencia de tempo (tras aplicar la relación)
+ */
+function puntuarDiferencia(diffPercent: number): number {
+  // Rango perfecto: +0% a +4% (Subir energía ligeramente es mejor)
+  if (diffPercent >= 0 && diffPercent <= 0.04) return 100;
+  // Rango bueno: -2% a 0% (Mantener o bajar muy poco)
+  if (diffPercent >= -0.02 && diffPercent < 0) return 90;
+  // Rango aceptable (valor absoluto)
+  return 60;
+}
+
+/**
+ * Evalúa la compatibilidad de tempo A → B eligiendo la lectura que mejor encaja
+ */
+export function evaluarTempo(trackA: TempoTrack, trackB: TempoTrack): TempoEvaluation {
+  const base = {
+    bpmA: trackA.bpm,
+    bpmB: trackB.bpm,
+    interpretedBpmB: null,
+    diffPercent: null,
+    candidateConfidence: 0,
+    penalty: 0,
+  };
+  if (!trackA.bpm || !trackB.bpm) return { ...base, relation: null, score: 50 };
+
+  const match = relacionTempo(trackA.bpm, trackB.bpm, SCORING_RANGE);
+  // Cambio drástico (>8%) en cualquier lectura
+  if (!match) return { ...base, relation: null, score: 20 };
+
+  const interpretedBpmB = trackB.bpm * match.multiple;
+
+  // ¿El analizador también leyó B a ese tempo (o A al tempo de B)?
+  const candidateConfidence = match.relation === 'SAME' ? 1 : Math.max(
+    confianzaLectura(trackB.bpm_candidatos, interpretedBpmB),
+    confianzaLectura(trackA.bpm_candidatos, trackA.bpm / match.multiple)
+  );
+  const penalty = Math.round(TEMPO_RELATION_PENALTY[match.relation] * (1 - candidateConfidence));
+
+  return {
+    relation: match.relation,
+    bpmA: trackA.bpm,
+    bpmB: trackB.bpm,
+    interpretedBpmB: Math.round(interpretedBpmB * 10) / 10,
+    diffPercent: Math.round(match.diffPercent * 10000) / 10000,
+    candidateConfidence,
+    penalty,
+    score: Math.max(0, puntuarDiferencia(match.diffPercent) - penalty),
+  };
+}
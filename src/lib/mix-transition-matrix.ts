@@ -0,0 +1,120 @@
+/**
+ * MIX TRANSITION MATRIX - Puntuaciones de transición precalculadas
+ *
+ * findBestTransition (simulación de timeline) es lo caro del secuenciador.
+ * Aquí se calcula UNA vez por par ordenado (A → B) y se cachea en memoria del
+ * proceso por par de hashes, de forma que:
+ * - La búsqueda solo consulta la matriz (O(1) por expansión)
+ * - Re-secuenciar el mismo crate (o uno solapado) reutiliza los pares ya vistos
+ *
+ * La clave incluye fecha_procesado de ambos tracks: si uno se re-analiza,
+ * sus pares se recalculan.
+ *
+ * Se puede sembrar con pares ya persistidos (ver db-transitions.ts).
+ * La puntuación (BPM + armonía + mezcla) se recalcula al montar la matriz
+ * porque depende de las opciones de la petición y es barata.
+ */
+
+import type { CancionAnalizada } from './db';
+import type { MixPlanEntry } from './mix-planner';
+import type { TransitionResult } from './mix-transitions';
+
+export interface PairScore {
+  score: number;
+  transition: TransitionResult | null;
+}
+
+export interface TransitionMatrix {
+  size: number;
+  /** Puntuación base i → j (sin penalizaciones dependientes del camino) */
+  get(i: number, j: number): PairScore | null;
+  pairsComputed: number;
+  pairsFromCache: number;
+}
+
+export interface PairScorer {
+  /** Mejor transición A → B (caro, cacheable) */
+  transition(
+    trackA: CancionAnalizada,
+    trackB: CancionAnalizada,
+    mixPlanA: MixPlanEntry,
+    mixPlanB: MixPlanEntry
+  ): TransitionResult | null;
+  /** Puntuación de esa transición con las opciones actuales */
+  score(trackA: CancionAnalizada, trackB: CancionAnalizada, transition: TransitionResult | null): number;
+}
+
+// Límite de pares en memoria (~300 tracks al cuadrado)
+const MAX_CACHED_PAIRS = 100_000;
+
+const pairCache = new Map<string, TransitionResult | null>();
+
+function versionTrack(track: CancionAnalizada): string {
+  const fecha = track.fecha_procesado ? new Date(track.fecha_procesado).getTime() : 0;
+  return `${track.hash_archivo}@${Number.isNaN(fecha) ? 0 : fecha}`;
+}
+
+export function clavePar(trackA: CancionAnalizada, trackB: CancionAnalizada): string {
+  return `${versionTrack(trackA)}>${versionTrack(trackB)}`;
+}
+
+function guardarEnCache(key: string, value: TransitionResult | null): void {
+  if (pairCache.size >= MAX_CACHED_PAIRS) {
+    // Map conserva orden de inserción: descartamos el más antiguo
+    const oldest = pairCache.keys().next().value;
+    if (oldest !== undefined) pairCache.delete(oldest);
+  }
+  pairCache.set(key, value);
+}
+
+/**
+ * Construye la matriz de transiciones del crate (pares sin mix plan quedan a null)
+ */
+export function construirMatrizTransiciones(
+  tracks: CancionAnalizada[],
+  mixPlans: Map<string, MixPlanEntry>,
+  scorer: PairScorer,
+  precomputed?: Map<string, PairScore>
+): TransitionMatrix {
+  const n = tracks.length;
+  const cells: Array<PairScore | null> = new Array(n * n).fill(null);
+  let pairsComputed = 0;
+  let pairsFromCache = 0;
+
+  for (let i = 0; i < n; i++) {
+    const planA = mixPlans.get(tracks[i].id);
+    if (!planA) continue;
+
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      const planB = mixPlans.get(tracks[j].id);
+      if (!planB) continue;
+
+      const key = clavePar(tracks[i], tracks[j]);
+      let transition = pairCache.get(key);
+      if (transition === undefined && precomputed?.has(key)) {
+        transition = precomputed.get(key)!.transition;
+      }
+
+      if (transition !== undefined) {
+        pairsFromCache++;
+      } else {
+        transition = scorer.transition(tracks[i], tracks[j], planA, planB);
+        guardarEnCache(key, transition);
+        pairsComputed++;
+      }
+      cells[i * n + j] = { score: scorer.score(tracks[i], tracks[j], transition), transition };
+    }
+  }
+
+  return {
+    size: n,
+    get: (i, j) => cells[i * n + j],
+    pairsComputed,
+    pairsFromCache,
+  };
+}
+
+export function limpiarCacheTransiciones(): void {
+  pairCache.clear();
+}
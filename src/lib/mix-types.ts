@@ -55,3 +55,32 @@ export interface CuePoint {
     loopLengthMs?: number;     // Longitud del loop (ej: 2000ms para 4 beats a 120BPM)
     loopType?: '1_BAR' | '4_BAR' | '8_BAR' | 'NONE';
 }
+
+// Tipos de transición que produce findBestTransition (ver determineMixType)
+export type MixTransitionType = 'LONG_MIX' | 'QUICK_MIX' | 'DOUBLE_DROP' | 'CUT' | 'LOOP_MIX';
+
+const DEFAULT_CROSSFADE_MS = 8000;
+
+/**
+ * Duración del crossfade según el tipo de transición
+ * Compartido entre el reproductor (useMixPlayer) y el render offline
+ */
+export function getCrossfadeDurationMs(type: string, durationMs?: number): number {
+    if (type === 'QUICK_MIX') return 4000;
+    if (type === 'LOOP_MIX') return 16000; // Los loops necesitan más tiempo
+    if (type === 'CUT') return 100;
+    return durationMs || DEFAULT_CROSSFADE_MS;
+}
+
+/**
+ * Ganancias de cada deck para un progreso de crossfade (0-1)
+ * - LINEAR: rampa lineal clásica
+ * - POWER_MIX / BASS_SWAP: potencia constante (cos/sin), sin bajón a mitad de mezcla
+ * - CUT: cambio seco en cuanto empieza la transición
+ */
+export function getCrossfadeGains(curve: CrossfadeCurve, progress: number): { outgoing: number; incoming: number } {
+    const p = Math.min(1, Math.max(0, progress));
+    if (curve === 'CUT') return p > 0 ? { outgoing: 0, incoming: 1 } : { outgoing: 1, incoming: 0 };
+    if (curve === 'LINEAR') return { outgoing: 1 - p, incoming: p };
+    return { outgoing: Math.cos(p * Math.PI / 2), incoming: Math.sin(p * Math.PI / 2) };
+}
@@ -0,0 +1,223 @@
+/**
+ * MIX VARIETY - Reglas de variedad del set (artistas, versiones, secciones)
+ *
+ * - Hueco mínimo entre dos tracks del mismo artista (cuenta también feat./&/x)
+ * - Versiones del mismo original (Remix, Extended Mix, Edit...) detectadas por título normalizado
+ * - Misma sección de entrada en transiciones consecutivas (intro → intro → intro)
+ *
+ * Son penalizaciones sobre el score de la transición, como VARIETY_PENALTY_* en el
+ * secuenciador: una penalización ≥ 100 equivale a prohibirlo (el score queda por
+ * debajo del mínimo y la rama se poda).
+ */
+
+import type { CancionAnalizada } from './db';
+
+export interface VarietyOptions {
+  minArtistGap?: number;          // Tracks que tienen que pasar antes de repetir artista (0 = sin regla)
+  artistPenalty?: number;         // Penalización por repetir artista dentro del hueco
+  remixPenalty?: number;          // Penalización por repetir original (remix, extended, edit...)
+  remixWindow?: number;           // Tracks hacia atrás en los que cuenta la repetición (0 = todo el set)
+  sectionRepeatPenalty?: number;  // Penalización por entrar en el mismo tipo de sección que la transición anterior
+}
+
+export const DEFAULT_VARIETY: Required<VarietyOptions> = {
+  minArtistGap: 3,
+  artistPenalty: 40,
+  remixPenalty: 50,
+  remixWindow: 0,
+  sectionRepeatPenalty: 10,
+};
+
+export interface VarietyReport {
+  options: Required<VarietyOptions>;
+  artistRepeats: Array<{ artist: string; positions: [number, number] }>;
+  remixRepeats: Array<{ original: string; positions: [number, number] }>;
+  sectionRepeats: Array<{ section: string; positions: [number, number] }>;
+  totalPenalty: number;
+}
+
+// Reglas resueltas por índice del array de tracks
+export interface CompiledVariety {
+  options: Required<VarietyOptions>;
+  artists: string[][];            // Artistas normalizados de cada track
+  artistLabels: string[];         // Artista tal cual (para el informe)
+  originals: string[];            // Título original normalizado ('' = desconocido)
+  isVersion: boolean[];           // El título indica remix/edit/extended...
+}
+
+// Palabras que marcan una versión dentro de "(...)", "[...]" o tras " - "
+const VERSION_WORDS = /\b(remix|mix|edit|version|rework|bootleg|dub|vip|flip|remaster(ed)?|instrumental|acapella|radio|extended|club|original|re-?edit|cover)\b/;
+const ARTIST_SEPARATORS = /\s*(?:,|&|\+|\/|;|\bx\b|\band\b|\bvs\.?\b|\bfeat\.?\b|\bft\.?\b|\bfeaturing\b|\bwith\b)\s*/;
+
+function normalizarTexto(texto: string): string {
+  return texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+export function isVarietyOptions(value: unknown): value is VarietyOptions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const o = value as Record<string, unknown>;
+  for (const key of Object.keys(o)) {
+    if (!(key in DEFAULT_VARIETY)) return false;
+    const v = o[key];
+    if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) return false;
+    if ((key === 'minArtistGap' || key === 'remixWindow') && !Number.isInteger(v)) return false;
+  }
+  return true;
+}
+
+/**
+ * "Bicep feat. Clara La San & Sarah" → ['bicep', 'clara la san', 'sarah']
+ */
+export function normalizarArtistas(artista: string | null | undefined): string[] {
+  if (!artista) return [];
+  return normalizarTexto(artista)
+    .split(ARTIST_SEPARATORS)
+    .map(a => a.replace(/[^\p{L}\p{N} ]/gu, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Título sin la versión ni los invitados: "Glue (Extended Mix) [feat. X]" → "glue"
+ */
+export function normalizarTituloOriginal(titulo: string | null | undefined): { original: string; isVersion: boolean } {
+  if (!titulo) return { original: '', isVersion: false };
+
+  let texto = normalizarTexto(titulo);
+  let isVersion = false;
+
+  // (Extended Mix), [Radio Edit], (feat. X)
+  texto = texto.replace(/[([]([^)\]]*)[)\]]/g, (_, dentro: string) => {
+    if (VERSION_WORDS.test(dentro)) isVersion = true;
+    return ' ';
+  });
+
+  // "Glue - Bicep Remix"
+  const guion = texto.lastIndexOf(' - ');
+  if (guion > 0 && VERSION_WORDS.test(texto.slice(guion + 3))) {
+    isVersion = true;
+    texto = texto.slice(0, guion);
+  }
+
+  texto = texto.replace(/\b(feat|ft|featuring)\b.*$/, '');
+  const original = texto.replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  return { original, isVersion };
+}
+
+export function compilarVariedad(tracks: CancionAnalizada[], options: VarietyOptions = {}): CompiledVariety {
+  const titulos = tracks.map(t => normalizarTituloOriginal(t.titulo));
+  return {
+    options: { ...DEFAULT_VARIETY, ...options },
+    artists: tracks.map(t => normalizarArtistas(t.artista)),
+    artistLabels: tracks.map(t => t.artista || ''),
+    originals: titulos.map(t => t.original),
+    isVersion: titulos.map(t => t.isVersion),
+  };
+}
+
+function compartenArtista(compiled: CompiledVariety, a: number, b: number): boolean {
+  const artistsB = compiled.artists[b];
+  return compiled.artists[a].some(artist => artistsB.includes(artist));
+}
+
+/**
+ * Dos tracks son versiones del mismo original si el título normalizado coincide y
+ * además alguno está marcado como versión o comparten artista (evita juntar
+ * canciones distintas que solo se llaman igual)
+ */
+function mismoOriginal(compiled: CompiledVariety, a: number, b: number): boolean {
+  const original = compiled.originals[a];
+  if (!original || original !== compiled.originals[b]) return false;
+  return compiled.isVersion[a] || compiled.isVersion[b] || compartenArtista(compiled, a, b);
+}
+
+/**
+ * Penalización por colocar candidate tras el camino dado
+ * @param previous Tracks ya colocados, del más reciente al más antiguo
+ */
+export function penalizacionVariedad(
+  compiled: CompiledVariety,
+  previous: number[],
+  candidate: number,
+  previousEntrySection?: string,
+  entrySection?: string
+): number {
+  const { minArtistGap, artistPenalty, remixPenalty, remixWindow, sectionRepeatPenalty } = compiled.options;
+  let penalty = 0;
+
+  if (minArtistGap > 0 && compiled.artists[candidate].length > 0) {
+    const limite = Math.min(previous.length, minArtistGap);
+    for (let i = 0; i < limite; i++) {
+      if (compartenArtista(compiled, previous[i], candidate)) {
+        penalty += artistPenalty;
+        break;
+      }
+    }
+  }
+
+  if (remixPenalty > 0 && compiled.originals[candidate]) {
+    const limite = remixWindow > 0 ? Math.min(previous.length, remixWindow) : previous.length;
+    for (let i = 0; i < limite; i++) {
+      if (mismoOriginal(compiled, previous[i], candidate)) {
+        penalty += remixPenalty;
+        break;
+      }
+    }
+  }
+
+  if (sectionRepeatPenalty > 0 && entrySection && entrySection === previousEntrySection) {
+    penalty += sectionRepeatPenalty;
+  }
+
+  return penalty;
+}
+
+/**
+ * Informe de variedad del camino final (qué reglas se incumplieron y dónde)
+ * @param entrySections Sección de entrada de cada posición (undefined en la primera)
+ */
+export function calcularInformeVariedad(
+  compiled: CompiledVariety,
+  path: number[],
+  entrySections: Array<string | undefined>
+): VarietyReport {
+  const report: VarietyReport = {
+    options: compiled.options,
+    artistRepeats: [],
+    remixRepeats: [],
+    sectionRepeats: [],
+    totalPenalty: 0,
+  };
+
+  for (let pos = 1; pos < path.length; pos++) {
+    const previous = path.slice(0, pos).reverse();
+    report.totalPenalty += penalizacionVariedad(compiled, previous, path[pos], entrySections[pos - 1], entrySections[pos]);
+
+    const { minArtistGap, remixWindow, sectionRepeatPenalty, remixPenalty } = compiled.options;
+
+    if (minArtistGap > 0) {
+      const anterior = previous.slice(0, minArtistGap).findIndex(i => compartenArtista(compiled, i, path[pos]));
+      if (anterior !== -1) {
+        report.artistRepeats.push({ artist: compiled.artistLabels[path[pos]], positions: [pos - 1 - anterior, pos] });
+      }
+    }
+
+    if (remixPenalty > 0) {
+      const ventana = remixWindow > 0 ? previous.slice(0, remixWindow) : previous;
+      const anterior = ventana.findIndex(i => mismoOriginal(compiled, i, path[pos]));
+      if (anterior !== -1) {
+        report.remixRepeats.push({ original: compiled.originals[path[pos]], positions: [pos - 1 - anterior, pos] });
+      }
+    }
+
+    const section = entrySections[pos];
+    if (sectionRepeatPenalty > 0 && section && section === entrySections[pos - 1]) {
+      report.sectionRepeats.push({ section, positions: [pos - 1, pos] });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,751 @@
+/**
+ * Almacén Postgres (Neon o node-postgres, ver db.ts): el SQL de siempre
+ *
+ * Incluye las versiones de análisis: cada análisis se guarda también en
+ * versiones_analisis y los bloqueos de corrección manual se respetan.
+ */
+
+import { sql, enriquecerCancionConDatosDerivados, type DriverBD } from './db';
+import type { CancionAnalizada } from './db';
+import { normalizeCancionFromDB } from './db-normalize';
+import { ANALYZER_VERSION } from './audio-analyzer-unified';
+import { GEMINI_MODEL, GEMINI_PROMPT_VERSION } from './gemini-optimizer';
+import {
+  activarVersion,
+  crearVersionAnalisis,
+  guardarEssentiaEnVersion,
+  guardarGeminiEnVersion,
+  marcarVersionActiva,
+  obtenerVersionPorNumero
+} from './analysis-versions';
+import type { FormaOnda } from './audio-waveform';
+import type { AnalysisJob, JobStage } from './analysis-jobs';
+import type { CambiosSesionMix, NuevaSesionMix, ResumenSesionMix, SesionMix } from './mix-sessions';
+import type { ResultadoCorreccion } from './analysis-corrections';
+import type {
+  AlmacenAnalisis,
+  CambiosJob,
+  CambiosMetadatos,
+  ClaveJob,
+  ParamsDatosGemini,
+  ParamsGuardarAnalisis
+} from './storage';
+import { randomUUID } from 'crypto';
+
+// ===================================================================
+// CANCIONES
+// ===================================================================
+
+async function existeCancionPorHash(hash: string): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT 1 FROM canciones_analizadas 
+    WHERE hash_archivo = ${hash} 
+    LIMIT 1
+  `;
+
+  return resultado.length > 0;
+}
+
+async function obtenerCancionPorHash(hash: string): Promise<CancionAnalizada | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT * FROM canciones_analizadas 
+    WHERE hash_archivo = ${hash} 
+    LIMIT 1
+  `;
+
+  if (resultado.length === 0) return null;
+  
+  // Enriquecer con datos derivados del timeline para compatibilidad
+  return enriquecerCancionConDatosDerivados(resultado[0] as CancionAnalizada);
+}
+
+async function obtenerCancionesPorHashes(hashes: string[]): Promise<CancionAnalizada[]> {
+  if (!sql) throw new Error('SQL client no disponible');
+  if (hashes.length === 0) return [];
+
+  const rows = await sql`
+    SELECT * FROM canciones_analizadas
+    WHERE hash_archivo = ANY(${hashes})
+  `;
+
+  return rows.map(normalizeCancionFromDB);
+}
+
+/**
+ * El análisis queda también como versión (versiones_analisis). Sin versionId se
+ * crea una y se activa; con versionId (job de la cola) solo se activa si la
+ * canción aún no existe: un re-análisis no pisa la versión activa
+ *
+ * Los campos corregidos a mano (bloqueos) conservan el valor del usuario
+ * La forma de onda se guarda siempre (depende del audio, no de la versión)
+ */
+async function guardarAnalisis(params: ParamsGuardarAnalisis): Promise<string> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const { hash, titulo, analisis, gemini } = params;
+
+  const versionId = params.versionId ?? await crearVersionAnalisis({ hash });
+  await guardarEssentiaEnVersion(versionId, analisis, ANALYZER_VERSION);
+  if (params.versionId) {
+    const existente = await obtenerCancionPorHash(hash);
+    if (existente) {
+      if (analisis.forma_onda) await guardarFormaOnda(hash, analisis.forma_onda);
+      return existente.id;
+    }
+  }
+
+  const metadatos = { ...params.metadatos, artista: params.metadatos?.artista ?? params.artista ?? null };
+
+  // ===================================================================
+  // SERIALIZAR CAMPOS BÁSICOS - ESQUEMA OPTIMIZADO
+  // ===================================================================
+  const bpm_candidatos = JSON.stringify(analisis.bpm_candidatos || []);
+  const tonalidad_compatible = JSON.stringify(analisis.tonalidad_compatible || []);
+  const compas = JSON.stringify(analisis.compas || { numerador: 4, denominador: 4 });
+  const beats_ts_ms = JSON.stringify(analisis.beats_ts_ms || []);
+  const downbeats_ts_ms = JSON.stringify(analisis.downbeats_ts_ms || []);
+  const frases_ts_ms = JSON.stringify(analisis.frases_ts_ms || []);
+  const huella_chroma = analisis.huella_chroma ? JSON.stringify(analisis.huella_chroma) : null;
+
+  // ===================================================================
+  // SERIALIZAR GEMINI (SIMPLIFICADO - SOLO TIMELINE Y LOOPS)
+  // ===================================================================
+  const timeline = gemini?.timeline ? JSON.stringify(gemini.timeline) : JSON.stringify([]);
+  const loops_transicion = gemini?.loops_transicion ? JSON.stringify(gemini.loops_transicion) : JSON.stringify([]);
+
+  const resultado = await sql`
+    INSERT INTO canciones_analizadas (
+      hash_archivo, titulo, duracion_ms,
+      bpm, bpm_candidatos, tonalidad_camelot, tonalidad_compatible,
+      bailabilidad, compas,
+      beats_ts_ms, downbeats_ts_ms, frases_ts_ms,
+      huella_chroma,
+      timeline, loops_transicion,
+      artista, album, anio, genero, sello, isrc, comentarios,
+      fecha_procesado
+    ) VALUES (
+      ${hash}, ${titulo}, ${analisis.duracion_ms},
+      ${analisis.bpm}, ${bpm_candidatos}::jsonb, ${analisis.tonalidad_camelot}, ${tonalidad_compatible}::jsonb,
+      ${analisis.bailabilidad}, ${compas}::jsonb,
+      ${beats_ts_ms}::jsonb, ${downbeats_ts_ms}::jsonb, ${frases_ts_ms}::jsonb,
+      ${huella_chroma}::jsonb,
+      ${timeline}::jsonb, ${loops_transicion}::jsonb,
+      ${metadatos.artista}, ${metadatos.album ?? null}, ${metadatos.anio ?? null}, ${metadatos.genero ?? null},
+      ${metadatos.sello ?? null}, ${metadatos.isrc ?? null}, ${metadatos.comentarios ?? null},
+      NOW()
+    )
+    ON CONFLICT (hash_archivo) 
+    DO UPDATE SET
+      titulo = EXCLUDED.titulo,
+      duracion_ms = EXCLUDED.duracion_ms,
+      bpm = CASE WHEN (canciones_analizadas.bloqueos->>'bpm')::boolean
+        THEN canciones_analizadas.bpm ELSE EXCLUDED.bpm END,
+      bpm_candidatos = CASE WHEN (canciones_analizadas.bloqueos->>'bpm')::boolean
+        THEN canciones_analizadas.bpm_candidatos ELSE EXCLUDED.bpm_candidatos END,
+      tonalidad_camelot = CASE WHEN (canciones_analizadas.bloqueos->>'tonalidad')::boolean
+        THEN canciones_analizadas.tonalidad_camelot ELSE EXCLUDED.tonalidad_camelot END,
+      tonalidad_compatible = CASE WHEN (canciones_analizadas.bloqueos->>'tonalidad')::boolean
+        THEN canciones_analizadas.tonalidad_compatible ELSE EXCLUDED.tonalidad_compatible END,
+      bailabilidad = EXCLUDED.bailabilidad,
+      compas = CASE WHEN (canciones_analizadas.bloqueos->>'grid')::boolean
+        THEN canciones_analizadas.compas ELSE EXCLUDED.compas END,
+      beats_ts_ms = CASE WHEN (canciones_analizadas.bloqueos->>'grid')::boolean
+        THEN canciones_analizadas.beats_ts_ms ELSE EXCLUDED.beats_ts_ms END,
+      downbeats_ts_ms = CASE WHEN (canciones_analizadas.bloqueos->>'grid')::boolean
+        THEN canciones_analizadas.downbeats_ts_ms ELSE EXCLUDED.downbeats_ts_ms END,
+      frases_ts_ms = CASE WHEN (canciones_analizadas.bloqueos->>'grid')::boolean
+        THEN canciones_analizadas.frases_ts_ms ELSE EXCLUDED.frases_ts_ms END,
+      huella_chroma = COALESCE(EXCLUDED.huella_chroma, canciones_analizadas.huella_chroma),
+      timeline = CASE WHEN (canciones_analizadas.bloqueos->>'timeline')::boolean
+        THEN canciones_analizadas.timeline ELSE COALESCE(EXCLUDED.timeline, canciones_analizadas.timeline) END,
+      loops_transicion = COALESCE(EXCLUDED.loops_transicion, canciones_analizadas.loops_transicion),
+      -- Un re-análisis sin tags no borra los metadatos ya guardados (ni las etiquetas del usuario)
+      artista = COALESCE(EXCLUDED.artista, canciones_analizadas.artista),
+      album = COALESCE(EXCLUDED.album, canciones_analizadas.album),
+      anio = COALESCE(EXCLUDED.anio, canciones_analizadas.anio),
+      genero = COALESCE(EXCLUDED.genero, canciones_analizadas.genero),
+      sello = COALESCE(EXCLUDED.sello, canciones_analizadas.sello),
+      isrc = COALESCE(EXCLUDED.isrc, canciones_analizadas.isrc),
+      comentarios = COALESCE(EXCLUDED.comentarios, canciones_analizadas.comentarios),
+      fecha_procesado = NOW()
+    RETURNING id
+  `;
+
+  await marcarVersionActiva(hash, versionId);
+  if (analisis.forma_onda) await guardarFormaOnda(hash, analisis.forma_onda);
+  return resultado[0].id;
+}
+
+/**
+ * Con versionId se completa esa versión; si no es la activa, canciones_analizadas
+ * no cambia salvo que la versión se pidiera activar al completarse
+ * Un timeline bloqueado (corregido a mano) no se sobrescribe
+ * Renueva fecha_procesado: timeline y loops entran en el plan de mezcla, así que
+ * las transiciones cacheadas con los datos anteriores quedan obsoletas
+ */
+async function actualizarDatosGemini(params: ParamsDatosGemini): Promise<void> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const { hash, timeline, loops_transicion } = params;
+
+  const versionId = params.versionId ?? (await obtenerVersionPorNumero(hash))?.id;
+  if (versionId) {
+    const version = await guardarGeminiEnVersion({
+      versionId,
+      timeline,
+      loops_transicion,
+      versionPrompt: GEMINI_PROMPT_VERSION,
+      modelo: GEMINI_MODEL,
+    });
+    if (version && !version.activa) {
+      if (version.activar_al_completar) await activarVersion(hash, versionId);
+      return;
+    }
+  }
+
+  const timeline_json = timeline ? JSON.stringify(timeline) : null;
+  const loops_transicion_json = loops_transicion ? JSON.stringify(loops_transicion) : null;
+
+  await sql`
+    UPDATE canciones_analizadas 
+    SET 
+      timeline = CASE WHEN (bloqueos->>'timeline')::boolean
+        THEN timeline ELSE COALESCE(${timeline_json}::jsonb, timeline) END,
+      loops_transicion = COALESCE(${loops_transicion_json}::jsonb, loops_transicion),
+      fecha_procesado = NOW()
+    WHERE hash_archivo = ${hash}
+  `;
+}
+
+async function guardarFormaOnda(hash: string, forma: FormaOnda): Promise<void> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  await sql`
+    INSERT INTO formas_onda (hash_archivo, version, datos, fecha_calculo)
+    VALUES (${hash}, ${forma.v}, ${JSON.stringify(forma)}::jsonb, NOW())
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET
+      version = EXCLUDED.version,
+      datos = EXCLUDED.datos,
+      fecha_calculo = NOW()
+  `;
+}
+
+async function obtenerFormaOnda(hash: string, version: number): Promise<unknown | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT datos FROM formas_onda
+    WHERE hash_archivo = ${hash} AND version = ${version}
+    LIMIT 1
+  `;
+
+  if (resultado.length === 0) return null;
+  return typeof resultado[0].datos === 'string' ? JSON.parse(resultado[0].datos) : resultado[0].datos;
+}
+
+/**
+ * Solo las columnas presentes en el resultado, más los bloqueos
+ * Renueva fecha_procesado: las transiciones cacheadas con el análisis sin
+ * corregir dejan de valer
+ */
+async function guardarCorrecciones(hash: string, correccion: ResultadoCorreccion): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const json = (valor: unknown) => valor === undefined ? null : JSON.stringify(valor);
+
+  const resultado = await sql`
+    UPDATE canciones_analizadas
+    SET
+      bpm = COALESCE(${correccion.bpm ?? null}, bpm),
+      tonalidad_camelot = COALESCE(${correccion.tonalidad_camelot ?? null}, tonalidad_camelot),
+      tonalidad_compatible = COALESCE(${json(correccion.tonalidad_compatible)}::jsonb, tonalidad_compatible),
+      beats_ts_ms = COALESCE(${json(correccion.beats_ts_ms)}::jsonb, beats_ts_ms),
+      downbeats_ts_ms = COALESCE(${json(correccion.downbeats_ts_ms)}::jsonb, downbeats_ts_ms),
+      frases_ts_ms = COALESCE(${json(correccion.frases_ts_ms)}::jsonb, frases_ts_ms),
+      timeline = COALESCE(${json(correccion.timeline)}::jsonb, timeline),
+      bloqueos = ${JSON.stringify(correccion.bloqueos)}::jsonb,
+      fecha_procesado = NOW()
+    WHERE hash_archivo = ${hash}
+    RETURNING id
+  `;
+
+  return resultado.length > 0;
+}
+
+/**
+ * El título va dentro de los cue points del plan de mezcla: si cambia, se renueva
+ * fecha_procesado para no servir transiciones cacheadas con el anterior
+ */
+async function actualizarMetadatos(hash: string, cambios: CambiosMetadatos): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const actual = await obtenerCancionPorHash(hash);
+  if (!actual) return false;
+
+  const valor = <K extends keyof CambiosMetadatos>(campo: K, previo: CambiosMetadatos[K] | undefined) =>
+    campo in cambios ? cambios[campo] ?? null : previo ?? null;
+
+  const etiquetas = JSON.stringify(valor('etiquetas', actual.etiquetas ?? []) ?? []);
+
+  await sql`
+    UPDATE canciones_analizadas
+    SET
+      titulo = ${cambios.titulo ?? actual.titulo},
+      artista = ${valor('artista', actual.artista)},
+      album = ${valor('album', actual.album)},
+      anio = ${valor('anio', actual.anio)},
+      genero = ${valor('genero', actual.genero)},
+      sello = ${valor('sello', actual.sello)},
+      isrc = ${valor('isrc', actual.isrc)},
+      comentarios = ${valor('comentarios', actual.comentarios)},
+      etiquetas = ${etiquetas}::jsonb,
+      fecha_procesado = CASE WHEN titulo IS DISTINCT FROM ${cambios.titulo ?? actual.titulo}
+        THEN NOW() ELSE fecha_procesado END
+    WHERE hash_archivo = ${hash}
+  `;
+
+  return true;
+}
+
+async function obtenerCancionesConHuella(hashes: string[] | null): Promise<CancionAnalizada[]> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const rows = await sql`
+    SELECT hash_archivo, titulo, artista, duracion_ms, bpm, tonalidad_camelot, huella_chroma
+    FROM canciones_analizadas
+    WHERE ${hashes === null} OR hash_archivo = ANY(${hashes ?? []})
+  `;
+
+  return rows.map(normalizeCancionFromDB);
+}
+
+// ===================================================================
+// COLA DE ANÁLISIS
+// ===================================================================
+
+async function crearJob(hash: string): Promise<string> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const newId = randomUUID();
+
+  const resultado = await sql`
+    INSERT INTO analysis_jobs (
+      id, hash_archivo, status, progress, created_at, updated_at
+    ) VALUES (
+      ${newId},
+      ${hash},
+      'pending',
+      0,
+      NOW(),
+      NOW()
+    )
+    ON CONFLICT (hash_archivo) 
+    DO UPDATE SET
+      status = 'pending',
+      progress = 0,
+      updated_at = NOW(),
+      error_message = NULL
+    RETURNING id
+  `;
+
+  return resultado[0].id;
+}
+
+async function obtenerJob(id: string): Promise<AnalysisJob | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT * FROM analysis_jobs 
+    WHERE id = ${id}
+    LIMIT 1
+  `;
+
+  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+}
+
+async function obtenerUltimoJobPorHash(hash: string): Promise<AnalysisJob | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT * FROM analysis_jobs 
+    WHERE hash_archivo = ${hash}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+
+  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+}
+
+/**
+ * Actualiza las columnas presentes en cambios (rutas síncronas: progreso, en proceso,
+ * completado, fallido)
+ */
+async function actualizarJob(clave: ClaveJob, cambios: CambiosJob): Promise<void> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const columnas: string[] = [];
+  const valores: unknown[] = [];
+  const poner = (columna: string, valor: unknown) => {
+    valores.push(valor);
+    columnas.push(`${columna} = $${valores.length}`);
+  };
+
+  if (cambios.status !== undefined) poner('status', cambios.status);
+  if (cambios.progress !== undefined) poner('progress', cambios.progress);
+  if (cambios.current_step !== undefined) poner('current_step', cambios.current_step);
+  if (cambios.error_message !== undefined) poner('error_message', cambios.error_message);
+  if (cambios.result !== undefined) poner('result', cambios.result === null ? null : JSON.stringify(cambios.result));
+  if (cambios.completado) columnas.push('completed_at = NOW()');
+  columnas.push('updated_at = NOW()');
+
+  valores.push('id' in clave ? clave.id : clave.hash);
+  await sql.query(
+    `UPDATE analysis_jobs SET ${columnas.join(', ')} WHERE ${'id' in clave ? 'id' : 'hash_archivo'} = $${valores.length}`,
+    valores
+  );
+}
+
+async function limpiarJobsAntiguos(): Promise<number> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    DELETE FROM analysis_jobs 
+    WHERE 
+      status IN ('completed', 'failed')
+      AND updated_at < NOW() - INTERVAL '24 hours'
+    RETURNING id
+  `;
+
+  return resultado.length;
+}
+
+async function encolarJob(params: Parameters<AlmacenAnalisis['encolarJob']>[0]): Promise<AnalysisJob | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const { hash, fileName, mimeType, stage, progress, versionId } = params;
+
+  const resultado = await sql`
+    INSERT INTO analysis_jobs (
+      id, hash_archivo, status, progress, current_step, stage,
+      file_name, mime_type, version_id, attempts, run_after, created_at, updated_at
+    ) VALUES (
+      ${randomUUID()}, ${hash}, 'pending', ${progress}, 'En cola', ${stage},
+      ${fileName}, ${mimeType}, ${versionId}, 0, NOW(), NOW(), NOW()
+    )
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET
+      status = 'pending',
+      progress = EXCLUDED.progress,
+      current_step = EXCLUDED.current_step,
+      stage = EXCLUDED.stage,
+      file_name = EXCLUDED.file_name,
+      mime_type = EXCLUDED.mime_type,
+      version_id = EXCLUDED.version_id,
+      attempts = 0,
+      run_after = NOW(),
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      error_message = NULL,
+      result = NULL,
+      completed_at = NULL,
+      updated_at = NOW()
+    WHERE analysis_jobs.status NOT IN ('pending', 'processing')
+    RETURNING *
+  `;
+
+  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+}
+
+async function obtenerJobs(ids: string[]): Promise<AnalysisJob[]> {
+  if (!sql) throw new Error('SQL client no disponible');
+  if (ids.length === 0) return [];
+
+  const resultado = await sql`
+    SELECT * FROM analysis_jobs
+    WHERE id = ANY(${ids}::uuid[])
+  `;
+
+  return resultado as AnalysisJob[];
+}
+
+async function listarJobs(filtros: Parameters<AlmacenAnalisis['listarJobs']>[0]): Promise<{ jobs: AnalysisJob[]; total: number }> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const { status: statuses, stage } = filtros;
+
+  const [jobs, conteo] = await Promise.all([
+    sql`
+      SELECT * FROM analysis_jobs
+      WHERE (${statuses}::text[] IS NULL OR status = ANY(${statuses}::text[]))
+        AND (${stage}::text IS NULL OR stage = ${stage})
+      ORDER BY updated_at DESC, id
+      LIMIT ${filtros.limit} OFFSET ${filtros.offset}
+    `,
+    sql`
+      SELECT COUNT(*)::int AS total FROM analysis_jobs
+      WHERE (${statuses}::text[] IS NULL OR status = ANY(${statuses}::text[]))
+        AND (${stage}::text IS NULL OR stage = ${stage})
+    `,
+  ]);
+
+  return { jobs: jobs as AnalysisJob[], total: conteo[0]?.total ?? 0 };
+}
+
+async function contarJobsPorEstado(): Promise<Array<{ status: string; total: number }>> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    SELECT status, COUNT(*)::int AS total FROM analysis_jobs GROUP BY status
+  `;
+
+  return resultado as Array<{ status: string; total: number }>;
+}
+
+async function reclamarJob(stage: JobStage, workerId: string, leaseMs: number): Promise<AnalysisJob | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  // Leases caducados sin intentos restantes → dead-letter
+  await sql`
+    UPDATE analysis_jobs
+    SET
+      status = 'dead',
+      error_message = COALESCE(error_message, 'El worker dejó de responder (lease caducado)'),
+      current_step = 'Sin reintentos',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+    WHERE stage = ${stage}
+      AND status = 'processing'
+      AND lease_expires_at < NOW()
+      AND attempts >= max_attempts
+  `;
+
+  const resultado = await sql`
+    UPDATE analysis_jobs
+    SET
+      status = 'processing',
+      locked_by = ${workerId},
+      lease_expires_at = NOW() + make_interval(secs => ${leaseMs / 1000}),
+      attempts = attempts + 1,
+      updated_at = NOW()
+    WHERE id = (
+      SELECT id FROM analysis_jobs
+      WHERE stage = ${stage}
+        AND attempts < max_attempts
+        AND (
+          (status = 'pending' AND run_after <= NOW())
+          OR (status = 'processing' AND lease_expires_at < NOW())
+        )
+      ORDER BY run_after, created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return resultado.length > 0 ? resultado[0] as AnalysisJob : null;
+}
+
+async function renovarLeaseJob(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    UPDATE analysis_jobs
+    SET lease_expires_at = NOW() + make_interval(secs => ${leaseMs / 1000})
+    WHERE id = ${jobId}
+      AND locked_by = ${workerId}
+      AND status = 'processing'
+    RETURNING id
+  `;
+
+  return resultado.length > 0;
+}
+
+async function avanzarEtapaJob(
+  jobId: string,
+  workerId: string,
+  siguiente: Parameters<AlmacenAnalisis['avanzarEtapaJob']>[2]
+): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    UPDATE analysis_jobs
+    SET
+      status = 'pending',
+      stage = ${siguiente.stage},
+      progress = ${siguiente.progress},
+      current_step = ${siguiente.currentStep},
+      version_id = COALESCE(${siguiente.versionId}, version_id),
+      attempts = 0,
+      run_after = NOW(),
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      error_message = NULL,
+      updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+    RETURNING id
+  `;
+
+  return resultado.length > 0;
+}
+
+async function completarJobReclamado(jobId: string, workerId: string, result?: any): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    UPDATE analysis_jobs
+    SET
+      status = 'completed',
+      progress = 100,
+      current_step = 'Completado',
+      result = ${result ? JSON.stringify(result) : null},
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      completed_at = NOW(),
+      updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+    RETURNING id
+  `;
+
+  return resultado.length > 0;
+}
+
+async function reprogramarJobReclamado(
+  jobId: string,
+  workerId: string,
+  fallo: Parameters<AlmacenAnalisis['reprogramarJobReclamado']>[2]
+): Promise<void> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  await sql`
+    UPDATE analysis_jobs
+    SET
+      status = ${fallo.status},
+      error_message = ${fallo.errorMessage},
+      current_step = ${fallo.currentStep},
+      run_after = NOW() + make_interval(secs => ${fallo.retrySecs}),
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
+
+// ===================================================================
+// SESIONES DE MEZCLA
+// ===================================================================
+
+async function crearSesionMix(sesion: NuevaSesionMix): Promise<SesionMix> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    INSERT INTO sesiones_mix (
+      id, nombre, notas, sesion_origen_id, posicion_bifurcacion,
+      parametros, pistas, puntuacion_total
+    ) VALUES (
+      ${randomUUID()},
+      ${sesion.nombre},
+      ${sesion.notas},
+      ${sesion.sesion_origen_id},
+      ${sesion.posicion_bifurcacion},
+      ${JSON.stringify(sesion.parametros)}::jsonb,
+      ${JSON.stringify(sesion.pistas)}::jsonb,
+      ${sesion.puntuacion_total}
+    )
+    RETURNING *
+  `;
+
+  return resultado[0] as SesionMix;
+}
+
+async function obtenerSesionMix(id: string): Promise<SesionMix | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`SELECT * FROM sesiones_mix WHERE id = ${id}`;
+  return (resultado[0] as SesionMix | undefined) ?? null;
+}
+
+async function listarSesionesMix(filtros: { limit: number; offset: number }): Promise<{ sesiones: ResumenSesionMix[]; total: number }> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const [sesiones, conteo] = await Promise.all([
+    sql`
+      SELECT
+        id, nombre, notas, sesion_origen_id, posicion_bifurcacion, puntuacion_total,
+        jsonb_array_length(pistas) AS num_pistas,
+        fecha_creacion, fecha_actualizacion
+      FROM sesiones_mix
+      ORDER BY fecha_actualizacion DESC, id
+      LIMIT ${filtros.limit} OFFSET ${filtros.offset}
+    `,
+    sql`SELECT COUNT(*)::int AS total FROM sesiones_mix`,
+  ]);
+
+  return { sesiones: sesiones as ResumenSesionMix[], total: conteo[0]?.total ?? 0 };
+}
+
+async function actualizarSesionMix(id: string, cambios: CambiosSesionMix): Promise<SesionMix | null> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`
+    UPDATE sesiones_mix
+    SET
+      nombre = COALESCE(${cambios.nombre ?? null}, nombre),
+      notas = CASE WHEN ${cambios.notas !== undefined} THEN ${cambios.notas ?? null} ELSE notas END,
+      fecha_actualizacion = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `;
+
+  return (resultado[0] as SesionMix | undefined) ?? null;
+}
+
+async function borrarSesionMix(id: string): Promise<boolean> {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  const resultado = await sql`DELETE FROM sesiones_mix WHERE id = ${id} RETURNING id`;
+  return resultado.length > 0;
+}
+
+export function crearAlmacenPostgres(driver: Exclude<DriverBD, 'sqlite'>): AlmacenAnalisis {
+  if (!sql) throw new Error('SQL client no disponible');
+
+  return {
+    driver,
+    soportaVersiones: true,
+    existeCancionPorHash,
+    obtenerCancionPorHash,
+    obtenerCancionesPorHashes,
+    guardarAnalisis,
+    actualizarDatosGemini,
+    guardarFormaOnda,
+    obtenerFormaOnda,
+    guardarCorrecciones,
+    actualizarMetadatos,
+    obtenerCancionesConHuella,
+    crearJob,
+    obtenerJob,
+    obtenerUltimoJobPorHash,
+    actualizarJob,
+    limpiarJobsAntiguos,
+    encolarJob,
+    obtenerJobs,
+    listarJobs,
+    contarJobsPorEstado,
+    reclamarJob,
+    renovarLeaseJob,
+    avanzarEtapaJob,
+    completarJobReclamado,
+    reprogramarJobReclamado,
+    crearSesionMix,
+    obtenerSesionMix,
+    listarSesionesMix,
+    actualizarSesionMix,
+    borrarSesionMix,
+  };
+}
@@ -0,0 +1,665 @@
+/**
+ * Almacén SQLite (DB_DRIVER=sqlite): un archivo local, sin servidor ni internet
+ *
+ * Pensado para pinchar con un portátil: análisis, formas de onda, sesiones, cola de
+ * análisis, correcciones, metadatos y duplicados funcionan igual que con Postgres.
+ * No hay versiones de análisis (cada análisis reemplaza al anterior, respetando
+ * los bloqueos), ni biblioteca local ni caché de transiciones (ver storage.ts).
+ *
+ * El esquema sale de src/db/migrations (traducirMigracionesSqlite): JSONB pasa a
+ * TEXT con JSON y las fechas a TEXT ISO-8601 (se comparan como texto).
+ * better-sqlite3 es síncrono: las operaciones no se solapan y reclamarJob va en
+ * una transacción.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type { CancionAnalizada } from './db';
+import { normalizeCancionFromDB } from './db-normalize';
+import { crearTablaSqlite, traducirMigracionesSqlite } from './db-migrations';
+import type { FormaOnda } from './audio-waveform';
+import type { AnalysisJob, JobStage } from './analysis-jobs';
+import type { SesionMix } from './mix-sessions';
+import type { ResultadoCorreccion } from './analysis-corrections';
+import type {
+  AlmacenAnalisis,
+  CambiosJob,
+  CambiosMetadatos,
+  ClaveJob,
+  ParamsDatosGemini,
+  ParamsGuardarAnalisis
+} from './storage';
+
+/**
+ * Crea las tablas e índices de src/db/migrations (traducidos a SQLite)
+ * Un archivo creado con una versión anterior solo recibe las columnas que le faltan
+ */
+function aplicarEsquema(db: Database.Database): void {
+  const { tablas, indices } = traducirMigracionesSqlite();
+
+  db.transaction(() => {
+    for (const tabla of tablas) {
+      const existentes = new Set((db.prepare(`PRAGMA table_info(${tabla.nombre})`).all() as { name: string }[]).map(c => c.name));
+      if (existentes.size === 0) {
+        db.exec(crearTablaSqlite(tabla));
+        continue;
+      }
+      for (const [columna, definicion] of tabla.columnas) {
+        if (!existentes.has(columna)) db.exec(`ALTER TABLE ${tabla.nombre} ADD COLUMN ${columna} ${definicion}`);
+      }
+    }
+    for (const indice of indices) db.exec(indice);
+  })();
+}
+
+const ahora = (desplazamientoMs = 0) => new Date(Date.now() + desplazamientoMs).toISOString();
+
+// Campo bloqueado a mano: se conserva el valor actual (ver analysis-corrections.ts)
+const siBloqueado = (campo: string, columna: string, nuevo = `excluded.${columna}`) =>
+  `CASE WHEN json_extract(canciones_analizadas.bloqueos, '$.${campo}') THEN canciones_analizadas.${columna} ELSE ${nuevo} END`;
+
+function filaACancion(fila: any): CancionAnalizada {
+  return normalizeCancionFromDB({
+    ...fila,
+    fecha_procesado: fila.fecha_procesado ? new Date(fila.fecha_procesado) : null,
+  });
+}
+
+function filaAJob(fila: any): AnalysisJob {
+  const fecha = (valor: string | null) => valor ? new Date(valor) : null;
+  return {
+    ...fila,
+    result: fila.result ? JSON.parse(fila.result) : null,
+    created_at: fecha(fila.created_at),
+    updated_at: fecha(fila.updated_at),
+    completed_at: fecha(fila.completed_at),
+    run_after: fecha(fila.run_after),
+    lease_expires_at: fecha(fila.lease_expires_at),
+  };
+}
+
+function filaASesionMix(fila: any): SesionMix {
+  return {
+    ...fila,
+    parametros: JSON.parse(fila.parametros),
+    pistas: JSON.parse(fila.pistas),
+    fecha_creacion: new Date(fila.fecha_creacion),
+    fecha_actualizacion: new Date(fila.fecha_actualizacion),
+  };
+}
+
+export function crearAlmacenSqlite(ruta: string): AlmacenAnalisis {
+  if (ruta !== ':memory:') mkdirSync(dirname(ruta), { recursive: true });
+
+  const db = new Database(ruta);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  aplicarEsquema(db);
+  console.log(`🗄️ Base de datos SQLite: ${ruta}`);
+
+  // ===================================================================
+  // CANCIONES
+  // ===================================================================
+
+  const guardarAnalisisStmt = db.prepare(`
+    INSERT INTO canciones_analizadas (
+      id, hash_archivo, titulo, duracion_ms,
+      bpm, bpm_candidatos, tonalidad_camelot, tonalidad_compatible,
+      bailabilidad, compas,
+      beats_ts_ms, downbeats_ts_ms, frases_ts_ms,
+      huella_chroma,
+      timeline, loops_transicion,
+      artista, album, anio, genero, sello, isrc, comentarios,
+      fecha_procesado
+    ) VALUES (
+      @id, @hash, @titulo, @duracion_ms,
+      @bpm, @bpm_candidatos, @tonalidad_camelot, @tonalidad_compatible,
+      @bailabilidad, @compas,
+      @beats_ts_ms, @downbeats_ts_ms, @frases_ts_ms,
+      @huella_chroma,
+      @timeline, @loops_transicion,
+      @artista, @album, @anio, @genero, @sello, @isrc, @comentarios,
+      @fecha
+    )
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET
+      titulo = excluded.titulo,
+      duracion_ms = excluded.duracion_ms,
+      bpm = ${siBloqueado('bpm', 'bpm')},
+      bpm_candidatos = ${siBloqueado('bpm', 'bpm_candidatos')},
+      tonalidad_camelot = ${siBloqueado('tonalidad', 'tonalidad_camelot')},
+      tonalidad_compatible = ${siBloqueado('tonalidad', 'tonalidad_compatible')},
+      bailabilidad = excluded.bailabilidad,
+      compas = ${siBloqueado('grid', 'compas')},
+      beats_ts_ms = ${siBloqueado('grid', 'beats_ts_ms')},
+      downbeats_ts_ms = ${siBloqueado('grid', 'downbeats_ts_ms')},
+      frases_ts_ms = ${siBloqueado('grid', 'frases_ts_ms')},
+      huella_chroma = COALESCE(excluded.huella_chroma, canciones_analizadas.huella_chroma),
+      timeline = ${siBloqueado('timeline', 'timeline')},
+      loops_transicion = excluded.loops_transicion,
+      -- Un re-análisis sin tags no borra los metadatos ya guardados (ni las etiquetas del usuario)
+      artista = COALESCE(excluded.artista, canciones_analizadas.artista),
+      album = COALESCE(excluded.album, canciones_analizadas.album),
+      anio = COALESCE(excluded.anio, canciones_analizadas.anio),
+      genero = COALESCE(excluded.genero, canciones_analizadas.genero),
+      sello = COALESCE(excluded.sello, canciones_analizadas.sello),
+      isrc = COALESCE(excluded.isrc, canciones_analizadas.isrc),
+      comentarios = COALESCE(excluded.comentarios, canciones_analizadas.comentarios),
+      fecha_procesado = excluded.fecha_procesado
+    RETURNING id
+  `);
+
+  const guardarFormaOndaStmt = db.prepare(`
+    INSERT INTO formas_onda (hash_archivo, version, datos, fecha_calculo)
+    VALUES (@hash, @version, @datos, @fecha)
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET version = excluded.version, datos = excluded.datos, fecha_calculo = excluded.fecha_calculo
+  `);
+
+  const guardarFormaOnda = async (hash: string, forma: FormaOnda) => {
+    guardarFormaOndaStmt.run({ hash, version: forma.v, datos: JSON.stringify(forma), fecha: ahora() });
+  };
+
+  const guardarAnalisis = async (params: ParamsGuardarAnalisis): Promise<string> => {
+    const { hash, titulo, analisis, gemini } = params;
+    const metadatos = { ...params.metadatos, artista: params.metadatos?.artista ?? params.artista ?? null };
+
+    const fila = guardarAnalisisStmt.get({
+      id: randomUUID(),
+      hash,
+      titulo,
+      duracion_ms: analisis.duracion_ms,
+      bpm: analisis.bpm,
+      bpm_candidatos: JSON.stringify(analisis.bpm_candidatos || []),
+      tonalidad_camelot: analisis.tonalidad_camelot,
+      tonalidad_compatible: JSON.stringify(analisis.tonalidad_compatible || []),
+      bailabilidad: analisis.bailabilidad,
+      compas: JSON.stringify(analisis.compas || { numerador: 4, denominador: 4 }),
+      beats_ts_ms: JSON.stringify(analisis.beats_ts_ms || []),
+      downbeats_ts_ms: JSON.stringify(analisis.downbeats_ts_ms || []),
+      frases_ts_ms: JSON.stringify(analisis.frases_ts_ms || []),
+      huella_chroma: analisis.huella_chroma ? JSON.stringify(analisis.huella_chroma) : null,
+      timeline: JSON.stringify(gemini?.timeline ?? []),
+      loops_transicion: JSON.stringify(gemini?.loops_transicion ?? []),
+      artista: metadatos.artista,
+      album: metadatos.album ?? null,
+      anio: metadatos.anio ?? null,
+      genero: metadatos.genero ?? null,
+      sello: metadatos.sello ?? null,
+      isrc: metadatos.isrc ?? null,
+      comentarios: metadatos.comentarios ?? null,
+      fecha: ahora(),
+    }) as { id: string };
+
+    if (analisis.forma_onda) await guardarFormaOnda(hash, analisis.forma_onda);
+    return fila.id;
+  };
+
+  const actualizarDatosGeminiStmt = db.prepare(`
+    UPDATE canciones_analizadas
+    SET
+      timeline = CASE WHEN json_extract(bloqueos, '$.timeline')
+        THEN timeline ELSE COALESCE(@timeline, timeline) END,
+      loops_transicion = COALESCE(@loops_transicion, loops_transicion),
+      fecha_procesado = @fecha
+    WHERE hash_archivo = @hash
+  `);
+
+  const actualizarDatosGemini = async ({ hash, timeline, loops_transicion }: ParamsDatosGemini) => {
+    actualizarDatosGeminiStmt.run({
+      hash,
+      timeline: timeline ? JSON.stringify(timeline) : null,
+      loops_transicion: loops_transicion ? JSON.stringify(loops_transicion) : null,
+      fecha: ahora(),
+    });
+  };
+
+  const obtenerCancionPorHash = async (hash: string) => {
+    const fila = db.prepare('SELECT * FROM canciones_analizadas WHERE hash_archivo = ?').get(hash);
+    return fila ? filaACancion(fila) : null;
+  };
+
+  const guardarCorreccionesStmt = db.prepare(`
+    UPDATE canciones_analizadas
+    SET
+      bpm = COALESCE(@bpm, bpm),
+      tonalidad_camelot = COALESCE(@tonalidad_camelot, tonalidad_camelot),
+      tonalidad_compatible = COALESCE(@tonalidad_compatible, tonalidad_compatible),
+      beats_ts_ms = COALESCE(@beats_ts_ms, beats_ts_ms),
+      downbeats_ts_ms = COALESCE(@downbeats_ts_ms, downbeats_ts_ms),
+      frases_ts_ms = COALESCE(@frases_ts_ms, frases_ts_ms),
+      timeline = COALESCE(@timeline, timeline),
+      bloqueos = @bloqueos,
+      fecha_procesado = @fecha
+    WHERE hash_archivo = @hash
+  `);
+
+  const guardarCorrecciones = async (hash: string, correccion: ResultadoCorreccion) => {
+    const json = (valor: unknown) => valor === undefined ? null : JSON.stringify(valor);
+    return guardarCorreccionesStmt.run({
+      hash,
+      bpm: correccion.bpm ?? null,
+      tonalidad_camelot: correccion.tonalidad_camelot ?? null,
+      tonalidad_compatible: json(correccion.tonalidad_compatible),
+      beats_ts_ms: json(correccion.beats_ts_ms),
+      downbeats_ts_ms: json(correccion.downbeats_ts_ms),
+      frases_ts_ms: json(correccion.frases_ts_ms),
+      timeline: json(correccion.timeline),
+      bloqueos: JSON.stringify(correccion.bloqueos),
+      fecha: ahora(),
+    }).changes > 0;
+  };
+
+  const actualizarMetadatosStmt = db.prepare(`
+    UPDATE canciones_analizadas
+    SET
+      titulo = @titulo,
+      artista = @artista,
+      album = @album,
+      anio = @anio,
+      genero = @genero,
+      sello = @sello,
+      isrc = @isrc,
+      comentarios = @comentarios,
+      etiquetas = @etiquetas,
+      fecha_procesado = CASE WHEN titulo IS NOT @titulo THEN @fecha ELSE fecha_procesado END
+    WHERE hash_archivo = @hash
+  `);
+
+  // Un título nuevo renueva fecha_procesado (va en los cue points del plan de mezcla)
+  const actualizarMetadatos = async (hash: string, cambios: CambiosMetadatos) => {
+    const actual = await obtenerCancionPorHash(hash);
+    if (!actual) return false;
+
+    const valor = <K extends keyof CambiosMetadatos>(campo: K, previo: CambiosMetadatos[K] | undefined) =>
+      campo in cambios ? cambios[campo] ?? null : previo ?? null;
+
+    actualizarMetadatosStmt.run({
+      hash,
+      titulo: cambios.titulo ?? actual.titulo,
+      artista: valor('artista', actual.artista),
+      album: valor('album', actual.album),
+      anio: valor('anio', actual.anio),
+      genero: valor('genero', actual.genero),
+      sello: valor('sello', actual.sello),
+      isrc: valor('isrc', actual.isrc),
+      comentarios: valor('comentarios', actual.comentarios),
+      etiquetas: JSON.stringify(valor('etiquetas', actual.etiquetas ?? []) ?? []),
+      fecha: ahora(),
+    });
+    return true;
+  };
+
+  const obtenerCancionesConHuellaStmt = db.prepare(`
+    SELECT hash_archivo, titulo, artista, duracion_ms, bpm, tonalidad_camelot, huella_chroma
+    FROM canciones_analizadas
+    WHERE @todas OR hash_archivo IN (SELECT value FROM json_each(@hashes))
+  `);
+
+  // ===================================================================
+  // COLA DE ANÁLISIS
+  // ===================================================================
+
+  const obtenerJobStmt = db.prepare('SELECT * FROM analysis_jobs WHERE id = ?');
+  const obtenerJob = async (id: string) => {
+    const fila = obtenerJobStmt.get(id);
+    return fila ? filaAJob(fila) : null;
+  };
+
+  const obtenerUltimoJobStmt = db.prepare(
+    'SELECT * FROM analysis_jobs WHERE hash_archivo = ? ORDER BY created_at DESC LIMIT 1'
+  );
+  const obtenerUltimoJobPorHash = async (hash: string) => {
+    const fila = obtenerUltimoJobStmt.get(hash);
+    return fila ? filaAJob(fila) : null;
+  };
+
+  const crearJobStmt = db.prepare(`
+    INSERT INTO analysis_jobs (id, hash_archivo, status, progress, run_after, created_at, updated_at)
+    VALUES (@id, @hash, 'pending', 0, @ahora, @ahora, @ahora)
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET status = 'pending', progress = 0, updated_at = excluded.updated_at, error_message = NULL
+    RETURNING id
+  `);
+
+  const encolarJobStmt = db.prepare(`
+    INSERT INTO analysis_jobs (
+      id, hash_archivo, status, progress, current_step, stage,
+      file_name, mime_type, version_id, attempts, run_after, created_at, updated_at
+    ) VALUES (
+      @id, @hash, 'pending', @progress, 'En cola', @stage,
+      @fileName, @mimeType, @versionId, 0, @ahora, @ahora, @ahora
+    )
+    ON CONFLICT (hash_archivo)
+    DO UPDATE SET
+      status = 'pending',
+      progress = excluded.progress,
+      current_step = excluded.current_step,
+      stage = excluded.stage,
+      file_name = excluded.file_name,
+      mime_type = excluded.mime_type,
+      version_id = excluded.version_id,
+      attempts = 0,
+      run_after = excluded.run_after,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      error_message = NULL,
+      result = NULL,
+      completed_at = NULL,
+      updated_at = excluded.updated_at
+    WHERE analysis_jobs.status NOT IN ('pending', 'processing')
+    RETURNING *
+  `);
+
+  const matarLeasesCaducadosStmt = db.prepare(`
+    UPDATE analysis_jobs
+    SET
+      status = 'dead',
+      error_message = COALESCE(error_message, 'El worker dejó de responder (lease caducado)'),
+      current_step = 'Sin reintentos',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = @ahora
+    WHERE stage = @stage
+      AND status = 'processing'
+      AND lease_expires_at < @ahora
+      AND attempts >= max_attempts
+  `);
+
+  const siguienteJobStmt = db.prepare(`
+    SELECT id FROM analysis_jobs
+    WHERE stage = @stage
+      AND attempts < max_attempts
+      AND (
+        (status = 'pending' AND run_after <= @ahora)
+        OR (status = 'processing' AND lease_expires_at < @ahora)
+      )
+    ORDER BY run_after, created_at
+    LIMIT 1
+  `);
+
+  const reclamarJobStmt = db.prepare(`
+    UPDATE analysis_jobs
+    SET
+      status = 'processing',
+      locked_by = @workerId,
+      lease_expires_at = @lease,
+      attempts = attempts + 1,
+      updated_at = @ahora
+    WHERE id = @id
+    RETURNING *
+  `);
+
+  const reclamarJobTx = db.transaction((stage: JobStage, workerId: string, leaseMs: number) => {
+    const momento = ahora();
+    matarLeasesCaducadosStmt.run({ stage, ahora: momento });
+    const siguiente = siguienteJobStmt.get({ stage, ahora: momento }) as { id: string } | undefined;
+    if (!siguiente) return null;
+    return reclamarJobStmt.get({ id: siguiente.id, workerId, lease: ahora(leaseMs), ahora: momento });
+  });
+
+  const renovarLeaseStmt = db.prepare(`
+    UPDATE analysis_jobs SET lease_expires_at = @lease
+    WHERE id = @id AND locked_by = @workerId AND status = 'processing'
+  `);
+
+  const avanzarEtapaStmt = db.prepare(`
+    UPDATE analysis_jobs
+    SET
+      status = 'pending',
+      stage = @stage,
+      progress = @progress,
+      current_step = @currentStep,
+      version_id = COALESCE(@versionId, version_id),
+      attempts = 0,
+      run_after = @ahora,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      error_message = NULL,
+      updated_at = @ahora
+    WHERE id = @id AND locked_by = @workerId
+  `);
+
+  const completarJobStmt = db.prepare(`
+    UPDATE analysis_jobs
+    SET
+      status = 'completed',
+      progress = 100,
+      current_step = 'Completado',
+      result = @result,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      completed_at = @ahora,
+      updated_at = @ahora
+    WHERE id = @id AND locked_by = @workerId
+  `);
+
+  const reprogramarJobStmt = db.prepare(`
+    UPDATE analysis_jobs
+    SET
+      status = @status,
+      error_message = @errorMessage,
+      current_step = @currentStep,
+      run_after = @runAfter,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = @ahora
+    WHERE id = @id AND locked_by = @workerId
+  `);
+
+  // ===================================================================
+  // SESIONES DE MEZCLA
+  // ===================================================================
+
+  const crearSesionMixStmt = db.prepare(`
+    INSERT INTO sesiones_mix (
+      id, nombre, notas, sesion_origen_id, posicion_bifurcacion,
+      parametros, pistas, puntuacion_total, fecha_creacion, fecha_actualizacion
+    ) VALUES (
+      @id, @nombre, @notas, @sesion_origen_id, @posicion_bifurcacion,
+      @parametros, @pistas, @puntuacion_total, @ahora, @ahora
+    )
+    RETURNING *
+  `);
+
+  const actualizarSesionMixStmt = db.prepare(`
+    UPDATE sesiones_mix
+    SET
+      nombre = COALESCE(@nombre, nombre),
+      notas = CASE WHEN @cambiarNotas THEN @notas ELSE notas END,
+      fecha_actualizacion = @ahora
+    WHERE id = @id
+    RETURNING *
+  `);
+
+  return {
+    driver: 'sqlite',
+    soportaVersiones: false,
+
+    async existeCancionPorHash(hash) {
+      return db.prepare('SELECT 1 FROM canciones_analizadas WHERE hash_archivo = ?').get(hash) !== undefined;
+    },
+
+    obtenerCancionPorHash,
+
+    async obtenerCancionesPorHashes(hashes) {
+      if (hashes.length === 0) return [];
+      const filas = db.prepare(
+        `SELECT * FROM canciones_analizadas WHERE hash_archivo IN (${hashes.map(() => '?').join(', ')})`
+      ).all(...hashes);
+      return filas.map(filaACancion);
+    },
+
+    guardarAnalisis,
+    actualizarDatosGemini,
+    guardarFormaOnda,
+
+    async obtenerFormaOnda(hash, version) {
+      const fila = db.prepare('SELECT datos FROM formas_onda WHERE hash_archivo = ? AND version = ?')
+        .get(hash, version) as { datos: string } | undefined;
+      return fila ? JSON.parse(fila.datos) : null;
+    },
+
+    guardarCorrecciones,
+    actualizarMetadatos,
+
+    async obtenerCancionesConHuella(hashes) {
+      return obtenerCancionesConHuellaStmt
+        .all({ todas: hashes === null ? 1 : 0, hashes: JSON.stringify(hashes ?? []) })
+        .map(normalizeCancionFromDB);
+    },
+
+    async crearJob(hash) {
+      const momento = ahora();
+      return (crearJobStmt.get({ id: randomUUID(), hash, ahora: momento }) as { id: string }).id;
+    },
+
+    obtenerJob,
+    obtenerUltimoJobPorHash,
+
+    async actualizarJob(clave: ClaveJob, cambios: CambiosJob) {
+      const columnas: string[] = [];
+      const valores: Record<string, unknown> = { clave: 'id' in clave ? clave.id : clave.hash, ahora: ahora() };
+      const poner = (columna: string, valor: unknown) => {
+        columnas.push(`${columna} = @${columna}`);
+        valores[columna] = valor;
+      };
+
+      if (cambios.status !== undefined) poner('status', cambios.status);
+      if (cambios.progress !== undefined) poner('progress', cambios.progress);
+      if (cambios.current_step !== undefined) poner('current_step', cambios.current_step);
+      if (cambios.error_message !== undefined) poner('error_message', cambios.error_message);
+      if (cambios.result !== undefined) poner('result', cambios.result === null ? null : JSON.stringify(cambios.result));
+      if (cambios.completado) columnas.push('completed_at = @ahora');
+      columnas.push('updated_at = @ahora');
+
+      db.prepare(
+        `UPDATE analysis_jobs SET ${columnas.join(', ')} WHERE ${'id' in clave ? 'id' : 'hash_archivo'} = @clave`
+      ).run(valores);
+    },
+
+    async limpiarJobsAntiguos() {
+      return db.prepare(`
+        DELETE FROM analysis_jobs
+        WHERE status IN ('completed', 'failed') AND updated_at < ?
+      `).run(ahora(-24 * 60 * 60 * 1000)).changes;
+    },
+
+    async encolarJob({ hash, fileName, mimeType, stage, progress, versionId }) {
+      const fila = encolarJobStmt.get({
+        id: randomUUID(), hash, fileName, mimeType, stage, progress, versionId, ahora: ahora(),
+      });
+      return fila ? filaAJob(fila) : null;
+    },
+
+    async obtenerJobs(ids) {
+      if (ids.length === 0) return [];
+      return db.prepare(`SELECT * FROM analysis_jobs WHERE id IN (${ids.map(() => '?').join(', ')})`)
+        .all(...ids)
+        .map(filaAJob);
+    },
+
+    async listarJobs({ status, stage, limit, offset }) {
+      const condiciones: string[] = [];
+      const params: unknown[] = [];
+      if (status) {
+        condiciones.push(`status IN (${status.map(() => '?').join(', ')})`);
+        params.push(...status);
+      }
+      if (stage) {
+        condiciones.push('stage = ?');
+        params.push(stage);
+      }
+      const where = condiciones.length > 0 ? `WHERE ${condiciones.join(' AND ')}` : '';
+
+      const jobs = db.prepare(`SELECT * FROM analysis_jobs ${where} ORDER BY updated_at DESC, id LIMIT ? OFFSET ?`)
+        .all(...params, limit, offset)
+        .map(filaAJob);
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM analysis_jobs ${where}`).get(...params) as { total: number };
+      return { jobs, total };
+    },
+
+    async contarJobsPorEstado() {
+      return db.prepare('SELECT status, COUNT(*) AS total FROM analysis_jobs GROUP BY status')
+        .all() as Array<{ status: string; total: number }>;
+    },
+
+    async reclamarJob(stage, workerId, leaseMs) {
+      const fila = reclamarJobTx(stage, workerId, leaseMs);
+      return fila ? filaAJob(fila) : null;
+    },
+
+    async renovarLeaseJob(jobId, workerId, leaseMs) {
+      return renovarLeaseStmt.run({ id: jobId, workerId, lease: ahora(leaseMs) }).changes > 0;
+    },
+
+    async avanzarEtapaJob(jobId, workerId, { stage, progress, currentStep, versionId }) {
+      return avanzarEtapaStmt.run({
+        id: jobId, workerId, stage, progress, currentStep, versionId, ahora: ahora(),
+      }).changes > 0;
+    },
+
+    async completarJobReclamado(jobId, workerId, result) {
+      return completarJobStmt.run({
+        id: jobId, workerId, result: result ? JSON.stringify(result) : null, ahora: ahora(),
+      }).changes > 0;
+    },
+
+    async reprogramarJobReclamado(jobId, workerId, { status, errorMessage, currentStep, retrySecs }) {
+      reprogramarJobStmt.run({
+        id: jobId, workerId, status, errorMessage, currentStep,
+        runAfter: ahora(retrySecs * 1000), ahora: ahora(),
+      });
+    },
+
+    async crearSesionMix(sesion) {
+      return filaASesionMix(crearSesionMixStmt.get({
+        ...sesion,
+        id: randomUUID(),
+        parametros: JSON.stringify(sesion.parametros),
+        pistas: JSON.stringify(sesion.pistas),
+        ahora: ahora(),
+      }));
+    },
+
+    async obtenerSesionMix(id) {
+      const fila = db.prepare('SELECT * FROM sesiones_mix WHERE id = ?').get(id);
+      return fila ? filaASesionMix(fila) : null;
+    },
+
+    async listarSesionesMix({ limit, offset }) {
+      const sesiones = db.prepare(`
+        SELECT
+          id, nombre, notas, sesion_origen_id, posicion_bifurcacion, puntuacion_total,
+          json_array_length(pistas) AS num_pistas,
+          fecha_creacion, fecha_actualizacion
+        FROM sesiones_mix
+        ORDER BY fecha_actualizacion DESC, id
+        LIMIT ? OFFSET ?
+      `).all(limit, offset).map((fila: any) => ({
+        ...fila,
+        fecha_creacion: new Date(fila.fecha_creacion),
+        fecha_actualizacion: new Date(fila.fecha_actualizacion),
+      }));
+      const { total } = db.prepare('SELECT COUNT(*) AS total FROM sesiones_mix').get() as { total: number };
+      return { sesiones, total };
+    },
+
+    async actualizarSesionMix(id, cambios) {
+      const fila = actualizarSesionMixStmt.get({
+        id,
+        nombre: cambios.nombre ?? null,
+        cambiarNotas: cambios.notas !== undefined ? 1 : 0,
+        notas: cambios.notas ?? null,
+        ahora: ahora(),
+      });
+      return fila ? filaASesionMix(fila) : null;
+    },
+
+    async borrarSesionMix(id) {
+      return db.prepare('DELETE FROM sesiones_mix WHERE id = ?').run(id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Almacén del análisis: canciones analizadas, formas de onda, cola de análisis
+ * y sesiones de mezcla guardadas
+ *
+ * db-persistence.ts, analysis-jobs.ts y mix-sessions.ts delegan aquí; el almacén
+ * depende del driver (DB_DRIVER, ver db.ts):
+ * - neon / pg → storage-postgres.ts (mismo SQL, cliente Neon HTTP o node-postgres)
+ * - sqlite → storage-sqlite.ts (archivo local, sin servidor ni internet)
+ *
+ * Versiones de análisis, biblioteca local (listado y escaneo) y caché de
+ * transiciones siguen consultando Postgres directamente (sql): con SQLite
+ * lanzan PostgresRequeridoError y sus rutas responden 501.
+ */
+
+import { obtenerDriverBD, type DriverBD } from './db';
+import type { CancionAnalizada, LoopTransicion, MetadatosCancion, TimelineSegment } from './db';
+import type { ResultadoCorreccion } from './analysis-corrections';
+import type { AnalisisCompleto } from './audio-analyzer-unified';
+import type { FormaOnda } from './audio-waveform';
+import type { AnalysisJob, JobStage, JobStatus } from './analysis-jobs';
+import type { CambiosSesionMix, NuevaSesionMix, ResumenSesionMix, SesionMix } from './mix-sessions';
+
+export interface ParamsGuardarAnalisis {
+  hash: string;
+  titulo: string;
+  artista?: string; // Atajo para metadatos.artista
+  metadatos?: Partial<Omit<MetadatosCancion, 'etiquetas'>>;
+  analisis: AnalisisCompleto;
+  versionId?: string;
+  gemini?: {
+    timeline?: TimelineSegment[];
+    loops_transicion?: LoopTransicion[];
+  };
+}
+
+export interface ParamsDatosGemini {
+  hash: string;
+  timeline?: TimelineSegment[];
+  loops_transicion?: LoopTransicion[];
+  versionId?: string;
+}
+
+// Edición de metadatos: solo los campos presentes; null borra el valor
+export type CambiosMetadatos = Partial<MetadatosCancion> & { titulo?: string };
+
+// Job por id o, en las rutas síncronas antiguas, por hash
+export type ClaveJob = { id: string } | { hash: string };
+
+export interface CambiosJob {
+  status?: JobStatus;
+  progress?: number;
+  current_step?: string | null;
+  error_message?: string;
+  result?: any;
+  completado?: boolean; // Fija completed_at
+}
+
+export interface AlmacenAnalisis {
+  readonly driver: DriverBD;
+  readonly soportaVersiones: boolean; // versiones_analisis (solo Postgres)
+
+  // Canciones
+  existeCancionPorHash(hash: string): Promise<boolean>;
+  obtenerCancionPorHash(hash: string): Promise<CancionAnalizada | null>;
+  obtenerCancionesPorHashes(hashes: string[]): Promise<CancionAnalizada[]>;
+  guardarAnalisis(params: ParamsGuardarAnalisis): Promise<string>;
+  actualizarDatosGemini(params: ParamsDatosGemini): Promise<void>;
+  guardarFormaOnda(hash: string, forma: FormaOnda): Promise<void>;
+  obtenerFormaOnda(hash: string, version: number): Promise<unknown | null>;
+  // Correcciones manuales y metadatos: false si el hash no existe
+  guardarCorrecciones(hash: string, correccion: ResultadoCorreccion): Promise<boolean>;
+  actualizarMetadatos(hash: string, cambios: CambiosMetadatos): Promise<boolean>;
+  // Lo necesario para agrupar versiones por huella (null = toda la biblioteca)
+  obtenerCancionesConHuella(hashes: string[] | null): Promise<CancionAnalizada[]>;
+
+  // Cola de análisis
+  crearJob(hash: string): Promise<string>;
+  obtenerJob(id: string): Promise<AnalysisJob | null>;
+  obtenerUltimoJobPorHash(hash: string): Promise<AnalysisJob | null>;
+  actualizarJob(clave: ClaveJob, cambios: CambiosJob): Promise<void>;
+  limpiarJobsAntiguos(): Promise<number>;
+  // null si ya había un job activo (pending/processing) para el hash
+  encolarJob(params: {
+    hash: string;
+    fileName: string | null;
+    mimeType: string | null;
+    stage: JobStage;
+    progress: number;
+    versionId: string | null;
+  }): Promise<AnalysisJob | null>;
+  obtenerJobs(ids: string[]): Promise<AnalysisJob[]>;
+  listarJobs(filtros: {
+    status: JobStatus[] | null;
+    stage: JobStage | null;
+    limit: number;
+    offset: number;
+  }): Promise<{ jobs: AnalysisJob[]; total: number }>;
+  contarJobsPorEstado(): Promise<Array<{ status: string; total: number }>>;
+  reclamarJob(stage: JobStage, workerId: string, leaseMs: number): Promise<AnalysisJob | null>;
+  renovarLeaseJob(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  avanzarEtapaJob(jobId: string, workerId: string, siguiente: {
+    stage: JobStage;
+    progress: number;
+    currentStep: string;
+    versionId: string | null;
+  }): Promise<boolean>;
+  completarJobReclamado(jobId: string, workerId: string, result?: any): Promise<boolean>;
+  // Fallo de un intento: vuelve a 'pending' tras retrySecs o pasa a 'dead'
+  reprogramarJobReclamado(jobId: string, workerId: string, fallo: {
+    status: JobStatus;
+    errorMessage: string;
+    currentStep: string;
+    retrySecs: number;
+  }): Promise<void>;
+
+  // Sesiones de mezcla guardadas
+  crearSesionMix(sesion: NuevaSesionMix): Promise<SesionMix>;
+  obtenerSesionMix(id: string): Promise<SesionMix | null>;
+  listarSesionesMix(filtros: { limit: number; offset: number }): Promise<{ sesiones: ResumenSesionMix[]; total: number }>;
+  actualizarSesionMix(id: string, cambios: CambiosSesionMix): Promise<SesionMix | null>;
+  borrarSesionMix(id: string): Promise<boolean>;
+}
+
+let almacen: Promise<AlmacenAnalisis> | null = null;
+
+/**
+ * Almacén del driver configurado (se crea una vez por proceso)
+ * Los módulos se cargan bajo demanda: con Neon no se abre SQLite y viceversa
+ */
+export function obtenerAlmacen(): Promise<AlmacenAnalisis> {
+  if (!almacen) {
+    almacen = (async () => {
+      const driver = obtenerDriverBD();
+      if (driver === 'sqlite') {
+        const { crearAlmacenSqlite } = await import('./storage-sqlite');
+        return crearAlmacenSqlite(process.env.SQLITE_PATH || './data/djmixer.db');
+      }
+      const { crearAlmacenPostgres } = await import('./storage-postgres');
+      return crearAlmacenPostgres(driver);
+    })();
+    // Si falla (p. ej. DATABASE_URL ausente) se reintenta en la siguiente llamada
+    almacen.catch(() => { almacen = null; });
+  }
+  return almacen;
+}
@@ -0,0 +1,36 @@
+declare module 'fluent-ffmpeg' {
+  interface FfmpegProgress {
+    frames?: number;
+    currentKbps?: number;
+    targetSize?: number;
+    timemark: string;
+    percent?: number;
+  }
+
+  interface FfmpegCommand {
+    input(source: string): FfmpegCommand;
+    inputOptions(options: string[]): FfmpegCommand;
+    complexFilter(filters: string[] | string, outputs?: string | string[]): FfmpegCommand;
+    outputOptions(options: string[]): FfmpegCommand;
+    audioCodec(codec: string): FfmpegCommand;
+    audioBitrate(bitrate: string | number): FfmpegCommand;
+    audioFrequency(freq: number): FfmpegCommand;
+    audioChannels(channels: number): FfmpegCommand;
+    format(format: string): FfmpegCommand;
+    output(target: string): FfmpegCommand;
+    on(event: 'start', listener: (commandLine: string) => void): FfmpegCommand;
+    on(event: 'progress', listener: (progress: FfmpegProgress) => void): FfmpegCommand;
+    on(event: 'error', listener: (error: Error, stdout?: string, stderr?: string) => void): FfmpegCommand;
+    on(event: 'end', listener: () => void): FfmpegCommand;
+    run(): void;
+    kill(signal?: string): void;
+  }
+
+  interface FfmpegStatic {
+    (options?: Record<string, unknown>): FfmpegCommand;
+    setFfmpegPath(path: string): void;
+  }
+
+  const ffmpeg: FfmpegStatic;
+  export = ffmpeg;
+}
@@ -0,0 +1,63 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { CancionAnalizada } from '@/lib/db';
+import type { MixPlanEntry } from '@/lib/mix-planner';
+import type { AlmacenAnalisis } from '@/lib/storage';
+import { crearAlmacenSqlite } from '@/lib/storage-sqlite';
+import { aplicarCorrecciones } from '@/lib/analysis-corrections';
+import { construirMatrizTransiciones, limpiarCacheTransiciones, type PairScorer } from '@/lib/mix-transition-matrix';
+import { analisisDePrueba } from './fixtures/analisis';
+
+let almacen: AlmacenAnalisis;
+
+beforeAll(async () => {
+  almacen = crearAlmacenSqlite(':memory:');
+  for (const [hash, bpm, tonalidad_camelot] of [['a', 124, '8A'], ['b', 126, '9A']] as const) {
+    await almacen.guardarAnalisis({
+      hash,
+      titulo: hash.toUpperCase(),
+      analisis: analisisDePrueba({ bpm, tonalidad_camelot, duracion_ms: 200_000 }),
+    });
+  }
+});
+
+afterAll(() => limpiarCacheTransiciones());
+
+function planDe(track: CancionAnalizada): MixPlanEntry {
+  return {
+    trackId: track.id,
+    hash: track.hash_archivo,
+    title: track.titulo,
+    durationMs: track.duracion_ms,
+    bestEntryPoints: [],
+    bestExitPoints: [],
+  };
+}
+
+async function matriz() {
+  const tracks = await almacen.obtenerCancionesPorHashes(['a', 'b']);
+  const scorer: PairScorer = { transition: () => null, score: () => 0 };
+  return construirMatrizTransiciones(tracks, new Map(tracks.map(t => [t.id, planDe(t)])), scorer);
+}
+
+describe('correcciones y caché de transiciones', () => {
+  it('una corrección invalida los pares cacheados de la canción', async () => {
+    expect((await matriz()).pairsComputed).toBe(2);
+    expect((await matriz()).pairsFromCache).toBe(2);
+
+    const antes = (await almacen.obtenerCancionPorHash('a'))!;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await almacen.guardarCorrecciones('a', aplicarCorrecciones(antes, { tonalidad: '9A' }))).toBe(true);
+
+    const despues = (await almacen.obtenerCancionPorHash('a'))!;
+    expect(despues.tonalidad_camelot).toBe('9A');
+    expect(despues.fecha_procesado.getTime()).toBeGreaterThan(antes.fecha_procesado.getTime());
+
+    const recalculada = await matriz();
+    expect(recalculada.pairsComputed).toBe(2);
+    expect(recalculada.pairsFromCache).toBe(0);
+  });
+
+  it('devuelve false si la canción no existe', async () => {
+    expect(await almacen.guardarCorrecciones('no-existe', { bloqueos: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calcularBeatmatch,
+  calcularRatioTempo,
+  construirLoop,
+  downbeatMasCercano,
+  relacionTempo,
+  siguienteDownbeat,
+} from '@/lib/beatmatch';
+
+describe('relacionTempo', () => {
+  it('elige la relación que menos pitch necesita', () => {
+    expect(relacionTempo(128, 126)).toMatchObject({ relation: 'SAME', multiple: 1 });
+    expect(relacionTempo(140, 70)).toMatchObject({ relation: 'DOUBLE', ratio: 1, diffPercent: 0 });
+    expect(relacionTempo(87, 174)).toMatchObject({ relation: 'HALF', ratio: 1 });
+    expect(relacionTempo(150, 100)).toMatchObject({ relation: 'THREE_TWO', ratio: 1 });
+  });
+
+  it('devuelve null fuera del rango de pitch o sin BPM', () => {
+    expect(relacionTempo(128, 100)).toBeNull();
+    expect(relacionTempo(null, 128)).toBeNull();
+    expect(relacionTempo(128, 120, 0.05)).toBeNull();
+  });
+});
+
+describe('calcularRatioTempo', () => {
+  it('iguala B al BPM efectivo de A (con su pitch aplicado)', () => {
+    expect(calcularRatioTempo(120, 1, 124)).toBeCloseTo(120 / 124);
+    expect(calcularRatioTempo(120, 1.05, 126)).toBeCloseTo(1);
+  });
+
+  it('no toca el tempo si el ajuste no cabe en el fader', () => {
+    expect(calcularRatioTempo(128, 1, 100)).toBe(1);
+    expect(calcularRatioTempo(undefined, 1, 90)).toBe(1);
+  });
+});
+
+describe('downbeats', () => {
+  const grid = [0, 2000, 4000, 6000];
+
+  it('siguienteDownbeat da el primero en o después de la posición', () => {
+    expect(siguienteDownbeat(2000, grid)).toBe(2000);
+    expect(siguienteDownbeat(2001, grid)).toBe(4000);
+    expect(siguienteDownbeat(7000, grid)).toBeNull();
+    expect(siguienteDownbeat(0, [])).toBeNull();
+  });
+
+  it('downbeatMasCercano respeta la tolerancia', () => {
+    expect(downbeatMasCercano(3100, grid, 1000)).toBe(4000);
+    expect(downbeatMasCercano(2900, grid, 1000)).toBe(2000);
+    expect(downbeatMasCercano(9000, grid, 1000)).toBeNull();
+  });
+});
+
+describe('calcularBeatmatch', () => {
+  it('espera al siguiente downbeat de A y arranca B en su downbeat', () => {
+    const resultado = calcularBeatmatch({
+      outgoingPositionMs: 1500,
+      outgoingBpm: 120,
+      outgoingRate: 1,
+      outgoingDownbeatsMs: [0, 2000, 4000],
+      incomingBpm: 124,
+      incomingStartMs: 10_100,
+      incomingDownbeatsMs: [0, 1935, 3871, 5806, 7742, 9677, 11_613],
+    });
+
+    expect(resultado.tempoMatched).toBe(true);
+    expect(resultado.incomingRate).toBeCloseTo(120 / 124);
+    expect(resultado.outgoingDownbeatMs).toBe(2000);
+    expect(resultado.startDelayMs).toBe(500);
+    expect(resultado.incomingOffsetMs).toBe(9677);
+  });
+
+  it('la espera es tiempo real: se divide por el pitch de A', () => {
+    const resultado = calcularBeatmatch({
+      outgoingPositionMs: 1000,
+      outgoingBpm: 120,
+      outgoingRate: 1.25,
+      outgoingDownbeatsMs: [0, 2000],
+      incomingBpm: null,
+      incomingStartMs: 0,
+      incomingDownbeatsMs: null,
+    });
+
+    expect(resultado.startDelayMs).toBe(800);
+    expect(resultado.tempoMatched).toBe(false);
+    expect(resultado.incomingRate).toBe(1);
+  });
+});
+
+describe('construirLoop', () => {
+  const grid = [0, 2000, 4000, 6000, 8000, 10_000];
+
+  it('empieza en el siguiente downbeat y acaba N compases después según el grid', () => {
+    expect(construirLoop(1990, 4, grid, 120)).toEqual({ startMs: 2000, endMs: 10_000, bars: 4 });
+    // Un downbeat recién pasado todavía cuenta
+    expect(construirLoop(2010, 1, grid, 120)).toEqual({ startMs: 2000, endMs: 4000, bars: 1 });
+  });
+
+  it('extrapola con el BPM si el grid se acaba', () => {
+    expect(construirLoop(7000, 4, grid, 120)).toEqual({ startMs: 8000, endMs: 16_000, bars: 4 });
+    expect(construirLoop(7000, 4, grid, null)).toBeNull();
+  });
+
+  it('sin grid usa el BPM desde la posición actual', () => {
+    expect(construirLoop(500, 1, [], 120)).toEqual({ startMs: 500, endMs: 2500, bars: 1 });
+    expect(construirLoop(500, 1, [], undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  cargarMigraciones,
+  crearTablaSqlite,
+  MigracionError,
+  traducirMigracionesSqlite,
+} from '@/lib/db-migrations';
+
+describe('traducirMigracionesSqlite', () => {
+  it('genera un esquema que SQLite acepta con todas las tablas de las migraciones', () => {
+    const esquema = traducirMigracionesSqlite();
+    const db = new Database(':memory:');
+    for (const tabla of esquema.tablas) db.exec(crearTablaSqlite(tabla));
+    for (const indice of esquema.indices) db.exec(indice);
+
+    const tablas = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all()
+      .map((fila: any) => fila.name);
+    expect(tablas).toEqual(expect.arrayContaining([
+      'canciones_analizadas', 'transiciones_calculadas', 'analysis_jobs',
+      'archivos_biblioteca', 'versiones_analisis', 'formas_onda', 'sesiones_mix',
+    ]));
+    db.close();
+  });
+
+  it('incorpora las columnas de los ALTER TABLE a su tabla', () => {
+    const { tablas } = traducirMigracionesSqlite();
+    const jobs = tablas.find(t => t.nombre === 'analysis_jobs')!;
+    expect(jobs.columnas.get('stage')).toBe(`TEXT NOT NULL DEFAULT 'essentia'`);
+    expect(jobs.columnas.has('version_id')).toBe(true);
+  });
+
+  it('rechaza sentencias que no sabe traducir', () => {
+    const migraciones = cargarMigraciones().slice(0, 1).map(m => ({
+      ...m,
+      up: `${m.up}\nCREATE EXTENSION IF NOT EXISTS pgcrypto;`,
+    }));
+    expect(() => traducirMigracionesSqlite(migraciones)).toThrow(MigracionError);
+  });
+});
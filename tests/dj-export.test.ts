@@ -0,0 +1,153 @@
+import { createHash, randomBytes } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ColeccionDJ, PistaDJ } from '@/lib/dj-export';
+import { analisisDePrueba } from './fixtures/analisis';
+
+// Ida y vuelta completa sobre SQLite y un almacén de audio temporales (sin Postgres ni biblioteca)
+let directorio: string;
+let dj: typeof import('@/lib/dj-export');
+let rekordbox: typeof import('@/lib/dj-export-rekordbox');
+let traktor: typeof import('@/lib/dj-export-traktor');
+let serato: typeof import('@/lib/dj-export-serato');
+
+const CANCIONES = [
+  { titulo: 'Apertura', artista: 'Artista A', bpm: 122, camelot: '8A' },
+  { titulo: 'Subida', artista: 'Artista B', bpm: 126.5, camelot: '9A' },
+  { titulo: 'Cierre', artista: 'Artista C', bpm: 128, camelot: '9B' },
+];
+let hashes: string[] = [];
+
+function analisisFalso(bpm: number, camelot: string) {
+  const compasMs = 4 * 60000 / bpm;
+  const duracion_ms = 240_000;
+  return analisisDePrueba({
+    duracion_ms,
+    bpm,
+    tonalidad_camelot: camelot,
+    downbeats_ts_ms: Array.from({ length: Math.floor((duracion_ms - 200) / compasMs) }, (_, i) => Math.round(200 + i * compasMs)),
+  });
+}
+
+beforeAll(async () => {
+  directorio = await mkdtemp(join(tmpdir(), 'dj-export-'));
+  vi.stubEnv('DATABASE_URL', '');
+  vi.stubEnv('DB_DRIVER', 'sqlite');
+  vi.stubEnv('SQLITE_PATH', join(directorio, 'dj.db'));
+  vi.stubEnv('AUDIO_STORE_DIR', join(directorio, 'audio'));
+  vi.stubEnv('MUSIC_LIBRARY_DIR', '');
+  vi.stubEnv('ANALYSIS_WORKERS_DISABLED', '1');
+
+  // El driver y el directorio del almacén se leen al cargar los módulos
+  const { cacheAudioBuffer } = await import('@/lib/audio-cache');
+  const { guardarAnalisisEnDB } = await import('@/lib/db-persistence');
+  dj = await import('@/lib/dj-export');
+  rekordbox = await import('@/lib/dj-export-rekordbox');
+  traktor = await import('@/lib/dj-export-traktor');
+  serato = await import('@/lib/dj-export-serato');
+
+  for (const cancion of CANCIONES) {
+    const buffer = randomBytes(4096);
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    await cacheAudioBuffer({ hash, buffer, fileName: `${cancion.titulo}.mp3`, mimeType: 'audio/mpeg' });
+    await guardarAnalisisEnDB({
+      hash,
+      titulo: cancion.titulo,
+      artista: cancion.artista,
+      analisis: analisisFalso(cancion.bpm, cancion.camelot),
+      gemini: {
+        timeline: [
+          { inicio: '0:00', fin: '0:32', tipo_seccion: 'intro', has_vocals: false },
+          { inicio: '0:32', fin: '2:30', tipo_seccion: 'estribillo', has_vocals: true },
+          { inicio: '2:30', fin: '4:00', tipo_seccion: 'outro', has_vocals: false },
+        ],
+        loops_transicion: [{ texto: 'Loop del outro', inicio: '2:30', fin: '2:45' }],
+      },
+    });
+    hashes.push(hash);
+  }
+  // La sesión no va en el orden de guardado
+  hashes = [hashes[2], hashes[0], hashes[1]];
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(directorio, { recursive: true, force: true });
+});
+
+async function exportarSesion(): Promise<ColeccionDJ> {
+  const { coleccion, omitidas } = await dj.construirColeccionDJ({ hashes, lista: 'Sesión de prueba' });
+  expect(omitidas).toEqual([]);
+  return coleccion;
+}
+
+function comprobarPistas(pistas: PistaDJ[]) {
+  for (const pista of pistas) {
+    const original = CANCIONES.find(c => c.titulo === pista.titulo)!;
+    expect(pista.bpm).toBe(original.bpm);
+    expect(pista.grid[0].bpm).toBe(original.bpm);
+    expect(pista.tonalidad).toBe(original.camelot);
+    // Hot cues del planner, el loop guardado y las secciones como memory cues
+    expect(pista.marcas.some(m => m.tipo === 'cue' && m.hotCue !== null)).toBe(true);
+    expect(pista.marcas.filter(m => m.tipo === 'loop')).toEqual([
+      expect.objectContaining({ inicioMs: 150_000, finMs: 165_000 }),
+    ]);
+    expect(pista.marcas.filter(m => m.tipo === 'cue' && m.hotCue === null).map(m => m.inicioMs)).toEqual([0, 32_000, 150_000]);
+  }
+}
+
+describe('exportación a software DJ: ida y vuelta', () => {
+  it('Rekordbox conserva pistas, orden de la lista, cues y BPM', async () => {
+    const exportada = await exportarSesion();
+    comprobarPistas(exportada.pistas);
+
+    const importada = rekordbox.importarRekordbox(rekordbox.exportarRekordbox(exportada));
+    expect(await dj.resolverHashesColeccion(importada)).toEqual([]);
+    expect(importada).toEqual(exportada);
+    expect(importada.listas[0].ubicaciones.map(u => importada.pistas.find(p => p.ubicacion === u)!.hash)).toEqual(hashes);
+  });
+
+  it('Traktor conserva pistas, orden de la lista, cues y BPM', async () => {
+    const exportada = await exportarSesion();
+
+    const importada = traktor.importarTraktor(traktor.exportarTraktor(exportada));
+    expect(await dj.resolverHashesColeccion(importada)).toEqual([]);
+    expect(importada).toEqual(exportada);
+    expect(importada.listas[0].ubicaciones.map(u => importada.pistas.find(p => p.ubicacion === u)!.hash)).toEqual(hashes);
+  });
+
+  it('un crate de Serato conserva las pistas y su orden', async () => {
+    const exportada = await exportarSesion();
+
+    const importada = serato.importarSerato(serato.exportarSerato(exportada), 'Sesión de prueba');
+    expect(await dj.resolverHashesColeccion(importada)).toEqual([]);
+    expect(importada.listas).toEqual(exportada.listas);
+    expect(importada.pistas.map(p => p.hash)).toEqual(hashes);
+  });
+
+  it('rechaza un archivo que no es del formato', () => {
+    expect(() => serato.importarSerato(Buffer.from('no es un crate'), 'x')).toThrow(dj.ExportacionDJError);
+  });
+
+  it('rechaza un crate de Serato con texto UTF-16 de longitud impar', () => {
+    const vrsn = Buffer.alloc(11);
+    vrsn.write('vrsn', 0, 'ascii');
+    vrsn.writeUInt32BE(3, 4);
+    expect(() => serato.importarSerato(vrsn, 'x')).toThrow(dj.ExportacionDJError);
+  });
+});
+
+describe('tonalidades', () => {
+  it('convierte entre Camelot, notas y tonos', () => {
+    expect(dj.camelotANota('8A')).toBe('Am');
+    expect(dj.camelotANota('8B')).toBe('C');
+    expect(dj.tonalidadACamelot('Am')).toBe('8A');
+    expect(dj.tonalidadACamelot('8b')).toBe('8B');
+    for (const camelot of ['1A', '5B', '12A', '12B']) {
+      const tono = dj.camelotATono(camelot)!;
+      expect(dj.tonoACamelot(tono.tono, tono.menor)).toBe(camelot);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import type { AnalisisCompleto } from '@/lib/audio-analyzer-unified';
+
+// Análisis Essentia mínimo y bien tipado: lo que se guarda en BD más ceros en el resto
+export function analisisDePrueba(
+  datos: Pick<AnalisisCompleto, 'bpm' | 'tonalidad_camelot' | 'duracion_ms'> & Partial<AnalisisCompleto>
+): AnalisisCompleto {
+  return {
+    bpm_rango: { min: datos.bpm, max: datos.bpm },
+    bpm_candidatos: [],
+    tonalidad_compatible: [],
+    energia: 0.5,
+    bailabilidad: 0.8,
+    animo_general: 'neutral',
+    compas: { numerador: 4, denominador: 4 },
+    downbeats_ts_ms: [],
+    beats_ts_ms: [],
+    frases_ts_ms: [],
+    transientes_ritmicos_ts_ms: [],
+    ritmo_avanzado: { onset_rate: 0, beats_loudness: [], danceability: 0, transients_ts_ms: [] },
+    tonal_avanzado: { key: '', scale: '', key_strength: 0 },
+    loudness: {
+      integrated: 0,
+      momentary: [],
+      short_term: [],
+      dynamic_range: 0,
+      loudness_range: 0,
+      replay_gain_db: 0,
+    },
+    estructura: {
+      segmentos: [],
+      intro_duration_ms: 0,
+      outro_duration_ms: 0,
+      fade_in_duration_ms: 0,
+      fade_out_duration_ms: 0,
+    },
+    huella_chroma: null,
+    forma_onda: null,
+    ...datos,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { coincideEtag, parsearRango } from '@/lib/http-range';
+
+describe('parsearRango', () => {
+  it('interpreta rangos cerrados, abiertos y de sufijo', () => {
+    expect(parsearRango('bytes=0-1023', 5000)).toEqual({ inicio: 0, fin: 1023 });
+    expect(parsearRango('bytes=1024-', 5000)).toEqual({ inicio: 1024, fin: 4999 });
+    expect(parsearRango('bytes=-1000', 5000)).toEqual({ inicio: 4000, fin: 4999 });
+  });
+
+  it('recorta al tamaño del archivo', () => {
+    expect(parsearRango('bytes=100-99999', 5000)).toEqual({ inicio: 100, fin: 4999 });
+    expect(parsearRango('bytes=-99999', 5000)).toEqual({ inicio: 0, fin: 4999 });
+  });
+
+  it('marca como inválidos los rangos insatisfacibles (416)', () => {
+    expect(parsearRango('bytes=5000-', 5000)).toBe('invalido');
+    expect(parsearRango('bytes=200-100', 5000)).toBe('invalido');
+    expect(parsearRango('bytes=-', 5000)).toBe('invalido');
+    expect(parsearRango('bytes=-0', 5000)).toBe('invalido');
+    expect(parsearRango('bytes=-10', 0)).toBe('invalido');
+  });
+
+  it('ignora la cabecera si no hay o no se soporta (se sirve entero)', () => {
+    expect(parsearRango(null, 5000)).toBeNull();
+    expect(parsearRango('bytes=0-10,20-30', 5000)).toBeNull();
+    expect(parsearRango('items=0-10', 5000)).toBeNull();
+  });
+});
+
+describe('coincideEtag', () => {
+  it('acepta listas, ETags débiles y *', () => {
+    expect(coincideEtag('"a", "b"', '"b"')).toBe(true);
+    expect(coincideEtag('W/"b"', '"b"')).toBe(true);
+    expect(coincideEtag('*', '"b"')).toBe(true);
+    expect(coincideEtag('"a"', '"b"')).toBe(false);
+    expect(coincideEtag(null, '"b"')).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Filas de canciones_analizadas en memoria; sql.query ordena y pagina como Postgres
+// fecha_procesado va en microsegundos (timestamptz); al cliente llega como Date (ms)
+type Fila = Record<string, unknown> & { id: string };
+let filas: Fila[] = [];
+
+const microsegundos = (fecha: Date) => fecha.getTime() * 1000;
+
+// Valor de la expresión de orden con la semántica de SQL (NULL sin COALESCE)
+function evaluar(expr: string, fila: Fila): unknown {
+  const trunc = expr.match(/^date_trunc\('milliseconds', (.+)\)$/);
+  if (trunc) {
+    const valor = evaluar(trunc[1], fila) as number | null;
+    return valor === null ? null : Math.floor(valor / 1000) * 1000;
+  }
+  const coalesce = expr.match(/^COALESCE\((\w+), (.+)\)$/);
+  if (coalesce) {
+    const literal = coalesce[2].replace(/::\w+$/, '').replace(/^'(.*)'$/, '$1');
+    const valor = fila[coalesce[1]];
+    return valor ?? (literal === 'epoch' ? 0 : /^\d+$/.test(literal) ? Number(literal) : literal);
+  }
+  return fila[expr] ?? null;
+}
+
+// <0, 0, >0; null si algún lado es NULL (la comparación de filas da NULL)
+function comparar(a: unknown, b: unknown): number | null {
+  if (a === null || b === null) return null;
+  return a === b ? 0 : (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function consultaFalsa(texto: string, params: unknown[]) {
+  const [, expr, direccion] = texto.match(/ORDER BY (.+) (ASC|DESC), id/)!;
+  const signo = direccion === 'ASC' ? 1 : -1;
+  const limit = params[params.length - 1] as number;
+
+  let resultado = [...filas];
+  const keyset = texto.match(/\) ([<>]) \(\$\d+::(\w+), \$\d+::uuid\)/);
+  if (keyset) {
+    const [v, id] = params.slice(-3, -1) as [string | number, string];
+    const cursor = keyset[2] === 'timestamptz' ? microsegundos(new Date(v)) : v;
+    resultado = resultado.filter(fila => {
+      const c = comparar(evaluar(expr, fila), cursor);
+      if (c === null) return false;
+      const orden = c !== 0 ? c : comparar(fila.id, id)!;
+      return keyset[1] === '>' ? orden > 0 : orden < 0;
+    });
+  }
+
+  // Postgres: NULLS LAST en ASC y NULLS FIRST en DESC
+  resultado.sort((a, b) => {
+    const va = evaluar(expr, a);
+    const vb = evaluar(expr, b);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    return signo * (comparar(va, vb) || comparar(a.id, b.id)!);
+  });
+  return resultado.slice(0, limit).map(fila => ({
+    intro_sin_voz_s: null,
+    outro_sin_voz_s: null,
+    ...fila,
+    fecha_procesado: fila.fecha_procesado === null ? null : new Date(Math.floor(fila.fecha_procesado as number / 1000)),
+  }));
+}
+
+vi.mock('@/lib/db', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/db')>(),
+  sql: { query: vi.fn(async (texto: string, params: unknown[]) => consultaFalsa(texto, params)) },
+}));
+
+import { consultarBiblioteca, CursorInvalidoError, type LibrarySort, type SortOrder } from '@/lib/library-query';
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+async function recorrer(sort: LibrarySort, order: SortOrder, limit: number): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  for (let paginas = 0; paginas < 50; paginas++) {
+    const pagina = await consultarBiblioteca({ sort, order, limit, cursor });
+    ids.push(...pagina.tracks.map(t => t.id));
+    cursor = pagina.nextCursor;
+    if (!cursor) return ids;
+  }
+  throw new Error('La paginación no termina');
+}
+
+describe('consultarBiblioteca: paginación por cursor', () => {
+  beforeEach(() => {
+    filas = Array.from({ length: 9 }, (_, i) => ({
+      id: uuid(i + 1),
+      titulo: `Canción ${i + 1}`,
+      duracion_ms: 180_000 + i * 1000,
+      // Sin análisis completo: bpm y bailabilidad a NULL en un tercio de la biblioteca
+      bpm: i % 3 === 0 ? null : 120 + (i % 4),
+      bailabilidad: i % 3 === 1 ? null : 0.5,
+      artista: i % 2 === 0 ? null : `Artista ${i % 3}`,
+      anio: i % 4 === 0 ? null : 2000 + i,
+      fecha_procesado: i % 5 === 0 ? null : microsegundos(new Date(Date.UTC(2024, 0, 1 + i))),
+    }));
+  });
+
+  for (const sort of ['bpm', 'bailabilidad', 'artista', 'anio', 'fecha', 'titulo'] as LibrarySort[]) {
+    for (const order of ['asc', 'desc'] as SortOrder[]) {
+      it(`recorre todas las canciones una sola vez (${sort} ${order}, con NULL)`, async () => {
+        const ids = await recorrer(sort, order, 2);
+        expect(ids).toHaveLength(filas.length);
+        expect(new Set(ids).size).toBe(filas.length);
+      });
+    }
+  }
+
+  it('las canciones sin bpm van juntas al principio en orden ascendente', async () => {
+    const ids = await recorrer('bpm', 'asc', 2);
+    const sinBpm = filas.filter(f => f.bpm === null).map(f => f.id);
+    expect(ids.slice(0, sinBpm.length)).toEqual(sinBpm);
+  });
+
+  it('no repite ni salta canciones analizadas en el mismo milisegundo', async () => {
+    const base = microsegundos(new Date(Date.UTC(2024, 5, 1)));
+    filas = [
+      { id: uuid(1), titulo: 'Uno', duracion_ms: 1, fecha_procesado: base + 100 },
+      { id: uuid(2), titulo: 'Dos', duracion_ms: 1, fecha_procesado: base + 900 },
+      { id: uuid(3), titulo: 'Tres', duracion_ms: 1, fecha_procesado: base + 500 },
+    ];
+    for (const order of ['asc', 'desc'] as SortOrder[]) {
+      const ids = await recorrer('fecha', order, 1);
+      expect([...ids].sort()).toEqual(filas.map(f => f.id));
+    }
+  });
+
+  it('rechaza un cursor ilegible o de otra ordenación', async () => {
+    await expect(consultarBiblioteca({ sort: 'bpm', order: 'asc', limit: 2, cursor: 'no-es-un-cursor' }))
+      .rejects.toBeInstanceOf(CursorInvalidoError);
+
+    const { nextCursor } = await consultarBiblioteca({ sort: 'bpm', order: 'asc', limit: 2 });
+    await expect(consultarBiblioteca({ sort: 'bpm', order: 'desc', limit: 2, cursor: nextCursor }))
+      .rejects.toThrow(/otra ordenación/);
+  });
+});
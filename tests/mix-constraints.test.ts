@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compilarRestricciones,
+  evaluarRestricciones,
+  isSequenceConstraints,
+  puedeColocar,
+} from '@/lib/mix-constraints';
+import type { CancionAnalizada } from '@/lib/db';
+
+const cancion = (hash: string, tonalidad: string) =>
+  ({ hash_archivo: hash, titulo: `Canción ${hash}`, tonalidad_camelot: tonalidad }) as CancionAnalizada;
+
+const CRATE = [cancion('a', '8A'), cancion('b', '8A'), cancion('c', '8A'), cancion('d', '9A'), cancion('e', '10A')];
+
+describe('isSequenceConstraints', () => {
+  it('valida la forma de cada restricción', () => {
+    expect(isSequenceConstraints({ pinned: [{ hash: 'a', position: 0 }], neverAdjacent: [['a', 'b']], maxSameKeyRun: 2 })).toBe(true);
+    expect(isSequenceConstraints({ pinned: [{ hash: 'a', position: -1 }] })).toBe(false);
+    expect(isSequenceConstraints({ neverAdjacent: [['a']] })).toBe(false);
+    expect(isSequenceConstraints({ maxSameKeyRun: 0 })).toBe(false);
+    expect(isSequenceConstraints(null)).toBe(false);
+  });
+});
+
+describe('compilarRestricciones', () => {
+  it('resuelve hashes a índices y fija el cierre en la última posición', () => {
+    const c = compilarRestricciones(
+      { pinned: [{ hash: 'b', position: 0 }], closingTrackHash: 'e', mustInclude: ['d'], neverAdjacent: [['a', 'c']] },
+      CRATE,
+      4
+    );
+    expect([...c.pinnedByPosition]).toEqual([[3, 4], [0, 1]]);
+    expect(c.required.sort()).toEqual([1, 3, 4]);
+    expect(c.forbiddenPairs).toEqual(new Set(['0:2', '2:0']));
+    expect(c.warnings).toEqual([]);
+  });
+
+  it('descarta con aviso lo que no se puede cumplir', () => {
+    const c = compilarRestricciones(
+      {
+        pinned: [{ hash: 'a', position: 0 }, { hash: 'b', position: 0 }, { hash: 'c', position: 9 }, { hash: 'zz', position: 1 }],
+        mustInclude: ['d', 'e', 'otra'],
+      },
+      CRATE,
+      2
+    );
+    expect(c.pinnedByPosition.get(0)).toBe(0);
+    expect(c.warnings).toHaveLength(5);
+    expect(c.required).toHaveLength(2);
+    expect(c.required[0]).toBe(0);
+  });
+});
+
+describe('puedeColocar', () => {
+  it('respeta fijados, pares prohibidos, racha de tonalidad y huecos para obligatorios', () => {
+    const c = compilarRestricciones(
+      { pinned: [{ hash: 'e', position: 2 }], neverAdjacent: [['a', 'd']], maxSameKeyRun: 2, mustInclude: ['d'] },
+      CRATE,
+      3
+    );
+    const usados = new Uint8Array(CRATE.length);
+
+    // La posición 2 es de "e"; "e" no puede ir en otra
+    expect(puedeColocar(c, CRATE, 0, 2, 1, 1, usados, 3)).toBe(false);
+    expect(puedeColocar(c, CRATE, 4, 1, 0, 1, usados, 3)).toBe(false);
+    // a → d prohibido
+    expect(puedeColocar(c, CRATE, 3, 1, 0, 1, usados, 3)).toBe(false);
+    // Tercera seguida en 8A
+    expect(puedeColocar(c, CRATE, 2, 1, 1, 2, usados, 3)).toBe(false);
+    // "b" en la posición 1 deja sin hueco a "d" (la 2 es de "e")
+    expect(puedeColocar(c, CRATE, 1, 1, 2, 1, usados, 3)).toBe(false);
+    usados[0] = 1;
+    expect(puedeColocar(c, CRATE, 3, 1, 1, 1, usados, 3)).toBe(true);
+  });
+});
+
+describe('evaluarRestricciones', () => {
+  it('lista lo que el set final no cumple', () => {
+    const set = [CRATE[0], CRATE[1], CRATE[2], CRATE[3]];
+    const avisos = evaluarRestricciones(
+      {
+        pinned: [{ hash: 'a', position: 0 }, { hash: 'd', position: 1 }],
+        closingTrackHash: 'e',
+        mustInclude: ['e'],
+        neverAdjacent: [['c', 'b']],
+        maxSameKeyRun: 2,
+      },
+      set
+    );
+    expect(avisos).toHaveLength(5);
+    expect(avisos.join('\n')).toMatch(/posición 1/);
+    expect(avisos.join('\n')).toMatch(/cerrar el set/);
+    expect(avisos.join('\n')).toMatch(/van seguidos/);
+    expect(avisos.join('\n')).toMatch(/más de 2 tracks seguidos en 8A/);
+  });
+
+  it('un set que cumple todo no da avisos', () => {
+    expect(evaluarRestricciones({ pinned: [{ hash: 'a', position: 0 }], maxSameKeyRun: 3 }, CRATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  desplazarTonalidad,
+  evaluarArmonia,
+  isHarmonicOptions,
+  parseCamelot,
+  relacionCamelot,
+  semitonosPorRatio,
+  tonalidadesCompatibles,
+} from '@/lib/mix-harmonic';
+
+describe('parseCamelot', () => {
+  it('acepta 1-12 A/B sin distinguir mayúsculas', () => {
+    expect(parseCamelot(' 8a ')).toEqual({ number: 8, letter: 'A' });
+    expect(parseCamelot('12B')).toEqual({ number: 12, letter: 'B' });
+    expect(parseCamelot('13A')).toBeNull();
+    expect(parseCamelot('Am')).toBeNull();
+    expect(parseCamelot(null)).toBeNull();
+  });
+});
+
+describe('relacionCamelot', () => {
+  it.each([
+    ['8A', '8A', 'SAME'],
+    ['8A', '9A', 'ADJACENT'],
+    ['1A', '12A', 'ADJACENT'],
+    ['8A', '8B', 'RELATIVE'],
+    ['8A', '9B', 'DIAGONAL'],
+    ['8B', '7A', 'DIAGONAL'],
+    ['8A', '10A', 'ENERGY_BOOST'],
+    ['8A', '3A', 'SEMITONE_JUMP'],
+    ['8A', '1A', 'SEMITONE_JUMP'],
+    ['8A', '5B', 'CLASH'],
+    ['8A', null, 'UNKNOWN'],
+  ])('%s → %s es %s', (a, b, relacion) => {
+    expect(relacionCamelot(a, b)).toBe(relacion);
+  });
+});
+
+describe('desplazamiento de tono por tempo', () => {
+  it('un semitono arriba son 7 posiciones en la rueda', () => {
+    expect(semitonosPorRatio(2 ** (1 / 12))).toBeCloseTo(1);
+    expect(desplazarTonalidad('8A', 1)).toBe('3A');
+    expect(desplazarTonalidad('8A', -1)).toBe('1A');
+    expect(desplazarTonalidad('8A', 0.4)).toBe('8A');
+    expect(desplazarTonalidad('no', 1)).toBe('no');
+  });
+});
+
+describe('tonalidadesCompatibles', () => {
+  it('por defecto: misma, ±1 y relativa', () => {
+    expect(tonalidadesCompatibles('8A').sort()).toEqual(['7A', '8A', '8B', '9A']);
+    expect(tonalidadesCompatibles('x')).toEqual([]);
+  });
+});
+
+describe('evaluarArmonia', () => {
+  it('evalúa la tonalidad efectiva de B tras igualar el tempo', () => {
+    // B a 120 sobre A a 127.1 sube ~1 semitono: 8A suena como 3A
+    const evaluacion = evaluarArmonia({ bpm: 127.1, tonalidad_camelot: '3A' }, { bpm: 120, tonalidad_camelot: '8A' });
+    expect(evaluacion.effectiveKeyB).toBe('3A');
+    expect(evaluacion.relation).toBe('SAME');
+    expect(evaluacion.semitoneShift).toBeCloseTo(1, 1);
+  });
+
+  it('penaliza la desafinación residual y respeta los pesos propios', () => {
+    const justo = evaluarArmonia({ bpm: 120, tonalidad_camelot: '8A' }, { bpm: 120, tonalidad_camelot: '8A' });
+    const desafinado = evaluarArmonia({ bpm: 120, tonalidad_camelot: '8A' }, { bpm: 117, tonalidad_camelot: '8A' });
+    expect(justo.score).toBe(100);
+    expect(desafinado.detuneCents).toBeGreaterThan(0);
+    expect(desafinado.score).toBeLessThan(100);
+
+    const propio = evaluarArmonia(
+      { bpm: 120, tonalidad_camelot: '8A' },
+      { bpm: 120, tonalidad_camelot: '5B' },
+      { weights: { CLASH: 0 } }
+    );
+    expect(propio).toMatchObject({ relation: 'CLASH', score: 0 });
+  });
+});
+
+describe('isHarmonicOptions', () => {
+  it('valida los pesos y rechaza opciones desconocidas', () => {
+    expect(isHarmonicOptions({ weights: { SAME: 90 } })).toBe(true);
+    // El reproductor no tiene key lock: no se acepta una opción que no puede cumplir
+    expect(isHarmonicOptions({ keyLock: true })).toBe(false);
+    expect(isHarmonicOptions({ weights: { OTRA: 10 } })).toBe(false);
+    // Claves heredadas de Object.prototype no son relaciones Camelot
+    expect(isHarmonicOptions({ weights: { toString: 50 } })).toBe(false);
+    expect(isHarmonicOptions({ weights: JSON.parse('{"__proto__": 50}') })).toBe(false);
+    expect(isHarmonicOptions({ weights: { SAME: 150 } })).toBe(false);
+    expect(isHarmonicOptions([])).toBe(false);
+  });
+});
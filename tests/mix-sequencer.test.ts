@@ -0,0 +1,80 @@
+import { beforeAll, afterAll, describe, expect, it, vi } from 'vitest';
+import type { CancionAnalizada } from '@/lib/db';
+import type { MixPlanEntry } from '@/lib/mix-planner';
+import { findOptimalSequence, type SequencerOptions } from '@/lib/mix-sequencer';
+
+// Crates sin timeline: la transición puntúa solo por BPM y armonía
+function cancion(i: number, bpm: number, tonalidad: string, artista: string | null = null): CancionAnalizada {
+  return {
+    id: `t${i}`,
+    hash_archivo: `h${i}`,
+    titulo: `Canción ${i}`,
+    duracion_ms: 200_000,
+    bpm,
+    tonalidad_camelot: tonalidad,
+    tonalidad_compatible: null,
+    bailabilidad: null,
+    compas: null,
+    downbeats_ts_ms: null,
+    beats_ts_ms: null,
+    frases_ts_ms: null,
+    timeline: null,
+    loops_transicion: null,
+    artista,
+    fecha_procesado: new Date(0),
+  };
+}
+
+function secuenciar(tracks: CancionAnalizada[], options: SequencerOptions) {
+  const planes = new Map(tracks.map((t): [string, MixPlanEntry] => [t.id, {
+    trackId: t.id,
+    hash: t.hash_archivo,
+    title: t.titulo,
+    durationMs: t.duracion_ms,
+    bestEntryPoints: [],
+    bestExitPoints: [],
+  }]));
+  return findOptimalSequence(tracks, planes, tracks.length, tracks[0].id, options);
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe('findOptimalSequence: poda de estados repetidos', () => {
+  it('no descarta el camino caro si el barato llega con una racha de tonalidad más larga', () => {
+    // t0 → t3 → t1 → t4 llega al mismo estado que t0 → t1 → t3 → t4 con menos coste,
+    // pero acaba con dos 9A seguidos: t2 (9A) ya no cabe detrás y el set sale peor
+    const crate = [
+      cancion(0, 125, '8B'),
+      cancion(1, 130, '9A'),
+      cancion(2, 121, '9A'),
+      cancion(3, 128, '8B'),
+      cancion(4, 120, '9A'),
+    ];
+    const set = secuenciar(crate, { constraints: { maxSameKeyRun: 2 } });
+
+    expect(set.tracks.map(t => t.track.id)).toEqual(['t0', 't1', 't3', 't4', 't2']);
+    expect(set.tracks.map(t => t.transitionScore ?? 0).reduce((a, b) => a + b)).toBe(113);
+  });
+
+  it('no fusiona caminos con distinta historia reciente de artistas', () => {
+    // t0 → t2 → t3 → t1 llega a los mismos usados que t0 → t3 → t2 → t1 con menos coste,
+    // pero deja a t3 (Artista B) justo antes: cerrar con t4 (también B) se penaliza
+    const crate = [
+      cancion(0, 131, '3A', 'Artista A'),
+      cancion(1, 126, '10A', 'Artista A'),
+      cancion(2, 124, '10A', 'Artista C'),
+      cancion(3, 125, '10A', 'Artista B'),
+      cancion(4, 128, '10A', 'Artista B'),
+    ];
+    const set = secuenciar(crate, { variety: { minArtistGap: 2, artistPenalty: 43 } });
+
+    expect(set.tracks.map(t => t.track.id)).toEqual(['t0', 't3', 't2', 't1', 't4']);
+    expect(set.variety?.artistRepeats).toEqual([]);
+  });
+});